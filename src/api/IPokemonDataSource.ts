@@ -0,0 +1,95 @@
+import type {
+  Pokemon,
+  PokemonSpecies,
+  PokemonForm,
+  EvolutionChain,
+  PokemonListResponse,
+  Ability,
+  Move,
+  Type,
+  EggGroup,
+  Gender,
+} from './types.js';
+
+/**
+ * Thrown by a data source when a resource does not exist
+ */
+export class NotFoundError extends Error {
+  constructor(
+    public readonly resource: string,
+    public readonly key: string | number,
+    message = `${resource} "${key}" not found`,
+  ) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Source of raw PokeAPI-shaped data
+ *
+ * Implemented by the PokeAPI client (network + disk cache) and by
+ * ApiDumpDataSource (a local api-data JSON dump), so services and
+ * repositories can run against either.
+ */
+export interface IPokemonDataSource {
+  /**
+   * Get a list of all Pokemon with pagination
+   */
+  getPokemonList(limit?: number, offset?: number): Promise<PokemonListResponse>;
+
+  /**
+   * Get detailed Pokemon data by name or ID
+   */
+  getPokemon(nameOrId: string | number): Promise<Pokemon>;
+
+  /**
+   * Get Pokemon species data by name or ID
+   */
+  getPokemonSpecies(nameOrId: string | number): Promise<PokemonSpecies>;
+
+  /**
+   * Get Pokemon form data (e.g. "wooper-paldea") by name or ID
+   */
+  getPokemonForm(nameOrId: string | number): Promise<PokemonForm>;
+
+  /**
+   * Get evolution chain data by ID
+   */
+  getEvolutionChain(id: number): Promise<EvolutionChain>;
+
+  /**
+   * Get evolution chain ID from species URL
+   */
+  extractEvolutionChainId(url: string): number;
+
+  /**
+   * Get ability details by name or ID
+   */
+  getAbility(nameOrId: string | number): Promise<Ability>;
+
+  /**
+   * Get move details by name or ID
+   */
+  getMove(nameOrId: string | number): Promise<Move>;
+
+  /**
+   * Get type details (including every Pokemon of that type) by name or ID
+   */
+  getType(nameOrId: string | number): Promise<Type>;
+
+  /**
+   * Get egg group details (including every species in it) by name or ID
+   */
+  getEggGroup(nameOrId: string | number): Promise<EggGroup>;
+
+  /**
+   * Get a gender (including every species that can have it) by name or ID
+   */
+  getGender(nameOrId: string | number): Promise<Gender>;
+
+  /**
+   * Check whether every request is served from local data, never the network
+   */
+  isLocal(): boolean;
+}
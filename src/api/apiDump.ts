@@ -0,0 +1,228 @@
+import { readFile, access } from 'fs/promises';
+import { join } from 'path';
+import type {
+  Pokemon,
+  PokemonSpecies,
+  PokemonForm,
+  EvolutionChain,
+  PokemonListResponse,
+  Ability,
+  Move,
+  Type,
+  EggGroup,
+  Gender,
+} from './types.js';
+import {
+  NotFoundError,
+  type IPokemonDataSource,
+} from './IPokemonDataSource.js';
+
+/**
+ * Resources whose list index is used to resolve names to IDs
+ */
+type NamedResource =
+  | 'pokemon'
+  | 'pokemon-species'
+  | 'pokemon-form'
+  | 'ability'
+  | 'move'
+  | 'type'
+  | 'egg-group'
+  | 'gender';
+
+/**
+ * Data source reading a local copy of the PokeAPI api-data JSON dump
+ *
+ * Expects the public layout, e.g. `api/v2/pokemon/25/index.json`.
+ * The directory may point at the repository root (`data/api/v2`),
+ * its `data` folder (`api/v2`), or the `api/v2` folder itself.
+ */
+export class ApiDumpDataSource implements IPokemonDataSource {
+  private dataDir: string;
+  private baseDir?: Promise<string>;
+  private nameIndexes = new Map<NamedResource, Promise<Map<string, number>>>();
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * Always true: everything is read from the data directory
+   */
+  isLocal(): boolean {
+    return true;
+  }
+
+  /**
+   * Get a list of all Pokemon with pagination
+   */
+  async getPokemonList(limit: number = 100000, offset: number = 0): Promise<PokemonListResponse> {
+    const list = await this.readJson<PokemonListResponse>(['pokemon']);
+    const results = list.results.slice(offset, offset + limit);
+    return {
+      count: list.results.length,
+      next: null,
+      previous: null,
+      results,
+    };
+  }
+
+  /**
+   * Get detailed Pokemon data by name or ID
+   */
+  async getPokemon(nameOrId: string | number): Promise<Pokemon> {
+    return this.readResource<Pokemon>('pokemon', nameOrId);
+  }
+
+  /**
+   * Get Pokemon species data by name or ID
+   */
+  async getPokemonSpecies(nameOrId: string | number): Promise<PokemonSpecies> {
+    return this.readResource<PokemonSpecies>('pokemon-species', nameOrId);
+  }
+
+  /**
+   * Get Pokemon form data by name or ID
+   */
+  async getPokemonForm(nameOrId: string | number): Promise<PokemonForm> {
+    return this.readResource<PokemonForm>('pokemon-form', nameOrId);
+  }
+
+  /**
+   * Get evolution chain data by ID
+   */
+  async getEvolutionChain(id: number): Promise<EvolutionChain> {
+    return this.readJson<EvolutionChain>(['evolution-chain', String(id)]);
+  }
+
+  /**
+   * Get evolution chain ID from species URL (dump URLs are host-relative)
+   */
+  extractEvolutionChainId(url: string): number {
+    const matches = url.match(/\/evolution-chain\/(\d+)\/?$/);
+    if (!matches || !matches[1]) {
+      throw new Error(`Could not extract evolution chain ID from URL: ${url}`);
+    }
+    return parseInt(matches[1], 10);
+  }
+
+  /**
+   * Get ability details by name or ID
+   */
+  async getAbility(nameOrId: string | number): Promise<Ability> {
+    return this.readResource<Ability>('ability', nameOrId);
+  }
+
+  /**
+   * Get move details by name or ID
+   */
+  async getMove(nameOrId: string | number): Promise<Move> {
+    return this.readResource<Move>('move', nameOrId);
+  }
+
+  /**
+   * Get type details (including every Pokemon of that type) by name or ID
+   */
+  async getType(nameOrId: string | number): Promise<Type> {
+    return this.readResource<Type>('type', nameOrId);
+  }
+
+  /**
+   * Get egg group details (including every species in it) by name or ID
+   */
+  async getEggGroup(nameOrId: string | number): Promise<EggGroup> {
+    return this.readResource<EggGroup>('egg-group', nameOrId);
+  }
+
+  /**
+   * Get a gender (including every species that can have it) by name or ID
+   */
+  async getGender(nameOrId: string | number): Promise<Gender> {
+    return this.readResource<Gender>('gender', nameOrId);
+  }
+
+  /**
+   * Read a resource by ID, resolving names through the resource's list index
+   */
+  private async readResource<T>(resource: NamedResource, nameOrId: string | number): Promise<T> {
+    const key = String(nameOrId).toLowerCase();
+    let id = /^\d+$/.test(key) ? parseInt(key, 10) : undefined;
+
+    if (id === undefined) {
+      const index = await this.getNameIndex(resource);
+      id = index.get(key);
+      if (id === undefined) {
+        throw new NotFoundError(
+          resource,
+          nameOrId,
+          `${resource} "${nameOrId}" not found in data directory ${this.dataDir}`,
+        );
+      }
+    }
+
+    return this.readJson<T>([resource, String(id)]);
+  }
+
+  /**
+   * Build (once) a name → ID map from a resource's list index
+   */
+  private getNameIndex(resource: NamedResource): Promise<Map<string, number>> {
+    let index = this.nameIndexes.get(resource);
+    if (!index) {
+      index = this.readJson<PokemonListResponse>([resource]).then((list) => {
+        const map = new Map<string, number>();
+        for (const entry of list.results) {
+          const matches = entry.url.match(/\/(\d+)\/?$/);
+          if (matches) {
+            map.set(entry.name, parseInt(matches[1], 10));
+          }
+        }
+        return map;
+      });
+      this.nameIndexes.set(resource, index);
+    }
+    return index;
+  }
+
+  private async readJson<T>(segments: string[]): Promise<T> {
+    const file = join(await this.resolveBaseDir(), ...segments, 'index.json');
+    try {
+      return JSON.parse(await readFile(file, 'utf-8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        const message = `${segments.join('/')} not found in data directory ${this.dataDir}`;
+        // A missing resource, as opposed to a missing list index
+        if (segments.length > 1) {
+          throw new NotFoundError(segments[0], segments[1], message);
+        }
+        throw new Error(message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Locate the `api/v2` folder inside the configured directory
+   */
+  private resolveBaseDir(): Promise<string> {
+    if (!this.baseDir) {
+      this.baseDir = (async () => {
+        const candidates = [
+          join(this.dataDir, 'data', 'api', 'v2'),
+          join(this.dataDir, 'api', 'v2'),
+          this.dataDir,
+        ];
+        for (const candidate of candidates) {
+          try {
+            await access(join(candidate, 'pokemon', 'index.json'));
+            return candidate;
+          } catch {
+            // Try the next layout
+          }
+        }
+        throw new Error(`No PokeAPI data found in ${this.dataDir} (expected api/v2/pokemon/index.json)`);
+      })();
+    }
+    return this.baseDir;
+  }
+}
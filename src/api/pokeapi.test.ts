@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PokeAPI, NotCachedError } from './pokeapi.js';
+import { NotFoundError } from './IPokemonDataSource.js';
+import { DiskCache } from '../utils/diskCache.js';
+
+const client = vi.hoisted(() => ({
+  getPokemonByName: vi.fn(),
+}));
+
+vi.mock('pokedex-promise-v2', () => ({
+  default: vi.fn(function () {
+    return client;
+  }),
+}));
+
+const TTL = 1000;
+const PIKACHU = { id: 25, name: 'pikachu', base_experience: 112 };
+
+describe('PokeAPI', () => {
+  let dir: string;
+  let diskCache: DiskCache;
+  let api: PokeAPI;
+
+  /**
+   * Move the clock past the disk cache TTL
+   */
+  function expireEntries(): void {
+    vi.setSystemTime(Date.now() + TTL * 2);
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    dir = await mkdtemp(join(tmpdir(), 'poclidex-pokeapi-'));
+    diskCache = new DiskCache(dir, TTL);
+    api = new PokeAPI(diskCache);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('online', () => {
+    it('should fetch and store missing entries', async () => {
+      client.getPokemonByName.mockResolvedValue(PIKACHU);
+
+      expect(await api.getPokemon('pikachu')).toEqual(PIKACHU);
+      expect(await diskCache.get('pokemon', 'pikachu')).toEqual(PIKACHU);
+    });
+
+    it('should serve fresh entries without a request', async () => {
+      await diskCache.set('pokemon', 'pikachu', PIKACHU);
+
+      expect(await api.getPokemon('pikachu')).toEqual(PIKACHU);
+      expect(client.getPokemonByName).not.toHaveBeenCalled();
+    });
+
+    it('should store entries under their ID as well as their name', async () => {
+      client.getPokemonByName.mockResolvedValue(PIKACHU);
+
+      await api.getPokemon('pikachu');
+      expect(await api.getPokemon(25)).toEqual(PIKACHU);
+
+      expect(await diskCache.get('pokemon', '25')).toEqual(PIKACHU);
+      expect(client.getPokemonByName).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store entries under their name when fetched by ID', async () => {
+      client.getPokemonByName.mockResolvedValue(PIKACHU);
+
+      await api.getPokemon(25);
+
+      expect(await diskCache.get('pokemon', 'pikachu')).toEqual(PIKACHU);
+    });
+
+    it('should refetch expired entries', async () => {
+      await diskCache.set('pokemon', 'pikachu', PIKACHU);
+      expireEntries();
+      const updated = { ...PIKACHU, base_experience: 120 };
+      client.getPokemonByName.mockResolvedValue(updated);
+
+      expect(await api.getPokemon('pikachu')).toEqual(updated);
+      expect(await diskCache.get('pokemon', '25')).toEqual(updated);
+    });
+
+    it('should fall back to an expired entry when the request fails', async () => {
+      await diskCache.set('pokemon', 'pikachu', PIKACHU);
+      expireEntries();
+      client.getPokemonByName.mockRejectedValue(new Error('ECONNRESET'));
+
+      expect(await api.getPokemon('pikachu')).toEqual(PIKACHU);
+      expect(client.getPokemonByName).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow request errors when nothing is cached', async () => {
+      client.getPokemonByName.mockRejectedValue(new Error('ECONNRESET'));
+
+      await expect(api.getPokemon('pikachu')).rejects.toThrow('ECONNRESET');
+    });
+
+    it('should report unknown names as NotFoundError', async () => {
+      client.getPokemonByName.mockRejectedValue({ response: { status: 404 } });
+
+      const error = await api.getPokemon('missingno').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toMatchObject({ resource: 'pokemon', key: 'missingno' });
+    });
+  });
+
+  describe('offline', () => {
+    beforeEach(() => {
+      api.setOfflineMode(true);
+    });
+
+    it('should serve cached entries even when expired', async () => {
+      await diskCache.set('pokemon', 'pikachu', PIKACHU);
+      expireEntries();
+
+      expect(await api.getPokemon('pikachu')).toEqual(PIKACHU);
+      expect(client.getPokemonByName).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotCachedError for entries never cached', async () => {
+      const error = await api.getPokemon('pikachu').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NotCachedError);
+      expect(error).toMatchObject({ resource: 'pokemon', key: 'pikachu' });
+      expect(client.getPokemonByName).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotCachedError without a disk cache', async () => {
+      api = new PokeAPI(null);
+      api.setOfflineMode(true);
+
+      await expect(api.getPokemon('pikachu')).rejects.toBeInstanceOf(NotCachedError);
+      expect(client.getPokemonByName).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,11 +2,17 @@ import Pokedex from 'pokedex-promise-v2';
 import type {
   Pokemon,
   PokemonSpecies,
+  PokemonForm,
   EvolutionChain,
   PokemonListResponse,
   Ability,
   Move,
+  Type,
+  EggGroup,
+  Gender,
 } from './types.js';
+import { NotFoundError, type IPokemonDataSource } from './IPokemonDataSource.js';
+import { DiskCache } from '../utils/diskCache.js';
 
 // Initialize the Pokedex API client
 const P = new Pokedex({
@@ -15,37 +21,124 @@ const P = new Pokedex({
   timeout: 10 * 1000, // 10 seconds
 });
 
-export class PokeAPI {
+/**
+ * Resource namespaces used for disk caching and local snapshots
+ */
+export type ApiResource =
+  | 'pokemon-list'
+  | 'pokemon'
+  | 'pokemon-species'
+  | 'pokemon-form'
+  | 'evolution-chain'
+  | 'ability'
+  | 'move'
+  | 'type'
+  | 'egg-group'
+  | 'gender';
+
+/**
+ * Thrown in offline mode when a resource has never been cached on disk
+ */
+export class NotCachedError extends Error {
+  constructor(
+    public readonly resource: ApiResource,
+    public readonly key: string | number,
+  ) {
+    super(`${resource} "${key}" is not available in the offline cache`);
+    this.name = 'NotCachedError';
+  }
+}
+
+export class PokeAPI implements IPokemonDataSource {
+  private diskCache: DiskCache | null;
+  private snapshot?: DiskCache;
+  private offline = false;
+
+  /**
+   * @param diskCache - Cache for raw responses, or null to always hit the network
+   */
+  constructor(diskCache: DiskCache | null = new DiskCache()) {
+    this.diskCache = diskCache;
+  }
+
+  /**
+   * Serve resources from a local snapshot (see `poclidex data sync`) before
+   * consulting the disk cache or the network
+   */
+  useSnapshot(snapshot: DiskCache | undefined): void {
+    this.snapshot = snapshot;
+  }
+
+  /**
+   * Enable or disable offline mode (serve exclusively from the disk cache)
+   */
+  setOfflineMode(offline: boolean): void {
+    this.offline = offline;
+  }
+
+  /**
+   * Check if offline mode is enabled
+   */
+  isOfflineMode(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Check whether requests stay local: in offline mode, or with a snapshot
+   * (only completed snapshots are used, so they hold every resource)
+   */
+  isLocal(): boolean {
+    return this.offline || this.snapshot !== undefined;
+  }
+
   /**
    * Get a list of all Pokemon with pagination
    */
   async getPokemonList(limit: number = 100000, offset: number = 0): Promise<PokemonListResponse> {
-    const response = await P.getPokemonsList({ limit, offset });
-    return response as PokemonListResponse;
+    return this.cached('pokemon-list', `${limit}-${offset}`, async () => {
+      const response = await P.getPokemonsList({ limit, offset });
+      return response as PokemonListResponse;
+    });
   }
 
   /**
    * Get detailed Pokemon data by name or ID
    */
   async getPokemon(nameOrId: string | number): Promise<Pokemon> {
-    const pokemon = await P.getPokemonByName(nameOrId);
-    return pokemon as Pokemon;
+    return this.cached('pokemon', nameOrId, async () => {
+      const pokemon = await P.getPokemonByName(nameOrId);
+      return pokemon as Pokemon;
+    });
   }
 
   /**
    * Get Pokemon species data (includes evolution chain reference, Pokedex entries, etc.)
    */
   async getPokemonSpecies(nameOrId: string | number): Promise<PokemonSpecies> {
-    const species = await P.getPokemonSpeciesByName(nameOrId);
-    return species as unknown as PokemonSpecies;
+    return this.cached('pokemon-species', nameOrId, async () => {
+      const species = await P.getPokemonSpeciesByName(nameOrId);
+      return species as unknown as PokemonSpecies;
+    });
+  }
+
+  /**
+   * Get Pokemon form data (e.g. "wooper-paldea") by name or ID
+   */
+  async getPokemonForm(nameOrId: string | number): Promise<PokemonForm> {
+    return this.cached('pokemon-form', nameOrId, async () => {
+      const form = await P.getPokemonFormByName(nameOrId);
+      return form as unknown as PokemonForm;
+    });
   }
 
   /**
    * Get evolution chain data by ID
    */
   async getEvolutionChain(id: number): Promise<EvolutionChain> {
-    const chain = await P.getEvolutionChainById(id);
-    return chain as EvolutionChain;
+    return this.cached('evolution-chain', id, async () => {
+      const chain = await P.getEvolutionChainById(id);
+      return chain as EvolutionChain;
+    });
   }
 
   /**
@@ -79,16 +172,123 @@ export class PokeAPI {
    * Get ability details by name or ID
    */
   async getAbility(nameOrId: string | number): Promise<Ability> {
-    const ability = await P.getAbilityByName(nameOrId);
-    return ability as unknown as Ability;
+    return this.cached('ability', nameOrId, async () => {
+      const ability = await P.getAbilityByName(nameOrId);
+      return ability as unknown as Ability;
+    });
   }
 
   /**
    * Get move details by name or ID
    */
   async getMove(nameOrId: string | number): Promise<Move> {
-    const move = await P.getMoveByName(nameOrId);
-    return move as unknown as Move;
+    return this.cached('move', nameOrId, async () => {
+      const move = await P.getMoveByName(nameOrId);
+      return move as unknown as Move;
+    });
+  }
+
+  /**
+   * Get type details (including every Pokemon of that type) by name or ID
+   */
+  async getType(nameOrId: string | number): Promise<Type> {
+    return this.cached('type', nameOrId, async () => {
+      const type = await P.getTypeByName(nameOrId);
+      return type as unknown as Type;
+    });
+  }
+
+  /**
+   * Get egg group details (including every species in it) by name or ID
+   */
+  async getEggGroup(nameOrId: string | number): Promise<EggGroup> {
+    return this.cached('egg-group', nameOrId, async () => {
+      const eggGroup = await P.getEggGroupByName(nameOrId);
+      return eggGroup as unknown as EggGroup;
+    });
+  }
+
+  /**
+   * Get a gender (including every species that can have it) by name or ID
+   */
+  async getGender(nameOrId: string | number): Promise<Gender> {
+    return this.cached('gender', nameOrId, async () => {
+      const gender = await P.getGenderByName(nameOrId);
+      return gender as unknown as Gender;
+    });
+  }
+
+  /**
+   * Serve a resource from the local snapshot or disk cache, fetching and storing
+   * it on a miss.
+   *
+   * Online: fresh entries are used as-is, expired ones are refetched, and a stale
+   * entry is still returned if the network request fails.
+   * Offline: only the snapshot and disk cache are consulted (TTL ignored).
+   */
+  private async cached<T>(
+    resource: ApiResource,
+    nameOrId: string | number,
+    fetch: () => Promise<T>,
+  ): Promise<T> {
+    const key = String(nameOrId);
+
+    // Report unknown names and IDs (HTTP 404) as NotFoundError
+    const request = () =>
+      fetch().catch((error: unknown) => {
+        const { response } = (error ?? {}) as { response?: { status?: number } };
+        throw response?.status === 404 ? new NotFoundError(resource, nameOrId) : error;
+      });
+
+    if (this.snapshot) {
+      const entry = await this.snapshot.get<T>(resource, key, { ignoreTtl: true });
+      if (entry !== undefined) {
+        return entry;
+      }
+    }
+
+    if (!this.diskCache) {
+      if (this.offline) {
+        throw new NotCachedError(resource, nameOrId);
+      }
+      return request();
+    }
+
+    if (this.offline) {
+      const entry = await this.diskCache.get<T>(resource, key, { ignoreTtl: true });
+      if (entry === undefined) {
+        throw new NotCachedError(resource, nameOrId);
+      }
+      return entry;
+    }
+
+    const fresh = await this.diskCache.get<T>(resource, key);
+    if (fresh !== undefined) {
+      return fresh;
+    }
+
+    let data: T;
+    try {
+      data = await request();
+    } catch (error) {
+      const stale = await this.diskCache.get<T>(resource, key, { ignoreTtl: true });
+      if (stale !== undefined) {
+        return stale;
+      }
+      throw error;
+    }
+
+    await this.diskCache.set(resource, key, data);
+
+    // Store under both name and ID so later lookups by either hit the cache
+    const { id, name } = data as { id?: unknown; name?: unknown };
+    for (const alias of [id, name]) {
+      if ((typeof alias === 'number' || typeof alias === 'string') && String(alias) !== key) {
+        await this.diskCache.set(resource, String(alias), data);
+      }
+    }
+
+    return data;
   }
 }
 
@@ -27,6 +27,25 @@ export interface PokemonStat {
   stat: NamedAPIResource;
 }
 
+/**
+ * Sprites from a single game under `PokemonSprites.versions`
+ *
+ * Gen 1-2 sprites also come with a transparent background variant, and
+ * Black/White with animated GIFs.
+ */
+export interface VersionSprites {
+  front_default: string | null;
+  front_shiny?: string | null;
+  front_female?: string | null;
+  front_shiny_female?: string | null;
+  front_transparent?: string | null;
+  back_default?: string | null;
+  back_shiny?: string | null;
+  back_female?: string | null;
+  back_shiny_female?: string | null;
+  animated?: VersionSprites;
+}
+
 export interface PokemonSprites {
   front_default: string | null;
   front_shiny: string | null;
@@ -47,8 +66,13 @@ export interface PokemonSprites {
     home?: {
       front_default: string | null;
       front_shiny: string | null;
+      front_female?: string | null;
+      front_shiny_female?: string | null;
     };
+    showdown?: VersionSprites; // Animated GIFs from Pokemon Showdown
   };
+  // Per-game sprites, e.g. versions['generation-i']['red-blue']
+  versions?: Record<string, Record<string, VersionSprites | undefined>>;
 }
 
 export interface PokemonMove {
@@ -73,6 +97,19 @@ export interface Pokemon {
   sprites: PokemonSprites;
   species: NamedAPIResource;
   moves: PokemonMove[];
+  is_default?: boolean; // False for alternate forms (Megas, regional forms...)
+  forms?: NamedAPIResource[];
+}
+
+export interface PokemonForm {
+  id: number;
+  name: string;
+  form_name: string;
+  is_default: boolean;
+  is_mega: boolean;
+  is_battle_only: boolean;
+  version_group: NamedAPIResource; // Version group the form was introduced in
+  pokemon: NamedAPIResource;
 }
 
 export interface PokemonSpecies {
@@ -102,6 +139,10 @@ export interface PokemonSpecies {
   };
   habitat: NamedAPIResource | null;
   generation: NamedAPIResource;
+  varieties?: Array<{
+    is_default: boolean;
+    pokemon: NamedAPIResource;
+  }>;
   names: Array<{
     name: string;
     language: NamedAPIResource;
@@ -136,6 +177,15 @@ export interface EvolutionDetail {
   time_of_day: string;
   trade_species: NamedAPIResource | null;
   turn_upside_down: boolean;
+  // Newer conditions (Gen 8+); absent from older API responses
+  used_move?: NamedAPIResource | null;
+  min_move_count?: number | null;
+  min_steps?: number | null;
+  min_damage_taken?: number | null;
+  needs_multiplayer?: boolean;
+  region?: NamedAPIResource | null;
+  base_form?: NamedAPIResource | null;
+  version_group?: NamedAPIResource | null; // Game the method is limited to
 }
 
 export interface ChainLink {
@@ -182,6 +232,12 @@ export interface Ability {
     language: NamedAPIResource;
     version_group: NamedAPIResource;
   }>;
+  // Pokemon that can have this ability (dropped from compact snapshots)
+  pokemon?: Array<{
+    is_hidden: boolean;
+    slot: number;
+    pokemon: NamedAPIResource;
+  }>;
 }
 
 export interface Move {
@@ -199,4 +255,48 @@ export interface Move {
     language: NamedAPIResource;
   }>;
   generation: NamedAPIResource;
+  past_values: PastMoveStatValues[];
+}
+
+/**
+ * Values a move had before they were changed in `version_group`
+ * (null fields were not changed)
+ */
+export interface PastMoveStatValues {
+  accuracy: number | null;
+  effect_chance: number | null;
+  power: number | null;
+  pp: number | null;
+  effect_entries: Array<{
+    effect: string;
+    short_effect: string;
+    language: NamedAPIResource;
+  }>;
+  type: NamedAPIResource | null;
+  version_group: NamedAPIResource;
+}
+
+export interface Type {
+  id: number;
+  name: string;
+  generation: NamedAPIResource;
+  pokemon: Array<{
+    slot: number;
+    pokemon: NamedAPIResource;
+  }>;
+}
+
+export interface EggGroup {
+  id: number;
+  name: string;
+  pokemon_species: NamedAPIResource[];
+}
+
+export interface Gender {
+  id: number;
+  name: string; // "female", "male" or "genderless"
+  pokemon_species_details: Array<{
+    rate: number; // Chance of being female in eighths, -1 for genderless
+    pokemon_species: NamedAPIResource;
+  }>;
 }
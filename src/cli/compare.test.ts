@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { comparePokemon, formatComparison } from "./compare.js";
+import { transformPokemon } from "../models/pokemon.js";
+import { generationService } from "../services/generationService.js";
+import { mockPikachuPokemon } from "../../tests/fixtures/pokemon-data.js";
+
+const pikachu = transformPokemon(mockPikachuPokemon);
+const raichu = {
+  ...pikachu,
+  id: 26,
+  name: "raichu",
+  displayName: "Raichu",
+  stats: { ...pikachu.stats, attack: 90, speed: 110 },
+};
+
+describe("compare", () => {
+  afterEach(() => {
+    generationService.setSessionGeneration(9);
+  });
+
+  it("collects stats and totals by label", () => {
+    const [first, second] = comparePokemon([pikachu, raichu]);
+
+    expect(first.stats.Speed).toBe(90);
+    expect(second.stats.Attack).toBe(90);
+    expect(second.stats.Total - first.stats.Total).toBe(55);
+    expect(first.stats).not.toHaveProperty("Special");
+  });
+
+  it("uses the single Special stat in Gen 1", () => {
+    generationService.setSessionGeneration(1);
+    const [first] = comparePokemon([pikachu]);
+
+    expect(first.stats).toHaveProperty("Special");
+    expect(first.stats).not.toHaveProperty("Sp. Atk");
+  });
+
+  it("prints one column per Pokemon", () => {
+    const output = formatComparison(comparePokemon([pikachu, raichu]), "text");
+    const lines = output.split("\n");
+
+    expect(lines[0]).toMatch(/^ +Pikachu +Raichu$/);
+    expect(output).toMatch(/\nSpeed +90 +110\n/);
+  });
+
+  it("prints a Markdown table", () => {
+    const output = formatComparison(comparePokemon([pikachu, raichu]), "md");
+
+    expect(output).toContain("|  | Pikachu | Raichu |\n| --- | --- | --- |");
+    expect(output).toContain("| Speed | 90 | 110 |");
+  });
+});
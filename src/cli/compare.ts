@@ -0,0 +1,98 @@
+import { capitalizeName, type PokemonDisplay } from "../models/pokemon.js";
+import { generationService } from "../services/generationService.js";
+import { toYaml } from "../utils/yaml.js";
+import { getStatRows, type InfoFormat } from "./info.js";
+
+/**
+ * Stat labels in display order; Gen 1 Pokemon have Special instead of
+ * Sp. Atk and Sp. Def
+ */
+const STAT_LABELS = [
+  "HP",
+  "Attack",
+  "Defense",
+  "Special",
+  "Sp. Atk",
+  "Sp. Def",
+  "Speed",
+  "Total",
+];
+
+/**
+ * Stats of one Pokemon in a comparison
+ */
+export interface ComparedPokemon {
+  name: string;
+  displayName: string;
+  types: string[];
+  stats: Record<string, number>; // By label, including the total
+}
+
+/**
+ * Collect the compared stats of Pokemon for the session generation
+ */
+export function comparePokemon(pokemon: PokemonDisplay[]): ComparedPokemon[] {
+  return pokemon.map((p) => {
+    const generation = generationService.getEffectiveGeneration(
+      p.generation,
+    );
+    const rows = getStatRows(p, generation);
+    const stats = Object.fromEntries(rows.map((r) => [r.label, r.value]));
+    stats.Total = rows.reduce((sum, row) => sum + row.value, 0);
+
+    return {
+      name: p.name,
+      displayName: p.displayName,
+      types: p.types,
+      stats,
+    };
+  });
+}
+
+/**
+ * Render a stat comparison in one of the output formats
+ *
+ * Markdown and text show a table with one column per Pokemon.
+ */
+export function formatComparison(
+  compared: ComparedPokemon[],
+  format: InfoFormat,
+): string {
+  if (format === "json") {
+    return JSON.stringify(compared, null, 2) + "\n";
+  }
+  if (format === "yaml") {
+    return toYaml(compared);
+  }
+
+  const header = ["", ...compared.map((p) => p.displayName)];
+  const rows = [
+    ["Type", ...compared.map((p) => p.types.map(capitalizeName).join("/"))],
+    ...STAT_LABELS.filter((label) =>
+      compared.some((p) => p.stats[label] !== undefined),
+    ).map((label) => [
+      label,
+      ...compared.map((p) => String(p.stats[label] ?? "-")),
+    ]),
+  ];
+
+  if (format === "md") {
+    const lines = [header, header.map(() => "---"), ...rows].map(
+      (cells) => `| ${cells.join(" | ")} |`,
+    );
+    return lines.join("\n") + "\n";
+  }
+
+  const widths = header.map((_, column) =>
+    Math.max(...[header, ...rows].map((cells) => cells[column].length)),
+  );
+  const lines = [header, ...rows].map((cells) =>
+    cells
+      .map((cell, column) =>
+        column === 0 ? cell.padEnd(widths[0]) : cell.padStart(widths[column]),
+      )
+      .join("  ")
+      .trimEnd(),
+  );
+  return lines.join("\n") + "\n";
+}
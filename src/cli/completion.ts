@@ -0,0 +1,72 @@
+/**
+ * Shells `poclidex completion` can generate a script for
+ */
+export const COMPLETION_SHELLS = ["bash", "zsh"] as const;
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
+
+/**
+ * Generate a shell completion script
+ *
+ * The first word completes to a command or a Pokemon name; the word after
+ * a command that takes a Pokemon completes to a Pokemon name.
+ *
+ * @param commands - Names of the top-level commands
+ * @param pokemonCommands - Commands whose first argument is a Pokemon
+ */
+export function generateCompletion(
+  shell: CompletionShell,
+  pokemonNames: string[],
+  commands: string[],
+  pokemonCommands: string[],
+): string {
+  const names = pokemonNames.join(" ");
+
+  if (shell === "bash") {
+    return `# Bash completion for poclidex
+
+_poclidex_completions() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}"
+  local pokemon="${names}"
+
+  if [ "\${COMP_CWORD}" -eq 1 ]; then
+    COMPREPLY=( $(compgen -W "${commands.join(" ")} $pokemon" -- "$cur") )
+  elif [ "\${COMP_CWORD}" -eq 2 ]; then
+    case "\${COMP_WORDS[1]}" in
+      ${pokemonCommands.join("|")})
+        COMPREPLY=( $(compgen -W "$pokemon" -- "$cur") )
+        ;;
+    esac
+  fi
+}
+
+complete -F _poclidex_completions poclidex
+`;
+  }
+
+  const zshList = pokemonNames.map((name) => `'${name}'`).join("\n    ");
+  return `#compdef poclidex
+
+# Zsh completion for poclidex
+
+_poclidex() {
+  local -a pokemon_list command_list
+  pokemon_list=(
+    ${zshList}
+  )
+  command_list=(${commands.map((name) => `'${name}'`).join(" ")})
+
+  if (( CURRENT == 2 )); then
+    _describe 'command' command_list
+    _describe 'pokemon' pokemon_list
+  elif (( CURRENT == 3 )); then
+    case "\${words[2]}" in
+      ${pokemonCommands.join("|")})
+        _describe 'pokemon' pokemon_list
+        ;;
+    esac
+  fi
+}
+
+_poclidex
+`;
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  getPokemonInfo,
+  formatPokemonInfo,
+  isInfoFormat,
+  type PokemonInfo,
+} from "./info.js";
+import type {
+  IPokemonRepository,
+  MoveData,
+} from "../repositories/IPokemonRepository.js";
+import { transformPokemon } from "../models/pokemon.js";
+import { generationService } from "../services/generationService.js";
+import {
+  mockPikachuPokemon,
+  mockEvolutionChain,
+} from "../../tests/fixtures/pokemon-data.js";
+
+const thunderbolt: MoveData = {
+  name: "thunderbolt",
+  type: "electric",
+  category: "special",
+  power: 90,
+  accuracy: 100,
+  pp: 15,
+  learnMethod: "machine",
+  versionGroup: "scarlet-violet",
+  learnEntries: [{ method: "machine", versionGroup: "scarlet-violet" }],
+};
+
+/**
+ * Repository serving Pikachu, with failures where a test needs them
+ */
+function createRepository(
+  overrides: Partial<IPokemonRepository> = {},
+): IPokemonRepository {
+  return {
+    getPokemonDetails: vi.fn(async () =>
+      transformPokemon(mockPikachuPokemon),
+    ),
+    getEvolutionChain: vi.fn(async () => mockEvolutionChain),
+    getAbilityDetails: vi.fn(async (name: string) => ({
+      name,
+      displayName: name === "static" ? "Static" : "Lightning Rod",
+      description: `${name} description`,
+      effect: "",
+      generation: 3,
+      isHidden: false,
+    })),
+    getMoves: vi.fn(async () => [thunderbolt]),
+    ...overrides,
+  } as unknown as IPokemonRepository;
+}
+
+describe("info", () => {
+  afterEach(() => {
+    generationService.setSessionGeneration(9);
+  });
+
+  describe("isInfoFormat", () => {
+    it("accepts the supported formats only", () => {
+      expect(isInfoFormat("json")).toBe(true);
+      expect(isInfoFormat("md")).toBe(true);
+      expect(isInfoFormat("xml")).toBe(false);
+    });
+  });
+
+  describe("getPokemonInfo", () => {
+    it("collects abilities and the evolution tree", async () => {
+      const info = await getPokemonInfo("Pikachu", {}, createRepository());
+
+      expect(info.name).toBe("pikachu");
+      expect(info.abilityDetails.map((a) => a.displayName)).toEqual([
+        "Static",
+        "Lightning Rod",
+      ]);
+      expect(info.abilityDetails[1].isHidden).toBe(true);
+      expect(info.evolution?.species).toBe("pichu");
+      expect(info.moves).toBeUndefined();
+      expect(info).not.toHaveProperty("spriteSets");
+    });
+
+    it("fetches moves for the session generation on request", async () => {
+      const repository = createRepository();
+      generationService.setSessionGeneration(4);
+
+      const info = await getPokemonInfo(
+        "pikachu",
+        { includeMoves: true },
+        repository,
+      );
+
+      expect(info.moves).toEqual([thunderbolt]);
+      expect(repository.getMoves).toHaveBeenCalledWith(25, 4, undefined);
+    });
+
+    it("keeps going when extra data cannot be loaded", async () => {
+      const repository = createRepository({
+        getAbilityDetails: vi.fn().mockRejectedValue(new Error("offline")),
+        getEvolutionChain: vi.fn().mockRejectedValue(new Error("offline")),
+      });
+
+      const info = await getPokemonInfo("pikachu", {}, repository);
+
+      expect(info.abilityDetails[0].displayName).toBe("Static");
+      expect(info.evolution).toBeNull();
+    });
+
+    it("rejects when the Pokemon does not exist", async () => {
+      const repository = createRepository({
+        getPokemonDetails: vi.fn().mockRejectedValue(new Error("404")),
+      });
+
+      await expect(
+        getPokemonInfo("missingno", {}, repository),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("formatPokemonInfo", () => {
+    async function getInfo(): Promise<PokemonInfo> {
+      return getPokemonInfo(
+        "pikachu",
+        { includeMoves: true },
+        createRepository(),
+      );
+    }
+
+    it("outputs parseable JSON", async () => {
+      const info = await getInfo();
+      const output = JSON.parse(formatPokemonInfo(info, "json"));
+
+      expect(output.id).toBe(25);
+      expect(output.moves[0].name).toBe("thunderbolt");
+    });
+
+    it("outputs YAML", async () => {
+      const output = formatPokemonInfo(await getInfo(), "yaml");
+
+      expect(output).toContain("name: pikachu\n");
+      expect(output).toContain("  - electric\n");
+    });
+
+    it("outputs Markdown with stat and move tables", async () => {
+      const output = formatPokemonInfo(await getInfo(), "md");
+
+      expect(output).toContain("# Pikachu #0025");
+      expect(output).toContain("| Speed | 90 | 2 |");
+      expect(output).toContain("- **Lightning Rod** (hidden)");
+      expect(output).toContain("  - Pikachu: ");
+      expect(output).toContain("| Thunderbolt | Electric | Special |");
+    });
+
+    it("outputs plain text", async () => {
+      const output = formatPokemonInfo(await getInfo(), "text");
+
+      expect(output).toMatch(/^Pikachu #0025 \(Gen \d\)\n/);
+      expect(output).toContain("Type: Electric");
+      expect(output).toMatch(/ {2}Speed +90 {2}\(\+2 EV\)/);
+      expect(output).toContain("    Raichu: ");
+    });
+
+    it("shows the single Special stat in Gen 1", async () => {
+      generationService.setSessionGeneration(1);
+      const output = formatPokemonInfo(await getInfo(), "text");
+
+      expect(output).toContain("Special");
+      expect(output).not.toContain("Sp. Atk");
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import type {
+  IPokemonRepository,
+  AbilityDetail,
+  MoveData,
+} from "../repositories/IPokemonRepository.js";
+import { getPokemonRepository } from "../repositories/repositoryProvider.js";
+import {
+  pokemonService,
+  type EvolutionStage,
+} from "../services/pokemonService.js";
+import { generationService } from "../services/generationService.js";
+import {
+  capitalizeName,
+  formatHeight,
+  formatWeight,
+  type PokemonDisplay,
+} from "../models/pokemon.js";
+import { GEN1_SPECIAL_STATS } from "../constants/gen1Stats.js";
+import { toYaml } from "../utils/yaml.js";
+import { getMarkdownMoveRows, getTextMoveRows } from "./moves.js";
+
+/**
+ * Output formats of the `info` subcommand
+ */
+export const INFO_FORMATS = ["json", "yaml", "md", "text"] as const;
+export type InfoFormat = (typeof INFO_FORMATS)[number];
+
+/**
+ * Everything `poclidex info` prints about a Pokemon
+ *
+ * The display data minus the sprite sets, with ability descriptions, the
+ * evolution tree and, on request, the moves.
+ */
+export interface PokemonInfo
+  extends Omit<PokemonDisplay, "spriteSets" | "moves" | "abilityDetails"> {
+  effectiveGeneration: number; // Generation the data is shown for
+  abilityDetails: AbilityDetail[];
+  evolution: EvolutionStage | null;
+  moves?: MoveData[];
+}
+
+export interface InfoOptions {
+  includeMoves?: boolean;
+}
+
+/**
+ * Check whether a string names an output format
+ */
+export function isInfoFormat(value: string): value is InfoFormat {
+  return (INFO_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Collect the info of a Pokemon for the session generation
+ *
+ * Ability details and the evolution chain are optional: when they cannot
+ * be loaded (e.g. offline) the rest is still returned.
+ *
+ * @throws Error if the Pokemon cannot be found
+ */
+export async function getPokemonInfo(
+  name: string,
+  options: InfoOptions = {},
+  repository: IPokemonRepository = getPokemonRepository(),
+): Promise<PokemonInfo> {
+  const pokemon = await repository.getPokemonDetails(name.toLowerCase());
+  const {
+    spriteSets: _spriteSets,
+    moves: _moves,
+    abilityDetails: _abilityDetails,
+    ...display
+  } = pokemon;
+
+  const abilityDetails = await Promise.all(
+    pokemon.abilities.map(async (ability) => {
+      try {
+        const detail = await repository.getAbilityDetails(ability.name);
+        return { ...detail, isHidden: ability.isHidden };
+      } catch {
+        return {
+          name: ability.name,
+          displayName: capitalizeName(ability.name),
+          description: "",
+          effect: "",
+          generation: 0,
+          isHidden: ability.isHidden,
+        };
+      }
+    }),
+  );
+
+  let evolution: EvolutionStage | null = null;
+  try {
+    const chain = await repository.getEvolutionChain(pokemon);
+    evolution = pokemonService.parseEvolutionChainStructured(chain);
+  } catch {
+    // No chain, or not cached
+  }
+
+  return {
+    ...display,
+    effectiveGeneration: generationService.getEffectiveGeneration(
+      pokemon.generation,
+    ),
+    abilityDetails,
+    evolution,
+    moves: options.includeMoves
+      ? await repository.getMoves(
+          pokemon.id,
+          generationService.getSessionGeneration(),
+          generationService.getSessionVersionGroup() ?? undefined,
+        )
+      : undefined,
+  };
+}
+
+/**
+ * Render Pokemon info in one of the output formats
+ */
+export function formatPokemonInfo(
+  info: PokemonInfo,
+  format: InfoFormat,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(info, null, 2) + "\n";
+    case "yaml":
+      return toYaml(info);
+    case "md":
+      return formatMarkdown(info);
+    case "text":
+      return formatText(info);
+  }
+}
+
+/**
+ * Base stats as label/value/EV rows, with the single Special stat in Gen 1
+ */
+export function getStatRows(
+  pokemon: Pick<PokemonDisplay, "id" | "stats" | "evYield">,
+  generation: number,
+): Array<{ label: string; value: number; ev: number }> {
+  const { stats, evYield } = pokemon;
+  const special =
+    generation === 1
+      ? [
+          {
+            label: "Special",
+            value: GEN1_SPECIAL_STATS[pokemon.id] ?? stats.specialAttack,
+            ev: evYield.specialAttack,
+          },
+        ]
+      : [
+          {
+            label: "Sp. Atk",
+            value: stats.specialAttack,
+            ev: evYield.specialAttack,
+          },
+          {
+            label: "Sp. Def",
+            value: stats.specialDefense,
+            ev: evYield.specialDefense,
+          },
+        ];
+
+  return [
+    { label: "HP", value: stats.hp, ev: evYield.hp },
+    { label: "Attack", value: stats.attack, ev: evYield.attack },
+    { label: "Defense", value: stats.defense, ev: evYield.defense },
+    ...special,
+    { label: "Speed", value: stats.speed, ev: evYield.speed },
+  ];
+}
+
+/**
+ * Weaknesses, resistances and immunities as labeled lines
+ */
+function getMatchupLines(info: PokemonInfo): string[] {
+  const { multipliers, weaknesses, resistances, immunities } =
+    info.typeEffectiveness;
+  const withMultiplier = (types: string[]) =>
+    types.map((t) => `${capitalizeName(t)} (${multipliers[t]}x)`).join(", ");
+
+  return [
+    `Weak to: ${withMultiplier(weaknesses) || "-"}`,
+    `Resists: ${withMultiplier(resistances) || "-"}`,
+    `Immune to: ${immunities.map(capitalizeName).join(", ") || "-"}`,
+  ];
+}
+
+/**
+ * Evolution tree flattened in display order, with how each stage is
+ * reached
+ */
+function getEvolutionLines(
+  stage: EvolutionStage,
+  depth = 0,
+): Array<{ depth: number; text: string }> {
+  const name = capitalizeName(stage.species);
+  return [
+    { depth, text: stage.method ? `${name}: ${stage.method}` : name },
+    ...stage.branches.flatMap((branch) =>
+      getEvolutionLines(branch, depth + 1),
+    ),
+  ];
+}
+
+function formatMarkdown(info: PokemonInfo): string {
+  const lines: string[] = [];
+  const types = info.types.map(capitalizeName).join(" / ");
+  const statRows = getStatRows(info, info.effectiveGeneration);
+  const total = statRows.reduce((sum, row) => sum + row.value, 0);
+
+  lines.push(`# ${info.displayName} #${formatId(info.id)}`, "");
+  if (info.genus) {
+    lines.push(`*${info.genus}*`, "");
+  }
+  lines.push(
+    `- **Generation:** ${info.effectiveGeneration}`,
+    `- **Type:** ${types}`,
+    `- **Height:** ${formatHeight(info.height)}`,
+    `- **Weight:** ${formatWeight(info.weight)}`,
+    "",
+  );
+  if (info.flavorText) {
+    lines.push(`> ${info.flavorText}`, "");
+  }
+
+  lines.push(
+    "## Base Stats",
+    "",
+    "| Stat | Base | EV |",
+    "| --- | ---: | ---: |",
+  );
+  for (const row of statRows) {
+    lines.push(`| ${row.label} | ${row.value} | ${row.ev || ""} |`);
+  }
+  lines.push(`| **Total** | **${total}** | |`, "");
+
+  lines.push("## Abilities", "");
+  for (const ability of info.abilityDetails) {
+    const hidden = ability.isHidden ? " (hidden)" : "";
+    const description = ability.description
+      ? `: ${ability.description}`
+      : "";
+    lines.push(`- **${ability.displayName}**${hidden}${description}`);
+  }
+  lines.push("");
+
+  lines.push("## Type Matchups", "");
+  lines.push(...getMatchupLines(info).map((line) => `- ${line}`), "");
+
+  if (info.evolution) {
+    lines.push("## Evolution", "");
+    for (const { depth, text } of getEvolutionLines(info.evolution)) {
+      lines.push(`${"  ".repeat(depth)}- ${text}`);
+    }
+    lines.push("");
+  }
+
+  if (info.moves) {
+    lines.push("## Moves", "", ...getMarkdownMoveRows(info.moves), "");
+  }
+
+  return lines.join("\n");
+}
+
+function formatText(info: PokemonInfo): string {
+  const lines: string[] = [];
+  const statRows = getStatRows(info, info.effectiveGeneration);
+  const total = statRows.reduce((sum, row) => sum + row.value, 0);
+
+  const generation = `Gen ${info.effectiveGeneration}`;
+  lines.push(`${info.displayName} #${formatId(info.id)} (${generation})`);
+  if (info.genus) {
+    lines.push(info.genus);
+  }
+  lines.push(
+    `Type: ${info.types.map(capitalizeName).join(" / ")}`,
+    `Height: ${formatHeight(info.height)}`,
+    `Weight: ${formatWeight(info.weight)}`,
+  );
+  if (info.flavorText) {
+    lines.push("", info.flavorText);
+  }
+
+  lines.push("", "Base Stats");
+  for (const row of [...statRows, { label: "Total", value: total, ev: 0 }]) {
+    const value = String(row.value).padStart(3);
+    const ev = row.ev ? `  (+${row.ev} EV)` : "";
+    lines.push(`  ${row.label.padEnd(8)} ${value}${ev}`);
+  }
+
+  lines.push("", "Abilities");
+  for (const ability of info.abilityDetails) {
+    const hidden = ability.isHidden ? " (hidden)" : "";
+    const description = ability.description
+      ? ` - ${ability.description}`
+      : "";
+    lines.push(`  ${ability.displayName}${hidden}${description}`);
+  }
+
+  lines.push("", "Type Matchups");
+  lines.push(...getMatchupLines(info).map((line) => `  ${line}`));
+
+  if (info.evolution) {
+    lines.push("", "Evolution");
+    for (const { depth, text } of getEvolutionLines(info.evolution)) {
+      lines.push(`${"  ".repeat(depth + 1)}${text}`);
+    }
+  }
+
+  if (info.moves) {
+    lines.push("", "Moves", ...getTextMoveRows(info.moves));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * National Dex number padded to four digits
+ */
+export function formatId(id: number): string {
+  return id.toString().padStart(4, "0");
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { describeLearnMethod, formatMoves } from "./moves.js";
+import type { MoveData } from "../repositories/IPokemonRepository.js";
+
+const moves: MoveData[] = [
+  {
+    name: "thunder-shock",
+    type: "electric",
+    category: "special",
+    power: 40,
+    accuracy: 100,
+    pp: 30,
+    learnMethod: "level-up",
+    levelLearned: 1,
+    versionGroup: "x-y",
+    learnEntries: [
+      { method: "level-up", level: 1, versionGroup: "x-y" },
+      { method: "level-up", level: 1, versionGroup: "black-white" },
+    ],
+  },
+  {
+    name: "thunder-wave",
+    type: "electric",
+    category: "status",
+    power: null,
+    accuracy: 90,
+    pp: 20,
+    learnMethod: "machine",
+    versionGroup: "x-y",
+    learnEntries: [
+      { method: "machine", versionGroup: "x-y" },
+      { method: "level-up", level: 18, versionGroup: "x-y" },
+      { method: "stadium-surfing-pikachu", versionGroup: "x-y" },
+    ],
+  },
+];
+
+describe("moves", () => {
+  it("describes how a move is learned", () => {
+    expect(describeLearnMethod("level-up", 26)).toBe("Lv.26");
+    expect(describeLearnMethod("machine")).toBe("Machine");
+  });
+
+  it("prints aligned text rows under the title", () => {
+    const output = formatMoves("Pikachu moves", moves, "text");
+
+    expect(output.split("\n")[0]).toBe("Pikachu moves");
+    expect(output).toMatch(
+      / {2}Thunder Wave +Electric Status +- +90 20 {2}Machine/,
+    );
+  });
+
+  it("prints one row per method and level of the shown game", () => {
+    const rows = formatMoves("", moves, "text").trim().split("\n");
+
+    expect(rows.map((row) => row.trim().split(/ {2,}/).pop())).toEqual([
+      "Lv.1",
+      "Lv.18",
+      "Machine",
+    ]);
+  });
+
+  it("includes rare learn methods on request", () => {
+    const output = formatMoves("", moves, "text", true);
+
+    expect(output).toContain("Stadium Surfing Pikachu");
+  });
+
+  it("prints a Markdown table", () => {
+    const output = formatMoves("Pikachu moves", moves, "md");
+
+    expect(output).toContain("# Pikachu moves");
+    expect(output).toContain(
+      "| Thunder Shock | Electric | Special | 40 | 100 | 30 | Lv.1 |",
+    );
+  });
+
+  it("prints the raw move list as JSON", () => {
+    expect(JSON.parse(formatMoves("", moves, "json"))).toEqual(moves);
+  });
+});
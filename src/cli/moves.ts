@@ -0,0 +1,89 @@
+import type {
+  LearnMethod,
+  MoveData,
+} from "../repositories/IPokemonRepository.js";
+import { capitalizeName } from "../models/pokemon.js";
+import { getMoveLearnRows, type MoveLearnRow } from "../models/moves.js";
+import { toYaml } from "../utils/yaml.js";
+import type { InfoFormat } from "./info.js";
+
+/**
+ * How a move is learned, e.g. "Lv.26" or "Machine"
+ */
+export function describeLearnMethod(
+  method: LearnMethod,
+  level?: number,
+): string {
+  return method === "level-up" ? `Lv.${level ?? 1}` : capitalizeName(method);
+}
+
+/**
+ * Moves as a Markdown table, one row per method and level
+ */
+export function getMarkdownMoveRows(
+  moves: MoveData[],
+  includeRare = false,
+): string[] {
+  return [
+    "| Move | Type | Category | Power | Accuracy | PP | Learned |",
+    "| --- | --- | --- | ---: | ---: | ---: | --- |",
+    ...getMoveLearnRows(moves, includeRare).map(
+      ({ move, method, level }: MoveLearnRow) =>
+        `| ${capitalizeName(move.name)} | ${capitalizeName(move.type)} | ` +
+        `${capitalizeName(move.category)} | ${move.power ?? "-"} | ` +
+        `${move.accuracy ?? "-"} | ${move.pp} | ` +
+        `${describeLearnMethod(method, level)} |`,
+    ),
+  ];
+}
+
+/**
+ * Moves as aligned plain text columns, indented by two spaces, one row per
+ * method and level
+ */
+export function getTextMoveRows(
+  moves: MoveData[],
+  includeRare = false,
+): string[] {
+  return getMoveLearnRows(moves, includeRare).map(
+    ({ move, method, level }) =>
+      `  ${capitalizeName(move.name).padEnd(16)} ` +
+      `${capitalizeName(move.type).padEnd(9)}` +
+      `${capitalizeName(move.category).padEnd(9)}` +
+      `${String(move.power ?? "-").padStart(3)} ` +
+      `${String(move.accuracy ?? "-").padStart(3)} ` +
+      `${String(move.pp).padStart(2)}  ${describeLearnMethod(method, level)}`,
+  );
+}
+
+/**
+ * Render a move list in one of the output formats
+ *
+ * JSON and YAML contain every learn entry; Markdown and text show the
+ * rows of the game each learnset is shown for.
+ *
+ * @param title - Heading of the Markdown and text output
+ * @param includeRare - List event- and form-specific learn methods too
+ */
+export function formatMoves(
+  title: string,
+  moves: MoveData[],
+  format: InfoFormat,
+  includeRare = false,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(moves, null, 2) + "\n";
+    case "yaml":
+      return toYaml(moves);
+    case "md":
+      return [
+        `# ${title}`,
+        "",
+        ...getMarkdownMoveRows(moves, includeRare),
+        "",
+      ].join("\n");
+    case "text":
+      return [title, ...getTextMoveRows(moves, includeRare)].join("\n") + "\n";
+  }
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCommandLine,
+  formatHelp,
+  UsageError,
+  type CommandSpec,
+} from "./parser.js";
+
+function createProgram(): CommandSpec {
+  return {
+    name: "tool",
+    description: "Test tool",
+    defaultSubcommand: "show",
+    options: [
+      { name: "offline", type: "boolean", description: "No network" },
+      {
+        name: "data-dir",
+        type: "string",
+        valueName: "path",
+        description: "Data directory",
+      },
+    ],
+    subcommands: [
+      {
+        name: "show",
+        description: "Show a Pokemon",
+        arguments: [{ name: "pokemon", description: "Name" }],
+        options: [
+          {
+            name: "gen",
+            type: "number",
+            valueName: "n",
+            min: 1,
+            max: 9,
+            description: "Generation",
+          },
+        ],
+        run: () => {},
+      },
+      {
+        name: "info",
+        description: "Print a Pokemon",
+        arguments: [{ name: "pokemon", description: "Name", required: true }],
+        options: [
+          {
+            name: "format",
+            short: "f",
+            type: "string",
+            choices: ["json", "text"],
+            description: "Output format",
+          },
+        ],
+        run: () => {},
+      },
+      {
+        name: "data",
+        description: "Manage data",
+        subcommands: [
+          { name: "sync", description: "Download data", run: () => {} },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Names of the parsed command path
+ */
+function parse(argv: string[]) {
+  const parsed = parseCommandLine(argv, createProgram());
+  return { ...parsed, path: parsed.commands.map((c) => c.name) };
+}
+
+/**
+ * UsageError thrown for a command line
+ */
+function catchUsageError(argv: string[]): UsageError {
+  try {
+    parseCommandLine(argv, createProgram());
+  } catch (error) {
+    expect(error).toBeInstanceOf(UsageError);
+    return error as UsageError;
+  }
+  throw new Error("Expected a UsageError");
+}
+
+/**
+ * Message of the UsageError thrown for a command line
+ */
+function usageError(argv: string[]): string {
+  return catchUsageError(argv).message;
+}
+
+describe("parseCommandLine", () => {
+  it("selects subcommands and collects arguments", () => {
+    const parsed = parse(["info", "pikachu"]);
+
+    expect(parsed.path).toEqual(["tool", "info"]);
+    expect(parsed.args).toEqual({ pokemon: "pikachu" });
+  });
+
+  it("selects nested subcommands", () => {
+    expect(parse(["data", "sync"]).path).toEqual(["tool", "data", "sync"]);
+  });
+
+  it("falls through to the default subcommand", () => {
+    expect(parse([]).path).toEqual(["tool", "show"]);
+
+    const parsed = parse(["pikachu"]);
+    expect(parsed.path).toEqual(["tool", "show"]);
+    expect(parsed.args).toEqual({ pokemon: "pikachu" });
+  });
+
+  it("accepts options anywhere, including inherited ones", () => {
+    const parsed = parse(["--offline", "info", "-f", "json", "eevee"]);
+
+    expect(parsed.args.pokemon).toBe("eevee");
+    expect(parsed.options).toEqual({ offline: true, format: "json" });
+  });
+
+  it("does not take option values as arguments", () => {
+    const parsed = parse(["--data-dir", "/tmp/data", "pikachu"]);
+
+    expect(parsed.options["data-dir"]).toBe("/tmp/data");
+    expect(parsed.args.pokemon).toBe("pikachu");
+  });
+
+  it("accepts --name=value and options of the default subcommand", () => {
+    const parsed = parse(["--gen=3", "pikachu"]);
+
+    expect(parsed.options.gen).toBe(3);
+    expect(parsed.path).toEqual(["tool", "show"]);
+  });
+
+  it("treats everything after -- as arguments", () => {
+    expect(parse(["info", "--", "-x"]).args.pokemon).toBe("-x");
+  });
+
+  it("reports help without validating arguments", () => {
+    const parsed = parse(["info", "--help"]);
+
+    expect(parsed.help).toBe(true);
+    expect(parsed.path).toEqual(["tool", "info"]);
+  });
+
+  it("rejects unknown options and commands", () => {
+    expect(usageError(["--bogus"])).toBe('Unknown option "--bogus"');
+    expect(usageError(["data", "wipe"])).toBe('Unknown command "wipe"');
+    expect(usageError(["data"])).toBe("Missing command");
+  });
+
+  it("rejects missing and extra arguments", () => {
+    expect(usageError(["info"])).toBe("Missing argument <pokemon>");
+    expect(usageError(["info", "a", "b"])).toBe('Unexpected argument "b"');
+  });
+
+  it("validates option values", () => {
+    expect(usageError(["info", "x", "--format", "xml"])).toContain(
+      'Invalid value "xml" for --format',
+    );
+    expect(usageError(["--gen", "10"])).toContain("from 1 to 9");
+    expect(usageError(["--gen", "two"])).toContain("whole number");
+    expect(usageError(["--gen"])).toBe("Option --gen needs a value");
+    expect(usageError(["--offline=yes"])).toBe(
+      "Option --offline takes no value",
+    );
+  });
+
+  it("keeps the command path in usage errors", () => {
+    const { commands } = catchUsageError(["info"]);
+
+    expect(commands.map((c) => c.name)).toEqual(["tool", "info"]);
+  });
+});
+
+describe("formatHelp", () => {
+  it("lists commands, options and the default usage", () => {
+    const help = formatHelp([createProgram()]);
+
+    expect(help).toContain("  tool <command> [options]\n  tool [pokemon]\n");
+    expect(help).toMatch(/ {2}info <pokemon> +Print a Pokemon/);
+    expect(help).toMatch(/ {2}--data-dir <path> +Data directory/);
+  });
+
+  it("separates a command's own options from global ones", () => {
+    const program = createProgram();
+    const info = program.subcommands![1];
+    const help = formatHelp([program, info]);
+
+    expect(help).toContain("tool info <pokemon> [options]");
+    expect(help).toMatch(/-f, --format <value> +Output format \(json, text\)/);
+    expect(help.indexOf("Global options:")).toBeGreaterThan(
+      help.indexOf("--format"),
+    );
+    expect(help).toMatch(/Global options:\n {2}--offline/);
+  });
+
+  it("ends with the command's extra sections", () => {
+    const program = createProgram();
+    program.helpSections = [
+      { title: "Keyboard Shortcuts", rows: [["Ctrl+C", "Quit"]] },
+    ];
+    const help = formatHelp([program]);
+
+    expect(help).toMatch(/\nKeyboard Shortcuts:\n {2}Ctrl\+C +Quit\n$/);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Value types an option can take
+ */
+export type OptionType = "boolean" | "string" | "number";
+
+/**
+ * A `--name` option of a command
+ */
+export interface OptionSpec {
+  name: string;
+  short?: string; // Single letter, used as -x
+  type: OptionType;
+  description: string;
+  valueName?: string; // Placeholder in help, e.g. "path"
+  choices?: readonly string[];
+  min?: number; // Bounds of number options
+  max?: number;
+}
+
+/**
+ * A positional argument of a command
+ */
+export interface ArgumentSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export type OptionValue = string | number | boolean;
+export type OptionValues = Record<string, OptionValue | undefined>;
+
+/**
+ * Extra section at the end of a command's help, e.g. keyboard shortcuts
+ */
+export interface HelpSection {
+  title: string;
+  rows: [string, string][];
+}
+
+/**
+ * A command and its subcommands
+ *
+ * Options are inherited by subcommands, so global options are declared
+ * on the root command.
+ */
+export interface CommandSpec {
+  name: string;
+  description: string;
+  arguments?: ArgumentSpec[];
+  options?: OptionSpec[];
+  subcommands?: CommandSpec[];
+  defaultSubcommand?: string; // Run when no subcommand name is given
+  examples?: string[];
+  helpSections?: HelpSection[];
+  run?: (parsed: ParsedCommandLine) => Promise<void> | void;
+}
+
+/**
+ * Result of parsing a command line
+ */
+export interface ParsedCommandLine {
+  commands: CommandSpec[]; // Root first, the command to run last
+  args: Record<string, string | undefined>;
+  options: OptionValues;
+  help: boolean; // -h or --help was given
+}
+
+/**
+ * Invalid command line, reported with the usage of the command
+ */
+export class UsageError extends Error {
+  constructor(
+    message: string,
+    public readonly commands: CommandSpec[],
+  ) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Parse command line arguments (without the node and script paths)
+ *
+ * Options may appear anywhere, as `--name value`, `--name=value` or
+ * `-x value`; everything after `--` is positional.
+ *
+ * @throws UsageError for unknown commands or options, invalid values and
+ * missing or extra arguments
+ */
+export function parseCommandLine(
+  argv: string[],
+  root: CommandSpec,
+): ParsedCommandLine {
+  const commands = [root];
+  const positionals: string[] = [];
+  const options: OptionValues = {};
+  let help = false;
+  let optionsEnded = false;
+
+  const current = () => commands[commands.length - 1];
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+
+    if (optionsEnded || !token.startsWith("-") || token === "-") {
+      // The first positional of a command with subcommands names one
+      const subcommands = current().subcommands;
+      if (subcommands && positionals.length === 0) {
+        const subcommand = subcommands.find((c) => c.name === token);
+        if (subcommand) {
+          commands.push(subcommand);
+          continue;
+        }
+        if (!current().defaultSubcommand) {
+          throw new UsageError(`Unknown command "${token}"`, [...commands]);
+        }
+      }
+      positionals.push(token);
+      continue;
+    }
+
+    if (token === "--") {
+      optionsEnded = true;
+      continue;
+    }
+    if (token === "--help" || token === "-h") {
+      help = true;
+      continue;
+    }
+
+    const [flag, inlineValue] = splitInlineValue(token);
+    const option = findOption(
+      [...commands, ...getDefaultChain(current())],
+      flag,
+    );
+    if (!option) {
+      throw new UsageError(`Unknown option "${flag}"`, [...commands]);
+    }
+
+    if (option.type === "boolean") {
+      if (inlineValue !== undefined) {
+        throw new UsageError(`Option --${option.name} takes no value`, [
+          ...commands,
+        ]);
+      }
+      options[option.name] = true;
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined) {
+      throw new UsageError(`Option --${option.name} needs a value`, [
+        ...commands,
+      ]);
+    }
+    options[option.name] = convertValue(option, value, commands);
+  }
+
+  if (help) {
+    return { commands, args: {}, options, help };
+  }
+
+  // Fall through to the default subcommand when none was named
+  commands.push(...getDefaultChain(current()));
+  const command = current();
+
+  if (command.subcommands && !command.run) {
+    throw new UsageError("Missing command", commands);
+  }
+
+  const specs = command.arguments ?? [];
+  if (positionals.length > specs.length) {
+    throw new UsageError(
+      `Unexpected argument "${positionals[specs.length]}"`,
+      commands,
+    );
+  }
+
+  const args: Record<string, string | undefined> = {};
+  specs.forEach((spec, index) => {
+    if (spec.required && positionals[index] === undefined) {
+      throw new UsageError(`Missing argument <${spec.name}>`, commands);
+    }
+    args[spec.name] = positionals[index];
+  });
+
+  return { commands, args, options, help };
+}
+
+/**
+ * Generate the help text of a command
+ *
+ * @param commands - Path from the root command to the command
+ */
+export function formatHelp(commands: CommandSpec[]): string {
+  const command = commands[commands.length - 1];
+  const lines: string[] = [command.description, ""];
+
+  lines.push("Usage:", `  ${formatUsage(commands)}`);
+  const [fallback] = getDefaultChain(command);
+  if (fallback) {
+    // The default subcommand can be run without its name
+    const usage = formatUsage([fallback], false).replace(fallback.name, "");
+    lines.push(`  ${commands.map((c) => c.name).join(" ")}${usage}`);
+  }
+
+  if (command.subcommands?.length) {
+    lines.push("", "Commands:");
+    lines.push(
+      ...formatColumns(
+        command.subcommands.map((c) => [
+          formatUsage([c], false),
+          c.description,
+        ]),
+      ),
+    );
+    const name = commands.map((c) => c.name).join(" ");
+    lines.push("", `Run "${name} <command> --help" for the command's options.`);
+  }
+
+  if (command.arguments?.length) {
+    lines.push("", "Arguments:");
+    lines.push(
+      ...formatColumns(
+        command.arguments.map((a) => [`<${a.name}>`, a.description]),
+      ),
+    );
+  }
+
+  lines.push("", "Options:");
+  lines.push(
+    ...formatColumns([
+      ["-h, --help", "Show this help message"],
+      ...(command.options ?? []).map(formatOptionRow),
+    ]),
+  );
+
+  const inherited = commands.slice(0, -1).flatMap((c) => c.options ?? []);
+  if (inherited.length > 0) {
+    lines.push("", "Global options:");
+    lines.push(...formatColumns(inherited.map(formatOptionRow)));
+  }
+
+  if (command.examples?.length) {
+    lines.push("", "Examples:");
+    lines.push(...command.examples.map((example) => `  ${example}`));
+  }
+
+  for (const section of command.helpSections ?? []) {
+    lines.push("", `${section.title}:`, ...formatColumns(section.rows));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * One-line usage of a command, e.g. "poclidex info <pokemon> [options]"
+ */
+function formatUsage(commands: CommandSpec[], withOptions = true): string {
+  const command = commands[commands.length - 1];
+  const parts = commands.map((c) => c.name);
+
+  if (command.subcommands?.length) {
+    parts.push("<command>");
+  }
+  for (const argument of command.arguments ?? []) {
+    parts.push(
+      argument.required ? `<${argument.name}>` : `[${argument.name}]`,
+    );
+  }
+  if (withOptions) {
+    parts.push("[options]");
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Flags and description of an option, e.g. ["--gen <n>", "..."]
+ */
+function formatOptionRow(option: OptionSpec): string[] {
+  const short = option.short ? `-${option.short}, ` : "";
+  const value =
+    option.type === "boolean" ? "" : ` <${option.valueName ?? "value"}>`;
+  const choices = option.choices ? ` (${option.choices.join(", ")})` : "";
+  return [`${short}--${option.name}${value}`, option.description + choices];
+}
+
+/**
+ * Align two-column rows, wrapping to the next line when the first column
+ * is too wide
+ */
+function formatColumns(rows: string[][]): string[] {
+  const width = 28;
+  return rows.flatMap(([left, right]) =>
+    left.length < width - 2
+      ? [`  ${left.padEnd(width - 2)}${right}`]
+      : [`  ${left}`, `${" ".repeat(width)}${right}`],
+  );
+}
+
+function splitInlineValue(token: string): [string, string | undefined] {
+  const equals = token.indexOf("=");
+  return token.startsWith("--") && equals !== -1
+    ? [token.slice(0, equals), token.slice(equals + 1)]
+    : [token, undefined];
+}
+
+/**
+ * Default subcommands run in place of a command, outermost first
+ */
+function getDefaultChain(command: CommandSpec): CommandSpec[] {
+  const fallback = command.subcommands?.find(
+    (c) => c.name === command.defaultSubcommand,
+  );
+  return fallback ? [fallback, ...getDefaultChain(fallback)] : [];
+}
+
+/**
+ * Find an option by flag among the command path, innermost first
+ */
+function findOption(
+  commands: CommandSpec[],
+  flag: string,
+): OptionSpec | undefined {
+  for (const command of [...commands].reverse()) {
+    const option = command.options?.find((o) =>
+      flag.startsWith("--") ? `--${o.name}` === flag : `-${o.short}` === flag,
+    );
+    if (option) {
+      return option;
+    }
+  }
+  return undefined;
+}
+
+function convertValue(
+  option: OptionSpec,
+  value: string,
+  commands: CommandSpec[],
+): OptionValue {
+  if (option.choices && !option.choices.includes(value.toLowerCase())) {
+    throw new UsageError(
+      `Invalid value "${value}" for --${option.name}. ` +
+        `Use ${option.choices.join(", ")}.`,
+      [...commands],
+    );
+  }
+
+  if (option.type === "string") {
+    return option.choices ? value.toLowerCase() : value;
+  }
+
+  const number = Number(value);
+  if (
+    value.trim() === "" ||
+    !Number.isInteger(number) ||
+    (option.min !== undefined && number < option.min) ||
+    (option.max !== undefined && number > option.max)
+  ) {
+    const range =
+      option.min !== undefined && option.max !== undefined
+        ? ` from ${option.min} to ${option.max}`
+        : "";
+    throw new UsageError(
+      `Invalid value "${value}" for --${option.name}. ` +
+        `Use a whole number${range}.`,
+      [...commands],
+    );
+  }
+  return number;
+}
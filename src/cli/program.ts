@@ -0,0 +1,492 @@
+import { pokeAPI } from "../api/pokeapi.js";
+import { NotFoundError } from "../api/IPokemonDataSource.js";
+import { snapshotService } from "../services/snapshotService.js";
+import { generationService } from "../services/generationService.js";
+import { imageService } from "../services/imageService.js";
+import { loadConfig, getConfigPath } from "../utils/config.js";
+import {
+  GRAPHICS_PROTOCOLS,
+  type GraphicsProtocol,
+} from "../utils/terminalDetection.js";
+import {
+  getPokemonRepository,
+  setPokemonRepository,
+} from "../repositories/repositoryProvider.js";
+import { LocalPokemonRepository } from "../repositories/LocalPokemonRepository.js";
+import { startApp } from "../ui/app.js";
+import {
+  VERSION_GROUP_TO_GENERATION,
+  getVersionGroupDisplayName,
+} from "../constants/versionGroups.js";
+import type { MoveData } from "../repositories/IPokemonRepository.js";
+import {
+  INFO_FORMATS,
+  getPokemonInfo,
+  formatPokemonInfo,
+  type InfoFormat,
+} from "./info.js";
+import { formatMoves } from "./moves.js";
+import { MAIN_LEARN_METHODS } from "../models/moves.js";
+import { comparePokemon, formatComparison } from "./compare.js";
+import {
+  COMPLETION_SHELLS,
+  generateCompletion,
+  type CompletionShell,
+} from "./completion.js";
+import { UsageError } from "./parser.js";
+import type {
+  CommandSpec,
+  OptionSpec,
+  OptionValues,
+  ParsedCommandLine,
+} from "./parser.js";
+
+const GEN_OPTION: OptionSpec = {
+  name: "gen",
+  type: "number",
+  valueName: "n",
+  min: 1,
+  max: 9,
+  description: "Show the data as of generation n",
+};
+
+const GAME_OPTION: OptionSpec = {
+  name: "game",
+  type: "string",
+  valueName: "version-group",
+  choices: Object.keys(VERSION_GROUP_TO_GENERATION),
+  description: "Use one game's learnsets and generation",
+};
+
+const FORMAT_OPTION: OptionSpec = {
+  name: "format",
+  type: "string",
+  valueName: "format",
+  choices: INFO_FORMATS,
+  description: "Output format",
+};
+
+/**
+ * Commands whose first argument is a Pokemon name, for completion
+ */
+const POKEMON_COMMANDS = ["show", "info", "moves", "compare"];
+
+/**
+ * Build the poclidex command tree
+ *
+ * Each command's `run` is called by the entry point with the parsed
+ * command line; failures are thrown as errors.
+ */
+export function createProgram(version: string): CommandSpec {
+  const root: CommandSpec = {
+    name: "poclidex",
+    description: `poclidex v${version} - Interactive CLI Pokedex`,
+    defaultSubcommand: "show",
+    options: [
+      {
+        name: "version",
+        short: "v",
+        type: "boolean",
+        description: "Show version number",
+      },
+      {
+        name: "offline",
+        type: "boolean",
+        description: "Serve data only from the on-disk cache",
+      },
+      {
+        name: "data-dir",
+        type: "string",
+        valueName: "path",
+        description: "Read data from a local PokeAPI api-data dump",
+      },
+      {
+        name: "debug-colors",
+        type: "boolean",
+        description: "Show terminal color capabilities",
+      },
+    ],
+    examples: [
+      "poclidex                        # Start interactive mode",
+      "poclidex pikachu                # View Pikachu's details",
+      "poclidex --offline pikachu      # View Pikachu without network access",
+      "poclidex info eevee --format json --gen 4",
+      "poclidex compare pikachu raichu",
+    ],
+    helpSections: [
+      {
+        title: "Keyboard Shortcuts",
+        rows: [
+          ["?", "Show help panel with all shortcuts"],
+          ["Ctrl+S", "Search / Return to search"],
+          ["Ctrl+F", "Filter by type / Legendary / Mythical"],
+          ["Ctrl+G", "Select a game (exact learnsets)"],
+          ["F1-F9", "Filter by generation"],
+          ["Ctrl+C", "Quit"],
+        ],
+      },
+    ],
+    subcommands: [
+      {
+        name: "show",
+        description: "Launch the interactive interface",
+        arguments: [
+          {
+            name: "pokemon",
+            description: "Open this Pokemon's detail page directly",
+          },
+        ],
+        options: [
+          GEN_OPTION,
+          GAME_OPTION,
+          {
+            name: "graphics",
+            type: "string",
+            valueName: "protocol",
+            choices: GRAPHICS_PROTOCOLS,
+            description: "Sprite image protocol",
+          },
+          {
+            name: "no-animation",
+            type: "boolean",
+            description: "Show animated sprites as still images",
+          },
+        ],
+        run: runShow,
+      },
+      {
+        name: "info",
+        description: "Print a Pokemon's details without the UI",
+        arguments: [
+          { name: "pokemon", description: "Name or ID", required: true },
+        ],
+        options: [
+          FORMAT_OPTION,
+          GEN_OPTION,
+          GAME_OPTION,
+          {
+            name: "moves",
+            type: "boolean",
+            description: "Include the move list",
+          },
+        ],
+        examples: [
+          "poclidex info pikachu",
+          "poclidex info eevee --format json | jq .evolution",
+        ],
+        run: runInfo,
+      },
+      {
+        name: "moves",
+        description: "Print the moves a Pokemon can learn",
+        arguments: [
+          { name: "pokemon", description: "Name or ID", required: true },
+        ],
+        options: [
+          FORMAT_OPTION,
+          GEN_OPTION,
+          GAME_OPTION,
+          {
+            name: "method",
+            type: "string",
+            valueName: "method",
+            choices: MAIN_LEARN_METHODS,
+            description: "Only moves learned this way",
+          },
+          {
+            name: "all-methods",
+            type: "boolean",
+            description: "Include event- and form-specific learn methods",
+          },
+        ],
+        run: runMoves,
+      },
+      {
+        name: "compare",
+        description: "Compare the base stats of two Pokemon",
+        arguments: [
+          { name: "first", description: "Name or ID", required: true },
+          { name: "second", description: "Name or ID", required: true },
+        ],
+        options: [FORMAT_OPTION, GEN_OPTION],
+        run: runCompare,
+      },
+      {
+        name: "data",
+        description: "Manage the offline dataset",
+        subcommands: [
+          {
+            name: "sync",
+            description: "Download the full dataset for offline use",
+            options: [
+              {
+                name: "force",
+                type: "boolean",
+                description: "Discard the snapshot and download everything",
+              },
+            ],
+            run: runDataSync,
+          },
+        ],
+      },
+      {
+        name: "config",
+        description: "Show the configuration",
+        subcommands: [
+          {
+            name: "path",
+            description: "Print the path of the config file",
+            run: () => console.log(getConfigPath()),
+          },
+          {
+            name: "show",
+            description: "Print the current configuration",
+            run: () => console.log(JSON.stringify(loadConfig(), null, 2)),
+          },
+        ],
+      },
+      {
+        name: "completion",
+        description: "Generate a shell completion script",
+        arguments: [
+          { name: "shell", description: "bash (default) or zsh" },
+        ],
+        run: runCompletion,
+      },
+    ],
+  };
+
+  return root;
+}
+
+/**
+ * Set up the data sources from the global options, the environment and
+ * the config file
+ */
+async function useDataOptions(
+  options: OptionValues,
+  commands: CommandSpec[],
+): Promise<void> {
+  // A game implies its generation, so a second one would be ignored
+  if (options.gen !== undefined && options.game !== undefined) {
+    throw new UsageError("Use either --gen or --game, not both", commands);
+  }
+
+  if (options.offline) {
+    pokeAPI.setOfflineMode(true);
+  }
+
+  // Serve data from a completed local snapshot when one exists
+  pokeAPI.useSnapshot(await snapshotService.load());
+
+  const dataDir =
+    (options["data-dir"] as string | undefined) ||
+    process.env.POKEDEX_DATA_DIR ||
+    loadConfig().dataDir;
+  if (dataDir) {
+    setPokemonRepository(new LocalPokemonRepository(dataDir));
+  }
+
+  if (options.gen !== undefined) {
+    generationService.setSessionGeneration(options.gen as number);
+  }
+  if (options.game !== undefined) {
+    generationService.setSessionVersionGroup(options.game as string);
+  }
+}
+
+/**
+ * Error handler reporting an unknown Pokemon by its name
+ *
+ * Other failures (offline cache misses, network errors) are rethrown
+ * with their own message.
+ */
+function reportNotFound(name: string): (error: unknown) => never {
+  return (error) => {
+    if (error instanceof NotFoundError) {
+      throw new Error(`Could not find Pokemon "${name}"`);
+    }
+    throw error;
+  };
+}
+
+async function runShow({
+  args,
+  options,
+  commands,
+}: ParsedCommandLine): Promise<void> {
+  await useDataOptions(options, commands);
+
+  if (options.graphics) {
+    imageService.setGraphicsProtocol(options.graphics as GraphicsProtocol);
+  }
+
+  startApp({
+    pokemonName: args.pokemon,
+    animateSprites:
+      !options["no-animation"] && loadConfig().animateSprites !== false,
+  });
+
+  // Runs until the user quits
+  await new Promise<never>(() => {});
+}
+
+async function runInfo({
+  args,
+  options,
+  commands,
+}: ParsedCommandLine): Promise<void> {
+  await useDataOptions(options, commands);
+  const name = args.pokemon as string;
+
+  const info = await getPokemonInfo(name, {
+    includeMoves: Boolean(options.moves),
+  }).catch(reportNotFound(name));
+  process.stdout.write(formatPokemonInfo(info, getFormat(options)));
+}
+
+async function runMoves({
+  args,
+  options,
+  commands,
+}: ParsedCommandLine): Promise<void> {
+  await useDataOptions(options, commands);
+  const name = args.pokemon as string;
+  const repository = getPokemonRepository();
+
+  const pokemon = await repository
+    .getPokemonDetails(name.toLowerCase())
+    .catch(reportNotFound(name));
+  const generation = generationService.getSessionGeneration();
+  const versionGroup = generationService.getSessionVersionGroup();
+  let moves = await repository.getMoves(
+    pokemon.id,
+    generation,
+    versionGroup ?? undefined,
+  );
+
+  // Keep only the entries of the method, and the moves that still have one
+  // in the shown game, taking their method and level from those entries
+  if (options.method) {
+    moves = moves.flatMap((move: MoveData) => {
+      const learnEntries = move.learnEntries.filter(
+        (entry) => entry.method === options.method,
+      );
+      const shown = learnEntries.find(
+        (entry) => entry.versionGroup === move.versionGroup,
+      );
+      return shown
+        ? [
+            {
+              ...move,
+              learnMethod: shown.method,
+              levelLearned: shown.level,
+              learnEntries,
+            },
+          ]
+        : [];
+    });
+  }
+
+  const game = versionGroup
+    ? getVersionGroupDisplayName(versionGroup)
+    : `Gen ${generation}`;
+  const title = `${pokemon.displayName} moves (${game})`;
+  process.stdout.write(
+    formatMoves(
+      title,
+      moves,
+      getFormat(options),
+      Boolean(options["all-methods"]),
+    ),
+  );
+}
+
+async function runCompare({
+  args,
+  options,
+  commands,
+}: ParsedCommandLine): Promise<void> {
+  await useDataOptions(options, commands);
+  const repository = getPokemonRepository();
+
+  const pokemon = await Promise.all(
+    [args.first, args.second].map((name) =>
+      repository
+        .getPokemonDetails(String(name).toLowerCase())
+        .catch(reportNotFound(String(name))),
+    ),
+  );
+  process.stdout.write(
+    formatComparison(comparePokemon(pokemon), getFormat(options)),
+  );
+}
+
+async function runDataSync({ options }: ParsedCommandLine): Promise<void> {
+  console.log(`Syncing snapshot to ${snapshotService.getDirectory()}`);
+
+  const manifest = await snapshotService
+    .sync({
+      force: Boolean(options.force),
+      onProgress: (progress) => {
+        const step = `[${progress.phaseIndex + 1}/${progress.phaseCount}]`;
+        const percent =
+          progress.total > 0
+            ? Math.floor((progress.completed / progress.total) * 100)
+            : 100;
+        const line = `${step} ${progress.label}: ${progress.completed}/${progress.total} (${percent}%)`;
+
+        if (process.stdout.isTTY) {
+          process.stdout.write(`\r\x1b[2K${line}`);
+          if (progress.completed === progress.total) {
+            process.stdout.write("\n");
+          }
+        } else if (progress.completed === progress.total) {
+          console.log(line);
+        }
+      },
+    })
+    .catch((error) => {
+      console.error("Error syncing snapshot:", error);
+      throw new Error("Progress was saved; run the command again to resume.");
+    });
+
+  if (!manifest.completedAt) {
+    throw new Error(
+      `Snapshot incomplete: ${manifest.failed.length} resources failed ` +
+        "to download. Run `poclidex data sync` again to retry them.",
+    );
+  }
+  console.log("Snapshot complete. All data is now available offline.");
+}
+
+async function runCompletion({
+  args,
+  commands,
+  options,
+}: ParsedCommandLine): Promise<void> {
+  const shell = (args.shell ?? "bash") as CompletionShell;
+  if (!COMPLETION_SHELLS.includes(shell)) {
+    throw new Error("Unsupported shell. Use: bash or zsh");
+  }
+
+  await useDataOptions(options, commands);
+  const pokemonList = await getPokemonRepository()
+    .getPokemonList()
+    .catch((error) => {
+      throw new Error(`Could not load the Pokemon list (${error})`);
+    });
+
+  process.stdout.write(
+    generateCompletion(
+      shell,
+      pokemonList.map((p) => p.name),
+      (commands[0].subcommands ?? []).map((c) => c.name),
+      POKEMON_COMMANDS,
+    ),
+  );
+}
+
+function getFormat(options: OptionValues): InfoFormat {
+  return (options.format as InfoFormat | undefined) ?? "text";
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  ABILITY_MATCHUP_EFFECTS,
+  getAbilityMatchupEffect,
+  applyAbilityEffect,
+} from "./abilityMatchups.js";
+
+describe("abilityMatchups", () => {
+  describe("getAbilityMatchupEffect", () => {
+    it("should return effects for matchup-changing abilities", () => {
+      expect(getAbilityMatchupEffect("levitate", 3)).toBe(
+        ABILITY_MATCHUP_EFFECTS.levitate,
+      );
+    });
+
+    it("should return undefined for other abilities", () => {
+      expect(getAbilityMatchupEffect("cursed-body", 9)).toBeUndefined();
+    });
+
+    it("should respect the generation the effect was introduced", () => {
+      // Lightning Rod only redirected Electric moves before Gen 5
+      expect(getAbilityMatchupEffect("lightning-rod", 4)).toBeUndefined();
+      expect(getAbilityMatchupEffect("lightning-rod", 5)).toBeDefined();
+    });
+
+    it("should accept the old Lightningrod spelling", () => {
+      expect(getAbilityMatchupEffect("lightningrod", 5)).toBe(
+        ABILITY_MATCHUP_EFFECTS["lightning-rod"],
+      );
+    });
+  });
+
+  describe("applyAbilityEffect", () => {
+    it("should apply immunities", () => {
+      const effect = ABILITY_MATCHUP_EFFECTS["flash-fire"];
+
+      expect(applyAbilityEffect(effect, "fire", 2)).toBe(0);
+      expect(applyAbilityEffect(effect, "water", 2)).toBe(2);
+    });
+
+    it("should apply type factors", () => {
+      const effect = ABILITY_MATCHUP_EFFECTS["thick-fat"];
+
+      expect(applyAbilityEffect(effect, "ice", 2)).toBe(1);
+      expect(applyAbilityEffect(effect, "fire", 0.5)).toBe(0.25);
+    });
+
+    it("should reduce only super effective hits with Filter", () => {
+      const effect = ABILITY_MATCHUP_EFFECTS.filter;
+
+      expect(applyAbilityEffect(effect, "fire", 2)).toBe(1.5);
+      expect(applyAbilityEffect(effect, "fire", 4)).toBe(3);
+      expect(applyAbilityEffect(effect, "fire", 1)).toBe(1);
+    });
+
+    it("should only let super effective hits through Wonder Guard", () => {
+      const effect = ABILITY_MATCHUP_EFFECTS["wonder-guard"];
+
+      expect(applyAbilityEffect(effect, "fire", 2)).toBe(2);
+      expect(applyAbilityEffect(effect, "normal", 1)).toBe(0);
+      expect(applyAbilityEffect(effect, "bug", 0.5)).toBe(0);
+    });
+  });
+});
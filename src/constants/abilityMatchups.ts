@@ -0,0 +1,79 @@
+/**
+ * Abilities that change the damage a Pokemon takes from attacking types.
+ *
+ * Only type-based effects are modelled; conditional effects such as
+ * Fluffy's contact reduction or weather-based abilities are ignored.
+ */
+
+export interface AbilityMatchupEffect {
+  /** Factor applied per attacking type (0 = immunity) */
+  typeFactors?: Partial<Record<string, number>>;
+  /** Factor applied to super effective hits (Filter, Solid Rock) */
+  superEffectiveFactor?: number;
+  /** Only super effective hits connect (Wonder Guard) */
+  superEffectiveOnly?: boolean;
+  /** First generation in which the ability had this effect */
+  sinceGeneration: number;
+}
+
+export const ABILITY_MATCHUP_EFFECTS: Record<string, AbilityMatchupEffect> = {
+  // Immunities
+  levitate: { typeFactors: { ground: 0 }, sinceGeneration: 3 },
+  "flash-fire": { typeFactors: { fire: 0 }, sinceGeneration: 3 },
+  "volt-absorb": { typeFactors: { electric: 0 }, sinceGeneration: 3 },
+  "water-absorb": { typeFactors: { water: 0 }, sinceGeneration: 3 },
+  "motor-drive": { typeFactors: { electric: 0 }, sinceGeneration: 4 },
+  "dry-skin": { typeFactors: { water: 0, fire: 1.25 }, sinceGeneration: 4 },
+  // Only redirected moves before Gen 5
+  "lightning-rod": { typeFactors: { electric: 0 }, sinceGeneration: 5 },
+  "storm-drain": { typeFactors: { water: 0 }, sinceGeneration: 5 },
+  "sap-sipper": { typeFactors: { grass: 0 }, sinceGeneration: 5 },
+  "earth-eater": { typeFactors: { ground: 0 }, sinceGeneration: 9 },
+  "well-baked-body": { typeFactors: { fire: 0 }, sinceGeneration: 9 },
+
+  // Resistances and weaknesses
+  "thick-fat": { typeFactors: { fire: 0.5, ice: 0.5 }, sinceGeneration: 3 },
+  heatproof: { typeFactors: { fire: 0.5 }, sinceGeneration: 4 },
+  "water-bubble": { typeFactors: { fire: 0.5 }, sinceGeneration: 7 },
+  "purifying-salt": { typeFactors: { ghost: 0.5 }, sinceGeneration: 9 },
+  fluffy: { typeFactors: { fire: 2 }, sinceGeneration: 7 },
+
+  // Super effective hits
+  filter: { superEffectiveFactor: 0.75, sinceGeneration: 4 },
+  "solid-rock": { superEffectiveFactor: 0.75, sinceGeneration: 4 },
+  "prism-armor": { superEffectiveFactor: 0.75, sinceGeneration: 7 },
+  "wonder-guard": { superEffectiveOnly: true, sinceGeneration: 3 },
+};
+
+/**
+ * Get an ability's matchup effect in a generation, if it has one
+ *
+ * Accepts old spellings used in historical data (e.g. "lightningrod").
+ */
+export function getAbilityMatchupEffect(
+  ability: string,
+  generation: number,
+): AbilityMatchupEffect | undefined {
+  const name = ability === "lightningrod" ? "lightning-rod" : ability;
+  const effect = ABILITY_MATCHUP_EFFECTS[name];
+  return effect && generation >= effect.sinceGeneration ? effect : undefined;
+}
+
+/**
+ * Apply an ability effect to a raw type multiplier
+ */
+export function applyAbilityEffect(
+  effect: AbilityMatchupEffect,
+  attackingType: string,
+  multiplier: number,
+): number {
+  if (effect.superEffectiveOnly && multiplier <= 1) {
+    return 0;
+  }
+
+  let result = multiplier * (effect.typeFactors?.[attackingType] ?? 1);
+  if (effect.superEffectiveFactor !== undefined && multiplier > 1) {
+    result *= effect.superEffectiveFactor;
+  }
+  return result;
+}
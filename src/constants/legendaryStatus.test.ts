@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  LEGENDARY_SPECIES,
+  MYTHICAL_SPECIES,
+  getSpecialStatus,
+} from "./legendaryStatus.js";
+
+describe("legendaryStatus", () => {
+  it("should flag Legendary species by ID", () => {
+    expect(getSpecialStatus(150, "mewtwo")).toEqual({
+      isLegendary: true,
+      isMythical: false,
+    });
+  });
+
+  it("should flag Mythical species by ID", () => {
+    expect(getSpecialStatus(151, "mew")).toEqual({
+      isLegendary: false,
+      isMythical: true,
+    });
+  });
+
+  it("should flag alternate forms by species name", () => {
+    expect(getSpecialStatus(10043, "mewtwo-mega-x").isLegendary).toBe(true);
+    expect(getSpecialStatus(10001, "deoxys-attack").isMythical).toBe(true);
+  });
+
+  it("should not flag regular Pokemon", () => {
+    expect(getSpecialStatus(25, "pikachu")).toEqual({
+      isLegendary: false,
+      isMythical: false,
+    });
+  });
+
+  it("should not match names that merely share a prefix", () => {
+    // "mew" must not match "mewtwo"
+    expect(getSpecialStatus(150, "mewtwo").isMythical).toBe(false);
+  });
+
+  it("should never list a species as both Legendary and Mythical", () => {
+    const legendary = new Set(Object.keys(LEGENDARY_SPECIES));
+    const overlap = Object.keys(MYTHICAL_SPECIES).filter((id) =>
+      legendary.has(id),
+    );
+
+    expect(overlap).toEqual([]);
+  });
+});
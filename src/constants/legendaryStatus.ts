@@ -0,0 +1,162 @@
+/**
+ * Legendary and Mythical species (National Dex number → species name).
+ *
+ * PokeAPI only exposes these flags on each species resource, so filtering
+ * the whole Pokedex would need one request per species. This table lets
+ * the home screen filters work instantly and offline.
+ *
+ * Source: PokeAPI pokemon-species `is_legendary` / `is_mythical`
+ */
+export const LEGENDARY_SPECIES: Record<number, string> = {
+  // Generation I
+  144: "articuno",
+  145: "zapdos",
+  146: "moltres",
+  150: "mewtwo",
+
+  // Generation II
+  243: "raikou",
+  244: "entei",
+  245: "suicune",
+  249: "lugia",
+  250: "ho-oh",
+
+  // Generation III
+  377: "regirock",
+  378: "regice",
+  379: "registeel",
+  380: "latias",
+  381: "latios",
+  382: "kyogre",
+  383: "groudon",
+  384: "rayquaza",
+
+  // Generation IV
+  480: "uxie",
+  481: "mesprit",
+  482: "azelf",
+  483: "dialga",
+  484: "palkia",
+  485: "heatran",
+  486: "regigigas",
+  487: "giratina",
+  488: "cresselia",
+
+  // Generation V
+  638: "cobalion",
+  639: "terrakion",
+  640: "virizion",
+  641: "tornadus",
+  642: "thundurus",
+  643: "reshiram",
+  644: "zekrom",
+  645: "landorus",
+  646: "kyurem",
+
+  // Generation VI
+  716: "xerneas",
+  717: "yveltal",
+  718: "zygarde",
+
+  // Generation VII
+  772: "type-null",
+  773: "silvally",
+  785: "tapu-koko",
+  786: "tapu-lele",
+  787: "tapu-bulu",
+  788: "tapu-fini",
+  789: "cosmog",
+  790: "cosmoem",
+  791: "solgaleo",
+  792: "lunala",
+  800: "necrozma",
+
+  // Generation VIII
+  888: "zacian",
+  889: "zamazenta",
+  890: "eternatus",
+  891: "kubfu",
+  892: "urshifu",
+  894: "regieleki",
+  895: "regidrago",
+  896: "glastrier",
+  897: "spectrier",
+  898: "calyrex",
+  905: "enamorus",
+
+  // Generation IX
+  1001: "wo-chien",
+  1002: "chien-pao",
+  1003: "ting-lu",
+  1004: "chi-yu",
+  1007: "koraidon",
+  1008: "miraidon",
+  1014: "okidogi",
+  1015: "munkidori",
+  1016: "fezandipiti",
+  1017: "ogerpon",
+  1024: "terapagos",
+};
+
+export const MYTHICAL_SPECIES: Record<number, string> = {
+  151: "mew",
+  251: "celebi",
+  385: "jirachi",
+  386: "deoxys",
+  489: "phione",
+  490: "manaphy",
+  491: "darkrai",
+  492: "shaymin",
+  493: "arceus",
+  494: "victini",
+  647: "keldeo",
+  648: "meloetta",
+  649: "genesect",
+  719: "diancie",
+  720: "hoopa",
+  721: "volcanion",
+  801: "magearna",
+  802: "marshadow",
+  807: "zeraora",
+  808: "meltan",
+  809: "melmetal",
+  893: "zarude",
+  1025: "pecharunt",
+};
+
+/**
+ * Check if a species table contains a Pokemon, including alternate forms.
+ *
+ * Forms have IDs above 10000 and names prefixed with their species
+ * (e.g. "mewtwo-mega-x", "kyurem-black"), so they are matched by name.
+ */
+function matchesSpecies(
+  table: Record<number, string>,
+  pokemonId: number,
+  pokemonName: string,
+): boolean {
+  if (table[pokemonId]) {
+    return true;
+  }
+
+  return Object.values(table).some(
+    (species) =>
+      pokemonName === species || pokemonName.startsWith(`${species}-`),
+  );
+}
+
+/**
+ * Get Legendary / Mythical status for a Pokemon or one of its forms
+ *
+ * @param pokemonId - Pokemon ID (National Dex number or form ID)
+ * @param pokemonName - Pokemon name (lowercase, hyphenated)
+ */
+export function getSpecialStatus(
+  pokemonId: number,
+  pokemonName: string,
+): { isLegendary: boolean; isMythical: boolean } {
+  return {
+    isLegendary: matchesSpecies(LEGENDARY_SPECIES, pokemonId, pokemonName),
+    isMythical: matchesSpecies(MYTHICAL_SPECIES, pokemonId, pokemonName),
+  };
+}
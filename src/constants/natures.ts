@@ -0,0 +1,67 @@
+/**
+ * Natures (Gen 3+) and the stats they raise and lower by 10%
+ *
+ * Listed in game index order. Neutral natures (Hardy, Docile, Serious,
+ * Bashful, Quirky) raise and lower nothing.
+ */
+
+/**
+ * Stats a nature can affect (HP is never affected)
+ */
+export type NatureStat =
+  | "attack"
+  | "defense"
+  | "specialAttack"
+  | "specialDefense"
+  | "speed";
+
+export interface Nature {
+  name: string;
+  increased?: NatureStat;
+  decreased?: NatureStat;
+}
+
+export const NATURES: Nature[] = [
+  { name: "hardy" },
+  { name: "lonely", increased: "attack", decreased: "defense" },
+  { name: "brave", increased: "attack", decreased: "speed" },
+  { name: "adamant", increased: "attack", decreased: "specialAttack" },
+  { name: "naughty", increased: "attack", decreased: "specialDefense" },
+  { name: "bold", increased: "defense", decreased: "attack" },
+  { name: "docile" },
+  { name: "relaxed", increased: "defense", decreased: "speed" },
+  { name: "impish", increased: "defense", decreased: "specialAttack" },
+  { name: "lax", increased: "defense", decreased: "specialDefense" },
+  { name: "timid", increased: "speed", decreased: "attack" },
+  { name: "hasty", increased: "speed", decreased: "defense" },
+  { name: "serious" },
+  { name: "jolly", increased: "speed", decreased: "specialAttack" },
+  { name: "naive", increased: "speed", decreased: "specialDefense" },
+  { name: "modest", increased: "specialAttack", decreased: "attack" },
+  { name: "mild", increased: "specialAttack", decreased: "defense" },
+  { name: "quiet", increased: "specialAttack", decreased: "speed" },
+  { name: "bashful" },
+  { name: "rash", increased: "specialAttack", decreased: "specialDefense" },
+  { name: "calm", increased: "specialDefense", decreased: "attack" },
+  { name: "gentle", increased: "specialDefense", decreased: "defense" },
+  { name: "sassy", increased: "specialDefense", decreased: "speed" },
+  { name: "careful", increased: "specialDefense", decreased: "specialAttack" },
+  { name: "quirky" },
+];
+
+/**
+ * Get a nature by name (case-insensitive)
+ */
+export function getNature(name: string): Nature | undefined {
+  const key = name.toLowerCase();
+  return NATURES.find((n) => n.name === key);
+}
+
+/**
+ * Get the multiplier a nature applies to a stat (1.1, 0.9 or 1)
+ */
+export function getNatureModifier(nature: Nature, stat: string): number {
+  if (nature.increased === stat) return 1.1;
+  if (nature.decreased === stat) return 0.9;
+  return 1;
+}
@@ -0,0 +1,46 @@
+/**
+ * All 18 Pokemon types, in PokeAPI / Pokedex order.
+ */
+export const POKEMON_TYPES = [
+  "normal",
+  "fighting",
+  "flying",
+  "poison",
+  "ground",
+  "rock",
+  "bug",
+  "ghost",
+  "steel",
+  "fire",
+  "water",
+  "grass",
+  "electric",
+  "psychic",
+  "ice",
+  "dragon",
+  "dark",
+  "fairy",
+] as const;
+
+export type PokemonTypeName = (typeof POKEMON_TYPES)[number];
+
+/**
+ * First generation in which each move has its own physical or special
+ * category. Before it, the category followed the move's type.
+ */
+export const PHYSICAL_SPECIAL_SPLIT_GENERATION = 4;
+
+/**
+ * Types whose damaging moves were special before the split; moves of the
+ * other types were physical
+ */
+export const SPECIAL_TYPES_BEFORE_SPLIT: readonly string[] = [
+  "fire",
+  "water",
+  "grass",
+  "electric",
+  "ice",
+  "psychic",
+  "dragon",
+  "dark",
+];
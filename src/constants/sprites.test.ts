@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractSpriteSets,
+  getAnimatedSprites,
+  getGameSprites,
+  listSpriteVariants,
+} from "./sprites.js";
+import type { PokemonSprites } from "../api/types.js";
+
+const BASE_SPRITES: PokemonSprites = {
+  front_default: "front.png",
+  front_shiny: "shiny.png",
+  front_female: null,
+  front_shiny_female: null,
+  back_default: "back.png",
+  back_shiny: null,
+  back_female: null,
+  back_shiny_female: null,
+  other: {
+    "official-artwork": {
+      front_default: "artwork.png",
+      front_shiny: "artwork-shiny.png",
+    },
+    home: {
+      front_default: "home.png",
+      front_shiny: "home-shiny.png",
+      front_female: "home-female.png",
+      front_shiny_female: null,
+    },
+  },
+};
+
+describe("sprites", () => {
+  describe("extractSpriteSets", () => {
+    it("should key game sprites by version group", () => {
+      const result = extractSpriteSets({
+        ...BASE_SPRITES,
+        versions: {
+          "generation-i": {
+            "red-blue": {
+              front_default: "rb.png",
+              front_transparent: "rb-transparent.png",
+              back_default: "rb-back.png",
+            },
+          },
+          "generation-ii": {
+            gold: { front_default: "gold.png", front_shiny: "gold-shiny.png" },
+            silver: { front_default: "silver.png" },
+          },
+          "generation-vi": {
+            "omegaruby-alphasapphire": { front_default: "oras.png" },
+          },
+          "generation-vii": {
+            "ultra-sun-ultra-moon": { front_default: null },
+          },
+        },
+      });
+
+      expect(result["red-blue"]).toMatchObject({
+        front: "rb-transparent.png",
+        back: "rb-back.png",
+      });
+      expect(result["gold-silver"]).toMatchObject({
+        front: "gold.png",
+        frontShiny: "gold-shiny.png",
+      });
+      expect(result["omega-ruby-alpha-sapphire"].front).toBe("oras.png");
+      expect(result["ultra-sun-ultra-moon"]).toBeUndefined();
+    });
+
+    it("should include the default, artwork and HOME sprites", () => {
+      const result = extractSpriteSets(BASE_SPRITES);
+
+      expect(result.default.front).toBe("front.png");
+      expect(result.artwork.frontShiny).toBe("artwork-shiny.png");
+      expect(result.home.frontFemale).toBe("home-female.png");
+      expect(result.showdown).toBeUndefined();
+    });
+
+    it("should include animated Black/White and Showdown sprites", () => {
+      const result = extractSpriteSets({
+        ...BASE_SPRITES,
+        other: {
+          ...BASE_SPRITES.other,
+          showdown: { front_default: "sd.gif", back_default: "sd-back.gif" },
+        },
+        versions: {
+          "generation-v": {
+            "black-white": {
+              front_default: "bw.png",
+              animated: { front_default: "bw.gif", front_shiny: "bw-s.gif" },
+            },
+          },
+        },
+      });
+
+      expect(result["black-white"].front).toBe("bw.png");
+      expect(result["black-white-animated"].frontShiny).toBe("bw-s.gif");
+      expect(result.showdown.back).toBe("sd-back.gif");
+    });
+  });
+
+  describe("getAnimatedSprites", () => {
+    it("should return a game's animated sprites when it has them", () => {
+      const sets = {
+        "black-white": { front: "bw.png" },
+        "black-white-animated": { front: "bw.gif" },
+      };
+
+      expect(getAnimatedSprites(sets, "black-white")).toEqual({
+        front: "bw.gif",
+      });
+      expect(getAnimatedSprites(sets, "x-y")).toBeNull();
+    });
+  });
+
+  describe("listSpriteVariants", () => {
+    it("should list only the available variants in display order", () => {
+      const { home, default: sprites } = extractSpriteSets(BASE_SPRITES);
+
+      expect(listSpriteVariants(sprites).map((v) => v.label)).toEqual([
+        "Normal",
+        "Shiny",
+        "Back",
+      ]);
+      expect(listSpriteVariants(home)).toEqual([
+        { key: "front", label: "Normal", url: "home.png" },
+        { key: "frontShiny", label: "Shiny", url: "home-shiny.png" },
+        { key: "frontFemale", label: "Female", url: "home-female.png" },
+      ]);
+    });
+  });
+
+  describe("getGameSprites", () => {
+    const sets = {
+      "red-blue": { front: "rb.png" },
+      yellow: { front: "yellow.png" },
+      emerald: { front: "emerald.png" },
+      "firered-leafgreen": { front: "frlg.png" },
+      "black-white": { front: "bw.png" },
+      artwork: { front: "artwork.png" },
+    };
+
+    it("should prefer the latest game of the generation", () => {
+      expect(getGameSprites(sets, 1)).toEqual({
+        versionGroup: "yellow",
+        sprites: { front: "yellow.png" },
+      });
+      expect(getGameSprites(sets, 3)?.versionGroup).toBe("emerald");
+    });
+
+    it("should use the chosen game when it has sprites", () => {
+      expect(getGameSprites(sets, 1, "red-blue")?.versionGroup).toBe(
+        "red-blue",
+      );
+      expect(getGameSprites(sets, 1, "crystal")?.versionGroup).toBe("yellow");
+    });
+
+    it("should fall back to later generations", () => {
+      // Gen 5 prefers Black 2/White 2, which shares the Black/White sprites
+      expect(getGameSprites(sets, 5)?.versionGroup).toBe("black-white");
+      expect(getGameSprites(sets, 4)?.versionGroup).toBe("black-white");
+    });
+
+    it("should return null when no game has a sprite", () => {
+      expect(getGameSprites(sets, 9)).toBeNull();
+      expect(getGameSprites({}, 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import type { PokemonSprites, VersionSprites } from "../api/types.js";
+import {
+  VERSION_GROUP_TO_GENERATION,
+  LATEST_VERSION_GROUP_PER_GEN,
+} from "./versionGroups.js";
+
+/**
+ * Where each game's sprites live under `PokemonSprites.versions`.
+ *
+ * PokeAPI keys sprites by generation and game, which mostly but not always
+ * match version group names (Gold and Silver are split, ORAS is spelled
+ * "omegaruby-alphasapphire"). Games without sprites (Gen 8+ apart from
+ * BDSP) are absent, so those generations fall back to the artwork.
+ */
+const VERSION_SPRITE_SOURCES: Array<{
+  generation: string;
+  game: string;
+  versionGroup: string;
+}> = [
+  { generation: "generation-i", game: "red-blue", versionGroup: "red-blue" },
+  { generation: "generation-i", game: "yellow", versionGroup: "yellow" },
+  { generation: "generation-ii", game: "gold", versionGroup: "gold-silver" },
+  { generation: "generation-ii", game: "silver", versionGroup: "gold-silver" },
+  { generation: "generation-ii", game: "crystal", versionGroup: "crystal" },
+  {
+    generation: "generation-iii",
+    game: "ruby-sapphire",
+    versionGroup: "ruby-sapphire",
+  },
+  { generation: "generation-iii", game: "emerald", versionGroup: "emerald" },
+  {
+    generation: "generation-iii",
+    game: "firered-leafgreen",
+    versionGroup: "firered-leafgreen",
+  },
+  {
+    generation: "generation-iv",
+    game: "diamond-pearl",
+    versionGroup: "diamond-pearl",
+  },
+  { generation: "generation-iv", game: "platinum", versionGroup: "platinum" },
+  {
+    generation: "generation-iv",
+    game: "heartgold-soulsilver",
+    versionGroup: "heartgold-soulsilver",
+  },
+  {
+    generation: "generation-v",
+    game: "black-white",
+    versionGroup: "black-white",
+  },
+  { generation: "generation-vi", game: "x-y", versionGroup: "x-y" },
+  {
+    generation: "generation-vi",
+    game: "omegaruby-alphasapphire",
+    versionGroup: "omega-ruby-alpha-sapphire",
+  },
+  {
+    generation: "generation-vii",
+    game: "ultra-sun-ultra-moon",
+    versionGroup: "ultra-sun-ultra-moon",
+  },
+  {
+    generation: "generation-viii",
+    game: "brilliant-diamond-shining-pearl",
+    versionGroup: "brilliant-diamond-shining-pearl",
+  },
+];
+
+/**
+ * A sprite variant: front or back, normal or shiny, default or female
+ */
+export type SpriteVariantKey =
+  | "front"
+  | "frontShiny"
+  | "frontFemale"
+  | "frontShinyFemale"
+  | "back"
+  | "backShiny"
+  | "backFemale"
+  | "backShinyFemale";
+
+/**
+ * Variant URLs of one source (a game, the artwork or HOME)
+ */
+export type SpriteSet = Partial<Record<SpriteVariantKey, string | null>>;
+
+/**
+ * Variants in display order, with their labels
+ */
+export const SPRITE_VARIANTS: Array<{ key: SpriteVariantKey; label: string }> =
+  [
+    { key: "front", label: "Normal" },
+    { key: "frontShiny", label: "Shiny" },
+    { key: "frontFemale", label: "Female" },
+    { key: "frontShinyFemale", label: "Shiny Female" },
+    { key: "back", label: "Back" },
+    { key: "backShiny", label: "Back Shiny" },
+    { key: "backFemale", label: "Back Female" },
+    { key: "backShinyFemale", label: "Back Shiny Female" },
+  ];
+
+/**
+ * A game's sprites picked for a generation
+ */
+export interface GameSprites {
+  versionGroup: string;
+  sprites: SpriteSet;
+}
+
+/**
+ * Collect every sprite set, keyed by version group.
+ *
+ * The top-level sprites are stored as "default", the official artwork as
+ * "artwork", the Pokemon HOME renders as "home" and the animated Showdown
+ * sprites as "showdown". Animated game sprites are stored under
+ * "<version group>-animated". Gen 1-2 prefer the transparent front
+ * sprite, since the originals have a solid white background.
+ */
+export function extractSpriteSets(
+  sprites: PokemonSprites,
+): Record<string, SpriteSet> {
+  const artwork = sprites.other?.["official-artwork"];
+  const home = sprites.other?.home;
+  const result: Record<string, SpriteSet> = {
+    default: {
+      front: sprites.front_default,
+      frontShiny: sprites.front_shiny,
+      frontFemale: sprites.front_female,
+      frontShinyFemale: sprites.front_shiny_female,
+      back: sprites.back_default,
+      backShiny: sprites.back_shiny,
+      backFemale: sprites.back_female,
+      backShinyFemale: sprites.back_shiny_female,
+    },
+    artwork: {
+      front: artwork?.front_default,
+      frontShiny: artwork?.front_shiny,
+    },
+    home: {
+      front: home?.front_default,
+      frontShiny: home?.front_shiny,
+      frontFemale: home?.front_female,
+      frontShinyFemale: home?.front_shiny_female,
+    },
+  };
+
+  const showdown = sprites.other?.showdown;
+  if (showdown?.front_default) {
+    result.showdown = toSpriteSet(showdown, showdown.front_default);
+  }
+
+  for (const source of VERSION_SPRITE_SOURCES) {
+    const sprite = sprites.versions?.[source.generation]?.[source.game];
+    const front = sprite?.front_transparent || sprite?.front_default;
+    if (sprite && front && !result[source.versionGroup]) {
+      result[source.versionGroup] = toSpriteSet(sprite, front);
+    }
+
+    const animated = sprite?.animated;
+    if (animated?.front_default) {
+      result[`${source.versionGroup}-animated`] = toSpriteSet(
+        animated,
+        animated.front_default,
+      );
+    }
+  }
+
+  return result;
+}
+
+function toSpriteSet(sprite: VersionSprites, front: string): SpriteSet {
+  return {
+    front,
+    frontShiny: sprite.front_shiny,
+    frontFemale: sprite.front_female,
+    frontShinyFemale: sprite.front_shiny_female,
+    back: sprite.back_default,
+    backShiny: sprite.back_shiny,
+    backFemale: sprite.back_female,
+    backShinyFemale: sprite.back_shiny_female,
+  };
+}
+
+/**
+ * Animated sprites of a game, or null when it has none
+ */
+export function getAnimatedSprites(
+  spriteSets: Record<string, SpriteSet>,
+  versionGroup: string,
+): SpriteSet | null {
+  const set = spriteSets[`${versionGroup}-animated`];
+  return set?.front ? set : null;
+}
+
+/**
+ * Available variants of a sprite set, in display order
+ */
+export function listSpriteVariants(
+  set: SpriteSet,
+): Array<{ key: SpriteVariantKey; label: string; url: string }> {
+  return SPRITE_VARIANTS.flatMap(({ key, label }) => {
+    const url = set[key];
+    return url ? [{ key, label, url }] : [];
+  });
+}
+
+/**
+ * Version groups of a generation, latest (most complete) first
+ */
+function getVersionGroupsByPreference(generation: number): string[] {
+  const groups = Object.keys(VERSION_GROUP_TO_GENERATION)
+    .filter((group) => VERSION_GROUP_TO_GENERATION[group] === generation)
+    .reverse();
+  const latest = LATEST_VERSION_GROUP_PER_GEN[generation];
+
+  return latest ? [latest, ...groups.filter((g) => g !== latest)] : groups;
+}
+
+/**
+ * Pick the period-accurate sprites for a generation.
+ *
+ * Fallback chain: the chosen game, then the generation's games (latest
+ * first), then later generations. Returns null when no game has a sprite,
+ * so callers can fall back to the official artwork.
+ *
+ * @param spriteSets - Sprite sets keyed by version group
+ * @param generation - Generation to display (1-9)
+ * @param versionGroup - Preferred game, if the user picked one
+ */
+export function getGameSprites(
+  spriteSets: Record<string, SpriteSet>,
+  generation: number,
+  versionGroup?: string,
+): GameSprites | null {
+  const candidates = [versionGroup];
+  for (let gen = generation; gen <= 9; gen++) {
+    candidates.push(...getVersionGroupsByPreference(gen));
+  }
+
+  for (const group of candidates) {
+    if (group && spriteSets[group]?.front) {
+      return { versionGroup: group, sprites: spriteSets[group] };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  POKEMON_STAT_CHANGES,
+  getHistoricalStatChanges,
+  applyHistoricalStatChanges,
+  getStatChangeGenerations,
+  type BaseStats,
+} from "./statChanges.js";
+
+/**
+ * Current base stats of Aegislash (Shield Forme)
+ */
+const aegislashShield: BaseStats = {
+  hp: 60,
+  attack: 50,
+  defense: 140,
+  specialAttack: 50,
+  specialDefense: 140,
+  speed: 60,
+};
+
+describe("statChanges", () => {
+  describe("POKEMON_STAT_CHANGES", () => {
+    it("should contain Pikachu's Gen 6 buff", () => {
+      const pikachuChange = POKEMON_STAT_CHANGES.find(
+        (c) => c.pokemonId === 25,
+      );
+      expect(pikachuChange?.pokemonName).toBe("pikachu");
+      expect(pikachuChange?.oldStats).toEqual({
+        defense: 30,
+        specialDefense: 40,
+      });
+      expect(pikachuChange?.changeGeneration).toBe(6);
+    });
+
+    it("should be ordered by change generation", () => {
+      const generations = POKEMON_STAT_CHANGES.map((c) => c.changeGeneration);
+      expect(generations).toEqual([...generations].sort((a, b) => a - b));
+    });
+
+    it("should have valid generations and old stats", () => {
+      for (const change of POKEMON_STAT_CHANGES) {
+        expect(change.changeGeneration).toBeGreaterThanOrEqual(2);
+        expect(change.changeGeneration).toBeLessThanOrEqual(9);
+        expect(Object.keys(change.oldStats).length).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe("getHistoricalStatChanges()", () => {
+    it("should return changes made after the generation", () => {
+      expect(getHistoricalStatChanges(25, "pikachu", 5)).toHaveLength(1);
+      expect(getHistoricalStatChanges(25, "pikachu", 6)).toHaveLength(0);
+    });
+
+    it("should match forms by name", () => {
+      const changes = getHistoricalStatChanges(0, "aegislash-blade", 7);
+      expect(changes[0].oldStats).toEqual({ attack: 150, specialAttack: 150 });
+    });
+
+    it("should return nothing for unchanged Pokemon", () => {
+      expect(getHistoricalStatChanges(1, "bulbasaur", 1)).toEqual([]);
+    });
+  });
+
+  describe("applyHistoricalStatChanges()", () => {
+    it("should restore the old values before the change", () => {
+      const gen7 = applyHistoricalStatChanges(
+        681,
+        "aegislash-shield",
+        aegislashShield,
+        7,
+      );
+
+      expect(gen7).toEqual({
+        ...aegislashShield,
+        defense: 150,
+        specialDefense: 150,
+      });
+    });
+
+    it("should keep the current values from the change on", () => {
+      const gen8 = applyHistoricalStatChanges(
+        681,
+        "aegislash-shield",
+        aegislashShield,
+        8,
+      );
+
+      expect(gen8).toEqual(aegislashShield);
+    });
+
+    it("should not modify the given stats", () => {
+      applyHistoricalStatChanges(681, "aegislash-shield", aegislashShield, 6);
+      expect(aegislashShield.defense).toBe(140);
+    });
+  });
+
+  describe("getStatChangeGenerations()", () => {
+    it("should mark the changed stats only", () => {
+      expect(getStatChangeGenerations(25, "pikachu", 9)).toEqual({
+        defense: 6,
+        specialDefense: 6,
+      });
+    });
+
+    it("should mark upcoming changes before they happen", () => {
+      expect(getStatChangeGenerations(222, "corsola", 3)).toEqual({
+        hp: 7,
+        defense: 7,
+        specialDefense: 7,
+      });
+    });
+
+    it("should return nothing for unchanged Pokemon", () => {
+      expect(getStatChangeGenerations(1, "bulbasaur", 9)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,502 @@
+/**
+ * Historical base stat changes across Pokemon generations.
+ *
+ * PokeAPI only returns current base stats. This constant tracks the
+ * species whose base stats were raised or lowered in a later generation,
+ * with the values they had before. The Gen 1 Special stat is kept
+ * separately in GEN1_SPECIAL_STATS.
+ *
+ * Notable examples:
+ * - Pikachu gained 10 Defense and Sp. Def in Gen 6
+ * - Farfetch'd gained 25 Attack in Gen 7
+ * - Zacian's Crowned Sword lost 20 Attack in Gen 9
+ */
+
+/**
+ * Base stat names, as used by PokemonDisplay.stats
+ */
+export type BaseStatName =
+  | "hp"
+  | "attack"
+  | "defense"
+  | "specialAttack"
+  | "specialDefense"
+  | "speed";
+
+export type BaseStats = Record<BaseStatName, number>;
+
+export interface StatChange {
+  pokemonId: number;
+  pokemonName: string;
+  oldStats: Partial<BaseStats>; // Values before the change
+  changeGeneration: number;
+}
+
+/**
+ * Complete list of Pokemon with historical base stat changes.
+ * Ordered chronologically by change generation.
+ * https://bulbapedia.bulbagarden.net/wiki/List_of_Pok%C3%A9mon_with_base_stat_changes
+ */
+export const POKEMON_STAT_CHANGES: StatChange[] = [
+  // Generation V → VI Changes
+  {
+    pokemonId: 12,
+    pokemonName: "butterfree",
+    oldStats: { specialAttack: 80 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 15,
+    pokemonName: "beedrill",
+    oldStats: { attack: 80 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 18,
+    pokemonName: "pidgeot",
+    oldStats: { speed: 91 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 25,
+    pokemonName: "pikachu",
+    oldStats: { defense: 30, specialDefense: 40 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 26,
+    pokemonName: "raichu",
+    oldStats: { speed: 100 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 31,
+    pokemonName: "nidoqueen",
+    oldStats: { attack: 82 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 34,
+    pokemonName: "nidoking",
+    oldStats: { attack: 92 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 36,
+    pokemonName: "clefable",
+    oldStats: { specialAttack: 85 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 40,
+    pokemonName: "wigglytuff",
+    oldStats: { specialAttack: 75 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 45,
+    pokemonName: "vileplume",
+    oldStats: { specialAttack: 100 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 62,
+    pokemonName: "poliwrath",
+    oldStats: { attack: 85 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 65,
+    pokemonName: "alakazam",
+    oldStats: { specialDefense: 85 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 71,
+    pokemonName: "victreebel",
+    oldStats: { specialDefense: 60 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 76,
+    pokemonName: "golem",
+    oldStats: { attack: 110 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 181,
+    pokemonName: "ampharos",
+    oldStats: { defense: 75 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 182,
+    pokemonName: "bellossom",
+    oldStats: { defense: 85 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 184,
+    pokemonName: "azumarill",
+    oldStats: { specialAttack: 50 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 189,
+    pokemonName: "jumpluff",
+    oldStats: { specialDefense: 85 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 267,
+    pokemonName: "beautifly",
+    oldStats: { specialAttack: 90 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 295,
+    pokemonName: "exploud",
+    oldStats: { specialDefense: 63 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 398,
+    pokemonName: "staraptor",
+    oldStats: { specialDefense: 50 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 407,
+    pokemonName: "roserade",
+    oldStats: { defense: 55 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 508,
+    pokemonName: "stoutland",
+    oldStats: { attack: 100 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 521,
+    pokemonName: "unfezant",
+    oldStats: { attack: 105 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 526,
+    pokemonName: "gigalith",
+    oldStats: { specialDefense: 70 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 537,
+    pokemonName: "seismitoad",
+    oldStats: { attack: 85 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 542,
+    pokemonName: "leavanny",
+    oldStats: { specialDefense: 70 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 545,
+    pokemonName: "scolipede",
+    oldStats: { attack: 90 },
+    changeGeneration: 6,
+  },
+  {
+    pokemonId: 553,
+    pokemonName: "krookodile",
+    oldStats: { defense: 70 },
+    changeGeneration: 6,
+  },
+
+  // Generation VI → VII Changes
+  {
+    pokemonId: 24,
+    pokemonName: "arbok",
+    oldStats: { attack: 85 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 51,
+    pokemonName: "dugtrio",
+    oldStats: { attack: 80 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 83,
+    pokemonName: "farfetchd",
+    oldStats: { attack: 65 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 85,
+    pokemonName: "dodrio",
+    oldStats: { speed: 100 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 101,
+    pokemonName: "electrode",
+    oldStats: { speed: 140 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 103,
+    pokemonName: "exeggutor",
+    oldStats: { specialDefense: 65 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 164,
+    pokemonName: "noctowl",
+    oldStats: { specialAttack: 76 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 168,
+    pokemonName: "ariados",
+    oldStats: { specialDefense: 60 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 211,
+    pokemonName: "qwilfish",
+    oldStats: { defense: 75 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 219,
+    pokemonName: "magcargo",
+    oldStats: { hp: 50, specialAttack: 80 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 222,
+    pokemonName: "corsola",
+    oldStats: { hp: 55, defense: 85, specialDefense: 85 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 226,
+    pokemonName: "mantine",
+    oldStats: { hp: 65 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 277,
+    pokemonName: "swellow",
+    oldStats: { specialAttack: 50 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 279,
+    pokemonName: "pelipper",
+    oldStats: { specialAttack: 85 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 284,
+    pokemonName: "masquerain",
+    oldStats: { specialAttack: 80, speed: 60 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 301,
+    pokemonName: "delcatty",
+    oldStats: { speed: 70 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 313,
+    pokemonName: "volbeat",
+    oldStats: { defense: 55, specialDefense: 75 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 314,
+    pokemonName: "illumise",
+    oldStats: { defense: 55, specialDefense: 75 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 337,
+    pokemonName: "lunatone",
+    oldStats: { hp: 70 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 338,
+    pokemonName: "solrock",
+    oldStats: { hp: 70 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 358,
+    pokemonName: "chimecho",
+    oldStats: { hp: 65, defense: 70, specialDefense: 80 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 527,
+    pokemonName: "woobat",
+    oldStats: { hp: 55 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 558,
+    pokemonName: "crustle",
+    oldStats: { attack: 95 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 614,
+    pokemonName: "beartic",
+    oldStats: { attack: 110 },
+    changeGeneration: 7,
+  },
+  {
+    pokemonId: 615,
+    pokemonName: "cryogonal",
+    oldStats: { hp: 70, defense: 30 },
+    changeGeneration: 7,
+  },
+
+  // Generation VII → VIII Changes
+  {
+    pokemonId: 681,
+    pokemonName: "aegislash-shield",
+    oldStats: { defense: 150, specialDefense: 150 },
+    changeGeneration: 8,
+  },
+  {
+    pokemonId: 10026,
+    pokemonName: "aegislash-blade",
+    oldStats: { attack: 150, specialAttack: 150 },
+    changeGeneration: 8,
+  },
+
+  // Generation VIII → IX Changes
+  {
+    pokemonId: 488,
+    pokemonName: "cresselia",
+    oldStats: { defense: 120, specialDefense: 130 },
+    changeGeneration: 9,
+  },
+  {
+    pokemonId: 10188,
+    pokemonName: "zacian-crowned",
+    oldStats: { attack: 170 },
+    changeGeneration: 9,
+  },
+  {
+    pokemonId: 10189,
+    pokemonName: "zamazenta-crowned",
+    oldStats: { defense: 145, specialDefense: 145 },
+    changeGeneration: 9,
+  },
+];
+
+/**
+ * Get the stat changes of a Pokemon made after a generation.
+ *
+ * @param pokemonId - National Dex number (or form ID)
+ * @param pokemonName - Pokemon name (lowercase, hyphenated)
+ * @param generation - Generation to check
+ * @returns Changes that apply (old stats to show), in list order
+ */
+export function getHistoricalStatChanges(
+  pokemonId: number,
+  pokemonName: string,
+  generation: number,
+): StatChange[] {
+  return getStatChanges(pokemonId, pokemonName).filter(
+    // If viewing a generation BEFORE the change, show the old stats
+    (change) => generation < change.changeGeneration,
+  );
+}
+
+/**
+ * Apply historical stat changes to a Pokemon's base stats.
+ *
+ * When a stat changed more than once, the value from before the earliest
+ * later change is used.
+ *
+ * @param pokemonId - National Dex number (or form ID)
+ * @param pokemonName - Pokemon name
+ * @param currentStats - Current base stats from API
+ * @param generation - Generation to filter by
+ * @returns Base stats as of the generation
+ */
+export function applyHistoricalStatChanges(
+  pokemonId: number,
+  pokemonName: string,
+  currentStats: BaseStats,
+  generation: number,
+): BaseStats {
+  const historicalChanges = getHistoricalStatChanges(
+    pokemonId,
+    pokemonName,
+    generation,
+  );
+
+  // Newest change first, so older values overwrite newer ones
+  return historicalChanges
+    .sort((a, b) => b.changeGeneration - a.changeGeneration)
+    .reduce((stats, change) => ({ ...stats, ...change.oldStats }), {
+      ...currentStats,
+    });
+}
+
+/**
+ * Get the generation each changed stat is marked with.
+ *
+ * Stats still to change after the generation are marked with the next
+ * change; stats already changed, with the latest one.
+ *
+ * @param pokemonId - National Dex number (or form ID)
+ * @param pokemonName - Pokemon name
+ * @param generation - Generation the stats are shown for
+ * @returns Change generation by stat, for changed stats only
+ */
+export function getStatChangeGenerations(
+  pokemonId: number,
+  pokemonName: string,
+  generation: number,
+): Partial<Record<BaseStatName, number>> {
+  const generations: Partial<Record<BaseStatName, number>> = {};
+
+  // Closest change after the generation first, then the latest before it
+  const rank = (changeGeneration: number) =>
+    changeGeneration > generation
+      ? changeGeneration - generation
+      : 10 + generation - changeGeneration;
+
+  for (const change of getStatChanges(pokemonId, pokemonName)) {
+    for (const stat of Object.keys(change.oldStats) as BaseStatName[]) {
+      const marked = generations[stat];
+      const closer =
+        marked === undefined ||
+        rank(change.changeGeneration) < rank(marked);
+      if (closer) {
+        generations[stat] = change.changeGeneration;
+      }
+    }
+  }
+
+  return generations;
+}
+
+/**
+ * All stat changes of a Pokemon, matched by ID or name
+ */
+function getStatChanges(pokemonId: number, pokemonName: string): StatChange[] {
+  return POKEMON_STAT_CHANGES.filter(
+    (change) =>
+      change.pokemonId === pokemonId || change.pokemonName === pokemonName,
+  );
+}
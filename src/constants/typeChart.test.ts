@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import {
+  TYPE_CHART,
+  getTypesForGeneration,
+  getAttackMultiplier,
+  calculateTypeEffectiveness,
+  calculateAbilityMatchups,
+} from "./typeChart.js";
+import { POKEMON_TYPES } from "./pokemonTypes.js";
+
+describe("typeChart", () => {
+  describe("TYPE_CHART", () => {
+    it("should only reference known types", () => {
+      for (const [attacking, row] of Object.entries(TYPE_CHART)) {
+        expect(POKEMON_TYPES).toContain(attacking);
+        for (const defending of Object.keys(row)) {
+          expect(POKEMON_TYPES).toContain(defending);
+        }
+      }
+    });
+
+    it("should have a row for every type", () => {
+      expect(Object.keys(TYPE_CHART).sort()).toEqual([...POKEMON_TYPES].sort());
+    });
+  });
+
+  describe("getTypesForGeneration", () => {
+    it("should have 15 types in Gen 1", () => {
+      const types = getTypesForGeneration(1);
+
+      expect(types).toHaveLength(15);
+      expect(types).not.toContain("dark");
+      expect(types).not.toContain("steel");
+      expect(types).not.toContain("fairy");
+    });
+
+    it("should add Dark and Steel in Gen 2", () => {
+      const types = getTypesForGeneration(2);
+
+      expect(types).toHaveLength(17);
+      expect(types).toContain("dark");
+      expect(types).toContain("steel");
+      expect(types).not.toContain("fairy");
+    });
+
+    it("should add Fairy in Gen 6", () => {
+      expect(getTypesForGeneration(5)).not.toContain("fairy");
+      expect(getTypesForGeneration(6)).toHaveLength(18);
+    });
+  });
+
+  describe("getAttackMultiplier", () => {
+    it("should return current matchups by default", () => {
+      expect(getAttackMultiplier("water", "fire")).toBe(2);
+      expect(getAttackMultiplier("fire", "water")).toBe(0.5);
+      expect(getAttackMultiplier("normal", "ghost")).toBe(0);
+      expect(getAttackMultiplier("normal", "fire")).toBe(1);
+    });
+
+    it("should apply the Gen 1 Ghost/Psychic bug", () => {
+      expect(getAttackMultiplier("ghost", "psychic", 1)).toBe(0);
+      expect(getAttackMultiplier("ghost", "psychic", 2)).toBe(2);
+    });
+
+    it("should apply Gen 1 Bug/Poison matchups", () => {
+      expect(getAttackMultiplier("bug", "poison", 1)).toBe(2);
+      expect(getAttackMultiplier("poison", "bug", 1)).toBe(2);
+      expect(getAttackMultiplier("bug", "poison", 2)).toBe(0.5);
+      expect(getAttackMultiplier("poison", "bug", 2)).toBe(1);
+    });
+
+    it("should not let Fire resist Ice in Gen 1", () => {
+      expect(getAttackMultiplier("ice", "fire", 1)).toBe(1);
+      expect(getAttackMultiplier("ice", "fire", 2)).toBe(0.5);
+    });
+
+    it("should let Steel resist Ghost and Dark in Gen 2-5 only", () => {
+      expect(getAttackMultiplier("ghost", "steel", 2)).toBe(0.5);
+      expect(getAttackMultiplier("dark", "steel", 5)).toBe(0.5);
+      expect(getAttackMultiplier("ghost", "steel", 6)).toBe(1);
+      expect(getAttackMultiplier("dark", "steel", 6)).toBe(1);
+    });
+
+    it("should treat types missing from the generation as neutral", () => {
+      expect(getAttackMultiplier("dragon", "fairy", 5)).toBe(1);
+      expect(getAttackMultiplier("dark", "psychic", 1)).toBe(1);
+    });
+  });
+
+  describe("calculateTypeEffectiveness", () => {
+    it("should multiply dual-type matchups", () => {
+      // Charizard: Fire/Flying
+      const result = calculateTypeEffectiveness(["fire", "flying"]);
+
+      expect(result.multipliers.rock).toBe(4);
+      expect(result.multipliers.water).toBe(2);
+      expect(result.multipliers.bug).toBe(0.25);
+      expect(result.multipliers.grass).toBe(0.25);
+      expect(result.multipliers.ground).toBe(0);
+    });
+
+    it("should group weaknesses, resistances and immunities", () => {
+      const result = calculateTypeEffectiveness(["fire", "flying"]);
+
+      expect(result.weaknesses).toEqual(["rock", "water", "electric"]);
+      expect(result.immunities).toEqual(["ground"]);
+      expect(result.resistances).toEqual([
+        "fighting",
+        "bug",
+        "steel",
+        "fire",
+        "grass",
+        "fairy",
+      ]);
+    });
+
+    it("should only include the generation's attacking types", () => {
+      const result = calculateTypeEffectiveness(["normal"], 1);
+
+      expect(Object.keys(result.multipliers)).toHaveLength(15);
+      expect(result.generation).toBe(1);
+    });
+
+    it("should make Gen 1 Psychic types immune to Ghost", () => {
+      const result = calculateTypeEffectiveness(["psychic"], 1);
+
+      expect(result.immunities).toContain("ghost");
+      expect(result.weaknesses).toEqual(["bug"]);
+    });
+
+    it("should give Gen 5 Steel types more resistances than Gen 6", () => {
+      const gen5 = calculateTypeEffectiveness(["steel"], 5);
+      const gen6 = calculateTypeEffectiveness(["steel"], 6);
+
+      expect(gen5.resistances).toContain("ghost");
+      expect(gen5.resistances).toContain("dark");
+      expect(gen6.resistances).not.toContain("ghost");
+      expect(gen6.resistances).toContain("fairy");
+    });
+
+    it("should handle Fairy immunity to Dragon from Gen 6", () => {
+      expect(calculateTypeEffectiveness(["fairy"], 6).immunities).toEqual([
+        "dragon",
+      ]);
+    });
+  });
+
+  describe("abilities", () => {
+    it("should factor in an optional ability", () => {
+      // Heatran: Fire/Steel with Flash Fire
+      const result = calculateTypeEffectiveness(
+        ["fire", "steel"],
+        9,
+        "flash-fire",
+      );
+
+      expect(result.ability).toBe("flash-fire");
+      expect(result.multipliers.fire).toBe(0);
+      expect(result.immunities).toEqual(["poison", "fire"]);
+    });
+
+    it("should ignore abilities without a matchup effect", () => {
+      const result = calculateTypeEffectiveness(["ghost"], 9, "cursed-body");
+
+      expect(result.ability).toBeUndefined();
+      expect(result).toEqual(calculateTypeEffectiveness(["ghost"], 9));
+    });
+
+    it("should only return abilities that change matchups", () => {
+      const matchups = calculateAbilityMatchups(
+        ["fire", "steel"],
+        [
+          { name: "flash-fire", isHidden: false },
+          { name: "flame-body", isHidden: true },
+        ],
+        9,
+      );
+
+      expect(matchups).toHaveLength(1);
+      expect(matchups[0].ability).toBe("flash-fire");
+      expect(matchups[0].isHidden).toBe(false);
+    });
+
+    it("should give Levitate Gengar a Ground immunity", () => {
+      const [levitate] = calculateAbilityMatchups(
+        ["ghost", "poison"],
+        [{ name: "levitate", isHidden: false }],
+        6,
+      );
+
+      expect(levitate.effectiveness.immunities).toContain("ground");
+      expect(levitate.effectiveness.weaknesses).not.toContain("ground");
+    });
+  });
+});
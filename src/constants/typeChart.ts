@@ -0,0 +1,323 @@
+import { POKEMON_TYPES } from "./pokemonTypes.js";
+import {
+  getAbilityMatchupEffect,
+  applyAbilityEffect,
+} from "./abilityMatchups.js";
+
+/**
+ * Type matchup chart and effectiveness calculation
+ *
+ * The base chart is the current (Gen 6+) one. Older generations are derived
+ * from it by removing types that did not exist yet and applying the
+ * matchups that changed:
+ * - Gen 1: no Dark/Steel; Ghost doesn't affect Psychic (a cartridge bug),
+ *   Bug and Poison are super effective against each other, and Fire
+ *   doesn't resist Ice
+ * - Gen 2-5: Steel resists Ghost and Dark
+ * - Gen 6+: Fairy added
+ */
+
+/**
+ * Multipliers for a single attacking type (defending type → multiplier).
+ * Matchups not listed are neutral (1x).
+ */
+type MatchupRow = Partial<Record<string, number>>;
+
+/**
+ * Current type chart (attacking type → defending type → multiplier)
+ */
+export const TYPE_CHART: Record<string, MatchupRow> = {
+  normal: { rock: 0.5, ghost: 0, steel: 0.5 },
+  fighting: {
+    normal: 2,
+    flying: 0.5,
+    poison: 0.5,
+    rock: 2,
+    bug: 0.5,
+    ghost: 0,
+    steel: 2,
+    psychic: 0.5,
+    ice: 2,
+    dark: 2,
+    fairy: 0.5,
+  },
+  flying: {
+    fighting: 2,
+    rock: 0.5,
+    bug: 2,
+    steel: 0.5,
+    grass: 2,
+    electric: 0.5,
+  },
+  poison: {
+    poison: 0.5,
+    ground: 0.5,
+    rock: 0.5,
+    ghost: 0.5,
+    steel: 0,
+    grass: 2,
+    fairy: 2,
+  },
+  ground: {
+    flying: 0,
+    poison: 2,
+    rock: 2,
+    bug: 0.5,
+    steel: 2,
+    fire: 2,
+    grass: 0.5,
+    electric: 2,
+  },
+  rock: {
+    fighting: 0.5,
+    flying: 2,
+    ground: 0.5,
+    bug: 2,
+    steel: 0.5,
+    fire: 2,
+    ice: 2,
+  },
+  bug: {
+    fighting: 0.5,
+    flying: 0.5,
+    poison: 0.5,
+    ghost: 0.5,
+    steel: 0.5,
+    fire: 0.5,
+    grass: 2,
+    psychic: 2,
+    dark: 2,
+    fairy: 0.5,
+  },
+  ghost: { normal: 0, ghost: 2, psychic: 2, dark: 0.5 },
+  steel: {
+    rock: 2,
+    steel: 0.5,
+    fire: 0.5,
+    water: 0.5,
+    electric: 0.5,
+    ice: 2,
+    fairy: 2,
+  },
+  fire: {
+    rock: 0.5,
+    bug: 2,
+    steel: 2,
+    fire: 0.5,
+    water: 0.5,
+    grass: 2,
+    ice: 2,
+    dragon: 0.5,
+  },
+  water: {
+    ground: 2,
+    rock: 2,
+    fire: 2,
+    water: 0.5,
+    grass: 0.5,
+    dragon: 0.5,
+  },
+  grass: {
+    flying: 0.5,
+    poison: 0.5,
+    ground: 2,
+    rock: 2,
+    bug: 0.5,
+    steel: 0.5,
+    fire: 0.5,
+    water: 2,
+    grass: 0.5,
+    dragon: 0.5,
+  },
+  electric: {
+    flying: 2,
+    ground: 0,
+    water: 2,
+    grass: 0.5,
+    electric: 0.5,
+    dragon: 0.5,
+  },
+  psychic: { fighting: 2, poison: 2, steel: 0.5, psychic: 0.5, dark: 0 },
+  ice: {
+    flying: 2,
+    ground: 2,
+    steel: 0.5,
+    fire: 0.5,
+    water: 0.5,
+    grass: 2,
+    ice: 0.5,
+    dragon: 2,
+  },
+  dragon: { steel: 0.5, dragon: 2, fairy: 0 },
+  dark: { fighting: 0.5, ghost: 2, psychic: 2, dark: 0.5, fairy: 0.5 },
+  fairy: {
+    fighting: 2,
+    poison: 0.5,
+    steel: 0.5,
+    fire: 0.5,
+    dragon: 2,
+    dark: 2,
+  },
+};
+
+/**
+ * Matchups that differed in older generations
+ */
+const HISTORICAL_MATCHUPS: Array<{
+  attacking: string;
+  defending: string;
+  multiplier: number;
+  untilGeneration: number; // Last generation the old multiplier applied
+}> = [
+  // Gen 1
+  {
+    attacking: "ghost",
+    defending: "psychic",
+    multiplier: 0,
+    untilGeneration: 1,
+  },
+  { attacking: "bug", defending: "poison", multiplier: 2, untilGeneration: 1 },
+  { attacking: "poison", defending: "bug", multiplier: 2, untilGeneration: 1 },
+  { attacking: "ice", defending: "fire", multiplier: 1, untilGeneration: 1 },
+
+  // Gen 2-5
+  {
+    attacking: "ghost",
+    defending: "steel",
+    multiplier: 0.5,
+    untilGeneration: 5,
+  },
+  {
+    attacking: "dark",
+    defending: "steel",
+    multiplier: 0.5,
+    untilGeneration: 5,
+  },
+];
+
+/**
+ * Multipliers for one type combination (attacking type → multiplier)
+ */
+export interface TypeEffectiveness {
+  generation: number;
+  defendingTypes: string[];
+  ability?: string; // Ability factored into the multipliers, if any
+  multipliers: Record<string, number>;
+  weaknesses: string[]; // > 1x
+  resistances: string[]; // Between 0x and 1x
+  immunities: string[]; // 0x
+}
+
+/**
+ * Defensive matchups for one of a Pokemon's abilities
+ */
+export interface AbilityMatchup {
+  ability: string;
+  isHidden: boolean;
+  effectiveness: TypeEffectiveness;
+}
+
+/**
+ * Get the types that exist in a generation, in Pokedex order
+ */
+export function getTypesForGeneration(generation: number): string[] {
+  return POKEMON_TYPES.filter((type) => {
+    if (type === "dark" || type === "steel") return generation >= 2;
+    if (type === "fairy") return generation >= 6;
+    return true;
+  });
+}
+
+/**
+ * Get the multiplier for one attacking type against one defending type
+ *
+ * Types that don't exist in the generation are treated as neutral.
+ */
+export function getAttackMultiplier(
+  attacking: string,
+  defending: string,
+  generation: number = 9,
+): number {
+  const types = getTypesForGeneration(generation);
+  if (!types.includes(attacking) || !types.includes(defending)) {
+    return 1;
+  }
+
+  const historical = HISTORICAL_MATCHUPS.find(
+    (m) =>
+      m.attacking === attacking &&
+      m.defending === defending &&
+      generation <= m.untilGeneration,
+  );
+  if (historical) {
+    return historical.multiplier;
+  }
+
+  return TYPE_CHART[attacking]?.[defending] ?? 1;
+}
+
+/**
+ * Calculate how every attacking type fares against a type combination
+ *
+ * @param defendingTypes - The defending Pokemon's types (one or two)
+ * @param generation - Generation whose type chart to use
+ * @param ability - Optional defending ability to factor in (e.g. "levitate")
+ */
+export function calculateTypeEffectiveness(
+  defendingTypes: string[],
+  generation: number = 9,
+  ability?: string,
+): TypeEffectiveness {
+  const effect = ability
+    ? getAbilityMatchupEffect(ability, generation)
+    : undefined;
+  const multipliers: Record<string, number> = {};
+
+  for (const attacking of getTypesForGeneration(generation)) {
+    const multiplier = defendingTypes.reduce(
+      (total, defending) =>
+        total * getAttackMultiplier(attacking, defending, generation),
+      1,
+    );
+    multipliers[attacking] = effect
+      ? applyAbilityEffect(effect, attacking, multiplier)
+      : multiplier;
+  }
+
+  const attackingTypes = Object.keys(multipliers);
+  return {
+    generation,
+    defendingTypes,
+    ...(effect && { ability }),
+    multipliers,
+    weaknesses: attackingTypes.filter((t) => multipliers[t] > 1),
+    resistances: attackingTypes.filter(
+      (t) => multipliers[t] > 0 && multipliers[t] < 1,
+    ),
+    immunities: attackingTypes.filter((t) => multipliers[t] === 0),
+  };
+}
+
+/**
+ * Calculate matchups for each of a Pokemon's abilities that changes them
+ *
+ * Abilities without a type-based defensive effect in the generation
+ * are left out.
+ */
+export function calculateAbilityMatchups(
+  defendingTypes: string[],
+  abilities: Array<{ name: string; isHidden: boolean }>,
+  generation: number = 9,
+): AbilityMatchup[] {
+  return abilities
+    .filter((a) => getAbilityMatchupEffect(a.name, generation) !== undefined)
+    .map((a) => ({
+      ability: a.name,
+      isHidden: a.isHidden,
+      effectiveness: calculateTypeEffectiveness(
+        defendingTypes,
+        generation,
+        a.name,
+      ),
+    }));
+}
@@ -4,6 +4,7 @@ import {
   LATEST_VERSION_GROUP_PER_GEN,
   getGenerationFromVersionGroup,
   isVersionGroupInGeneration,
+  compareVersionGroups,
 } from "./versionGroups.js";
 
 describe("versionGroups", () => {
@@ -122,4 +123,20 @@ describe("versionGroups", () => {
       expect(isVersionGroupInGeneration("unknown", 8)).toBe(false);
     });
   });
+
+  describe("compareVersionGroups()", () => {
+    it("should order version groups by release", () => {
+      expect(compareVersionGroups("red-blue", "yellow")).toBeLessThan(0);
+      expect(compareVersionGroups("x-y", "black-2-white-2")).toBeGreaterThan(
+        0,
+      );
+      expect(compareVersionGroups("sun-moon", "sun-moon")).toBe(0);
+    });
+
+    it("should treat unknown version groups as the newest", () => {
+      expect(
+        compareVersionGroups("unknown", "the-indigo-disk"),
+      ).toBeGreaterThan(0);
+    });
+  });
 });
@@ -53,6 +53,39 @@ export const VERSION_GROUP_TO_GENERATION: Record<string, number> = {
   "the-indigo-disk": 9,
 };
 
+/**
+ * Display names of the version groups, for the game picker and headers
+ */
+export const VERSION_GROUP_NAMES: Record<string, string> = {
+  "red-blue": "Red / Blue",
+  yellow: "Yellow",
+  "gold-silver": "Gold / Silver",
+  crystal: "Crystal",
+  "ruby-sapphire": "Ruby / Sapphire",
+  emerald: "Emerald",
+  "firered-leafgreen": "FireRed / LeafGreen",
+  colosseum: "Colosseum",
+  xd: "XD: Gale of Darkness",
+  "diamond-pearl": "Diamond / Pearl",
+  platinum: "Platinum",
+  "heartgold-soulsilver": "HeartGold / SoulSilver",
+  "black-white": "Black / White",
+  "black-2-white-2": "Black 2 / White 2",
+  "x-y": "X / Y",
+  "omega-ruby-alpha-sapphire": "Omega Ruby / Alpha Sapphire",
+  "sun-moon": "Sun / Moon",
+  "ultra-sun-ultra-moon": "Ultra Sun / Ultra Moon",
+  "lets-go-pikachu-lets-go-eevee": "Let's Go Pikachu / Eevee",
+  "sword-shield": "Sword / Shield",
+  "the-isle-of-armor": "The Isle of Armor",
+  "the-crown-tundra": "The Crown Tundra",
+  "brilliant-diamond-shining-pearl": "Brilliant Diamond / Shining Pearl",
+  "legends-arceus": "Legends: Arceus",
+  "scarlet-violet": "Scarlet / Violet",
+  "the-teal-mask": "The Teal Mask",
+  "the-indigo-disk": "The Indigo Disk",
+};
+
 /**
  * Latest (most complete) version group for each generation.
  * Used for selecting appropriate version group when filtering by generation.
@@ -81,6 +114,21 @@ export function getGenerationFromVersionGroup(
   return VERSION_GROUP_TO_GENERATION[versionGroupName] ?? 9;
 }
 
+/**
+ * Compare version groups by release order, for sorting.
+ * Unknown version groups are treated as the newest.
+ *
+ * @returns Negative if a came out before b, positive if after, else 0
+ */
+export function compareVersionGroups(a: string, b: string): number {
+  const order = Object.keys(VERSION_GROUP_TO_GENERATION);
+  const position = (group: string) => {
+    const index = order.indexOf(group);
+    return index === -1 ? order.length : index;
+  };
+  return position(a) - position(b);
+}
+
 /**
  * Check if a version group belongs to a specific generation or earlier.
  *
@@ -95,3 +143,13 @@ export function isVersionGroupInGeneration(
   const vgGen = getGenerationFromVersionGroup(versionGroupName);
   return vgGen <= maxGeneration;
 }
+
+/**
+ * Get the display name of a version group.
+ *
+ * @param versionGroupName - Name of the version group (e.g., "x-y")
+ * @returns Display name (e.g., "X / Y"), or the name itself if unknown
+ */
+export function getVersionGroupDisplayName(versionGroupName: string): string {
+  return VERSION_GROUP_NAMES[versionGroupName] ?? versionGroupName;
+}
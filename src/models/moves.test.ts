@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  getMoveLearnRows,
+  getMoveStatsInVersionGroup,
+  getShownLearnEntries,
+  isMainLearnMethod,
+} from "./moves.js";
+import type { Move, PastMoveStatValues } from "../api/types.js";
+import type { MoveData } from "../repositories/IPokemonRepository.js";
+
+/**
+ * Move shown for X/Y with the given entries
+ */
+function createMove(
+  name: string,
+  learnEntries: MoveData["learnEntries"],
+): MoveData {
+  return {
+    name,
+    type: "normal",
+    category: "physical",
+    power: 40,
+    accuracy: 100,
+    pp: 35,
+    learnMethod: learnEntries[0].method,
+    levelLearned: learnEntries[0].level,
+    versionGroup: "x-y",
+    learnEntries,
+  };
+}
+
+const tackle = createMove("tackle", [
+  { method: "level-up", level: 1, versionGroup: "x-y" },
+  { method: "level-up", level: 1, versionGroup: "x-y" },
+  { method: "level-up", level: 15, versionGroup: "x-y" },
+  { method: "level-up", level: 5, versionGroup: "black-white" },
+]);
+const surf = createMove("surf", [
+  { method: "machine", versionGroup: "x-y" },
+  { method: "stadium-surfing-pikachu", versionGroup: "x-y" },
+]);
+const celebrate = createMove("celebrate", [
+  { method: "form-change", versionGroup: "x-y" },
+]);
+
+describe("moves", () => {
+  it("tells main learn methods from rare ones", () => {
+    expect(isMainLearnMethod("egg")).toBe(true);
+    expect(isMainLearnMethod("zygarde-cube")).toBe(false);
+  });
+
+  it("returns the entries of the shown game only", () => {
+    expect(getShownLearnEntries(tackle).map((e) => e.level)).toEqual([
+      1, 1, 15,
+    ]);
+  });
+
+  it("falls back to the main method without entries", () => {
+    const move = { ...tackle, learnEntries: [], levelLearned: 7 };
+
+    expect(getShownLearnEntries(move)).toEqual([
+      { method: "level-up", level: 7, versionGroup: "x-y" },
+    ]);
+  });
+
+  it("expands moves into distinct method and level rows", () => {
+    const rows = getMoveLearnRows([surf, tackle, celebrate]);
+
+    expect(rows.map((r) => [r.move.name, r.method, r.level])).toEqual([
+      ["tackle", "level-up", 1],
+      ["tackle", "level-up", 15],
+      ["surf", "machine", undefined],
+    ]);
+  });
+
+  it("lists rare methods after the main ones on request", () => {
+    const rows = getMoveLearnRows([surf, tackle, celebrate], true);
+
+    expect(rows.slice(3).map((r) => [r.move.name, r.method])).toEqual([
+      ["celebrate", "form-change"],
+      ["surf", "stadium-surfing-pikachu"],
+    ]);
+  });
+});
+
+describe("getMoveStatsInVersionGroup", () => {
+  /**
+   * Values changed in a version group; unset fields were not changed
+   */
+  const changedIn = (
+    versionGroup: string,
+    values: Partial<PastMoveStatValues>,
+  ): PastMoveStatValues => ({
+    accuracy: null,
+    effect_chance: null,
+    power: null,
+    pp: null,
+    effect_entries: [],
+    type: null,
+    version_group: { name: versionGroup, url: "" },
+    ...values,
+  });
+
+  // Crabhammer: 85 accuracy before Gen 5, 90 power before Gen 6
+  const crabhammer = {
+    name: "crabhammer",
+    type: { name: "water", url: "" },
+    power: 100,
+    accuracy: 90,
+    pp: 10,
+    past_values: [
+      changedIn("x-y", { power: 90 }),
+      changedIn("black-white", { accuracy: 85 }),
+    ],
+  } as unknown as Move;
+
+  it("keeps the current values in later games", () => {
+    expect(getMoveStatsInVersionGroup(crabhammer, "x-y")).toEqual({
+      type: "water",
+      power: 100,
+      accuracy: 90,
+      pp: 10,
+    });
+  });
+
+  it("applies every change made after the game", () => {
+    expect(getMoveStatsInVersionGroup(crabhammer, "black-2-white-2")).toEqual(
+      expect.objectContaining({ power: 90, accuracy: 90 }),
+    );
+    expect(getMoveStatsInVersionGroup(crabhammer, "platinum")).toEqual(
+      expect.objectContaining({ power: 90, accuracy: 85 }),
+    );
+  });
+
+  it("uses the earliest change when a value changed twice", () => {
+    const move = {
+      ...crabhammer,
+      past_values: [
+        changedIn("black-white", { pp: 20 }),
+        changedIn("gold-silver", {
+          pp: 30,
+          type: { name: "normal", url: "" },
+        }),
+      ],
+    } as Move;
+
+    expect(getMoveStatsInVersionGroup(move, "red-blue")).toEqual(
+      expect.objectContaining({ type: "normal", pp: 30 }),
+    );
+    expect(getMoveStatsInVersionGroup(move, "crystal")).toEqual(
+      expect.objectContaining({ type: "water", pp: 20 }),
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import type { Move } from "../api/types.js";
+import type {
+  LearnMethod,
+  MoveData,
+  MoveLearnEntry,
+} from "../repositories/IPokemonRepository.js";
+import { compareVersionGroups } from "../constants/versionGroups.js";
+
+/**
+ * Learn methods shown by default; the rest are event- or form-specific
+ */
+export const MAIN_LEARN_METHODS: readonly LearnMethod[] = [
+  "level-up",
+  "machine",
+  "egg",
+  "tutor",
+];
+
+/**
+ * A move and one way of learning it, shown as one row of a move list
+ */
+export interface MoveLearnRow {
+  move: MoveData;
+  method: LearnMethod;
+  level?: number;
+}
+
+/**
+ * Check whether a learn method is one of the common ones
+ */
+export function isMainLearnMethod(method: LearnMethod): boolean {
+  return MAIN_LEARN_METHODS.includes(method);
+}
+
+/**
+ * Entries of a move in the game its learnset is shown for
+ *
+ * Moves without entries (built by hand) fall back to their main method.
+ */
+export function getShownLearnEntries(move: MoveData): MoveLearnEntry[] {
+  const entries = move.learnEntries.filter(
+    (entry) => entry.versionGroup === move.versionGroup,
+  );
+  return entries.length > 0
+    ? entries
+    : [
+        {
+          method: move.learnMethod,
+          level: move.levelLearned,
+          versionGroup: move.versionGroup ?? "",
+        },
+      ];
+}
+
+/**
+ * Expand moves into one row per distinct method and level
+ *
+ * A move learned at Lv.1 and Lv.20 and by TM gets three rows. Rows are
+ * ordered like the in-game lists: level-up moves by level, then machine,
+ * egg, tutor and rare methods, each by name.
+ *
+ * @param includeRare - Include methods other than MAIN_LEARN_METHODS
+ */
+export function getMoveLearnRows(
+  moves: MoveData[],
+  includeRare = false,
+): MoveLearnRow[] {
+  const rows: MoveLearnRow[] = [];
+
+  for (const move of moves) {
+    const seen = new Set<string>();
+    for (const entry of getShownLearnEntries(move)) {
+      const key = `${entry.method}:${entry.level ?? 0}`;
+      const hidden = !includeRare && !isMainLearnMethod(entry.method);
+      if (seen.has(key) || hidden) {
+        continue;
+      }
+      seen.add(key);
+      rows.push({ move, method: entry.method, level: entry.level });
+    }
+  }
+
+  return rows.sort((a, b) => {
+    const methodOrder = getMethodOrder(a.method) - getMethodOrder(b.method);
+    if (methodOrder !== 0) return methodOrder;
+    if (a.method === "level-up") {
+      const levelOrder = (a.level ?? 0) - (b.level ?? 0);
+      if (levelOrder !== 0) return levelOrder;
+    }
+    return a.move.name.localeCompare(b.move.name);
+  });
+}
+
+/**
+ * Values of a move that changed between games
+ */
+export type MoveStats = Pick<MoveData, "type" | "power" | "accuracy" | "pp">;
+
+/**
+ * Type, power, accuracy and PP of a move as they were in a game
+ *
+ * Each of PokeAPI's `past_values` holds the values used before its
+ * version group, so the earliest change after the game wins.
+ * E.g. Charm is Normal before X/Y and Crabhammer has 85 accuracy before
+ * Black/White.
+ */
+export function getMoveStatsInVersionGroup(
+  move: Move,
+  versionGroup: string,
+): MoveStats {
+  const stats: MoveStats = {
+    type: move.type.name,
+    power: move.power,
+    accuracy: move.accuracy,
+    pp: move.pp,
+  };
+
+  // Newest change first, so older changes overwrite newer ones
+  const changes = [...(move.past_values ?? [])]
+    .filter(
+      (change) =>
+        compareVersionGroups(versionGroup, change.version_group.name) < 0,
+    )
+    .sort((a, b) =>
+      compareVersionGroups(b.version_group.name, a.version_group.name),
+    );
+
+  for (const change of changes) {
+    stats.type = change.type?.name ?? stats.type;
+    stats.power = change.power ?? stats.power;
+    stats.accuracy = change.accuracy ?? stats.accuracy;
+    stats.pp = change.pp ?? stats.pp;
+  }
+
+  return stats;
+}
+
+/**
+ * Sort position of a learn method: main methods in order, then rare ones
+ */
+function getMethodOrder(method: LearnMethod): number {
+  const index = MAIN_LEARN_METHODS.indexOf(method);
+  return index === -1 ? MAIN_LEARN_METHODS.length : index;
+}
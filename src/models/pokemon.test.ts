@@ -283,6 +283,59 @@ describe("transformPokemon", () => {
     expect(transformed.genus).toBe("Mouse Pokémon");
   });
 
+  it("should calculate type effectiveness for the displayed types", () => {
+    const transformed = transformPokemon(
+      mockPikachuPokemon,
+      mockPikachuSpecies,
+    );
+
+    expect(transformed.typeEffectiveness.defendingTypes).toEqual(["electric"]);
+    expect(transformed.typeEffectiveness.generation).toBe(9);
+    expect(transformed.typeEffectiveness.weaknesses).toEqual(["ground"]);
+  });
+
+  it("should use the filter generation's type chart", () => {
+    const transformed = transformPokemon(
+      mockPikachuPokemon,
+      mockPikachuSpecies,
+      1,
+    );
+
+    expect(transformed.typeEffectiveness.generation).toBe(1);
+    expect(transformed.typeEffectiveness.resistances).not.toContain("steel");
+  });
+
+  it("should use historical abilities for ability matchups", () => {
+    const gengar = {
+      ...mockPikachuPokemon,
+      id: 94,
+      name: "gengar",
+      types: [
+        { slot: 1, type: { name: "ghost", url: "" } },
+        { slot: 2, type: { name: "poison", url: "" } },
+      ],
+      abilities: [
+        {
+          ability: { name: "cursed-body", url: "" },
+          is_hidden: false,
+          slot: 1,
+        },
+      ],
+      past_types: [],
+    };
+
+    const gen6 = transformPokemon(gengar, undefined, 6);
+    const gen7 = transformPokemon(gengar, undefined, 7);
+
+    expect(gen6.abilityMatchups).toHaveLength(1);
+    expect(gen6.abilityMatchups[0].ability).toBe("levitate");
+    expect(gen6.abilityMatchups[0].effectiveness.immunities).toContain(
+      "ground",
+    );
+    expect(gen7.abilityMatchups).toEqual([]);
+    expect(gen7.typeEffectiveness.weaknesses).toContain("ground");
+  });
+
   it("should extract sprites correctly", () => {
     const transformed = transformPokemon(
       mockPikachuPokemon,
@@ -418,4 +471,34 @@ describe("transformPokemon", () => {
 
     expect(transformed.genus).toBe("");
   });
+
+  it("should carry breeding and training data from the species", () => {
+    const transformed = transformPokemon(
+      mockPikachuPokemon,
+      mockPikachuSpecies,
+    );
+
+    expect(transformed.breeding).toEqual({
+      eggGroups: ["field", "fairy"],
+      genderRate: 4,
+      hatchCounter: 10,
+    });
+    expect(transformed.training).toMatchObject({
+      captureRate: 190,
+      baseHappiness: 50,
+      growthRate: "medium",
+    });
+    expect(transformed.habitat).toBe("forest");
+  });
+
+  it("should treat Pokemon without species data as genderless", () => {
+    const transformed = transformPokemon(mockPikachuPokemon);
+
+    expect(transformed.breeding).toEqual({
+      eggGroups: [],
+      genderRate: -1,
+      hatchCounter: 0,
+    });
+    expect(transformed.habitat).toBeNull();
+  });
 });
@@ -1,10 +1,23 @@
 import type {
   Pokemon,
   PokemonSpecies,
+  PokemonForm,
   PokemonStat,
   NamedAPIResource,
 } from "../api/types.js";
 import { applyHistoricalAbilityChanges } from "../constants/abilityChanges.js";
+import { applyHistoricalStatChanges } from "../constants/statChanges.js";
+import {
+  calculateTypeEffectiveness,
+  calculateAbilityMatchups,
+  type TypeEffectiveness,
+  type AbilityMatchup,
+} from "../constants/typeChart.js";
+import { getGenerationFromVersionGroup } from "../constants/versionGroups.js";
+import {
+  extractSpriteSets,
+  type SpriteSet,
+} from "../constants/sprites.js";
 
 /**
  * Transformed Pokemon data for display
@@ -16,6 +29,13 @@ export interface PokemonDisplay {
   displayName: string; // Capitalized name for display
   generation: number; // Generation number (1-9)
 
+  // Forms
+  speciesName: string; // e.g. "wooper" for "wooper-paldea"
+  varieties: {
+    name: string;
+    isDefault: boolean;
+  }[]; // Every variety of the species (default first), including this one
+
   // Type information
   types: string[];
 
@@ -51,6 +71,7 @@ export interface PokemonDisplay {
   sprite: string | null;
   shinySprite: string | null;
   artworkSprite: string | null;
+  spriteSets: Record<string, SpriteSet>; // Per game, plus artwork and HOME
 
   // Special status
   isLegendary: boolean;
@@ -60,11 +81,31 @@ export interface PokemonDisplay {
   genus: string;
   flavorText: string;
   evolutionChainUrl: string;
+  habitat: string | null;
+
+  // Breeding (species data)
+  breeding: {
+    eggGroups: string[];
+    genderRate: number; // Chance of being female in eighths, -1 = genderless
+    hatchCounter: number; // Egg cycles
+  };
+
+  // Training (species data)
+  training: {
+    captureRate: number;
+    baseHappiness: number | null;
+    growthRate: string;
+    baseExperience: number | null;
+  };
 
   // Optional sections (lazy-loaded in future phases)
   moves?: any[]; // Will be typed properly in Phase 3
   abilityDetails?: any[]; // Will be typed properly in Phase 4
-  typeEffectiveness?: any; // Will be typed properly in Phase 5+
+
+  // Defensive matchups for the displayed types, using that generation's chart
+  typeEffectiveness: TypeEffectiveness;
+  // Same matchups with each matchup-changing ability (Levitate, Thick Fat...)
+  abilityMatchups: AbilityMatchup[];
 }
 
 /**
@@ -72,14 +113,25 @@ export interface PokemonDisplay {
  *
  * @param pokemon - Raw Pokemon data from API
  * @param species - Species data (optional)
- * @param filterGeneration - Optional generation to filter data by (types, abilities, etc.)
+ * @param filterGeneration - Optional generation to filter data by (types, stats, abilities, etc.)
+ * @param form - Form data, used to date alternate forms (optional)
  */
 export function transformPokemon(
   pokemon: Pokemon,
   species?: PokemonSpecies,
   filterGeneration?: number,
+  form?: PokemonForm,
 ): PokemonDisplay {
-  const stats = extractStats(pokemon.stats);
+  // Apply historical base stat changes if filtering by generation
+  const stats =
+    filterGeneration !== undefined
+      ? applyHistoricalStatChanges(
+          pokemon.id,
+          pokemon.name,
+          extractStats(pokemon.stats),
+          filterGeneration,
+        )
+      : extractStats(pokemon.stats);
 
   // Extract types, filtering by generation if specified
   const types =
@@ -126,7 +178,9 @@ export function transformPokemon(
     id: pokemon.id,
     name: pokemon.name,
     displayName: capitalizeName(pokemon.name),
-    generation: getGeneration(pokemon.id),
+    generation: resolveGeneration(pokemon, species, form),
+    speciesName: pokemon.species.name,
+    varieties: extractVarieties(pokemon, species),
     types,
     stats,
     evYield: extractEVYield(pokemon.stats),
@@ -137,11 +191,30 @@ export function transformPokemon(
     shinySprite: pokemon.sprites.front_shiny,
     artworkSprite:
       pokemon.sprites.other?.["official-artwork"]?.front_default || null,
+    spriteSets: extractSpriteSets(pokemon.sprites),
     isLegendary: species?.is_legendary || false,
     isMythical: species?.is_mythical || false,
     genus: extractGenus(species),
     flavorText: extractFlavorText(species),
     evolutionChainUrl: species?.evolution_chain?.url || "",
+    habitat: species?.habitat?.name ?? null,
+    breeding: {
+      eggGroups: species?.egg_groups?.map((g) => g.name) ?? [],
+      genderRate: species?.gender_rate ?? -1,
+      hatchCounter: species?.hatch_counter ?? 0,
+    },
+    training: {
+      captureRate: species?.capture_rate ?? 0,
+      baseHappiness: species?.base_happiness ?? null,
+      growthRate: species?.growth_rate?.name ?? "",
+      baseExperience: pokemon.base_experience ?? null,
+    },
+    typeEffectiveness: calculateTypeEffectiveness(types, filterGeneration),
+    abilityMatchups: calculateAbilityMatchups(
+      types,
+      finalAbilities,
+      filterGeneration,
+    ),
   };
 }
 
@@ -200,6 +273,104 @@ function extractGenerationNumber(generationResource: NamedAPIResource): number {
   return match ? parseInt(match[1], 10) : 9;
 }
 
+/**
+ * Resolve the generation a Pokemon or alternate form was introduced in
+ *
+ * Alternate forms are dated by their form's version group (Paldean Wooper
+ * is Gen 9, Mega Venusaur Gen 6), default forms by their species.
+ * Falls back to National Dex ranges using the species ID.
+ */
+export function resolveGeneration(
+  pokemon: Pokemon,
+  species?: PokemonSpecies,
+  form?: PokemonForm,
+): number {
+  if (pokemon.is_default === false && form?.version_group) {
+    return getGenerationFromVersionGroup(form.version_group.name);
+  }
+  if (species?.generation) {
+    return extractGenerationNumber(species.generation);
+  }
+
+  const speciesId = pokemon.species.url.match(/\/pokemon-species\/(\d+)\//);
+  return getGeneration(speciesId ? parseInt(speciesId[1], 10) : pokemon.id);
+}
+
+/**
+ * Kind of variety a Pokemon is
+ */
+export type FormCategory =
+  | "default"
+  | "mega"
+  | "gigantamax"
+  | "regional"
+  | "alternate";
+
+/**
+ * Regional variant suffixes (e.g. "raichu-alola", "tauros-paldea-blaze-breed")
+ */
+const REGIONAL_FORM_PATTERN = /-(alola|galar|hisui|paldea)(-|$)/;
+
+/**
+ * Generation each region's variants were introduced in
+ */
+const REGIONAL_FORM_GENERATIONS: Record<string, number> = {
+  alola: 7,
+  galar: 8,
+  hisui: 8,
+  paldea: 9,
+};
+
+/**
+ * Get the generation of a variety from its name, without its form data
+ *
+ * Regional forms, Megas and Gigantamax forms date from the generation that
+ * introduced them; other forms from their species.
+ *
+ * @param name - Variety name (e.g. "wooper-paldea")
+ * @param speciesGeneration - Generation of the variety's species
+ */
+export function getVarietyGeneration(
+  name: string,
+  speciesGeneration: number,
+): number {
+  const region = name.match(REGIONAL_FORM_PATTERN)?.[1];
+  if (region) return REGIONAL_FORM_GENERATIONS[region];
+  if (/-mega(-[xy])?$/.test(name)) return 6;
+  if (name.endsWith("-gmax")) return 8;
+  return speciesGeneration;
+}
+
+/**
+ * Classify a variety as default, Mega, Gigantamax, regional or other form
+ */
+export function getFormCategory(
+  pokemon: Pokemon,
+  form?: PokemonForm,
+): FormCategory {
+  if (pokemon.is_default !== false) return "default";
+  if (form?.is_mega || /-mega(-[xy])?$/.test(pokemon.name)) return "mega";
+  if (pokemon.name.endsWith("-gmax")) return "gigantamax";
+  if (REGIONAL_FORM_PATTERN.test(pokemon.name)) return "regional";
+  return "alternate";
+}
+
+/**
+ * List the species' varieties, default form first
+ */
+function extractVarieties(
+  pokemon: Pokemon,
+  species?: PokemonSpecies,
+): PokemonDisplay["varieties"] {
+  if (!species?.varieties || species.varieties.length === 0) {
+    return [{ name: pokemon.name, isDefault: pokemon.is_default !== false }];
+  }
+
+  return [...species.varieties]
+    .sort((a, b) => Number(b.is_default) - Number(a.is_default))
+    .map((v) => ({ name: v.pokemon.name, isDefault: v.is_default }));
+}
+
 /**
  * Get generation number based on Pokemon ID
  */
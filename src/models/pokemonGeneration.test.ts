@@ -1,6 +1,57 @@
 import { describe, it, expect } from "vitest";
-import { transformPokemon } from "./pokemon.js";
-import type { Pokemon } from "../api/types.js";
+import {
+  transformPokemon,
+  resolveGeneration,
+  getFormCategory,
+  getVarietyGeneration,
+} from "./pokemon.js";
+import type { Pokemon, PokemonSpecies, PokemonForm } from "../api/types.js";
+
+/**
+ * Minimal alternate-form Pokemon (IDs above 10000)
+ */
+function createForm(id: number, name: string, speciesId: number): Pokemon {
+  return {
+    id,
+    name,
+    base_experience: 0,
+    height: 1,
+    weight: 1,
+    abilities: [],
+    types: [{ slot: 1, type: { name: "normal", url: "" } }],
+    stats: [],
+    sprites: {
+      front_default: null,
+      front_shiny: null,
+      front_female: null,
+      front_shiny_female: null,
+      back_default: null,
+      back_shiny: null,
+      back_female: null,
+      back_shiny_female: null,
+    },
+    species: {
+      name: name.split("-")[0],
+      url: `https://pokeapi.co/api/v2/pokemon-species/${speciesId}/`,
+    },
+    moves: [],
+    is_default: false,
+    forms: [{ name, url: "" }],
+  };
+}
+
+function createFormData(name: string, versionGroup: string): PokemonForm {
+  return {
+    id: 10000,
+    name,
+    form_name: name.split("-").slice(1).join("-"),
+    is_default: true,
+    is_mega: name.includes("-mega"),
+    is_battle_only: false,
+    version_group: { name: versionGroup, url: "" },
+    pokemon: { name, url: "" },
+  };
+}
 
 describe("Pokemon Generation Filtering", () => {
   describe("Type Filtering (past_types)", () => {
@@ -397,6 +448,37 @@ describe("Pokemon Generation Filtering", () => {
     });
   });
 
+  describe("Stat Filtering", () => {
+    const pikachu = {
+      ...createForm(25, "pikachu", 25),
+      stats: [
+        ["hp", 35],
+        ["attack", 55],
+        ["defense", 40],
+        ["special-attack", 50],
+        ["special-defense", 50],
+        ["speed", 90],
+      ].map(([name, value]) => ({
+        base_stat: value as number,
+        effort: 0,
+        stat: { name: name as string, url: "" },
+      })),
+    };
+
+    it("should use the base stats from before the Gen 6 buff", () => {
+      const result = transformPokemon(pikachu, undefined, 5);
+
+      expect(result.stats.defense).toBe(30);
+      expect(result.stats.specialDefense).toBe(40);
+      expect(result.stats.speed).toBe(90);
+    });
+
+    it("should use the current base stats from Gen 6", () => {
+      expect(transformPokemon(pikachu, undefined, 6).stats.defense).toBe(40);
+      expect(transformPokemon(pikachu).stats.defense).toBe(40);
+    });
+  });
+
   describe("Combined Filtering", () => {
     it("should filter both types and abilities for Clefairy in Gen 3", () => {
       const clefairy: Pokemon = {
@@ -621,4 +703,99 @@ describe("Pokemon Generation Filtering", () => {
       expect(result.abilities).toHaveLength(0);
     });
   });
+
+  describe("Form generation resolution", () => {
+    const wooperSpecies = {
+      name: "wooper",
+      generation: {
+        name: "generation-ii",
+        url: "https://pokeapi.co/api/v2/generation/2/",
+      },
+      varieties: [
+        { is_default: false, pokemon: { name: "wooper-paldea", url: "" } },
+        { is_default: true, pokemon: { name: "wooper", url: "" } },
+      ],
+    } as unknown as PokemonSpecies;
+
+    it("should date alternate forms by their form's version group", () => {
+      const wooper = createForm(10253, "wooper-paldea", 194);
+      const form = createFormData("wooper-paldea", "scarlet-violet");
+
+      expect(resolveGeneration(wooper, wooperSpecies, form)).toBe(9);
+      expect(
+        transformPokemon(wooper, wooperSpecies, undefined, form),
+      ).toMatchObject({ generation: 9, speciesName: "wooper" });
+    });
+
+    it("should fall back to the species generation without form data", () => {
+      const wooper = createForm(10253, "wooper-paldea", 194);
+
+      expect(resolveGeneration(wooper, wooperSpecies)).toBe(2);
+    });
+
+    it("should fall back to the species ID in the URL without species", () => {
+      const raichu = createForm(10100, "raichu-alola", 26);
+
+      expect(resolveGeneration(raichu)).toBe(1);
+    });
+
+    it("should use the species generation for default forms", () => {
+      const wooper = {
+        ...createForm(194, "wooper", 194),
+        is_default: true,
+      };
+      const form = createFormData("wooper", "gold-silver");
+
+      expect(resolveGeneration(wooper, wooperSpecies, form)).toBe(2);
+    });
+
+    it("should list varieties with the default form first", () => {
+      const wooper = createForm(10253, "wooper-paldea", 194);
+      const result = transformPokemon(wooper, wooperSpecies);
+
+      expect(result.varieties).toEqual([
+        { name: "wooper", isDefault: true },
+        { name: "wooper-paldea", isDefault: false },
+      ]);
+    });
+
+    it("should list only the Pokemon itself without species data", () => {
+      const result = transformPokemon(createForm(10100, "raichu-alola", 26));
+
+      expect(result.varieties).toEqual([
+        { name: "raichu-alola", isDefault: false },
+      ]);
+    });
+
+    it("should classify Megas, Gigantamax and regional forms", () => {
+      const mega = createForm(10033, "venusaur-mega", 3);
+      const megaForm = createFormData("venusaur-mega", "x-y");
+
+      expect(getFormCategory(mega, megaForm)).toBe("mega");
+      expect(getFormCategory(createForm(10161, "charizard-mega-x", 6))).toBe(
+        "mega",
+      );
+      expect(getFormCategory(createForm(10195, "venusaur-gmax", 3))).toBe(
+        "gigantamax",
+      );
+      expect(
+        getFormCategory(createForm(10250, "tauros-paldea-blaze-breed", 128)),
+      ).toBe("regional");
+      expect(getFormCategory(createForm(10001, "deoxys-attack", 386))).toBe(
+        "alternate",
+      );
+      expect(
+        getFormCategory({ ...createForm(25, "pikachu", 25), is_default: true }),
+      ).toBe("default");
+    });
+
+    it("should date varieties by name without form data", () => {
+      expect(getVarietyGeneration("wooper-paldea", 2)).toBe(9);
+      expect(getVarietyGeneration("tauros-paldea-blaze-breed", 1)).toBe(9);
+      expect(getVarietyGeneration("typhlosion-hisui", 2)).toBe(8);
+      expect(getVarietyGeneration("charizard-mega-x", 1)).toBe(6);
+      expect(getVarietyGeneration("venusaur-gmax", 1)).toBe(8);
+      expect(getVarietyGeneration("deoxys-attack", 3)).toBe(3);
+    });
+  });
 });
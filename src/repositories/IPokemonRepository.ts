@@ -1,5 +1,6 @@
 import type { PokemonListItem, EvolutionChain } from "../api/types.js";
-import type { PokemonDisplay } from "../models/pokemon.js";
+import type { PokemonDisplay, FormCategory } from "../models/pokemon.js";
+import type { QueryPredicate } from "../utils/searchQuery.js";
 
 /**
  * Filter options for Pokemon queries
@@ -13,18 +14,75 @@ export interface FilterOptions {
   offset?: number;
 }
 
+/**
+ * Lightweight per-Pokemon index entry used for filtering
+ */
+export interface PokemonIndexEntry {
+  name: string;
+  id: number;
+  generation: number; // Of the form for alternate forms
+  types: string[];
+  isLegendary: boolean;
+  isMythical: boolean;
+}
+
+/**
+ * One variety of a species (default form, regional variant, Mega...)
+ */
+export interface PokemonFormEntry {
+  name: string;
+  displayName: string;
+  types: string[];
+  generation: number; // Generation the form was introduced in
+  isDefault: boolean;
+  category: FormCategory;
+}
+
+/**
+ * PokeAPI move learn methods; all but the first four are rare
+ * (event- or form-specific) and hidden unless asked for
+ */
+export type LearnMethod =
+  | "level-up"
+  | "machine"
+  | "egg"
+  | "tutor"
+  | "form-change"
+  | "light-ball-egg"
+  | "stadium-surfing-pikachu"
+  | "zygarde-cube"
+  | "colosseum-purification"
+  | "xd-shadow"
+  | "xd-purification";
+
+/**
+ * One way a Pokemon learns a move in one game
+ */
+export interface MoveLearnEntry {
+  method: LearnMethod;
+  level?: number; // Level-up only; undefined for evolution/Lv.0 moves
+  versionGroup: string;
+}
+
+/**
+ * Damage category of a move
+ */
+export type MoveCategory = "physical" | "special" | "status";
+
 /**
  * Move data for a Pokemon
  */
 export interface MoveData {
   name: string;
   type: string;
-  category: "physical" | "special" | "status";
+  category: MoveCategory; // As of the generation the moves are shown for
   power: number | null;
   accuracy: number | null;
   pp: number;
-  learnMethod: "level-up" | "machine" | "egg" | "tutor";
+  learnMethod: LearnMethod; // Main way it is learned in versionGroup
   levelLearned?: number;
+  versionGroup?: string; // Game the learnset is shown for
+  learnEntries: MoveLearnEntry[]; // Every entry in versionGroup
   generation?: number;
   description?: string;
 }
@@ -53,6 +111,23 @@ export interface IPokemonRepository {
    */
   getPokemonList(options?: FilterOptions): Promise<PokemonListItem[]>;
 
+  /**
+   * Get the per-Pokemon filter index (types and Legendary/Mythical flags)
+   */
+  getPokemonIndex(): Promise<PokemonIndexEntry[]>;
+
+  /**
+   * Get the Pokemon matching every structured search predicate
+   *
+   * @param predicates - Predicates parsed from a search query
+   * @param pokemon - Pokemon to search (defaults to the full list)
+   * @throws Error if stat predicates would fetch too many Pokemon
+   */
+  queryPokemon(
+    predicates: QueryPredicate[],
+    pokemon?: PokemonListItem[],
+  ): Promise<PokemonListItem[]>;
+
   /**
    * Get detailed information about a specific Pokemon
    */
@@ -63,10 +138,28 @@ export interface IPokemonRepository {
    */
   getEvolutionChain(pokemon: PokemonDisplay): Promise<EvolutionChain>;
 
+  /**
+   * Get every variety of a Pokemon's species, default form first
+   */
+  getForms(pokemon: PokemonDisplay): Promise<PokemonFormEntry[]>;
+
+  /**
+   * Get the species a Pokemon can breed with through its egg groups
+   */
+  getEggGroupCompatibles(pokemon: PokemonDisplay): Promise<string[]>;
+
   /**
    * Get all moves for a Pokemon, optionally filtered by generation
+   *
+   * With a version group, the learnset of exactly that game is returned
+   * instead of the latest one of the generation. Without either, the
+   * session generation and game are used.
    */
-  getMoves(pokemonId: number, generation?: number): Promise<MoveData[]>;
+  getMoves(
+    pokemonId: number,
+    generation?: number,
+    versionGroup?: string,
+  ): Promise<MoveData[]>;
 
   /**
    * Get detailed information about a specific ability
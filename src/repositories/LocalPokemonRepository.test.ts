@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LocalPokemonRepository } from "./LocalPokemonRepository.js";
+import { NotFoundError } from "../api/IPokemonDataSource.js";
+import {
+  mockPikachuPokemon,
+  mockPikachuSpecies,
+  mockEvolutionChain,
+} from "../../tests/fixtures/pokemon-data.js";
+
+/**
+ * Write a resource in the api-data layout: <root>/data/api/v2/<path>/index.json
+ */
+async function writeResource(root: string, path: string, data: unknown) {
+  const dir = join(root, "data", "api", "v2", path);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, "index.json"), JSON.stringify(data));
+}
+
+function listOf(resource: string, entries: Array<[string, number]>) {
+  return {
+    count: entries.length,
+    next: null,
+    previous: null,
+    results: entries.map(([name, id]) => ({
+      name,
+      url: `/api/v2/${resource}/${id}/`,
+    })),
+  };
+}
+
+describe("LocalPokemonRepository", () => {
+  let root: string;
+  let repository: LocalPokemonRepository;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "poclidex-api-dump-"));
+
+    await writeResource(
+      root,
+      "pokemon",
+      listOf("pokemon", [
+        ["bulbasaur", 1],
+        ["pikachu", 25],
+      ]),
+    );
+    await writeResource(root, "pokemon/25", mockPikachuPokemon);
+    await writeResource(
+      root,
+      "pokemon-species",
+      listOf("pokemon-species", [["pikachu", 25]]),
+    );
+    await writeResource(root, "pokemon-species/25", {
+      ...mockPikachuSpecies,
+      evolution_chain: { url: "/api/v2/evolution-chain/10/" },
+    });
+    await writeResource(root, "evolution-chain/10", mockEvolutionChain);
+    await writeResource(root, "move", listOf("move", [["thunder-shock", 84]]));
+    await writeResource(root, "move/84", {
+      id: 84,
+      name: "thunder-shock",
+      accuracy: 100,
+      power: 40,
+      pp: 30,
+      priority: 0,
+      type: { name: "electric", url: "/api/v2/type/13/" },
+      damage_class: { name: "special", url: "/api/v2/move-damage-class/3/" },
+      effect_entries: [
+        {
+          effect: "May paralyze the target.",
+          short_effect: "Has a 10% chance to paralyze the target.",
+          language: { name: "en", url: "/api/v2/language/9/" },
+        },
+      ],
+      generation: { name: "generation-i", url: "/api/v2/generation/1/" },
+    });
+    await writeResource(root, "ability", listOf("ability", [["static", 9]]));
+    await writeResource(root, "ability/9", {
+      id: 9,
+      name: "static",
+      is_main_series: true,
+      generation: { name: "generation-iii", url: "/api/v2/generation/3/" },
+      names: [{ name: "Static", language: { name: "en", url: "" } }],
+      effect_entries: [
+        {
+          effect: "Contact may paralyze.",
+          short_effect: "30% chance to paralyze on contact.",
+          language: { name: "en", url: "" },
+        },
+      ],
+      flavor_text_entries: [],
+    });
+
+    repository = new LocalPokemonRepository(root);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should list Pokemon from the dump", async () => {
+    const list = await repository.getPokemonList();
+
+    expect(list.map((p) => p.name)).toEqual(["bulbasaur", "pikachu"]);
+  });
+
+  it("should apply filters to the dump list", async () => {
+    const list = await repository.getPokemonList({ limit: 1, offset: 1 });
+
+    expect(list.map((p) => p.name)).toEqual(["pikachu"]);
+  });
+
+  it("should resolve Pokemon details by name", async () => {
+    const pokemon = await repository.getPokemonDetails("pikachu");
+
+    expect(pokemon.id).toBe(25);
+    expect(pokemon.displayName).toBe("Pikachu");
+    expect(pokemon.evolutionChainUrl).toBe("/api/v2/evolution-chain/10/");
+  });
+
+  it("should resolve Pokemon details by ID", async () => {
+    const pokemon = await repository.getPokemonDetails(25);
+
+    expect(pokemon.name).toBe("pikachu");
+  });
+
+  it("should read the evolution chain", async () => {
+    const pokemon = await repository.getPokemonDetails("pikachu");
+    const chain = await repository.getEvolutionChain(pokemon);
+
+    expect(chain.id).toBe(10);
+    expect(chain.chain.species.name).toBe("pichu");
+  });
+
+  it("should read moves", async () => {
+    const moves = await repository.getMoves(25);
+
+    expect(moves).toHaveLength(1);
+    expect(moves[0]).toMatchObject({
+      name: "thunder-shock",
+      type: "electric",
+      power: 40,
+      learnMethod: "level-up",
+    });
+  });
+
+  it("should read ability details", async () => {
+    const ability = await repository.getAbilityDetails("static");
+
+    expect(ability.displayName).toBe("Static");
+    expect(ability.generation).toBe(3);
+  });
+
+  it("should reject unknown Pokemon", async () => {
+    await expect(repository.getPokemonDetails("missingno")).rejects.toThrow(
+      'pokemon "missingno" not found in data directory',
+    );
+    await expect(repository.getPokemonDetails(9999)).rejects.toBeInstanceOf(
+      NotFoundError,
+    );
+  });
+
+  it("should not report a broken dump as an unknown Pokemon", async () => {
+    const empty = new LocalPokemonRepository(join(root, "nope"));
+
+    const error = await empty.getPokemonDetails("pikachu").catch((e) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(NotFoundError);
+  });
+
+  it("should reject directories without a dump", async () => {
+    const empty = new LocalPokemonRepository(join(root, "nope"));
+
+    await expect(empty.getPokemonList()).rejects.toThrow(
+      "No PokeAPI data found",
+    );
+  });
+});
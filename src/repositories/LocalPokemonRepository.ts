@@ -0,0 +1,27 @@
+import { ApiDumpDataSource } from "../api/apiDump.js";
+import { PokemonService } from "../services/pokemonService.js";
+import { PokemonRepository } from "./PokemonRepository.js";
+
+/**
+ * IPokemonRepository backed by a local PokeAPI api-data JSON dump
+ *
+ * Reuses the PokemonRepository logic (generation filtering, move sorting,
+ * ability formatting) but reads every resource from disk, so a pinned
+ * dataset version can be used without any network access.
+ */
+export class LocalPokemonRepository extends PokemonRepository {
+  private dataDir: string;
+
+  constructor(dataDir: string) {
+    const source = new ApiDumpDataSource(dataDir);
+    super(source, new PokemonService(source));
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * Get the directory this repository reads from
+   */
+  getDataDirectory(): string {
+    return this.dataDir;
+  }
+}
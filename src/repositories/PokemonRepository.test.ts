@@ -1,7 +1,16 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { PokemonRepository } from "./PokemonRepository.js";
-import { pokemonService } from "../services/pokemonService.js";
-import { mockPokemonList } from "../../tests/fixtures/pokemon-data.js";
+import {
+  pokemonService,
+  type PokemonService,
+} from "../services/pokemonService.js";
+import { generationService } from "../services/generationService.js";
+import { transformPokemon } from "../models/pokemon.js";
+import {
+  mockPokemonList,
+  mockPikachuPokemon,
+} from "../../tests/fixtures/pokemon-data.js";
+import type { IPokemonDataSource } from "../api/IPokemonDataSource.js";
 
 // Mock the pokemonService
 vi.mock("../services/pokemonService.js", () => ({
@@ -176,6 +185,862 @@ describe("PokemonRepository", () => {
     });
   });
 
+  describe("getPokemonList - type / legendary / mythical filters", () => {
+    const filterList = [
+      { name: "bulbasaur", url: "https://pokeapi.co/api/v2/pokemon/1/" },
+      { name: "clefairy", url: "https://pokeapi.co/api/v2/pokemon/35/" },
+      { name: "mewtwo", url: "https://pokeapi.co/api/v2/pokemon/150/" },
+      { name: "mew", url: "https://pokeapi.co/api/v2/pokemon/151/" },
+      { name: "xerneas", url: "https://pokeapi.co/api/v2/pokemon/716/" },
+      { name: "diancie", url: "https://pokeapi.co/api/v2/pokemon/719/" },
+    ];
+
+    // Type name -> [pokemon name, slot]
+    const typeMembers: Record<string, Array<[string, number]>> = {
+      grass: [["bulbasaur", 1]],
+      poison: [["bulbasaur", 2]],
+      fairy: [
+        ["clefairy", 1],
+        ["xerneas", 1],
+        ["diancie", 2],
+      ],
+      psychic: [
+        ["mewtwo", 1],
+        ["mew", 1],
+      ],
+      rock: [["diancie", 1]],
+    };
+
+    let api: { getType: ReturnType<typeof vi.fn> };
+    let filterRepository: PokemonRepository;
+
+    beforeEach(() => {
+      vi.mocked(pokemonService.loadPokemonList).mockResolvedValue(filterList);
+      api = {
+        getType: vi.fn().mockImplementation(async (name: string) => ({
+          id: 1,
+          name,
+          generation: { name: "generation-i", url: "" },
+          pokemon: (typeMembers[name] ?? []).map(([pokemon, slot]) => ({
+            slot,
+            pokemon: { name: pokemon, url: "" },
+          })),
+        })),
+      };
+      filterRepository = new PokemonRepository(
+        api as unknown as IPokemonDataSource,
+        pokemonService,
+      );
+    });
+
+    it("should filter by type", async () => {
+      const result = await filterRepository.getPokemonList({ type: "fairy" });
+
+      expect(result.map((p) => p.name)).toEqual([
+        "clefairy",
+        "xerneas",
+        "diancie",
+      ]);
+    });
+
+    it("should match type case-insensitively", async () => {
+      const result = await filterRepository.getPokemonList({ type: "Grass" });
+
+      expect(result.map((p) => p.name)).toEqual(["bulbasaur"]);
+    });
+
+    it("should filter Legendary Pokemon", async () => {
+      const result = await filterRepository.getPokemonList({
+        isLegendary: true,
+      });
+
+      expect(result.map((p) => p.name)).toEqual(["mewtwo", "xerneas"]);
+    });
+
+    it("should exclude Mythical Pokemon", async () => {
+      const result = await filterRepository.getPokemonList({
+        isMythical: false,
+      });
+
+      expect(result.map((p) => p.name)).not.toContain("mew");
+      expect(result.map((p) => p.name)).not.toContain("diancie");
+      expect(result).toHaveLength(4);
+    });
+
+    it("should combine Mythical and type filters", async () => {
+      const result = await filterRepository.getPokemonList({
+        type: "fairy",
+        isMythical: true,
+      });
+
+      expect(result.map((p) => p.name)).toEqual(["diancie"]);
+    });
+
+    it("should combine with generation filter", async () => {
+      const result = await filterRepository.getPokemonList({
+        type: "psychic",
+        generation: 1,
+        isMythical: false,
+      });
+
+      expect(result.map((p) => p.name)).toEqual(["mewtwo"]);
+    });
+
+    it("should build the index once and reuse it", async () => {
+      await filterRepository.getPokemonList({ type: "fairy" });
+      await filterRepository.getPokemonList({ isLegendary: true });
+
+      expect(api.getType).toHaveBeenCalledTimes(18);
+    });
+
+    it("should not build the index when no index filters are set", async () => {
+      await filterRepository.getPokemonList({ generation: 1 });
+
+      expect(api.getType).not.toHaveBeenCalled();
+    });
+
+    it("should list types in slot order", async () => {
+      const index = await filterRepository.getPokemonIndex();
+      const diancie = index.find((entry) => entry.name === "diancie");
+
+      expect(diancie).toEqual({
+        name: "diancie",
+        id: 719,
+        generation: 6,
+        types: ["rock", "fairy"],
+        isLegendary: false,
+        isMythical: true,
+      });
+    });
+
+    it("should retry building the index after a failure", async () => {
+      api.getType.mockRejectedValueOnce(new Error("Network error"));
+
+      await expect(
+        filterRepository.getPokemonList({ type: "fairy" }),
+      ).rejects.toThrow("Network error");
+
+      const result = await filterRepository.getPokemonList({ type: "fairy" });
+      expect(result).toHaveLength(3);
+    });
+  });
+
+  describe("queryPokemon", () => {
+    const queryList = [
+      { name: "bronzor", url: "https://pokeapi.co/api/v2/pokemon/436/" },
+      { name: "bronzong", url: "https://pokeapi.co/api/v2/pokemon/437/" },
+      { name: "lucario", url: "https://pokeapi.co/api/v2/pokemon/448/" },
+      { name: "magnemite", url: "https://pokeapi.co/api/v2/pokemon/81/" },
+      { name: "dialga", url: "https://pokeapi.co/api/v2/pokemon/483/" },
+      { name: "gengar", url: "https://pokeapi.co/api/v2/pokemon/94/" },
+    ];
+
+    const typeMembers: Record<string, string[]> = {
+      steel: ["bronzor", "bronzong", "lucario", "magnemite", "dialga"],
+      ghost: ["gengar"],
+    };
+
+    // name -> [defense, speed, abilities]
+    const details: Record<string, [number, number, string[]]> = {
+      bronzor: [86, 23, ["levitate", "heatproof"]],
+      bronzong: [116, 33, ["levitate", "heatproof"]],
+      lucario: [70, 90, ["steadfast", "inner-focus"]],
+      magnemite: [70, 45, ["magnet-pull", "sturdy"]],
+      dialga: [120, 90, ["pressure", "telepathy"]],
+      gengar: [60, 110, ["cursed-body"]],
+    };
+
+    let api: {
+      getType: ReturnType<typeof vi.fn>;
+      getPokemon: ReturnType<typeof vi.fn>;
+      getAbility: ReturnType<typeof vi.fn>;
+      isLocal: ReturnType<typeof vi.fn>;
+    };
+    let queryRepository: PokemonRepository;
+
+    beforeEach(() => {
+      vi.mocked(pokemonService.loadPokemonList).mockResolvedValue(queryList);
+      api = {
+        getType: vi.fn().mockImplementation(async (name: string) => ({
+          id: 1,
+          name,
+          generation: { name: "generation-i", url: "" },
+          pokemon: (typeMembers[name] ?? []).map((pokemon) => ({
+            slot: 1,
+            pokemon: { name: pokemon, url: "" },
+          })),
+        })),
+        getPokemon: vi.fn().mockImplementation(async (name: string) => {
+          const [defense, speed, abilities] = details[name];
+          return {
+            name,
+            stats: [
+              { base_stat: 50, effort: 0, stat: { name: "hp", url: "" } },
+              {
+                base_stat: defense,
+                effort: 0,
+                stat: { name: "defense", url: "" },
+              },
+              { base_stat: speed, effort: 0, stat: { name: "speed", url: "" } },
+            ],
+            abilities: abilities.map((ability, i) => ({
+              ability: { name: ability, url: "" },
+              is_hidden: false,
+              slot: i + 1,
+            })),
+          };
+        }),
+        getAbility: vi.fn().mockImplementation(async (name: string) => ({
+          id: 26,
+          name,
+          pokemon: Object.entries(details)
+            .filter(([, [, , abilities]]) => abilities.includes(name))
+            .map(([pokemon]) => ({
+              is_hidden: false,
+              slot: 1,
+              pokemon: { name: pokemon, url: "" },
+            })),
+        })),
+        isLocal: vi.fn().mockReturnValue(false),
+      };
+      queryRepository = new PokemonRepository(
+        api as unknown as IPokemonDataSource,
+        pokemonService,
+      );
+    });
+
+    it("should answer Gen 4 Steel types with over 100 Defense", async () => {
+      const result = await queryRepository.queryPokemon([
+        { kind: "generation", operator: "=", value: 4, negate: false },
+        { kind: "type", value: "steel", negate: false },
+        {
+          kind: "stat",
+          stat: "defense",
+          operator: ">",
+          value: 100,
+          negate: false,
+        },
+      ]);
+
+      expect(result.map((p) => p.name)).toEqual(["bronzong", "dialga"]);
+    });
+
+    it("should only fetch details for candidates left by cheap filters", async () => {
+      await queryRepository.queryPokemon([
+        { kind: "generation", operator: "=", value: 4, negate: false },
+        { kind: "type", value: "steel", negate: false },
+        { kind: "stat", stat: "bst", operator: ">", value: 0, negate: false },
+      ]);
+
+      expect(api.getPokemon).toHaveBeenCalledTimes(4);
+      expect(api.getPokemon).not.toHaveBeenCalledWith("magnemite");
+    });
+
+    it("should compute base stat total", async () => {
+      const result = await queryRepository.queryPokemon([
+        { kind: "stat", stat: "bst", operator: ">=", value: 220, negate: false },
+      ]);
+
+      // 50 + defense + speed: dialga 260, gengar 220, lucario 210
+      expect(result.map((p) => p.name)).toEqual(["dialga", "gengar"]);
+    });
+
+    it("should apply negated predicates", async () => {
+      const result = await queryRepository.queryPokemon([
+        { kind: "type", value: "steel", negate: false },
+        { kind: "legendary", negate: true },
+        { kind: "generation", operator: "<=", value: 3, negate: true },
+      ]);
+
+      expect(result.map((p) => p.name)).toEqual([
+        "bronzor",
+        "bronzong",
+        "lucario",
+      ]);
+    });
+
+    it("should use the ability resource to find holders", async () => {
+      const result = await queryRepository.queryPokemon([
+        { kind: "ability", value: "levitate", negate: false },
+      ]);
+
+      expect(result.map((p) => p.name)).toEqual(["bronzor", "bronzong"]);
+      expect(api.getPokemon).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to Pokemon data without ability holders", async () => {
+      api.getAbility.mockResolvedValue({ id: 26, name: "levitate" });
+
+      const result = await queryRepository.queryPokemon([
+        { kind: "ability", value: "levitate", negate: false },
+        {
+          kind: "stat",
+          stat: "speed",
+          operator: ">=",
+          value: 30,
+          negate: false,
+        },
+      ]);
+
+      expect(result.map((p) => p.name)).toEqual(["bronzong"]);
+    });
+
+    it("should match alternate forms by their own generation", async () => {
+      vi.mocked(pokemonService.loadPokemonList).mockResolvedValue([
+        { name: "wooper", url: "https://pokeapi.co/api/v2/pokemon/194/" },
+        { name: "mr-mime", url: "https://pokeapi.co/api/v2/pokemon/122/" },
+        {
+          name: "wooper-paldea",
+          url: "https://pokeapi.co/api/v2/pokemon/10253/",
+        },
+        {
+          name: "mr-mime-galar",
+          url: "https://pokeapi.co/api/v2/pokemon/10168/",
+        },
+        {
+          name: "deoxys-attack",
+          url: "https://pokeapi.co/api/v2/pokemon/10001/",
+        },
+        { name: "deoxys", url: "https://pokeapi.co/api/v2/pokemon/386/" },
+      ]);
+      const query = (value: number) =>
+        queryRepository.queryPokemon([
+          { kind: "generation", operator: "=", value, negate: false },
+        ]);
+
+      expect((await query(9)).map((p) => p.name)).toEqual(["wooper-paldea"]);
+      expect((await query(8)).map((p) => p.name)).toEqual(["mr-mime-galar"]);
+      expect((await query(3)).map((p) => p.name)).toEqual([
+        "deoxys-attack",
+        "deoxys",
+      ]);
+    });
+
+    it("should restrict the search to the given Pokemon", async () => {
+      const result = await queryRepository.queryPokemon(
+        [{ kind: "type", value: "steel", negate: false }],
+        queryList.slice(0, 2),
+      );
+
+      expect(result.map((p) => p.name)).toEqual(["bronzor", "bronzong"]);
+    });
+
+    it("should fetch each Pokemon only once across queries", async () => {
+      const predicate = {
+        kind: "stat" as const,
+        stat: "speed" as const,
+        operator: ">" as const,
+        value: 100,
+        negate: false,
+      };
+
+      await queryRepository.queryPokemon([predicate]);
+      await queryRepository.queryPokemon([predicate]);
+
+      expect(api.getPokemon).toHaveBeenCalledTimes(queryList.length);
+    });
+
+    it("should refuse stat queries that would fetch too many Pokemon", async () => {
+      const many = Array.from({ length: 300 }, (_, i) => ({
+        name: `pokemon-${i + 1}`,
+        url: `https://pokeapi.co/api/v2/pokemon/${i + 1}/`,
+      }));
+      vi.mocked(pokemonService.loadPokemonList).mockResolvedValue(many);
+
+      await expect(
+        queryRepository.queryPokemon([
+          { kind: "stat", stat: "bst", operator: ">", value: 0, negate: false },
+        ]),
+      ).rejects.toThrow("needs data for 300 Pokemon");
+      expect(api.getPokemon).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("forms", () => {
+    const species = {
+      name: "wooper",
+      generation: {
+        name: "generation-ii",
+        url: "https://pokeapi.co/api/v2/generation/2/",
+      },
+      varieties: [
+        { is_default: true, pokemon: { name: "wooper", url: "" } },
+        { is_default: false, pokemon: { name: "wooper-paldea", url: "" } },
+      ],
+    };
+    const forms: Record<string, [number, boolean, string[]]> = {
+      wooper: [194, true, ["water", "ground"]],
+      "wooper-paldea": [10253, false, ["poison", "ground"]],
+    };
+
+    let api: {
+      getPokemon: ReturnType<typeof vi.fn>;
+      getPokemonSpecies: ReturnType<typeof vi.fn>;
+    };
+    let service: { getFormData: ReturnType<typeof vi.fn> };
+    let formRepository: PokemonRepository;
+
+    beforeEach(() => {
+      api = {
+        getPokemon: vi.fn().mockImplementation(async (name: string) => {
+          const [id, isDefault, types] = forms[name];
+          return {
+            ...mockPikachuPokemon,
+            id,
+            name,
+            is_default: isDefault,
+            types: types.map((type, i) => ({
+              slot: i + 1,
+              type: { name: type, url: "" },
+            })),
+            species: {
+              name: "wooper",
+              url: "https://pokeapi.co/api/v2/pokemon-species/194/",
+            },
+          };
+        }),
+        getPokemonSpecies: vi.fn().mockResolvedValue(species),
+      };
+      service = {
+        getFormData: vi.fn().mockImplementation(async (pokemon) =>
+          pokemon.is_default
+            ? undefined
+            : { version_group: { name: "scarlet-violet", url: "" } },
+        ),
+      };
+      formRepository = new PokemonRepository(
+        api as unknown as IPokemonDataSource,
+        service as unknown as PokemonService,
+      );
+    });
+
+    it("should list each variety with its types and generation", async () => {
+      const wooper = transformPokemon(
+        await api.getPokemon("wooper"),
+        species as never,
+      );
+
+      const result = await formRepository.getForms(wooper);
+
+      expect(result).toEqual([
+        {
+          name: "wooper",
+          displayName: "Wooper",
+          types: ["water", "ground"],
+          generation: 2,
+          isDefault: true,
+          category: "default",
+        },
+        {
+          name: "wooper-paldea",
+          displayName: "Wooper Paldea",
+          types: ["poison", "ground"],
+          generation: 9,
+          isDefault: false,
+          category: "regional",
+        },
+      ]);
+    });
+
+    it("should show a regional form as of its own generation in an older session", async () => {
+      generationService.setSessionGeneration(3);
+      try {
+        const result = await formRepository.getPokemonDetails("wooper-paldea");
+
+        expect(result.generation).toBe(9);
+        expect(result.typeEffectiveness.generation).toBe(9);
+      } finally {
+        generationService.setSessionGeneration(9);
+      }
+    });
+  });
+
+  describe("getMoves", () => {
+    /**
+     * Pikachu learnset entry in the given [version group, level] pairs
+     */
+    const learnedIn = (name: string, groups: Array<[string, number]>) => ({
+      move: { name, url: "" },
+      version_group_details: groups.map(([group, level]) => ({
+        level_learned_at: level,
+        move_learn_method: { name: "level-up", url: "" },
+        version_group: { name: group, url: "" },
+      })),
+    });
+
+    let api: {
+      getPokemon: ReturnType<typeof vi.fn>;
+      getMove: ReturnType<typeof vi.fn>;
+    };
+    let movesRepository: PokemonRepository;
+
+    beforeEach(() => {
+      api = {
+        getPokemon: vi.fn().mockResolvedValue({
+          ...mockPikachuPokemon,
+          moves: [
+            learnedIn("thunder-shock", [
+              ["red-blue", 1],
+              ["lets-go-pikachu-lets-go-eevee", 1],
+              ["ultra-sun-ultra-moon", 1],
+            ]),
+            learnedIn("thunderbolt", [
+              ["red-blue", 26],
+              ["ultra-sun-ultra-moon", 29],
+            ]),
+            learnedIn("zippy-zap", [["lets-go-pikachu-lets-go-eevee", 1]]),
+          ],
+        }),
+        getMove: vi.fn().mockImplementation(async (name: string) => ({
+          name,
+          type: { name: "electric", url: "" },
+          damage_class: { name: "special", url: "" },
+          power: 90,
+          accuracy: 100,
+          pp: 15,
+          effect_entries: [],
+        })),
+      };
+      movesRepository = new PokemonRepository(
+        api as unknown as IPokemonDataSource,
+        {
+          getFormData: vi.fn().mockResolvedValue(undefined),
+        } as unknown as PokemonService,
+      );
+    });
+
+    afterEach(() => {
+      generationService.setSessionGeneration(9);
+    });
+
+    it("should use the main game of the generation by default", async () => {
+      const moves = await movesRepository.getMoves(25, 7);
+
+      // Ultra Sun / Ultra Moon, without the Let's Go-only Zippy Zap
+      expect(moves.map((m) => m.name)).toEqual([
+        "thunder-shock",
+        "thunderbolt",
+      ]);
+      expect(moves[1].levelLearned).toBe(29);
+      expect(
+        moves.flatMap((m) => m.learnEntries.map((e) => e.versionGroup)),
+      ).toEqual(["ultra-sun-ultra-moon", "ultra-sun-ultra-moon"]);
+    });
+
+    it("should fall back to the latest game the Pokemon is in", async () => {
+      api.getPokemon.mockResolvedValue({
+        ...mockPikachuPokemon,
+        moves: [
+          learnedIn("thunder-shock", [
+            ["x-y", 1],
+            ["lets-go-pikachu-lets-go-eevee", 1],
+          ]),
+          learnedIn("thunderbolt", [["x-y", 26]]),
+        ],
+      });
+
+      const moves = await movesRepository.getMoves(25, 8);
+
+      expect(moves.map((m) => m.name)).toEqual(["thunder-shock"]);
+      expect(moves[0].versionGroup).toBe("lets-go-pikachu-lets-go-eevee");
+    });
+
+    it("should use exactly the learnset of a given game", async () => {
+      const moves = await movesRepository.getMoves(
+        25,
+        undefined,
+        "lets-go-pikachu-lets-go-eevee",
+      );
+
+      expect(moves.map((m) => m.name)).toEqual([
+        "thunder-shock",
+        "zippy-zap",
+      ]);
+    });
+
+    it("should use the session game", async () => {
+      generationService.setSessionVersionGroup("red-blue");
+
+      const moves = await movesRepository.getMoves(25);
+
+      expect(moves.map((m) => m.name)).toEqual([
+        "thunder-shock",
+        "thunderbolt",
+      ]);
+      expect(moves[1].levelLearned).toBe(26);
+    });
+
+    it("should keep every learn entry of the shown game", async () => {
+      api.getPokemon.mockResolvedValue({
+        ...mockPikachuPokemon,
+        moves: [
+          {
+            move: { name: "surf", url: "" },
+            version_group_details: [
+              ["stadium-surfing-pikachu", "sun-moon"],
+              ["machine", "sun-moon"],
+              ["machine", "x-y"],
+              ["machine", "scarlet-violet"],
+            ].map(([method, group]) => ({
+              level_learned_at: 0,
+              move_learn_method: { name: method, url: "" },
+              version_group: { name: group, url: "" },
+            })),
+          },
+        ],
+      });
+
+      const [surf] = await movesRepository.getMoves(25, 7);
+
+      expect(surf.versionGroup).toBe("sun-moon");
+      expect(surf.learnMethod).toBe("machine");
+      expect(surf.levelLearned).toBeUndefined();
+      expect(surf.learnEntries).toEqual([
+        { method: "stadium-surfing-pikachu", versionGroup: "sun-moon" },
+        { method: "machine", versionGroup: "sun-moon" },
+      ]);
+    });
+
+    it("should keep several levels of the same game", async () => {
+      api.getPokemon.mockResolvedValue({
+        ...mockPikachuPokemon,
+        moves: [learnedIn("growl", [["x-y", 1], ["x-y", 5]])],
+      });
+
+      const [growl] = await movesRepository.getMoves(25, 6);
+
+      expect(growl.levelLearned).toBe(1);
+      expect(growl.learnEntries.map((e) => e.level)).toEqual([1, 5]);
+    });
+
+    it("should use the move values of the game", async () => {
+      api.getMove.mockImplementation(async (name: string) => ({
+        name,
+        type: { name: "electric", url: "" },
+        damage_class: { name: "special", url: "" },
+        power: 90,
+        accuracy: 100,
+        pp: 15,
+        effect_entries: [],
+        past_values: [
+          {
+            accuracy: null,
+            power: 95,
+            pp: null,
+            type: null,
+            version_group: { name: "x-y", url: "" },
+          },
+        ],
+      }));
+
+      const [, thunderbolt] = await movesRepository.getMoves(25, 7);
+      const [, redBlueThunderbolt] = await movesRepository.getMoves(
+        25,
+        undefined,
+        "red-blue",
+      );
+
+      expect(thunderbolt.power).toBe(90);
+      expect(redBlueThunderbolt.power).toBe(95);
+      expect(redBlueThunderbolt.pp).toBe(15);
+    });
+
+    it("should take the move values from the learnset's game", async () => {
+      api.getPokemon.mockResolvedValue({
+        ...mockPikachuPokemon,
+        moves: [learnedIn("thunderbolt", [["x-y", 26]])],
+      });
+      api.getMove.mockImplementation(async (name: string) => ({
+        name,
+        type: { name: "electric", url: "" },
+        damage_class: { name: "special", url: "" },
+        power: 90,
+        accuracy: 100,
+        pp: 15,
+        effect_entries: [],
+        past_values: [
+          {
+            accuracy: null,
+            power: 95,
+            pp: null,
+            type: null,
+            version_group: { name: "sun-moon", url: "" },
+          },
+        ],
+      }));
+
+      // No Gen 7 learnset, so X / Y is shown with its own values
+      const [thunderbolt] = await movesRepository.getMoves(25, 7);
+
+      expect(thunderbolt.versionGroup).toBe("x-y");
+      expect(thunderbolt.power).toBe(95);
+    });
+
+    it("should derive the category from the type before Gen 4", async () => {
+      api.getMove.mockImplementation(async (name: string) => ({
+        name,
+        type: { name: "electric", url: "" },
+        damage_class: { name: "physical", url: "" },
+        power: 75,
+        accuracy: 100,
+        pp: 15,
+        effect_entries: [],
+      }));
+
+      const [redBlueMove] = await movesRepository.getMoves(25, 1);
+      const [ultraSunMove] = await movesRepository.getMoves(25, 7);
+
+      expect(redBlueMove.category).toBe("special");
+      expect(ultraSunMove.category).toBe("physical");
+    });
+
+    it("should prefer an explicit generation", async () => {
+      generationService.setSessionVersionGroup("red-blue");
+
+      const moves = await movesRepository.getMoves(25, 7);
+
+      expect(moves[0].versionGroup).toBe("ultra-sun-ultra-moon");
+    });
+  });
+
+  describe("getEggGroupCompatibles", () => {
+    const eggGroups: Record<string, Array<[string, number]>> = {
+      monster: [
+        ["bulbasaur", 1],
+        ["charmander", 4],
+        ["nidoran-m", 32],
+        ["lapras", 131],
+      ],
+      water1: [
+        ["squirtle", 7],
+        ["lapras", 131],
+        ["psyduck", 54],
+        ["staryu", 120],
+      ],
+    };
+
+    // Chance of being female in eighths, -1 for genderless
+    const genderRates: Record<string, number> = {
+      "nidoran-m": 0,
+      staryu: -1,
+    };
+
+    /**
+     * Whether a species with the gender rate is listed under the gender
+     */
+    const hasGender: Record<string, (rate: number) => boolean> = {
+      female: (rate) => rate > 0,
+      male: (rate) => rate >= 0 && rate < 8,
+      genderless: (rate) => rate === -1,
+    };
+
+    let api: {
+      getEggGroup: ReturnType<typeof vi.fn>;
+      getGender: ReturnType<typeof vi.fn>;
+    };
+    let breedingRepository: PokemonRepository;
+
+    beforeEach(() => {
+      api = {
+        getEggGroup: vi.fn().mockImplementation(async (name: string) => ({
+          id: 1,
+          name,
+          pokemon_species: eggGroups[name].map(([species, id]) => ({
+            name: species,
+            url: `https://pokeapi.co/api/v2/pokemon-species/${id}/`,
+          })),
+        })),
+        getGender: vi.fn().mockImplementation(async (name: string) => {
+          const species = [
+            ...new Set(Object.values(eggGroups).flat().map(([s]) => s)),
+          ];
+          return {
+            id: 1,
+            name,
+            pokemon_species_details: species
+              .map((s) => ({ s, rate: genderRates[s] ?? 1 }))
+              .filter(({ rate }) => hasGender[name](rate))
+              .map(({ s, rate }) => ({
+                rate,
+                pokemon_species: { name: s, url: "" },
+              })),
+          };
+        }),
+      };
+      breedingRepository = new PokemonRepository(
+        api as unknown as IPokemonDataSource,
+        pokemonService,
+      );
+    });
+
+    function withBreeding(eggGroupNames: string[], genderRate = 4) {
+      return {
+        ...transformPokemon(mockPikachuPokemon),
+        speciesName: "lapras",
+        breeding: { eggGroups: eggGroupNames, genderRate, hatchCounter: 40 },
+      };
+    }
+
+    it("should merge egg groups in Pokedex order", async () => {
+      const result = await breedingRepository.getEggGroupCompatibles(
+        withBreeding(["monster", "water1"]),
+      );
+
+      expect(result).toEqual([
+        "bulbasaur",
+        "charmander",
+        "squirtle",
+        "nidoran-m",
+        "psyduck",
+      ]);
+    });
+
+    it("should leave out genderless partners", async () => {
+      const result = await breedingRepository.getEggGroupCompatibles(
+        withBreeding(["water1"]),
+      );
+
+      expect(result).not.toContain("staryu");
+    });
+
+    it("should look up gender rates once, not per species", async () => {
+      await breedingRepository.getEggGroupCompatibles(
+        withBreeding(["monster", "water1"]),
+      );
+      await breedingRepository.getEggGroupCompatibles(
+        withBreeding(["water1"]),
+      );
+
+      expect(api.getGender).toHaveBeenCalledTimes(3);
+    });
+
+    it("should leave out partners of the same single gender", async () => {
+      const maleOnly = await breedingRepository.getEggGroupCompatibles(
+        withBreeding(["monster"], 0),
+      );
+      const femaleOnly = await breedingRepository.getEggGroupCompatibles(
+        withBreeding(["monster"], 8),
+      );
+
+      expect(maleOnly).toEqual(["bulbasaur", "charmander"]);
+      expect(femaleOnly).toEqual(["bulbasaur", "charmander", "nidoran-m"]);
+    });
+
+    it("should return nothing for genderless or egg-less Pokemon", async () => {
+      expect(
+        await breedingRepository.getEggGroupCompatibles(
+          withBreeding(["monster"], -1),
+        ),
+      ).toEqual([]);
+      expect(
+        await breedingRepository.getEggGroupCompatibles(
+          withBreeding(["no-eggs"]),
+        ),
+      ).toEqual([]);
+      expect(api.getEggGroup).not.toHaveBeenCalled();
+    });
+  });
+
   describe("formatAbilityName", () => {
     it("should format single-word ability names", () => {
       const formatted = (repository as any).formatAbilityName("overgrow");
@@ -1,17 +1,44 @@
-import { pokemonService } from "../services/pokemonService.js";
+import {
+  pokemonService,
+  type PokemonService,
+} from "../services/pokemonService.js";
 import { pokeAPI } from "../api/pokeapi.js";
+import type { IPokemonDataSource } from "../api/IPokemonDataSource.js";
 import type { PokemonListItem, EvolutionChain } from "../api/types.js";
 import type { PokemonDisplay } from "../models/pokemon.js";
-import { transformPokemon } from "../models/pokemon.js";
+import {
+  transformPokemon,
+  resolveGeneration,
+  getFormCategory,
+  getGeneration,
+  getVarietyGeneration,
+  capitalizeName,
+} from "../models/pokemon.js";
 import type {
   IPokemonRepository,
   FilterOptions,
   MoveData,
+  MoveCategory,
+  MoveLearnEntry,
+  LearnMethod,
   AbilityDetail,
+  PokemonIndexEntry,
+  PokemonFormEntry,
 } from "./IPokemonRepository.js";
+import {
+  isMainLearnMethod,
+  getMoveStatsInVersionGroup,
+} from "../models/moves.js";
 import { LRUCache } from "../utils/cache.js";
 import { generationService } from "../services/generationService.js";
-import { getGenerationFromVersionGroup } from "../constants/versionGroups.js";
+import {
+  compareVersionGroups,
+  getGenerationFromVersionGroup,
+  LATEST_VERSION_GROUP_PER_GEN,
+} from "../constants/versionGroups.js";
+import { POKEMON_TYPES } from "../constants/pokemonTypes.js";
+import { getSpecialStatus } from "../constants/legendaryStatus.js";
+import { compare, type QueryPredicate } from "../utils/searchQuery.js";
 
 /**
  * Generation ranges (based on National Dex numbers)
@@ -28,6 +55,31 @@ const GENERATION_RANGES = [
   { gen: 9, start: 906, end: 1025, name: "Paldea", region: "Paldea" },
 ];
 
+/**
+ * Maximum concurrent fetches when evaluating stat predicates
+ */
+const QUERY_CONCURRENCY = 8;
+
+/**
+ * Maximum Pokemon a stat query may download, so that e.g. "bst>600" alone
+ * does not fetch every Pokemon from PokeAPI; ones fetched before, and
+ * local data (a snapshot, --data-dir or offline mode), are not counted
+ */
+const MAX_QUERY_FETCHES = 250;
+
+/**
+ * Gender resources, which together list every species' gender rate
+ */
+const GENDERS = ["female", "male", "genderless"];
+
+/**
+ * Per-Pokemon data needed by stat and ability predicates
+ */
+interface PokemonQueryFacts {
+  stats: Record<string, number>;
+  abilities: string[];
+}
+
 /**
  * Concrete implementation of IPokemonRepository
  *
@@ -35,10 +87,25 @@ const GENERATION_RANGES = [
  * This allows us to decouple UI components from service implementation details.
  */
 export class PokemonRepository implements IPokemonRepository {
+  protected api: IPokemonDataSource;
+  protected service: PokemonService;
   private abilityCache: LRUCache<string, AbilityDetail>;
   private moveCache: LRUCache<string, import("../api/types.js").Move>;
+  private pokemonIndex?: Promise<PokemonIndexEntry[]>;
+  private genderRates?: Promise<Map<string, number>>;
+  // Small per-Pokemon records, kept for the whole session once fetched
+  private queryFacts = new Map<string, Promise<PokemonQueryFacts>>();
 
-  constructor() {
+  /**
+   * @param api - Raw data source (defaults to the PokeAPI client)
+   * @param service - Service wrapping the same data source
+   */
+  constructor(
+    api: IPokemonDataSource = pokeAPI,
+    service: PokemonService = pokemonService,
+  ) {
+    this.api = api;
+    this.service = service;
     this.abilityCache = new LRUCache(100); // Cache up to 100 abilities
     this.moveCache = new LRUCache(200); // Cache up to 200 moves
   }
@@ -48,7 +115,7 @@ export class PokemonRepository implements IPokemonRepository {
    */
   async getPokemonList(options?: FilterOptions): Promise<PokemonListItem[]> {
     // Load all Pokemon from existing service
-    const allPokemon = await pokemonService.loadPokemonList();
+    const allPokemon = await this.service.loadPokemonList();
 
     // Apply filters if provided
     if (!options) {
@@ -73,6 +140,41 @@ export class PokemonRepository implements IPokemonRepository {
       }
     }
 
+    // Filter by type and Legendary/Mythical status using the per-Pokemon index
+    if (
+      options.type !== undefined ||
+      options.isLegendary !== undefined ||
+      options.isMythical !== undefined
+    ) {
+      const index = new Map(
+        (await this.getPokemonIndex()).map((entry) => [entry.name, entry]),
+      );
+      const type = options.type?.toLowerCase();
+
+      filtered = filtered.filter((p) => {
+        const entry = index.get(p.name);
+        if (!entry) {
+          return false;
+        }
+        if (type !== undefined && !entry.types.includes(type)) {
+          return false;
+        }
+        if (
+          options.isLegendary !== undefined &&
+          entry.isLegendary !== options.isLegendary
+        ) {
+          return false;
+        }
+        if (
+          options.isMythical !== undefined &&
+          entry.isMythical !== options.isMythical
+        ) {
+          return false;
+        }
+        return true;
+      });
+    }
+
     // Apply limit and offset
     if (options.offset !== undefined || options.limit !== undefined) {
       const offset = options.offset || 0;
@@ -83,6 +185,220 @@ export class PokemonRepository implements IPokemonRepository {
     return filtered;
   }
 
+  /**
+   * Get the per-Pokemon filter index (built once, then reused)
+   *
+   * Types come from the 18 type resources (one request each) rather than
+   * one request per Pokemon; Legendary/Mythical flags come from a static table.
+   */
+  async getPokemonIndex(): Promise<PokemonIndexEntry[]> {
+    if (!this.pokemonIndex) {
+      this.pokemonIndex = this.buildPokemonIndex().catch((error) => {
+        // Allow retrying after a failed build (e.g. network error)
+        this.pokemonIndex = undefined;
+        throw error;
+      });
+    }
+    return this.pokemonIndex;
+  }
+
+  private async buildPokemonIndex(): Promise<PokemonIndexEntry[]> {
+    const [allPokemon, types] = await Promise.all([
+      this.service.loadPokemonList(),
+      Promise.all(POKEMON_TYPES.map((type) => this.api.getType(type))),
+    ]);
+
+    // Collect each Pokemon's types, keeping the slot so primary type comes first
+    const typesByPokemon = new Map<string, { slot: number; type: string }[]>();
+    for (const type of types) {
+      for (const entry of type.pokemon) {
+        const slots = typesByPokemon.get(entry.pokemon.name) ?? [];
+        slots.push({ slot: entry.slot, type: type.name });
+        typesByPokemon.set(entry.pokemon.name, slots);
+      }
+    }
+
+    // Alternate forms (IDs above 10000) are named after their species
+    const speciesIds = new Map<string, number>();
+    for (const p of allPokemon) {
+      const id = this.extractIdFromUrl(p.url);
+      if (id <= 10000) {
+        speciesIds.set(p.name, id);
+      }
+    }
+    const getSpeciesId = (name: string): number | undefined => {
+      const parts = name.split("-");
+      for (let length = parts.length - 1; length > 0; length--) {
+        const id = speciesIds.get(parts.slice(0, length).join("-"));
+        if (id !== undefined) return id;
+      }
+      return undefined;
+    };
+
+    return allPokemon.map((p) => {
+      const id = this.extractIdFromUrl(p.url);
+      const slots = typesByPokemon.get(p.name) ?? [];
+      const speciesId = id > 10000 ? getSpeciesId(p.name) : id;
+      return {
+        name: p.name,
+        id,
+        generation: getVarietyGeneration(
+          p.name,
+          speciesId !== undefined ? getGeneration(speciesId) : 9,
+        ),
+        types: slots.sort((a, b) => a.slot - b.slot).map((s) => s.type),
+        ...getSpecialStatus(id, p.name),
+      };
+    });
+  }
+
+  /**
+   * Get the Pokemon matching every structured search predicate
+   *
+   * Cheap predicates (type, generation, Legendary/Mythical, ability) are
+   * applied first so stat predicates only fetch the remaining candidates.
+   */
+  async queryPokemon(
+    predicates: QueryPredicate[],
+    pokemon?: PokemonListItem[],
+  ): Promise<PokemonListItem[]> {
+    const candidates = pokemon ?? (await this.service.loadPokemonList());
+    const index = new Map(
+      (await this.getPokemonIndex()).map((entry) => [entry.name, entry]),
+    );
+
+    // Resolve ability holders up front where the ability resource lists them
+    const abilityHolders = new Map<string, Set<string> | null>();
+    for (const predicate of predicates) {
+      if (
+        predicate.kind === "ability" &&
+        !abilityHolders.has(predicate.value)
+      ) {
+        const ability = await this.api.getAbility(predicate.value);
+        abilityHolders.set(
+          predicate.value,
+          ability.pokemon
+            ? new Set(ability.pokemon.map((p) => p.pokemon.name))
+            : null,
+        );
+      }
+    }
+
+    const needsFacts = (p: QueryPredicate) =>
+      p.kind === "stat" ||
+      (p.kind === "ability" && abilityHolders.get(p.value) === null);
+    const cheap = predicates.filter((p) => !needsFacts(p));
+    const detailed = predicates.filter(needsFacts);
+
+    let matches = candidates.filter((p) => {
+      const entry = index.get(p.name);
+      return (
+        entry !== undefined &&
+        cheap.every(
+          (predicate) =>
+            this.matchesPredicate(predicate, entry, abilityHolders) !==
+            predicate.negate,
+        )
+      );
+    });
+
+    if (detailed.length > 0) {
+      const fetches = this.api.isLocal()
+        ? []
+        : matches.filter((p) => !this.queryFacts.has(p.name));
+      if (fetches.length > MAX_QUERY_FETCHES) {
+        throw new Error(
+          `query needs data for ${fetches.length} Pokemon (at most ` +
+            `${MAX_QUERY_FETCHES}); narrow it with type: or gen:`,
+        );
+      }
+
+      const kept: PokemonListItem[] = [];
+      for (let i = 0; i < matches.length; i += QUERY_CONCURRENCY) {
+        const batch = matches.slice(i, i + QUERY_CONCURRENCY);
+        const facts = await Promise.all(
+          batch.map((p) => this.getQueryFacts(p.name)),
+        );
+        batch.forEach((p, j) => {
+          const entry = index.get(p.name)!;
+          if (
+            detailed.every(
+              (predicate) =>
+                this.matchesPredicate(
+                  predicate,
+                  entry,
+                  abilityHolders,
+                  facts[j],
+                ) !== predicate.negate,
+            )
+          ) {
+            kept.push(p);
+          }
+        });
+      }
+      matches = kept;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Evaluate a predicate (ignoring negation) against one Pokemon
+   */
+  private matchesPredicate(
+    predicate: QueryPredicate,
+    entry: PokemonIndexEntry,
+    abilityHolders: Map<string, Set<string> | null>,
+    facts?: PokemonQueryFacts,
+  ): boolean {
+    switch (predicate.kind) {
+      case "type":
+        return entry.types.includes(predicate.value);
+      case "legendary":
+        return entry.isLegendary;
+      case "mythical":
+        return entry.isMythical;
+      case "generation":
+        return compare(entry.generation, predicate.operator, predicate.value);
+      case "ability": {
+        const holders = abilityHolders.get(predicate.value);
+        return holders
+          ? holders.has(entry.name)
+          : (facts?.abilities.includes(predicate.value) ?? false);
+      }
+      case "stat": {
+        const value = facts?.stats[predicate.stat];
+        return (
+          value !== undefined &&
+          compare(value, predicate.operator, predicate.value)
+        );
+      }
+    }
+  }
+
+  /**
+   * Fetch (once) the base stats and abilities used by query predicates
+   */
+  private getQueryFacts(name: string): Promise<PokemonQueryFacts> {
+    let facts = this.queryFacts.get(name);
+    if (!facts) {
+      facts = this.api.getPokemon(name).then((pokemon) => {
+        const stats: Record<string, number> = {};
+        for (const stat of pokemon.stats) {
+          stats[stat.stat.name] = stat.base_stat;
+        }
+        stats.bst = pokemon.stats.reduce((sum, s) => sum + s.base_stat, 0);
+        return {
+          stats,
+          abilities: pokemon.abilities.map((a) => a.ability.name),
+        };
+      });
+      facts.catch(() => this.queryFacts.delete(name));
+      this.queryFacts.set(name, facts);
+    }
+    return facts;
+  }
+
   /**
    * Get detailed Pokemon information with optional generation filtering
    */
@@ -91,77 +407,181 @@ export class PokemonRepository implements IPokemonRepository {
 
     // If viewing latest generation (9), use cached service version
     if (sessionGeneration === 9) {
-      return pokemonService.getPokemonDetails(nameOrId);
+      return this.service.getPokemonDetails(nameOrId);
     }
 
     // For historical generations, fetch raw data and apply filtering
-    const pokemon = await pokeAPI.getPokemon(nameOrId);
-    const species = await pokeAPI.getPokemonSpecies(pokemon.species.name);
+    const pokemon = await this.api.getPokemon(nameOrId);
+    const species = await this.api.getPokemonSpecies(pokemon.species.name);
+    const form = await this.service.getFormData(pokemon);
 
     // Get the effective generation (max of session gen and Pokemon's release gen)
-    const pokemonGeneration = this.getGeneration(pokemon.id);
+    const pokemonGeneration = resolveGeneration(pokemon, species, form);
     const effectiveGeneration = Math.max(sessionGeneration, pokemonGeneration);
 
     // Transform with generation filtering
-    return transformPokemon(pokemon, species, effectiveGeneration);
+    return transformPokemon(pokemon, species, effectiveGeneration, form);
   }
 
   /**
    * Get evolution chain for a Pokemon
    */
   async getEvolutionChain(pokemon: PokemonDisplay): Promise<EvolutionChain> {
-    return pokemonService.getEvolutionChain(pokemon);
+    return this.service.getEvolutionChain(pokemon);
+  }
+
+  /**
+   * Get every variety of a Pokemon's species with its types and generation
+   */
+  async getForms(pokemon: PokemonDisplay): Promise<PokemonFormEntry[]> {
+    const species = await this.api.getPokemonSpecies(pokemon.speciesName);
+
+    return Promise.all(
+      pokemon.varieties.map(async (variety) => {
+        const data = await this.api.getPokemon(variety.name);
+        const form = await this.service.getFormData(data);
+
+        return {
+          name: data.name,
+          displayName: capitalizeName(data.name),
+          types: data.types.map((t) => t.type.name),
+          generation: resolveGeneration(data, species, form),
+          isDefault: variety.isDefault,
+          category: getFormCategory(data, form),
+        };
+      }),
+    );
+  }
+
+  /**
+   * Get the species sharing an egg group with a Pokemon, in Pokedex order
+   *
+   * Only species it can breed with are listed: genderless species are left
+   * out, and so are species with the same single gender (e.g. the male-only
+   * Hitmons for Tyrogue). Genderless Pokemon and the "ditto" / "no-eggs"
+   * groups have no egg group partners, so they return an empty list.
+   */
+  async getEggGroupCompatibles(pokemon: PokemonDisplay): Promise<string[]> {
+    if (pokemon.breeding.genderRate === -1) {
+      return [];
+    }
+
+    const groups = pokemon.breeding.eggGroups.filter(
+      (group) => group !== "ditto" && group !== "no-eggs",
+    );
+    const eggGroups = await Promise.all(
+      groups.map((group) => this.api.getEggGroup(group)),
+    );
+
+    const species = new Map<string, number>();
+    for (const group of eggGroups) {
+      for (const entry of group.pokemon_species) {
+        const id = entry.url.match(/\/pokemon-species\/(\d+)\//);
+        species.set(entry.name, id ? parseInt(id[1], 10) : Infinity);
+      }
+    }
+    species.delete(pokemon.speciesName);
+
+    // The egg groups do not tell genders apart, the gender resources do
+    const genderRates = await this.getGenderRates();
+    const partners = [...species.entries()].filter(([name]) =>
+      canBreed(pokemon.breeding.genderRate, genderRates.get(name) ?? 1),
+    );
+
+    return partners.sort(([, a], [, b]) => a - b).map(([name]) => name);
+  }
+
+  /**
+   * Get every species' gender rate (built once, then reused)
+   *
+   * The three gender resources list each species with its rate, so this
+   * takes three requests instead of one per species.
+   */
+  private getGenderRates(): Promise<Map<string, number>> {
+    if (!this.genderRates) {
+      this.genderRates = Promise.all(
+        GENDERS.map((gender) => this.api.getGender(gender)),
+      ).then((genders) => {
+        const rates = new Map<string, number>();
+        for (const gender of genders) {
+          for (const entry of gender.pokemon_species_details) {
+            rates.set(entry.pokemon_species.name, entry.rate);
+          }
+        }
+        return rates;
+      });
+      this.genderRates.catch(() => {
+        // Allow retrying after a failed build (e.g. network error)
+        this.genderRates = undefined;
+      });
+    }
+    return this.genderRates;
   }
 
   /**
-   * Get moves for a Pokemon, optionally filtered by generation
+   * Get moves for a Pokemon, optionally filtered by generation or game
    */
-  async getMoves(pokemonId: number, generation?: number): Promise<MoveData[]> {
-    // Use session generation if not specified
+  async getMoves(
+    pokemonId: number,
+    generation?: number,
+    versionGroup?: string,
+  ): Promise<MoveData[]> {
+    // Use session generation and game if not specified
+    const selectedGroup =
+      versionGroup ??
+      (generation === undefined
+        ? generationService.getSessionVersionGroup()
+        : null);
     const filterGeneration =
-      generation ?? generationService.getSessionGeneration();
+      generation ??
+      (selectedGroup
+        ? getGenerationFromVersionGroup(selectedGroup)
+        : generationService.getSessionGeneration());
+
+    // Fetch Pokemon data
+    const pokemon = await this.api.getPokemon(pokemonId);
 
     // Get effective generation (max of filter and Pokemon's release)
-    const pokemonGeneration = this.getGeneration(pokemonId);
+    const form = await this.service.getFormData(pokemon);
+    const pokemonGeneration = resolveGeneration(pokemon, undefined, form);
     const effectiveGeneration = Math.max(filterGeneration, pokemonGeneration);
 
-    // Fetch Pokemon data
-    const pokemon = await pokeAPI.getPokemon(pokemonId);
-
-    // Filter to main learn methods
-    const mainMethods = ["level-up", "machine", "egg", "tutor"];
+    // A game from before the Pokemon existed falls back to its generation
+    const exactGroup =
+      selectedGroup &&
+      getGenerationFromVersionGroup(selectedGroup) >= pokemonGeneration
+        ? selectedGroup
+        : null;
+
+    // One game stands for the whole learnset, so games are never mixed
+    const learnsetGroup =
+      exactGroup ??
+      getLearnsetVersionGroup(
+        pokemon.moves.flatMap((m) =>
+          m.version_group_details.map((d) => d.version_group.name),
+        ),
+        effectiveGeneration,
+      );
 
-    // Get move details for each move, filtered by generation
-    const moveMap = new Map<string, { method: string; level: number }>();
+    // Collect every learn entry of each move in that game
+    const moveMap = new Map<
+      string,
+      { entries: MoveLearnEntry[]; versionGroup: string }
+    >();
 
     for (const pokemonMove of pokemon.moves) {
-      // Filter version group details by generation and learn method
-      let validDetails = pokemonMove.version_group_details
-        .filter((d) => {
-          // Filter by learn method
-          if (!mainMethods.includes(d.move_learn_method.name)) {
-            return false;
-          }
-
-          // Filter by generation
-          const vgGeneration = getGenerationFromVersionGroup(
-            d.version_group.name,
-          );
-          return vgGeneration <= effectiveGeneration;
-        })
-        .sort((a, b) => {
-          // Sort by generation (latest first within allowed range)
-          const genA = getGenerationFromVersionGroup(a.version_group.name);
-          const genB = getGenerationFromVersionGroup(b.version_group.name);
-          return genB - genA;
-        });
+      const validDetails = pokemonMove.version_group_details.filter(
+        (d) => d.version_group.name === learnsetGroup,
+      );
 
-      if (validDetails.length > 0) {
-        // Use the latest valid version group details
-        const detail = validDetails[0];
+      if (learnsetGroup && validDetails.length > 0) {
         moveMap.set(pokemonMove.move.name, {
-          method: detail.move_learn_method.name,
-          level: detail.level_learned_at,
+          versionGroup: learnsetGroup,
+          entries: validDetails.map((d) => ({
+            method: d.move_learn_method.name as LearnMethod,
+            level: d.level_learned_at > 0 ? d.level_learned_at : undefined,
+            versionGroup: d.version_group.name,
+          })),
         });
       }
     }
@@ -177,7 +597,7 @@ export class PokemonRepository implements IPokemonRepository {
         }
 
         // Fetch from API
-        const move = await pokeAPI.getMove(moveName);
+        const move = await this.api.getMove(moveName);
         this.moveCache.set(moveName, move);
         return move;
       }),
@@ -193,19 +613,31 @@ export class PokemonRepository implements IPokemonRepository {
         move.effect_entries.find((e) => e.language.name === "en")
           ?.short_effect || "No description available.";
 
+      // Main entry of the shown game, preferring the common methods
+      const shownEntries = learnInfo.entries.filter(
+        (entry) => entry.versionGroup === learnInfo.versionGroup,
+      );
+      const mainEntry =
+        shownEntries.find((entry) => isMainLearnMethod(entry.method)) ??
+        shownEntries[0];
+
+      // Power, accuracy, PP and type as of the learnset's game; before
+      // Gen 4 the category follows the type of the time
+      const stats = getMoveStatsInVersionGroup(move, learnInfo.versionGroup);
+      const category = generationService.getMoveCategory(
+        move.damage_class.name as MoveCategory,
+        stats.type,
+        getGenerationFromVersionGroup(learnInfo.versionGroup),
+      );
+
       return {
         name: move.name,
-        type: move.type.name,
-        category: move.damage_class.name as "physical" | "special" | "status",
-        power: move.power,
-        accuracy: move.accuracy,
-        pp: move.pp,
-        learnMethod: learnInfo.method as
-          | "level-up"
-          | "machine"
-          | "egg"
-          | "tutor",
-        levelLearned: learnInfo.level > 0 ? learnInfo.level : undefined,
+        ...stats,
+        category,
+        learnMethod: mainEntry.method,
+        levelLearned: mainEntry.level,
+        versionGroup: learnInfo.versionGroup,
+        learnEntries: learnInfo.entries,
         description: shortEffect,
       };
     });
@@ -246,7 +678,7 @@ export class PokemonRepository implements IPokemonRepository {
 
     try {
       // Fetch from API
-      const ability = await pokeAPI.getAbility(abilityName);
+      const ability = await this.api.getAbility(abilityName);
 
       // Find English effect entry
       const englishEffect = ability.effect_entries.find(
@@ -324,3 +756,43 @@ export class PokemonRepository implements IPokemonRepository {
 
 // Export singleton instance
 export const pokemonRepository = new PokemonRepository();
+
+/**
+ * Pick the game whose learnset is shown for a generation
+ *
+ * Takes the newest generation (up to the given one) the Pokemon has moves
+ * in, and within it the main release when present (Ultra Sun / Ultra Moon
+ * over Let's Go), else the latest game.
+ *
+ * @param versionGroups - Games the Pokemon has learn entries in
+ * @returns The game, or null if the Pokemon has no moves by then
+ */
+function getLearnsetVersionGroup(
+  versionGroups: string[],
+  generation: number,
+): string | null {
+  const allowed = [...new Set(versionGroups)]
+    .filter((group) => getGenerationFromVersionGroup(group) <= generation)
+    .sort((a, b) => compareVersionGroups(b, a));
+  if (allowed.length === 0) {
+    return null;
+  }
+
+  const main =
+    LATEST_VERSION_GROUP_PER_GEN[getGenerationFromVersionGroup(allowed[0])];
+  return allowed.includes(main) ? main : allowed[0];
+}
+
+/**
+ * Check whether two species of an egg group can breed, by gender rate
+ * (-1 genderless, 0 male-only, 8 female-only)
+ */
+function canBreed(genderRate: number, partnerGenderRate: number): boolean {
+  if (genderRate === -1 || partnerGenderRate === -1) {
+    return false;
+  }
+  const sameSingleGender =
+    genderRate === partnerGenderRate &&
+    (genderRate === 0 || genderRate === 8);
+  return !sameSingleGender;
+}
@@ -0,0 +1,21 @@
+import type { IPokemonRepository } from "./IPokemonRepository.js";
+import { pokemonRepository } from "./PokemonRepository.js";
+
+/**
+ * Repository used by the UI and CLI (PokeAPI-backed unless swapped at startup)
+ */
+let activeRepository: IPokemonRepository = pokemonRepository;
+
+/**
+ * Get the active Pokemon repository
+ */
+export function getPokemonRepository(): IPokemonRepository {
+  return activeRepository;
+}
+
+/**
+ * Swap the data source for the whole app (e.g. a local JSON dump via --data-dir)
+ */
+export function setPokemonRepository(repository: IPokemonRepository): void {
+  activeRepository = repository;
+}
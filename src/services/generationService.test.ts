@@ -109,6 +109,73 @@ describe("GenerationService", () => {
     });
   });
 
+  describe("session version group", () => {
+    it("should have no game selected by default", () => {
+      expect(service.getSessionVersionGroup()).toBeNull();
+    });
+
+    it("should set the generation of the selected game", () => {
+      service.setSessionVersionGroup("lets-go-pikachu-lets-go-eevee");
+
+      expect(service.getSessionVersionGroup()).toBe(
+        "lets-go-pikachu-lets-go-eevee",
+      );
+      expect(service.getSessionGeneration()).toBe(7);
+    });
+
+    it("should throw for unknown version groups", () => {
+      expect(() => service.setSessionVersionGroup("pokemon-go")).toThrow(
+        "Invalid version group: pokemon-go.",
+      );
+      expect(service.getSessionVersionGroup()).toBeNull();
+    });
+
+    it("should clear the game when a generation is selected", () => {
+      service.setSessionVersionGroup("yellow");
+      service.setSessionGeneration(1);
+
+      expect(service.getSessionVersionGroup()).toBeNull();
+    });
+
+    it("should only apply the game to Pokemon that exist in it", () => {
+      service.setSessionVersionGroup("firered-leafgreen");
+
+      expect(service.getEffectiveVersionGroup(1)).toBe("firered-leafgreen");
+      expect(service.getEffectiveVersionGroup(3)).toBe("firered-leafgreen");
+      expect(service.getEffectiveVersionGroup(4)).toBeNull();
+    });
+  });
+
+  describe("getMoveCategory()", () => {
+    it("should derive the category from the type before Gen 4", () => {
+      // Fire Punch was special and Bite (Dark) too
+      expect(service.getMoveCategory("physical", "fire", 3)).toBe("special");
+      expect(service.getMoveCategory("physical", "dark", 2)).toBe("special");
+      // Hyper Voice and Shadow Ball were physical
+      expect(service.getMoveCategory("special", "normal", 3)).toBe(
+        "physical",
+      );
+      expect(service.getMoveCategory("special", "ghost", 1)).toBe("physical");
+    });
+
+    it("should keep the move's own category from Gen 4 on", () => {
+      expect(service.getMoveCategory("physical", "fire", 4)).toBe("physical");
+      expect(service.getMoveCategory("special", "ghost", 9)).toBe("special");
+    });
+
+    it("should leave status moves unchanged", () => {
+      expect(service.getMoveCategory("status", "fire", 1)).toBe("status");
+    });
+
+    it("should default to the session generation", () => {
+      service.setSessionGeneration(3);
+      expect(service.getMoveCategory("physical", "water")).toBe("special");
+
+      service.setSessionGeneration(4);
+      expect(service.getMoveCategory("physical", "water")).toBe("physical");
+    });
+  });
+
   describe("session persistence", () => {
     it("should maintain generation across multiple gets", () => {
       service.setSessionGeneration(4);
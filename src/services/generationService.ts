@@ -1,16 +1,29 @@
+import { VERSION_GROUP_TO_GENERATION } from "../constants/versionGroups.js";
+import {
+  PHYSICAL_SPECIAL_SPLIT_GENERATION,
+  SPECIAL_TYPES_BEFORE_SPLIT,
+} from "../constants/pokemonTypes.js";
+import type { MoveCategory } from "../repositories/IPokemonRepository.js";
+
 /**
  * Service for managing the session-level generation setting.
  *
  * This singleton stores which generation the user wants to view Pokemon data from.
  * All Pokemon information (types, abilities, moves, stats) is filtered based on
  * this generation setting.
+ *
+ * A specific game (version group) can be selected as well; its generation
+ * becomes the session generation, and learnsets come from exactly that game
+ * instead of the latest one of the generation.
  */
 export class GenerationService {
   private sessionGeneration: number;
+  private sessionVersionGroup: string | null;
 
   constructor() {
     // Default to latest generation (Gen 9: Scarlet/Violet)
     this.sessionGeneration = 9;
+    this.sessionVersionGroup = null;
   }
 
   /**
@@ -25,6 +38,8 @@ export class GenerationService {
   /**
    * Set the session generation.
    *
+   * Clears any selected game, so the latest game of the generation is used.
+   *
    * @param generation - Generation number (1-9)
    * @throws Error if generation is out of range
    */
@@ -35,6 +50,31 @@ export class GenerationService {
       );
     }
     this.sessionGeneration = generation;
+    this.sessionVersionGroup = null;
+  }
+
+  /**
+   * Get the selected game.
+   *
+   * @returns Version group name, or null when only a generation is selected
+   */
+  getSessionVersionGroup(): string | null {
+    return this.sessionVersionGroup;
+  }
+
+  /**
+   * Select a game, also setting the session generation to its generation.
+   *
+   * @param versionGroup - Version group name (e.g., "black-2-white-2")
+   * @throws Error if the version group is unknown
+   */
+  setSessionVersionGroup(versionGroup: string): void {
+    const generation = VERSION_GROUP_TO_GENERATION[versionGroup];
+    if (generation === undefined) {
+      throw new Error(`Invalid version group: ${versionGroup}.`);
+    }
+    this.sessionGeneration = generation;
+    this.sessionVersionGroup = versionGroup;
   }
 
   /**
@@ -52,6 +92,46 @@ export class GenerationService {
   getEffectiveGeneration(pokemonGeneration: number): number {
     return Math.max(this.sessionGeneration, pokemonGeneration);
   }
+
+  /**
+   * Get the selected game if it applies to a Pokemon.
+   *
+   * A game from before the Pokemon was introduced does not apply; its data
+   * is then shown for the Pokemon's release generation instead.
+   *
+   * @param pokemonGeneration - The generation when the Pokemon was introduced
+   * @returns Version group name, or null if none is selected or applies
+   */
+  getEffectiveVersionGroup(pokemonGeneration: number): string | null {
+    return this.sessionGeneration >= pokemonGeneration
+      ? this.sessionVersionGroup
+      : null;
+  }
+
+  /**
+   * Get the category of a move as of a generation.
+   *
+   * Before Gen 4 a damaging move was physical or special by its type
+   * (Fire, Water, Grass, Electric, Ice, Psychic, Dragon and Dark were
+   * special). Status moves are unaffected.
+   *
+   * @param category - The move's current category
+   * @param type - The move's type in that generation
+   * @param generation - Defaults to the session generation
+   */
+  getMoveCategory(
+    category: MoveCategory,
+    type: string,
+    generation: number = this.sessionGeneration,
+  ): MoveCategory {
+    if (
+      category === "status" ||
+      generation >= PHYSICAL_SPECIAL_SPLIT_GENERATION
+    ) {
+      return category;
+    }
+    return SPECIAL_TYPES_BEFORE_SPLIT.includes(type) ? "special" : "physical";
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "events";
+import { spawn } from "child_process";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ImageService } from "./imageService.js";
+import { ImageCache } from "../utils/imageCache.js";
+import { encodePng } from "../utils/pngEncoder.js";
+import { renderImage, type RenderOptions } from "../utils/ansiRenderer.js";
+import type { DecodedImage } from "../utils/pngDecoder.js";
+
+vi.mock("child_process", () => ({
+  spawn: vi.fn(),
+}));
+
+const URL = "https://example.com/sprites/pokemon/25.png";
+
+/**
+ * An 8x8 image with a red to blue gradient, so dithering shows
+ */
+function createImage(): DecodedImage {
+  const data = new Uint8Array(8 * 8 * 4);
+  for (let i = 0; i < 64; i++) {
+    const x = i % 8;
+    data.set([255 - x * 32, 64, x * 32, 255], i * 4);
+  }
+  return { width: 8, height: 8, data };
+}
+
+/**
+ * Make spawn behave like a chafa of this version, or like a missing
+ * binary when no version is given
+ *
+ * @param renders - Whether chafa can still be started after reporting
+ * its version
+ */
+function mockChafa(version?: string, renders = true): void {
+  vi.mocked(spawn).mockImplementation((_command, args) => {
+    const child = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+    });
+    const isVersion = args?.includes("--version");
+    setImmediate(() => {
+      if (!version || (!isVersion && !renders)) {
+        child.emit("error", new Error("spawn chafa ENOENT"));
+        return;
+      }
+      const output = isVersion
+        ? `Chafa version ${version}`
+        : `chafa ${version} output`;
+      child.stdout.emit("data", Buffer.from(output));
+      child.emit("close", 0);
+    });
+    return child as unknown as ReturnType<typeof spawn>;
+  });
+}
+
+describe("ImageService", () => {
+  const image = createImage();
+  let dir: string;
+  let imageCache: ImageCache;
+  let service: ImageService;
+
+  /**
+   * What the built-in renderer draws with the service's current modes
+   */
+  function builtin(options: Partial<RenderOptions> = {}): string {
+    return renderImage(image, {
+      width: 20,
+      height: 10,
+      colorMode: service.getColorMode(),
+      colorSpace: service.getCurrentColorSpace(),
+      ditherMode: service.getCurrentDitherMode(),
+      symbolSet: service.getCurrentSymbolSet(),
+      ...options,
+    });
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockChafa();
+    dir = await mkdtemp(join(tmpdir(), "poclidex-image-service-"));
+    imageCache = new ImageCache(dir);
+    await imageCache.setImage(URL, encodePng(image));
+    service = new ImageService(imageCache);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("built-in renderer", () => {
+    it("should use the built-in renderer when chafa is missing", async () => {
+      const ascii = await service.urlToAscii(URL, 20, 10);
+
+      expect(ascii).toBe(builtin());
+      expect(ascii).not.toContain("Sprite unavailable");
+    });
+
+    it("should fall back when chafa cannot be started to render", async () => {
+      mockChafa("1.14.0", false);
+
+      expect(await service.urlToAscii(URL, 20, 10)).toBe(builtin());
+      expect(spawn).toHaveBeenCalledWith("chafa", ["--version"]);
+      expect(spawn).toHaveBeenCalledWith(
+        "chafa",
+        expect.arrayContaining(["--size=20x10"]),
+      );
+    });
+
+    it("should not start chafa again once it is missing", async () => {
+      await service.urlToAscii(URL, 20, 10);
+      const calls = vi.mocked(spawn).mock.calls.length;
+
+      await service.urlToAscii(URL, 30, 15);
+
+      expect(vi.mocked(spawn).mock.calls.length).toBe(calls);
+    });
+
+    it("should use the current color mode", async () => {
+      while (service.getColorMode() !== "16") {
+        service.cycleColorMode();
+      }
+
+      const ascii = await service.urlToAscii(URL, 20, 10);
+
+      expect(ascii).toBe(builtin());
+      expect(ascii).not.toContain("38;2;");
+      expect(ascii).not.toBe(builtin({ colorMode: "full" }));
+    });
+
+    it("should use the current dither mode", async () => {
+      while (service.getColorMode() !== "8") {
+        service.cycleColorMode();
+      }
+      const ordered = await service.urlToAscii(URL, 20, 10);
+
+      expect(service.cycleDitherMode()).toBe("diffusion");
+      const diffusion = await service.urlToAscii(URL, 20, 10);
+
+      expect(ordered).toBe(builtin({ ditherMode: "ordered" }));
+      expect(diffusion).toBe(builtin());
+      expect(diffusion).not.toBe(ordered);
+    });
+
+    it("should use the current symbol set", async () => {
+      expect(service.cycleSymbolSet()).toBe("braille");
+      expect(service.cycleSymbolSet()).toBe("ascii");
+
+      const ascii = await service.urlToAscii(URL, 20, 10);
+      const symbols = ascii.replace(/\x1b\[[0-9;]*m/g, "");
+
+      expect(ascii).toBe(builtin());
+      expect(symbols).toMatch(/^[ .:\-=+*#%@\n]+$/);
+    });
+  });
+
+  describe("render cache", () => {
+    /**
+     * Number of times chafa was started to render, not for its version
+     */
+    function chafaRenders(): number {
+      return vi
+        .mocked(spawn)
+        .mock.calls.filter(([, args]) => !args?.includes("--version")).length;
+    }
+
+    it("should reuse renders saved on disk by an earlier session", async () => {
+      mockChafa("1.14.0");
+      await service.urlToAscii(URL, 20, 10);
+      expect(chafaRenders()).toBe(1);
+
+      const restarted = new ImageService(imageCache);
+
+      expect(await restarted.urlToAscii(URL, 20, 10)).toBe(
+        "chafa 1.14.0 output",
+      );
+      expect(chafaRenders()).toBe(1);
+    });
+
+    it("should render again at another size", async () => {
+      mockChafa("1.14.0");
+      await service.urlToAscii(URL, 20, 10);
+
+      await service.urlToAscii(URL, 30, 15);
+
+      expect(chafaRenders()).toBe(2);
+    });
+
+    it("should render again after chafa was upgraded", async () => {
+      mockChafa("1.14.0");
+      await service.urlToAscii(URL, 20, 10);
+
+      mockChafa("1.16.0");
+      const upgraded = new ImageService(imageCache);
+
+      expect(await upgraded.urlToAscii(URL, 20, 10)).toBe(
+        "chafa 1.16.0 output",
+      );
+      expect(chafaRenders()).toBe(2);
+    });
+
+    it("should not serve chafa renders once chafa is gone", async () => {
+      mockChafa("1.14.0");
+      await service.urlToAscii(URL, 20, 10);
+
+      mockChafa();
+      const uninstalled = new ImageService(imageCache);
+
+      expect(await uninstalled.urlToAscii(URL, 20, 10)).toBe(builtin());
+    });
+  });
+});
@@ -1,13 +1,27 @@
 import { spawn } from "child_process";
-import { writeFile, unlink, mkdir } from "fs/promises";
+import { writeFile, readFile, unlink, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
 import https from "https";
 import { LRUCache } from "../utils/cache.js";
+import { ImageCache } from "../utils/imageCache.js";
+import { decodePng, type DecodedImage } from "../utils/pngDecoder.js";
+import { decodeGif, isGif } from "../utils/gifDecoder.js";
+import { encodePng } from "../utils/pngEncoder.js";
+import { renderImage, fitToCells } from "../utils/ansiRenderer.js";
+import {
+  SIXEL_CELL_SIZE,
+  encodeKittyImage,
+  encodeITerm2Image,
+  encodeSixelImage,
+  getPixelScale,
+} from "../utils/graphicsProtocols.js";
 import {
   getChafaColorMode,
   detectTerminalCapabilities,
+  detectGraphicsProtocol,
+  type GraphicsProtocol,
 } from "../utils/terminalDetection.js";
 
 /**
@@ -16,13 +30,13 @@ import {
  * - din99d: Slower, more perceptually accurate color matching
  */
 const AVAILABLE_COLOR_SPACES = ["rgb", "din99d"] as const;
-type ColorSpace = (typeof AVAILABLE_COLOR_SPACES)[number];
+export type ColorSpace = (typeof AVAILABLE_COLOR_SPACES)[number];
 
 /**
  * Available color modes (palette sizes)
  */
 const AVAILABLE_COLOR_MODES = ["full", "256", "16", "8"] as const;
-type ColorMode = (typeof AVAILABLE_COLOR_MODES)[number];
+export type ColorMode = (typeof AVAILABLE_COLOR_MODES)[number];
 
 /**
  * Available dither modes
@@ -31,7 +45,7 @@ type ColorMode = (typeof AVAILABLE_COLOR_MODES)[number];
  * - none: No dithering
  */
 const AVAILABLE_DITHER_MODES = ["ordered", "diffusion", "none"] as const;
-type DitherMode = (typeof AVAILABLE_DITHER_MODES)[number];
+export type DitherMode = (typeof AVAILABLE_DITHER_MODES)[number];
 
 /**
  * Available symbol sets
@@ -48,10 +62,42 @@ const AVAILABLE_SYMBOL_SETS = [
   "half",
   "quad",
 ] as const;
-type SymbolSet = (typeof AVAILABLE_SYMBOL_SETS)[number];
+export type SymbolSet = (typeof AVAILABLE_SYMBOL_SETS)[number];
+
+/**
+ * An image encoded for a graphics protocol, with the cells it covers
+ */
+export interface GraphicsImage {
+  sequence: string;
+  columns: number;
+  rows: number;
+}
+
+/**
+ * Frames of an animated sprite rendered as ASCII, with their delays in
+ * milliseconds
+ */
+export interface AsciiAnimation {
+  frames: string[];
+  delays: number[];
+}
+
+/**
+ * Raised when the chafa binary cannot be started
+ */
+class ChafaNotFoundError extends Error {
+  constructor(message: string) {
+    super(`Chafa not found. Please install chafa: ${message}`);
+    this.name = "ChafaNotFoundError";
+  }
+}
 
 /**
  * Service for converting images to ASCII art using Chafa
+ *
+ * Falls back to the built-in TypeScript renderer (PNG only) when chafa is
+ * not installed. Downloaded images and rendered output are also kept on
+ * disk, so revisiting a sprite or render mode works instantly and offline.
  */
 export class ImageService {
   private cache: LRUCache<string, string>;
@@ -61,9 +107,25 @@ export class ImageService {
   private currentDitherMode: DitherMode;
   private currentSymbolSet: SymbolSet;
   private debugMode: boolean;
+  private chafaAvailable = true;
+  private rendererName?: Promise<string>;
+  private graphicsProtocol: GraphicsProtocol;
+  private graphicsCache: LRUCache<string, GraphicsImage>;
+  private frameCache: LRUCache<string, string>;
+  private frameDelays: LRUCache<string, number[]>;
+  private frameCounter = 0;
+  private imageCache: ImageCache | null;
 
-  constructor() {
+  /**
+   * @param imageCache - Disk cache for images and renders, or null to keep
+   * them in memory only
+   */
+  constructor(imageCache: ImageCache | null = new ImageCache()) {
+    this.imageCache = imageCache;
     this.cache = new LRUCache(50); // Cache up to 50 ASCII images
+    this.graphicsCache = new LRUCache(20);
+    this.frameCache = new LRUCache(500); // Animations have up to ~100 frames
+    this.frameDelays = new LRUCache(50);
     this.tempDir = join(tmpdir(), "pokedex-sprites");
     this.debugMode =
       process.env.DEBUG_COLORS === "1" || process.env.DEBUG_COLORS === "true";
@@ -71,6 +133,7 @@ export class ImageService {
     this.currentColorSpace = "rgb"; // Default to RGB
     this.currentDitherMode = "ordered"; // Default to Bayer dithering
     this.currentSymbolSet = "block"; // Default to block symbols
+    this.graphicsProtocol = detectGraphicsProtocol();
 
     if (this.debugMode) {
       const caps = detectTerminalCapabilities();
@@ -78,6 +141,7 @@ export class ImageService {
       console.error(
         `[ImageService] Terminal: ${caps.term}, COLORTERM: ${caps.colorterm}`,
       );
+      console.error(`[ImageService] Graphics: ${this.graphicsProtocol}`);
     }
 
     this.ensureTempDir();
@@ -98,27 +162,34 @@ export class ImageService {
     height: number = 20,
     bgColor?: string,
   ): Promise<string> {
+    // GIFs may be animated; show their first frame
+    if (url.endsWith(".gif")) {
+      return this.urlToFirstFrame(url, width, height, bgColor);
+    }
+
     // Check cache first (include all rendering parameters in cache key)
-    const cacheKey = `${url}-${width}-${height}-${bgColor || "none"}-${this.currentColorSpace}-${this.colorMode}-${this.currentDitherMode}-${this.currentSymbolSet}`;
-    const cached = this.cache.get(cacheKey);
-    if (cached) {
+    const cacheKey = await this.getCacheKey(url, width, height, bgColor);
+    const cached = await this.lookupRender(this.cache, cacheKey);
+    if (cached !== undefined) {
       return cached;
     }
 
     try {
-      // Download image to temp file
-      const tempFile = await this.downloadImage(url);
+      // Get the image file (cached on disk, or a temp file)
+      const image = await this.downloadImage(url);
 
       // Convert to ASCII
-      const ascii = await this.chafa(tempFile, width, height, bgColor);
+      const ascii = await this.render(image.path, width, height, bgColor);
 
       // Cache the result
-      this.cache.set(cacheKey, ascii);
+      await this.storeRender(this.cache, cacheKey, ascii);
 
       // Clean up temp file
-      await unlink(tempFile).catch(() => {
-        /* ignore errors */
-      });
+      if (image.temporary) {
+        await unlink(image.path).catch(() => {
+          /* ignore errors */
+        });
+      }
 
       return ascii;
     } catch (error) {
@@ -128,13 +199,280 @@ export class ImageService {
   }
 
   /**
-   * Download image from URL to temp file
+   * Convert the first frame of an animated GIF to ASCII art
+   *
+   * Only that frame is decoded and rendered. It is cached as the first
+   * frame of the animation, so playing it later reuses the render.
    */
-  private downloadImage(url: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const filename = `sprite-${Date.now()}.png`;
-      const filepath = join(this.tempDir, filename);
+  private async urlToFirstFrame(
+    url: string,
+    width: number,
+    height: number,
+    bgColor?: string,
+  ): Promise<string> {
+    const cacheKey = await this.getCacheKey(url, width, height, bgColor);
+    const frameKey = `${cacheKey}-frame-0`;
+    const cached = await this.lookupRender(this.frameCache, frameKey);
+    if (cached !== undefined) {
+      return cached;
+    }
 
+    try {
+      const data = await this.fetchImage(url);
+      const image = isGif(data)
+        ? decodeGif(data, 1).frames[0].image
+        : decodePng(data);
+      const ascii = await this.renderFrame(image, width, height, bgColor);
+      await this.storeRender(this.frameCache, frameKey, ascii);
+      return ascii;
+    } catch (error) {
+      return this.createPlaceholder(width, height, error as Error);
+    }
+  }
+
+  /**
+   * Convert every frame of an animated GIF to ASCII art
+   *
+   * Frames are cached one by one, so an animation already shown is not
+   * downloaded again. Other images come back as a single frame.
+   */
+  async urlToAnimation(
+    url: string,
+    width: number = 40,
+    height: number = 20,
+    bgColor?: string,
+  ): Promise<AsciiAnimation> {
+    const cacheKey = await this.getCacheKey(url, width, height, bgColor);
+    const delaysKey = `${url}-delays`;
+    const delays =
+      this.frameDelays.get(url) ??
+      (await this.imageCache?.getRender<number[]>(delaysKey));
+    if (delays) {
+      const frames: string[] = [];
+      for (const index of delays.keys()) {
+        const frameKey = `${cacheKey}-frame-${index}`;
+        const frame = await this.lookupRender(this.frameCache, frameKey);
+        if (frame === undefined) {
+          break;
+        }
+        frames.push(frame);
+      }
+      if (frames.length === delays.length) {
+        this.frameDelays.set(url, delays);
+        return { frames, delays };
+      }
+    }
+
+    try {
+      const data = await this.fetchImage(url);
+      const decoded = isGif(data)
+        ? decodeGif(data).frames
+        : [{ image: decodePng(data), delay: 0 }];
+
+      const frames: string[] = [];
+      for (const [index, frame] of decoded.entries()) {
+        const frameKey = `${cacheKey}-frame-${index}`;
+        let ascii = await this.lookupRender(this.frameCache, frameKey);
+        if (ascii === undefined) {
+          ascii = await this.renderFrame(frame.image, width, height, bgColor);
+          await this.storeRender(this.frameCache, frameKey, ascii);
+        }
+        frames.push(ascii);
+      }
+
+      const animation = { frames, delays: decoded.map((f) => f.delay) };
+      this.frameDelays.set(url, animation.delays);
+      await this.imageCache?.setRender(delaysKey, animation.delays);
+      return animation;
+    } catch (error) {
+      return {
+        frames: [this.createPlaceholder(width, height, error as Error)],
+        delays: [0],
+      };
+    }
+  }
+
+  /**
+   * Encode an image URL for the current graphics protocol
+   *
+   * The image keeps its aspect ratio within `maxColumns` x `maxRows`
+   * cells. Only PNG images are supported.
+   *
+   * @param imageId - Kitty image id, used to delete the image later
+   * @throws Error if the image cannot be downloaded or decoded, so callers
+   * can fall back to symbol rendering
+   */
+  async urlToGraphics(
+    url: string,
+    maxColumns: number,
+    maxRows: number,
+    imageId: number = 1,
+  ): Promise<GraphicsImage> {
+    const cacheKey = `${url}-${maxColumns}-${maxRows}-${imageId}-${this.graphicsProtocol}`;
+    const cached = this.graphicsCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const png = await this.fetchImage(url);
+    const image = decodePng(png);
+    let graphics: GraphicsImage;
+
+    if (this.graphicsProtocol === "sixel") {
+      // Scale by whole pixels so pixel art stays sharp
+      const scale = getPixelScale(
+        image,
+        maxColumns * SIXEL_CELL_SIZE.width,
+        maxRows * SIXEL_CELL_SIZE.height,
+      );
+      const width = Math.max(1, Math.floor(image.width * scale));
+      const height = Math.max(1, Math.floor(image.height * scale));
+      graphics = {
+        sequence: encodeSixelImage(image, width, height),
+        columns: Math.ceil(width / SIXEL_CELL_SIZE.width),
+        rows: Math.ceil(height / SIXEL_CELL_SIZE.height),
+      };
+    } else {
+      const { columns, rows } = fitToCells(image, maxColumns, maxRows);
+      const sequence =
+        this.graphicsProtocol === "kitty"
+          ? encodeKittyImage(png, imageId, columns, rows)
+          : encodeITerm2Image(png, columns, rows);
+      graphics = { sequence, columns, rows };
+    }
+
+    this.graphicsCache.set(cacheKey, graphics);
+    return graphics;
+  }
+
+  /**
+   * Render with chafa, or the built-in renderer once chafa is known to be
+   * missing
+   */
+  private async render(
+    filepath: string,
+    width: number,
+    height: number,
+    bgColor?: string,
+  ): Promise<string> {
+    if (this.chafaAvailable) {
+      try {
+        return await this.chafa(filepath, width, height, bgColor);
+      } catch (error) {
+        if (!(error instanceof ChafaNotFoundError)) {
+          throw error;
+        }
+        this.chafaAvailable = false;
+      }
+    }
+
+    return this.renderBuiltin(filepath, width, height, bgColor);
+  }
+
+  /**
+   * Render one decoded frame, through a temporary PNG when chafa is used
+   */
+  private async renderFrame(
+    image: DecodedImage,
+    width: number,
+    height: number,
+    bgColor?: string,
+  ): Promise<string> {
+    if (!this.chafaAvailable) {
+      return this.renderDecoded(image, width, height, bgColor);
+    }
+
+    const filename = `frame-${Date.now()}-${this.frameCounter++}.png`;
+    const filepath = join(this.tempDir, filename);
+    await writeFile(filepath, encodePng(image));
+
+    try {
+      return await this.render(filepath, width, height, bgColor);
+    } finally {
+      await unlink(filepath).catch(() => {
+        /* ignore errors */
+      });
+    }
+  }
+
+  /**
+   * Render a PNG with the built-in TypeScript renderer
+   */
+  private async renderBuiltin(
+    filepath: string,
+    width: number,
+    height: number,
+    bgColor?: string,
+  ): Promise<string> {
+    const image = decodePng(await readFile(filepath));
+    return this.renderDecoded(image, width, height, bgColor);
+  }
+
+  /**
+   * Render decoded pixels with the built-in TypeScript renderer
+   */
+  private renderDecoded(
+    image: DecodedImage,
+    width: number,
+    height: number,
+    bgColor?: string,
+  ): string {
+    return renderImage(image, {
+      width,
+      height,
+      colorMode: this.colorMode,
+      colorSpace: this.currentColorSpace,
+      ditherMode: this.currentDitherMode,
+      symbolSet: this.currentSymbolSet,
+      bgColor,
+    });
+  }
+
+  /**
+   * Get an image as a file, from the disk cache or downloaded
+   *
+   * Falls back to a temp file, which the caller deletes, when the cache
+   * cannot be written.
+   */
+  private async downloadImage(
+    url: string,
+  ): Promise<{ path: string; temporary: boolean }> {
+    const cachedPath = await this.imageCache?.getImagePath(url);
+    if (cachedPath) {
+      return { path: cachedPath, temporary: false };
+    }
+
+    const data = await this.download(url);
+    const storedPath = await this.imageCache?.setImage(url, data);
+    if (storedPath) {
+      return { path: storedPath, temporary: false };
+    }
+
+    const filename = `sprite-${Date.now()}.png`;
+    const filepath = join(this.tempDir, filename);
+    await writeFile(filepath, data);
+    return { path: filepath, temporary: true };
+  }
+
+  /**
+   * Get an image's bytes, from the disk cache or downloaded
+   */
+  private async fetchImage(url: string): Promise<Buffer> {
+    const cached = await this.imageCache?.getImage(url);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await this.download(url);
+    await this.imageCache?.setImage(url, data);
+    return data;
+  }
+
+  /**
+   * Download image from URL into memory
+   */
+  private download(url: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
       https
         .get(url, (response) => {
           if (response.statusCode !== 200) {
@@ -146,14 +484,7 @@ export class ImageService {
 
           const chunks: Buffer[] = [];
           response.on("data", (chunk) => chunks.push(chunk));
-          response.on("end", async () => {
-            try {
-              await writeFile(filepath, Buffer.concat(chunks));
-              resolve(filepath);
-            } catch (error) {
-              reject(error);
-            }
-          });
+          response.on("end", () => resolve(Buffer.concat(chunks)));
         })
         .on("error", reject);
     });
@@ -210,9 +541,91 @@ export class ImageService {
       });
 
       chafaProcess.on("error", (error) => {
-        reject(
-          new Error(`Chafa not found. Please install chafa: ${error.message}`),
-        );
+        reject(new ChafaNotFoundError(error.message));
+      });
+    });
+  }
+
+  /**
+   * Look up a rendering in memory, then on disk
+   */
+  private async lookupRender(
+    memory: LRUCache<string, string>,
+    key: string,
+  ): Promise<string | undefined> {
+    const cached = memory.get(key) ?? (await this.imageCache?.getRender(key));
+    if (cached !== undefined) {
+      memory.set(key, cached);
+    }
+    return cached;
+  }
+
+  /**
+   * Keep a rendering in memory and on disk
+   */
+  private async storeRender(
+    memory: LRUCache<string, string>,
+    key: string,
+    output: string,
+  ): Promise<void> {
+    memory.set(key, output);
+    await this.imageCache?.setRender(key, output);
+  }
+
+  /**
+   * Cache key of a rendering, covering every rendering parameter and the
+   * renderer itself
+   */
+  private async getCacheKey(
+    url: string,
+    width: number,
+    height: number,
+    bgColor?: string,
+  ): Promise<string> {
+    const renderer = await this.getRendererName();
+    return `${url}-${width}-${height}-${bgColor || "none"}-${this.currentColorSpace}-${this.colorMode}-${this.currentDitherMode}-${this.currentSymbolSet}-${renderer}`;
+  }
+
+  /**
+   * Renderer used for symbol output, e.g. "chafa-1.14.0" or "builtin"
+   *
+   * Output saved by one renderer is not served once another one is used,
+   * e.g. after chafa was installed or upgraded.
+   */
+  private getRendererName(): Promise<string> {
+    if (!this.chafaAvailable) {
+      return Promise.resolve("builtin");
+    }
+
+    this.rendererName ??= this.getChafaVersion().then(
+      (version) => `chafa-${version}`,
+      () => {
+        this.chafaAvailable = false;
+        return "builtin";
+      },
+    );
+    return this.rendererName;
+  }
+
+  /**
+   * Version of the installed chafa
+   *
+   * @throws ChafaNotFoundError if chafa cannot be started
+   */
+  private getChafaVersion(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chafaProcess = spawn("chafa", ["--version"]);
+      const chunks: Buffer[] = [];
+
+      chafaProcess.stdout.on("data", (chunk) => chunks.push(chunk));
+
+      chafaProcess.on("close", () => {
+        const output = Buffer.concat(chunks).toString();
+        resolve(output.match(/version\s+([\w.]+)/i)?.[1] ?? "unknown");
+      });
+
+      chafaProcess.on("error", (error) => {
+        reject(new ChafaNotFoundError(error.message));
       });
     });
   }
@@ -227,9 +640,10 @@ export class ImageService {
   ): string {
     const lines: string[] = [];
     const message = "Sprite unavailable";
-    const errorHint = error.message.includes("Chafa not found")
-      ? "(chafa not installed)"
-      : "(failed to load)";
+    const errorHint =
+      error instanceof ChafaNotFoundError
+        ? "(chafa not installed)"
+        : "(failed to load)";
 
     // Center the message
     const midHeight = Math.floor(height / 2);
@@ -254,6 +668,7 @@ export class ImageService {
    */
   clearCache(): void {
     this.cache.clear();
+    this.frameCache.clear();
   }
 
   /**
@@ -266,16 +681,13 @@ export class ImageService {
   /**
    * Cycle to the next color space
    * Rotates through: rgb → din99d → rgb → ...
-   * Clears cache to force re-rendering with new color space
+   * Renders are cached per mode, so cycling back is instant
    */
   cycleColorSpace(): ColorSpace {
     const currentIndex = AVAILABLE_COLOR_SPACES.indexOf(this.currentColorSpace);
     const nextIndex = (currentIndex + 1) % AVAILABLE_COLOR_SPACES.length;
     this.currentColorSpace = AVAILABLE_COLOR_SPACES[nextIndex];
 
-    // Clear cache to force re-rendering with new color space
-    this.clearCache();
-
     if (this.debugMode) {
       console.error(
         `[ImageService] Cycled color space to: ${this.currentColorSpace}`,
@@ -295,16 +707,13 @@ export class ImageService {
   /**
    * Cycle to the next color mode
    * Rotates through: full → 256 → 16 → 8 → full → ...
-   * Clears cache to force re-rendering with new color mode
+   * Renders are cached per mode, so cycling back is instant
    */
   cycleColorMode(): ColorMode {
     const currentIndex = AVAILABLE_COLOR_MODES.indexOf(this.colorMode);
     const nextIndex = (currentIndex + 1) % AVAILABLE_COLOR_MODES.length;
     this.colorMode = AVAILABLE_COLOR_MODES[nextIndex];
 
-    // Clear cache to force re-rendering with new color mode
-    this.clearCache();
-
     if (this.debugMode) {
       console.error(`[ImageService] Cycled color mode to: ${this.colorMode}`);
     }
@@ -322,16 +731,13 @@ export class ImageService {
   /**
    * Cycle to the next dither mode
    * Rotates through: ordered → diffusion → none → ordered → ...
-   * Clears cache to force re-rendering with new dither mode
+   * Renders are cached per mode, so cycling back is instant
    */
   cycleDitherMode(): DitherMode {
     const currentIndex = AVAILABLE_DITHER_MODES.indexOf(this.currentDitherMode);
     const nextIndex = (currentIndex + 1) % AVAILABLE_DITHER_MODES.length;
     this.currentDitherMode = AVAILABLE_DITHER_MODES[nextIndex];
 
-    // Clear cache to force re-rendering with new dither mode
-    this.clearCache();
-
     if (this.debugMode) {
       console.error(
         `[ImageService] Cycled dither mode to: ${this.currentDitherMode}`,
@@ -341,6 +747,21 @@ export class ImageService {
     return this.currentDitherMode;
   }
 
+  /**
+   * Get the graphics protocol used for sprites ("none" for symbols)
+   */
+  getGraphicsProtocol(): GraphicsProtocol {
+    return this.graphicsProtocol;
+  }
+
+  /**
+   * Override the detected graphics protocol
+   */
+  setGraphicsProtocol(protocol: GraphicsProtocol): void {
+    this.graphicsProtocol = protocol;
+    this.graphicsCache.clear();
+  }
+
   /**
    * Get the current symbol set
    */
@@ -351,16 +772,13 @@ export class ImageService {
   /**
    * Cycle to the next symbol set
    * Rotates through: block → braille → ascii → half → quad → block → ...
-   * Clears cache to force re-rendering with new symbol set
+   * Renders are cached per mode, so cycling back is instant
    */
   cycleSymbolSet(): SymbolSet {
     const currentIndex = AVAILABLE_SYMBOL_SETS.indexOf(this.currentSymbolSet);
     const nextIndex = (currentIndex + 1) % AVAILABLE_SYMBOL_SETS.length;
     this.currentSymbolSet = AVAILABLE_SYMBOL_SETS[nextIndex];
 
-    // Clear cache to force re-rendering with new symbol set
-    this.clearCache();
-
     if (this.debugMode) {
       console.error(
         `[ImageService] Cycled symbol set to: ${this.currentSymbolSet}`,
@@ -1,6 +1,38 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { pokemonService } from "./pokemonService.js";
 import { mockEvolutionChain } from "../../tests/fixtures/pokemon-data.js";
+import type { EvolutionDetail } from "../api/types.js";
+
+/**
+ * Build an evolution detail with every condition unset
+ */
+function createDetail(
+  overrides: Partial<EvolutionDetail>,
+): EvolutionDetail {
+  return {
+    item: null,
+    trigger: { name: "level-up", url: "" },
+    gender: null,
+    held_item: null,
+    known_move: null,
+    known_move_type: null,
+    location: null,
+    min_level: null,
+    min_happiness: null,
+    min_beauty: null,
+    min_affection: null,
+    needs_overworld_rain: false,
+    party_species: null,
+    party_type: null,
+    relative_physical_stats: null,
+    time_of_day: "",
+    trade_species: null,
+    turn_upside_down: false,
+    ...overrides,
+  };
+}
+
+const resource = (name: string) => ({ name, url: "" });
 
 describe("PokemonService", () => {
   describe("Cache Management", () => {
@@ -274,4 +306,112 @@ describe("PokemonService - Evolution Chain Parsing", () => {
       expect(result).toContain("Happiness");
     });
   });
+
+  describe("getEvolutionMethods", () => {
+    it("should list every alternative method", () => {
+      const link = {
+        is_baby: false,
+        species: { name: "leafeon", url: "" },
+        evolution_details: [
+          createDetail({ location: resource("eterna-forest") }),
+          createDetail({
+            item: resource("leaf-stone"),
+            trigger: resource("use-item"),
+          }),
+        ],
+        evolves_to: [],
+      };
+
+      const methods = pokemonService.getEvolutionMethods(link);
+
+      expect(methods.map((m) => m.description)).toEqual([
+        "at Eterna Forest",
+        "Leaf Stone",
+      ]);
+      expect(pokemonService.getEvolutionTrigger(link)).toBe(
+        "at Eterna Forest or Leaf Stone",
+      );
+    });
+
+    it("should merge identical methods across version groups", () => {
+      const link = {
+        is_baby: false,
+        species: { name: "ursaluna", url: "" },
+        evolution_details: [
+          createDetail({
+            item: resource("peat-block"),
+            trigger: resource("use-item"),
+            time_of_day: "full-moon",
+            version_group: resource("legends-arceus"),
+          }),
+          createDetail({
+            item: resource("peat-block"),
+            trigger: resource("use-item"),
+            time_of_day: "full-moon",
+            version_group: resource("the-teal-mask"),
+          }),
+        ],
+        evolves_to: [],
+      };
+
+      expect(pokemonService.getEvolutionMethods(link)).toEqual([
+        {
+          description: "Peat Block (Full Moon)",
+          versionGroups: ["legends-arceus", "the-teal-mask"],
+        },
+      ]);
+    });
+  });
+
+  describe("describeEvolutionDetail - Newer conditions", () => {
+    it("should describe moves used a number of times", () => {
+      expect(
+        pokemonService.describeEvolutionDetail(
+          createDetail({
+            trigger: resource("agile-style-move"),
+            used_move: resource("psyshield-bash"),
+            min_move_count: 20,
+          }),
+        ),
+      ).toBe("Use Psyshield Bash in Agile Style 20x");
+    });
+
+    it("should describe battle and damage triggers", () => {
+      const text = (detail: Partial<EvolutionDetail>) =>
+        pokemonService.describeEvolutionDetail(createDetail(detail));
+
+      expect(text({ trigger: resource("three-critical-hits") })).toBe(
+        "Land 3 critical hits in one battle",
+      );
+      expect(
+        text({
+          trigger: resource("take-damage"),
+          min_damage_taken: 49,
+          location: resource("dusty-bowl"),
+        }),
+      ).toBe("Lose 49+ HP at Dusty Bowl");
+      expect(
+        text({ trigger: resource("recoil-damage"), min_damage_taken: 294 }),
+      ).toBe("Take 294+ recoil damage");
+    });
+
+    it("should describe spinning with a held item", () => {
+      expect(
+        pokemonService.describeEvolutionDetail(
+          createDetail({
+            trigger: resource("spin"),
+            held_item: resource("strawberry-sweet"),
+          }),
+        ),
+      ).toBe("Spin around holding Strawberry Sweet");
+    });
+
+    it("should fall back to the trigger name", () => {
+      expect(
+        pokemonService.describeEvolutionDetail(
+          createDetail({ trigger: resource("other") }),
+        ),
+      ).toBe("Other");
+    });
+  });
 });
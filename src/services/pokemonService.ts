@@ -1,18 +1,35 @@
 import { pokeAPI } from "../api/pokeapi.js";
+import type { IPokemonDataSource } from "../api/IPokemonDataSource.js";
 import { LRUCache } from "../utils/cache.js";
-import { transformPokemon, type PokemonDisplay } from "../models/pokemon.js";
+import {
+  transformPokemon,
+  capitalizeName,
+  type PokemonDisplay,
+} from "../models/pokemon.js";
 import type {
+  Pokemon,
+  PokemonForm,
   PokemonListItem,
   EvolutionChain,
+  EvolutionDetail,
   ChainLink,
 } from "../api/types.js";
 
+/**
+ * One way to evolve, with the version groups it is limited to (if known)
+ */
+export interface EvolutionMethod {
+  description: string;
+  versionGroups: string[];
+}
+
 /**
  * Evolution stage with species and method information
  */
 export interface EvolutionStage {
   species: string;
   method: string; // How to evolve into this Pokemon
+  methods: EvolutionMethod[]; // Every alternative method
   branches: EvolutionStage[]; // Multiple evolution paths
 }
 
@@ -32,11 +49,13 @@ export interface EvolutionStageGroup {
  * Service for managing Pokemon data with caching
  */
 export class PokemonService {
+  private api: IPokemonDataSource;
   private pokemonCache: LRUCache<string | number, PokemonDisplay>;
   private evolutionCache: LRUCache<number, EvolutionChain>;
   private pokemonList: PokemonListItem[] = [];
 
-  constructor() {
+  constructor(api: IPokemonDataSource = pokeAPI) {
+    this.api = api;
     this.pokemonCache = new LRUCache(200); // Cache up to 200 Pokemon
     this.evolutionCache = new LRUCache(50); // Cache up to 50 evolution chains
   }
@@ -49,7 +68,7 @@ export class PokemonService {
       return this.pokemonList;
     }
 
-    const response = await pokeAPI.getPokemonList(100000, 0);
+    const response = await this.api.getPokemonList(100000, 0);
     this.pokemonList = response.results;
     return this.pokemonList;
   }
@@ -74,14 +93,15 @@ export class PokemonService {
     }
 
     // Fetch Pokemon first
-    const pokemon = await pokeAPI.getPokemon(nameOrId);
+    const pokemon = await this.api.getPokemon(nameOrId);
 
     // Use the species name from Pokemon response (works for alternate forms!)
     // e.g., "raichu-alola" Pokemon has species.name "raichu"
     const speciesName = pokemon.species.name;
-    const species = await pokeAPI.getPokemonSpecies(speciesName);
+    const species = await this.api.getPokemonSpecies(speciesName);
+    const form = await this.getFormData(pokemon);
 
-    const transformed = transformPokemon(pokemon, species);
+    const transformed = transformPokemon(pokemon, species, undefined, form);
 
     // Cache by both name and ID
     this.pokemonCache.set(transformed.name, transformed);
@@ -90,6 +110,25 @@ export class PokemonService {
     return transformed;
   }
 
+  /**
+   * Get form data for an alternate form (e.g. "raichu-alola")
+   *
+   * Returns undefined for default forms, and when the form can't be
+   * fetched, so callers fall back to the species generation.
+   */
+  async getFormData(pokemon: Pokemon): Promise<PokemonForm | undefined> {
+    const formRef = pokemon.forms?.[0];
+    if (pokemon.is_default !== false || !formRef) {
+      return undefined;
+    }
+
+    try {
+      return await this.api.getPokemonForm(formRef.name);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Get evolution chain for a Pokemon
    */
@@ -98,7 +137,7 @@ export class PokemonService {
       throw new Error(`No evolution chain found for ${pokemon.displayName}`);
     }
 
-    const chainId = pokeAPI.extractEvolutionChainId(pokemon.evolutionChainUrl);
+    const chainId = this.api.extractEvolutionChainId(pokemon.evolutionChainUrl);
 
     // Check cache
     const cached = this.evolutionCache.get(chainId);
@@ -107,7 +146,7 @@ export class PokemonService {
     }
 
     // Fetch from API
-    const chain = await pokeAPI.getEvolutionChain(chainId);
+    const chain = await this.api.getEvolutionChain(chainId);
     this.evolutionCache.set(chainId, chain);
 
     return chain;
@@ -145,6 +184,7 @@ export class PokemonService {
       return {
         species: link.species.name,
         method: this.getEvolutionTrigger(link),
+        methods: this.getEvolutionMethods(link),
         branches: link.evolves_to.map((evo) => buildStage(evo)),
       };
     };
@@ -154,14 +194,47 @@ export class PokemonService {
 
   /**
    * Get evolution trigger description
+   *
+   * Species with several ways to evolve list every method, joined by "or".
    */
   getEvolutionTrigger(link: ChainLink): string {
-    if (!link.evolution_details || link.evolution_details.length === 0) {
-      return "";
+    return this.getEvolutionMethods(link)
+      .map((method) => method.description)
+      .join(" or ");
+  }
+
+  /**
+   * Get every way to evolve into a species
+   *
+   * Identical descriptions (the same method listed for several games) are
+   * merged, keeping the version groups of each.
+   */
+  getEvolutionMethods(link: ChainLink): EvolutionMethod[] {
+    const methods: EvolutionMethod[] = [];
+
+    for (const detail of link.evolution_details ?? []) {
+      const description = this.describeEvolutionDetail(detail);
+      const versionGroup = detail.version_group?.name;
+      let method = methods.find((m) => m.description === description);
+
+      if (!method) {
+        method = { description, versionGroups: [] };
+        methods.push(method);
+      }
+      if (versionGroup && !method.versionGroups.includes(versionGroup)) {
+        method.versionGroups.push(versionGroup);
+      }
     }
 
-    const detail = link.evolution_details[0];
+    return methods;
+  }
+
+  /**
+   * Describe a single evolution method, e.g. "Lv.36 (Night)"
+   */
+  describeEvolutionDetail(detail: EvolutionDetail): string {
     const parts: string[] = [];
+    const trigger = detail.trigger.name;
 
     // Level requirement
     if (detail.min_level) {
@@ -170,26 +243,54 @@ export class PokemonService {
 
     // Evolution item (stones, etc.)
     if (detail.item) {
-      const itemName = detail.item.name
-        .split("-")
-        .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-        .join(" ");
-      parts.push(itemName);
+      parts.push(capitalizeName(detail.item.name));
     }
 
-    // Trade evolution
-    if (detail.trigger.name === "trade") {
+    // Trigger-specific methods
+    if (trigger === "trade") {
       if (detail.held_item) {
-        const heldName = detail.held_item.name
-          .split("-")
-          .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-          .join(" ");
-        parts.push(`Trade holding ${heldName}`);
+        parts.push(`Trade holding ${capitalizeName(detail.held_item.name)}`);
       } else if (detail.trade_species) {
-        parts.push(`Trade for ${detail.trade_species.name}`);
+        parts.push(`Trade for ${capitalizeName(detail.trade_species.name)}`);
       } else {
         parts.push("Trade");
       }
+    } else if (trigger === "spin") {
+      parts.push("Spin around");
+    } else if (trigger === "shed") {
+      parts.push("Empty party slot and a Poke Ball");
+    } else if (trigger === "three-critical-hits") {
+      parts.push("Land 3 critical hits in one battle");
+    } else if (trigger === "take-damage") {
+      parts.push(`Lose ${detail.min_damage_taken ?? 49}+ HP`);
+    } else if (trigger === "recoil-damage") {
+      parts.push(`Take ${detail.min_damage_taken ?? 294}+ recoil damage`);
+    } else if (trigger === "tower-of-darkness") {
+      parts.push("Clear the Tower of Darkness");
+    } else if (trigger === "tower-of-waters") {
+      parts.push("Clear the Tower of Waters");
+    } else if (trigger === "three-defeated-bisharp") {
+      parts.push("Defeat 3 Bisharp");
+    } else if (trigger === "gimmighoul-coins") {
+      parts.push("Collect 999 Gimmighoul Coins");
+    }
+
+    // Move used a number of times (Annihilape, Wyrdeer, Overqwil...)
+    if (detail.used_move) {
+      const style =
+        trigger === "agile-style-move"
+          ? " in Agile Style"
+          : trigger === "strong-style-move"
+            ? " in Strong Style"
+            : "";
+      const count = detail.min_move_count ? ` ${detail.min_move_count}x` : "";
+      const move = capitalizeName(detail.used_move.name);
+      parts.push(`Use ${move}${style}${count}`);
+    }
+
+    // Held item for non-trade methods (Sneasel, Happiny, Alcremie...)
+    if (detail.held_item && trigger !== "trade") {
+      parts.push(`holding ${capitalizeName(detail.held_item.name)}`);
     }
 
     // Happiness/Friendship
@@ -204,18 +305,12 @@ export class PokemonService {
 
     // Time of day
     if (detail.time_of_day) {
-      parts.push(
-        `(${detail.time_of_day.charAt(0).toUpperCase() + detail.time_of_day.slice(1)})`,
-      );
+      parts.push(`(${capitalizeName(detail.time_of_day)})`);
     }
 
     // Known move
     if (detail.known_move) {
-      const moveName = detail.known_move.name
-        .split("-")
-        .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-        .join(" ");
-      parts.push(`knows ${moveName}`);
+      parts.push(`knows ${capitalizeName(detail.known_move.name)}`);
     }
 
     // Known move type
@@ -225,11 +320,12 @@ export class PokemonService {
 
     // Location
     if (detail.location) {
-      const locName = detail.location.name
-        .split("-")
-        .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-        .join(" ");
-      parts.push(`at ${locName}`);
+      parts.push(`at ${capitalizeName(detail.location.name)}`);
+    }
+
+    // Region (regional forms, e.g. Alolan Raichu)
+    if (detail.region) {
+      parts.push(`in ${capitalizeName(detail.region.name)}`);
     }
 
     // Gender requirement
@@ -240,7 +336,7 @@ export class PokemonService {
     }
 
     // Stats comparison (Tyrogue)
-    if (detail.relative_physical_stats !== null) {
+    if (detail.relative_physical_stats != null) {
       if (detail.relative_physical_stats === 1) {
         parts.push("(ATK > DEF)");
       } else if (detail.relative_physical_stats === -1) {
@@ -252,7 +348,7 @@ export class PokemonService {
 
     // Party requirements
     if (detail.party_species) {
-      parts.push(`with ${detail.party_species.name} in party`);
+      parts.push(`with ${capitalizeName(detail.party_species.name)} in party`);
     }
 
     if (detail.party_type) {
@@ -269,12 +365,27 @@ export class PokemonService {
       parts.push(`Beauty ${detail.min_beauty}+`);
     }
 
+    // Steps walked while following the player (Pawmo, Bramblin)
+    if (detail.min_steps) {
+      parts.push(`after ${detail.min_steps} steps`);
+    }
+
+    // Union Circle (Finizen)
+    if (detail.needs_multiplayer) {
+      parts.push("in Union Circle");
+    }
+
+    // Specific base form (e.g. Galarian Farfetch'd)
+    if (detail.base_form) {
+      parts.push(`from ${capitalizeName(detail.base_form.name)}`);
+    }
+
     // 3DS specific
     if (detail.turn_upside_down) {
       parts.push("turn upside down");
     }
 
-    return parts.length > 0 ? parts.join(" ") : detail.trigger.name;
+    return parts.length > 0 ? parts.join(" ") : capitalizeName(trigger);
   }
 
   /**
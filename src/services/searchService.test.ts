@@ -95,6 +95,40 @@ describe("SearchService", () => {
     });
   });
 
+  describe("searchWithin", () => {
+    const candidates = mockPokemonList.filter((p) =>
+      ["charmander", "charmeleon", "charizard", "pikachu"].includes(p.name),
+    );
+
+    it("should return every candidate for an empty query", () => {
+      const results = searchService.searchWithin("", candidates);
+
+      expect(results.map((r) => r.name)).toEqual(
+        candidates.map((p) => p.name),
+      );
+      expect(results[0].highlight).toBe(results[0].name);
+    });
+
+    it("should fuzzy match only within the candidates", () => {
+      const results = searchService.searchWithin("saur", candidates);
+
+      expect(results).toEqual([]);
+    });
+
+    it("should highlight matched characters", () => {
+      const results = searchService.searchWithin("izard", candidates);
+
+      expect(results[0].name).toBe("charizard");
+      expect(results[0].highlight).toContain("{yellow-fg}");
+    });
+
+    it("should respect the limit", () => {
+      const results = searchService.searchWithin("char", candidates, 2);
+
+      expect(results).toHaveLength(2);
+    });
+  });
+
   describe("autocomplete", () => {
     it("should return autocomplete suggestions", () => {
       const suggestions = searchService.autocomplete("char", 5);
@@ -43,6 +43,39 @@ export class SearchService {
     }));
   }
 
+  /**
+   * Fuzzy search within a subset of Pokemon (e.g. the matches of a
+   * structured query). An empty query returns every candidate.
+   */
+  searchWithin(
+    query: string,
+    candidates: PokemonListItem[],
+    limit: number = candidates.length,
+  ): SearchResult[] {
+    if (!query || query.trim() === "") {
+      return candidates.slice(0, limit).map((p) => ({
+        name: p.name,
+        score: 0,
+        highlight: p.name,
+      }));
+    }
+
+    const results = fuzzysort.go(
+      query,
+      candidates.map((p) => p.name),
+      {
+        limit,
+        threshold: -10000,
+      },
+    );
+
+    return results.map((result) => ({
+      name: result.target,
+      score: result.score,
+      highlight: this.highlightMatches(result),
+    }));
+  }
+
   /**
    * Get autocomplete suggestions
    */
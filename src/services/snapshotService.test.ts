@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  SnapshotService,
+  SNAPSHOT_PHASES,
+  compactResource,
+  type SnapshotProgress,
+} from "./snapshotService.js";
+import { PokeAPI } from "../api/pokeapi.js";
+import { DiskCache } from "../utils/diskCache.js";
+import { PokemonService } from "./pokemonService.js";
+import { PokemonRepository } from "../repositories/PokemonRepository.js";
+import { POKEMON_TYPES } from "../constants/pokemonTypes.js";
+import {
+  mockPikachuPokemon,
+  mockPikachuSpecies,
+  mockEvolutionChain,
+} from "../../tests/fixtures/pokemon-data.js";
+
+function createMockApi() {
+  return {
+    getPokemonList: vi.fn().mockResolvedValue({
+      count: 1,
+      next: null,
+      previous: null,
+      results: [
+        { name: "pikachu", url: "https://pokeapi.co/api/v2/pokemon/25/" },
+      ],
+    }),
+    getPokemon: vi.fn().mockResolvedValue({
+      ...mockPikachuPokemon,
+      moves: [
+        {
+          move: { name: "thunder-shock", url: "" },
+          version_group_details: [],
+        },
+      ],
+    }),
+    getPokemonSpecies: vi.fn().mockResolvedValue(mockPikachuSpecies),
+    getPokemonForm: vi
+      .fn()
+      .mockImplementation(async (name: string) => ({ id: 10100, name })),
+    getEvolutionChain: vi.fn().mockResolvedValue(mockEvolutionChain),
+    getAbility: vi
+      .fn()
+      .mockImplementation(async (name: string) => ({ id: 1, name })),
+    getMove: vi.fn().mockResolvedValue({ id: 84, name: "thunder-shock" }),
+    getType: vi
+      .fn()
+      .mockImplementation(async (name: string) => ({ id: 13, name })),
+    getEggGroup: vi
+      .fn()
+      .mockImplementation(async (name: string) => ({ id: 5, name })),
+    getGender: vi
+      .fn()
+      .mockImplementation(async (name: string) => ({ id: 1, name })),
+    extractEvolutionChainId: PokeAPI.prototype.extractEvolutionChainId,
+  };
+}
+
+describe("SnapshotService", () => {
+  let dir: string;
+  let api: ReturnType<typeof createMockApi>;
+  let service: SnapshotService;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "poclidex-snapshot-"));
+    api = createMockApi();
+    service = new SnapshotService(dir, api);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("sync", () => {
+    it("should download every resource type", async () => {
+      const manifest = await service.sync();
+
+      expect(manifest.completedAt).not.toBeNull();
+      expect(manifest.failed).toEqual([]);
+      expect(api.getPokemon).toHaveBeenCalledWith("pikachu");
+      expect(api.getPokemonSpecies).toHaveBeenCalledWith("pikachu");
+      expect(api.getEvolutionChain).toHaveBeenCalledWith(10);
+      expect(api.getAbility).toHaveBeenCalledWith("static");
+      expect(api.getAbility).toHaveBeenCalledWith("lightning-rod");
+      expect(api.getMove).toHaveBeenCalledWith("thunder-shock");
+      expect(api.getType).toHaveBeenCalledWith("electric");
+      expect(api.getEggGroup).toHaveBeenCalledWith("field");
+      expect(api.getEggGroup).toHaveBeenCalledWith("fairy");
+      expect(api.getGender).toHaveBeenCalledWith("genderless");
+    });
+
+    it("should download form data for alternate forms only", async () => {
+      api.getPokemonList.mockResolvedValue({
+        count: 2,
+        next: null,
+        previous: null,
+        results: [
+          { name: "raichu", url: "https://pokeapi.co/api/v2/pokemon/26/" },
+          {
+            name: "raichu-alola",
+            url: "https://pokeapi.co/api/v2/pokemon/10100/",
+          },
+        ],
+      });
+      api.getPokemon.mockImplementation(async (name: string) => ({
+        ...mockPikachuPokemon,
+        name,
+        is_default: name === "raichu",
+        forms: [{ name, url: "" }],
+      }));
+
+      await service.sync();
+
+      expect(api.getPokemonForm).toHaveBeenCalledTimes(1);
+      expect(api.getPokemonForm).toHaveBeenCalledWith("raichu-alola");
+    });
+
+    it("should store entries by both name and ID", async () => {
+      await service.sync();
+      const store = (await service.load())!;
+
+      expect(await store.get("pokemon", "pikachu")).toBeDefined();
+      expect(await store.get("pokemon", "25")).toBeDefined();
+    });
+
+    it("should report progress for every phase", async () => {
+      const events: SnapshotProgress[] = [];
+      await service.sync({ onProgress: (p) => events.push(p) });
+
+      const phases = new Set(events.map((e) => e.phase));
+      expect([...phases]).toEqual(SNAPSHOT_PHASES);
+      expect(events.at(-1)).toMatchObject({
+        phase: "gender",
+        completed: 3,
+        total: 3,
+      });
+    });
+
+    it("should resume without refetching stored entries", async () => {
+      await service.sync();
+      vi.clearAllMocks();
+
+      await new SnapshotService(dir, api).sync();
+
+      expect(api.getPokemonList).toHaveBeenCalledTimes(1);
+      expect(api.getPokemon).not.toHaveBeenCalled();
+      expect(api.getMove).not.toHaveBeenCalled();
+    });
+
+    it("should refetch everything when forced", async () => {
+      await service.sync();
+      vi.clearAllMocks();
+
+      await service.sync({ force: true });
+
+      expect(api.getPokemon).toHaveBeenCalledTimes(1);
+    });
+
+    it("should record failures and leave the snapshot incomplete", async () => {
+      api.getMove.mockRejectedValue(new Error("Network error"));
+
+      const manifest = await service.sync();
+
+      expect(manifest.completedAt).toBeNull();
+      expect(manifest.failed).toEqual(["move/thunder-shock"]);
+      expect(await service.load()).toBeUndefined();
+    });
+  });
+
+  describe("load", () => {
+    it("should return undefined when no snapshot exists", async () => {
+      expect(await service.load()).toBeUndefined();
+    });
+
+    it("should return a store usable by PokeAPI", async () => {
+      await service.sync();
+      const client = new PokeAPI(null);
+      client.useSnapshot(await service.load());
+      client.setOfflineMode(true);
+
+      const pokemon = await client.getPokemon(25);
+
+      expect(pokemon.name).toBe("pikachu");
+    });
+  });
+});
+
+describe("compactResource", () => {
+  it("should keep only English localized entries", () => {
+    const compacted = compactResource("pokemon-species", {
+      name: "pikachu",
+      genera: [
+        { genus: "Mouse Pokémon", language: { name: "en", url: "" } },
+        { genus: "Maus-Pokémon", language: { name: "de", url: "" } },
+      ],
+    });
+
+    expect(compacted.genera).toHaveLength(1);
+    expect(compacted.genera[0].genus).toBe("Mouse Pokémon");
+  });
+
+  it("should drop fields the app never reads", () => {
+    const compacted = compactResource("move", {
+      name: "tackle",
+      learned_by_pokemon: [{ name: "pikachu", url: "" }],
+    }) as Record<string, unknown>;
+
+    expect(compacted.name).toBe("tackle");
+    expect(compacted.learned_by_pokemon).toBeUndefined();
+  });
+
+  it("should leave non-localized arrays untouched", () => {
+    const types = [{ slot: 1, type: { name: "electric", url: "" } }];
+
+    expect(compactResource("pokemon", { types }).types).toEqual(types);
+  });
+});
+
+describe("PokeAPI snapshot lookup", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "poclidex-snapshot-api-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should throw NotCachedError offline when the snapshot lacks an entry", async () => {
+    const client = new PokeAPI(null);
+    client.useSnapshot(new DiskCache(dir, Infinity));
+    client.setOfflineMode(true);
+
+    await expect(client.getMove("tackle")).rejects.toThrow(
+      'move "tackle" is not available in the offline cache',
+    );
+  });
+});
+
+describe("search queries against a snapshot", () => {
+  const names = Array.from({ length: 300 }, (_, i) => `pokemon-${i + 1}`);
+
+  let dir: string;
+  let store: DiskCache;
+  let repository: PokemonRepository;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "poclidex-snapshot-query-"));
+    store = new DiskCache(dir, Infinity);
+
+    await store.set("pokemon-list", "100000-0", {
+      count: names.length,
+      next: null,
+      previous: null,
+      results: names.map((name, i) => ({
+        name,
+        url: `https://pokeapi.co/api/v2/pokemon/${i + 1}/`,
+      })),
+    });
+    for (const type of POKEMON_TYPES) {
+      await store.set("type", type, { id: 1, name: type, pokemon: [] });
+    }
+
+    const client = new PokeAPI(null);
+    client.useSnapshot(store);
+    client.setOfflineMode(true);
+    repository = new PokemonRepository(client, new PokemonService(client));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should find ability holders from the stored ability", async () => {
+    const ability = compactResource("ability", {
+      id: 26,
+      name: "levitate",
+      pokemon: ["pokemon-1", "pokemon-250"].map((name) => ({
+        is_hidden: false,
+        slot: 1,
+        pokemon: { name, url: "" },
+      })),
+    });
+    await store.set("ability", "levitate", ability);
+
+    // No Pokemon entries are stored, so any per-Pokemon lookup would fail
+    const result = await repository.queryPokemon([
+      { kind: "ability", value: "levitate", negate: false },
+    ]);
+
+    expect(result.map((p) => p.name)).toEqual(["pokemon-1", "pokemon-250"]);
+  });
+
+  it("should not cap stat queries served from the snapshot", async () => {
+    for (const [i, name] of names.entries()) {
+      await store.set("pokemon", name, {
+        name,
+        stats: [{ base_stat: i + 1, effort: 0, stat: { name: "hp", url: "" } }],
+        abilities: [],
+      });
+    }
+
+    const result = await repository.queryPokemon([
+      { kind: "stat", stat: "hp", operator: ">", value: 298, negate: false },
+    ]);
+
+    expect(result.map((p) => p.name)).toEqual(["pokemon-299", "pokemon-300"]);
+  });
+});
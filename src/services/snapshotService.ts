@@ -0,0 +1,427 @@
+import { readFile, writeFile, mkdir, rm } from "fs/promises";
+import { join } from "path";
+import { PokeAPI, type ApiResource } from "../api/pokeapi.js";
+import type { IPokemonDataSource } from "../api/IPokemonDataSource.js";
+import type {
+  Pokemon,
+  PokemonSpecies,
+  PokemonListResponse,
+} from "../api/types.js";
+import { DiskCache, getDataDir } from "../utils/diskCache.js";
+
+/**
+ * Bump whenever the snapshot layout or compaction rules change.
+ * Snapshots with a different version are ignored and rebuilt on the next sync.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * Sync phases, in the order they run. Each phase is named after the
+ * PokeAPI resource it stores, so the snapshot can back `PokeAPI` directly.
+ */
+export const SNAPSHOT_PHASES: ApiResource[] = [
+  "pokemon-list",
+  "pokemon",
+  "pokemon-form",
+  "pokemon-species",
+  "evolution-chain",
+  "ability",
+  "move",
+  "type",
+  "egg-group",
+  "gender",
+];
+
+const PHASE_LABELS: Record<ApiResource, string> = {
+  "pokemon-list": "Pokemon list",
+  pokemon: "Pokemon",
+  "pokemon-form": "Forms",
+  "pokemon-species": "Species",
+  "evolution-chain": "Evolution chains",
+  ability: "Abilities",
+  move: "Moves",
+  type: "Types",
+  "egg-group": "Egg groups",
+  gender: "Genders",
+};
+
+/**
+ * Fields dropped from each resource because the app never reads them.
+ * Localized arrays (names, flavor text, ...) are additionally trimmed to English.
+ */
+const DROPPED_FIELDS: Partial<Record<ApiResource, string[]>> = {
+  pokemon: ["game_indices", "held_items", "location_area_encounters"],
+  "pokemon-species": ["form_descriptions", "pal_park_encounters"],
+  // Ability holders are kept: "ability:" search queries read them
+  ability: ["effect_changes"],
+  move: [
+    "learned_by_pokemon",
+    "machines",
+    "contest_combos",
+    "contest_effect",
+    "contest_type",
+    "super_contest_effect",
+    "flavor_text_entries",
+  ],
+};
+
+/**
+ * The gender resources, which together give every species' gender rate
+ */
+const GENDERS = ["female", "male", "genderless"];
+
+/**
+ * Number of requests issued in parallel during a sync
+ */
+const SYNC_CONCURRENCY = 8;
+
+/**
+ * Key of the full Pokemon list (matches the `PokeAPI.getPokemonList()` defaults)
+ */
+const POKEMON_LIST_KEY = "100000-0";
+
+/**
+ * Persist the manifest after this many items so an interrupted sync can resume
+ */
+const CHECKPOINT_INTERVAL = 25;
+
+export interface SnapshotPhaseProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Metadata describing a snapshot on disk
+ */
+export interface SnapshotManifest {
+  version: number;
+  createdAt: string;
+  completedAt: string | null;
+  phases: Partial<Record<ApiResource, SnapshotPhaseProgress>>;
+  failed: string[];
+}
+
+/**
+ * Progress event emitted while syncing
+ */
+export interface SnapshotProgress {
+  phase: ApiResource;
+  label: string;
+  phaseIndex: number;
+  phaseCount: number;
+  completed: number;
+  total: number;
+}
+
+export interface SnapshotSyncOptions {
+  /**
+   * Discard any existing snapshot and download everything again
+   */
+  force?: boolean;
+  onProgress?: (progress: SnapshotProgress) => void;
+}
+
+/**
+ * Resolve the default snapshot directory
+ */
+export function getSnapshotDir(): string {
+  return join(getDataDir(), "snapshot");
+}
+
+/**
+ * Strip fields the app never reads and non-English localized entries
+ */
+export function compactResource<T>(resource: ApiResource, data: T): T {
+  if (!data || typeof data !== "object") {
+    return data;
+  }
+
+  const dropped = new Set(DROPPED_FIELDS[resource] ?? []);
+  const compacted: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(data)) {
+    if (dropped.has(field)) {
+      continue;
+    }
+
+    if (Array.isArray(value) && value.some(isLocalized)) {
+      compacted[field] = value.filter(
+        (entry) => !isLocalized(entry) || entry.language.name === "en",
+      );
+    } else {
+      compacted[field] = value;
+    }
+  }
+
+  return compacted as T;
+}
+
+function isLocalized(entry: unknown): entry is { language: { name: string } } {
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof (entry as { language?: { name?: unknown } }).language?.name ===
+      "string"
+  );
+}
+
+/**
+ * Service that pre-downloads the full PokeAPI dataset into a local snapshot
+ *
+ * Every resource is stored through a DiskCache (no TTL) under the same
+ * namespaces `PokeAPI` uses, so a finished snapshot can serve all
+ * repository calls without touching the network.
+ */
+export class SnapshotService {
+  private dir: string;
+  private api: IPokemonDataSource;
+  private store: DiskCache;
+
+  constructor(dir: string = getSnapshotDir(), api?: IPokemonDataSource) {
+    this.dir = dir;
+    // Sync through an uncached client so the snapshot isn't duplicated in the disk cache
+    this.api = api ?? new PokeAPI(null);
+    this.store = new DiskCache(join(dir, "data"), Infinity);
+  }
+
+  /**
+   * Get the snapshot directory
+   */
+  getDirectory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Read the snapshot manifest, or null if no compatible snapshot exists
+   */
+  async readManifest(): Promise<SnapshotManifest | null> {
+    try {
+      const raw = await readFile(this.manifestPath(), "utf-8");
+      const manifest = JSON.parse(raw) as SnapshotManifest;
+      return manifest.version === SNAPSHOT_VERSION ? manifest : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the store backing a completed snapshot, or undefined if none is usable
+   */
+  async load(): Promise<DiskCache | undefined> {
+    const manifest = await this.readManifest();
+    return manifest?.completedAt ? this.store : undefined;
+  }
+
+  /**
+   * Walk every Pokemon, alternate form, species, evolution chain, ability,
+   * move, type, egg group and gender and store them locally. Entries already in the
+   * snapshot are skipped, so re-running after an interruption resumes where
+   * the last checkpoint left off.
+   */
+  async sync(options: SnapshotSyncOptions = {}): Promise<SnapshotManifest> {
+    let manifest = options.force ? null : await this.readManifest();
+
+    if (!manifest) {
+      await rm(this.dir, { recursive: true, force: true });
+      manifest = {
+        version: SNAPSHOT_VERSION,
+        createdAt: new Date().toISOString(),
+        completedAt: null,
+        phases: {},
+        failed: [],
+      };
+    }
+
+    manifest.completedAt = null;
+    manifest.failed = [];
+    await this.writeManifest(manifest);
+
+    const species = new Set<string>();
+    const forms = new Set<string>();
+    const chains = new Set<string>();
+    const abilities = new Set<string>();
+    const moves = new Set<string>();
+    const types = new Set<string>();
+    const eggGroups = new Set<string>();
+
+    // The list is always refetched so new Pokemon are picked up incrementally
+    let pokemonNames: string[] = [];
+    await this.runPhase(
+      manifest,
+      "pokemon-list",
+      [POKEMON_LIST_KEY],
+      options,
+      (data) => {
+        const list = data as PokemonListResponse;
+        pokemonNames = list.results.map((p) => p.name);
+      },
+      true,
+    );
+
+    await this.runPhase(manifest, "pokemon", pokemonNames, options, (data) => {
+      const pokemon = data as Pokemon;
+      species.add(pokemon.species.name);
+      // Alternate forms need their form entry to resolve their generation
+      if (pokemon.is_default === false && pokemon.forms?.[0]) {
+        forms.add(pokemon.forms[0].name);
+      }
+      pokemon.abilities.forEach((a) => abilities.add(a.ability.name));
+      pokemon.moves.forEach((m) => moves.add(m.move.name));
+      pokemon.types.forEach((t) => types.add(t.type.name));
+    });
+
+    await this.runPhase(manifest, "pokemon-form", [...forms], options);
+    await this.runPhase(
+      manifest,
+      "pokemon-species",
+      [...species],
+      options,
+      (data) => {
+        const entry = data as PokemonSpecies;
+        entry.egg_groups?.forEach((g) => eggGroups.add(g.name));
+        if (entry.evolution_chain?.url) {
+          chains.add(
+            String(this.api.extractEvolutionChainId(entry.evolution_chain.url)),
+          );
+        }
+      },
+    );
+
+    await this.runPhase(manifest, "evolution-chain", [...chains], options);
+    await this.runPhase(manifest, "ability", [...abilities], options);
+    await this.runPhase(manifest, "move", [...moves], options);
+    await this.runPhase(manifest, "type", [...types], options);
+    await this.runPhase(manifest, "egg-group", [...eggGroups], options);
+    await this.runPhase(manifest, "gender", [...GENDERS], options);
+
+    if (manifest.failed.length === 0) {
+      manifest.completedAt = new Date().toISOString();
+    }
+    await this.writeManifest(manifest);
+
+    return manifest;
+  }
+
+  /**
+   * Fetch and store every key of a phase, skipping keys already present
+   */
+  private async runPhase(
+    manifest: SnapshotManifest,
+    phase: ApiResource,
+    keys: string[],
+    options: SnapshotSyncOptions,
+    collect?: (data: unknown) => void,
+    refresh: boolean = false,
+  ): Promise<void> {
+    const progress: SnapshotPhaseProgress = { completed: 0, total: keys.length };
+    manifest.phases[phase] = progress;
+
+    const report = () =>
+      options.onProgress?.({
+        phase,
+        label: PHASE_LABELS[phase],
+        phaseIndex: SNAPSHOT_PHASES.indexOf(phase),
+        phaseCount: SNAPSHOT_PHASES.length,
+        completed: progress.completed,
+        total: progress.total,
+      });
+
+    report();
+
+    for (let i = 0; i < keys.length; i += SYNC_CONCURRENCY) {
+      const batch = keys.slice(i, i + SYNC_CONCURRENCY);
+
+      await Promise.all(
+        batch.map(async (key) => {
+          try {
+            const data = await this.fetchOrLoad(phase, key, refresh);
+            collect?.(data);
+          } catch {
+            manifest.failed.push(`${phase}/${key}`);
+          }
+          progress.completed++;
+        }),
+      );
+
+      report();
+
+      if (
+        Math.floor(progress.completed / CHECKPOINT_INTERVAL) !==
+        Math.floor((progress.completed - batch.length) / CHECKPOINT_INTERVAL)
+      ) {
+        await this.writeManifest(manifest);
+      }
+    }
+
+    await this.writeManifest(manifest);
+  }
+
+  /**
+   * Load a resource from the snapshot, fetching and storing it if missing
+   */
+  private async fetchOrLoad(
+    phase: ApiResource,
+    key: string,
+    refresh: boolean,
+  ): Promise<unknown> {
+    if (!refresh) {
+      const existing = await this.store.get(phase, key, { ignoreTtl: true });
+      if (existing !== undefined) {
+        return existing;
+      }
+    }
+
+    const data = compactResource(phase, await this.fetchResource(phase, key));
+    await this.store.set(phase, key, data);
+
+    // Store under both name and ID, mirroring the PokeAPI disk cache
+    const { id, name } = data as { id?: unknown; name?: unknown };
+    for (const alias of [id, name]) {
+      if (
+        (typeof alias === "number" || typeof alias === "string") &&
+        String(alias) !== key
+      ) {
+        await this.store.set(phase, String(alias), data);
+      }
+    }
+
+    return data;
+  }
+
+  private fetchResource(phase: ApiResource, key: string): Promise<unknown> {
+    switch (phase) {
+      case "pokemon-list":
+        return this.api.getPokemonList();
+      case "pokemon":
+        return this.api.getPokemon(key);
+      case "pokemon-species":
+        return this.api.getPokemonSpecies(key);
+      case "pokemon-form":
+        return this.api.getPokemonForm(key);
+      case "evolution-chain":
+        return this.api.getEvolutionChain(parseInt(key, 10));
+      case "ability":
+        return this.api.getAbility(key);
+      case "move":
+        return this.api.getMove(key);
+      case "type":
+        return this.api.getType(key);
+      case "egg-group":
+        return this.api.getEggGroup(key);
+      case "gender":
+        return this.api.getGender(key);
+    }
+  }
+
+  private async writeManifest(manifest: SnapshotManifest): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.manifestPath(), JSON.stringify(manifest, null, 2));
+  }
+
+  private manifestPath(): string {
+    return join(this.dir, "manifest.json");
+  }
+}
+
+// Export singleton instance
+export const snapshotService = new SnapshotService();
@@ -0,0 +1,270 @@
+import blessed from "blessed";
+import { theme, colors } from "./theme.js";
+import { HomeScreen } from "./screens/homeScreen.js";
+import { DetailScreen } from "./screens/detailScreen.js";
+import { HelpPanel } from "./components/HelpPanel.js";
+import { GamePicker } from "./components/GamePicker.js";
+import { generationService } from "../services/generationService.js";
+
+/**
+ * Startup options of the interactive interface
+ */
+export interface AppOptions {
+  pokemonName?: string; // Open this Pokemon's detail page directly
+  animateSprites: boolean;
+}
+
+/**
+ * Create the blessed screen and run the interactive Pokedex
+ *
+ * The process exits when the user quits.
+ */
+export function startApp(options: AppOptions): void {
+  // Create the blessed screen
+  const screen = blessed.screen({
+    smartCSR: true,
+    title: "Pokedex",
+    fullUnicode: true,
+  });
+
+  // Create header
+  blessed.box({
+    parent: screen,
+    top: 0,
+    left: 0,
+    width: "100%",
+    height: 3,
+    content: "{center}{bold}POCLIDEX{/bold}{/center}",
+    tags: true,
+    style: {
+      fg: theme.header.fg,
+      bg: colors.navyBlue,
+      bold: theme.header.bold,
+      border: {
+        fg: colors.pokedexRed,
+      },
+    },
+    border: {
+      type: "line",
+    },
+  });
+
+  // Create main content area
+  const mainContent = blessed.box({
+    parent: screen,
+    top: 3,
+    left: 0,
+    width: "100%",
+    height: "shrink",
+    bottom: 3,
+    style: {
+      bg: "transparent",
+    },
+  });
+
+  // Create footer with hotkey hints
+  const footer = blessed.box({
+    parent: screen,
+    bottom: 0,
+    left: 0,
+    width: "100%",
+    height: 3,
+    tags: true,
+    style: {
+      fg: theme.footer.fg,
+      bg: colors.darkBg,
+      border: {
+        fg: colors.navyBlue,
+      },
+    },
+    border: {
+      type: "line",
+    },
+  });
+
+  function updateFooter(mode: "home" | "detail") {
+    if (mode === "home") {
+      footer.setContent(
+        "{center}Ctrl+S: Search | Ctrl+F: Filters | Arrow Keys: Navigate | Enter: Select | ?: Help | Ctrl+C: Quit{/center}",
+      );
+    } else {
+      footer.setContent(
+        "{center}Tab/1-7: Tabs | F: Forms | Esc: Back | Ctrl+S: Search | ?: Help | Ctrl+C: Quit{/center}",
+      );
+    }
+    screen.render();
+  }
+
+  // Initialize screens
+  const homeScreen = new HomeScreen({
+    parent: mainContent,
+    screen,
+    onPokemonSelect: async (name) => {
+      await detailScreen.showPokemon(name);
+      updateFooter("detail");
+    },
+  });
+
+  const detailScreen = new DetailScreen({
+    parent: mainContent,
+    screen,
+    onBack: () => {
+      detailScreen.hide();
+      homeScreen.show();
+      updateFooter("home");
+    },
+    onEvolutionSelect: async (name) => {
+      await detailScreen.showPokemon(name);
+    },
+    onFooterUpdate: () => {
+      updateFooter("detail");
+    },
+  });
+
+  detailScreen.setAnimationEnabled(options.animateSprites);
+
+  // Initialize help panel
+  const helpPanel = new HelpPanel(screen, (visible) =>
+    detailScreen.setOverlayVisible(visible),
+  );
+
+  // Conditional startup based on CLI argument
+  const cliPokemonName = options.pokemonName;
+  if (cliPokemonName) {
+    // Launch directly to detail screen with provided Pokemon name
+    detailScreen
+      .showPokemon(cliPokemonName)
+      .then(() => {
+        updateFooter("detail");
+        screen.render();
+      })
+      .catch((_error) => {
+        console.error(`Error: Could not find Pokemon "${cliPokemonName}"`);
+        console.error("Usage: poclidex [pokemon]");
+        process.exit(1);
+      });
+  } else {
+    // Normal startup - show home screen
+    updateFooter("home");
+    screen.render();
+  }
+
+  // Global hotkeys
+  screen.key(["C-c"], () => {
+    return process.exit(0);
+  });
+
+  // Ctrl+S: Global search navigation
+  screen.key(["C-s"], () => {
+    if (detailScreen.isVisible()) {
+      // On detail screen: go back to home and focus search
+      detailScreen.hide();
+      homeScreen.show();
+      homeScreen.focusSearch();
+      updateFooter("home");
+    } else {
+      // On home screen: just focus search
+      homeScreen.focusSearch();
+    }
+  });
+
+  // Ctrl+F: Type / Legendary / Mythical filters (home screen only)
+  screen.key(["C-f"], () => {
+    if (homeScreen.isVisible()) {
+      homeScreen.toggleFilters();
+    }
+  });
+
+  // Help panel toggle (? key and Ctrl+H)
+  screen.key(["?", "C-h"], () => {
+    helpPanel.toggle();
+  });
+
+  // Ctrl+G: Game picker
+  const gamePicker = new GamePicker(
+    screen,
+    async () => {
+      if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+        await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+      }
+    },
+    (visible) => detailScreen.setOverlayVisible(visible),
+  );
+
+  screen.key(["C-g"], () => {
+    gamePicker.toggle();
+  });
+
+  // F1-F9: Set session generation
+  screen.key(["f1"], async () => {
+    generationService.setSessionGeneration(1);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  screen.key(["f2"], async () => {
+    generationService.setSessionGeneration(2);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  screen.key(["f3"], async () => {
+    generationService.setSessionGeneration(3);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  screen.key(["f4"], async () => {
+    generationService.setSessionGeneration(4);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  screen.key(["f5"], async () => {
+    generationService.setSessionGeneration(5);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  screen.key(["f6"], async () => {
+    generationService.setSessionGeneration(6);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  screen.key(["f7"], async () => {
+    generationService.setSessionGeneration(7);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  screen.key(["f8"], async () => {
+    generationService.setSessionGeneration(8);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  screen.key(["f9"], async () => {
+    generationService.setSessionGeneration(9);
+    if (detailScreen.isVisible() && detailScreen["currentPokemon"]) {
+      await detailScreen.showPokemon(detailScreen["currentPokemon"].name);
+    }
+  });
+
+  // Handle graceful shutdown
+  process.on("SIGINT", () => {
+    process.exit(0);
+  });
+
+  process.on("SIGTERM", () => {
+    process.exit(0);
+  });
+}
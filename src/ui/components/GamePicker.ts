@@ -0,0 +1,132 @@
+import blessed from "blessed";
+import { colors } from "../theme.js";
+import { generationService } from "../../services/generationService.js";
+import {
+  VERSION_GROUP_TO_GENERATION,
+  getVersionGroupDisplayName,
+} from "../../constants/versionGroups.js";
+
+/**
+ * Game (version group) picker overlay
+ * Toggleable with Ctrl+G
+ */
+export class GamePicker {
+  private list: blessed.Widgets.ListElement;
+  private screen: blessed.Widgets.Screen;
+  private versionGroups: string[];
+  private onSelect: () => void;
+  private onVisibilityChange?: (visible: boolean) => void;
+
+  /**
+   * @param onSelect - Called after a game was selected, to reload the data
+   * @param onVisibilityChange - Called when the picker opens or closes, so
+   * images drawn outside blessed can be erased and redrawn
+   */
+  constructor(
+    screen: blessed.Widgets.Screen,
+    onSelect: () => void,
+    onVisibilityChange?: (visible: boolean) => void,
+  ) {
+    this.screen = screen;
+    this.onSelect = onSelect;
+    this.onVisibilityChange = onVisibilityChange;
+    this.versionGroups = Object.keys(VERSION_GROUP_TO_GENERATION);
+
+    this.list = blessed.list({
+      parent: screen,
+      top: "center",
+      left: "center",
+      width: 50,
+      height: Math.min(this.versionGroups.length + 2, 24),
+      keys: true,
+      vi: false,
+      mouse: true,
+      tags: true,
+      scrollbar: {
+        ch: " ",
+        style: {
+          bg: colors.pokemonYellow,
+        },
+      },
+      label: ` {bold}Select Game{/bold} {gray-fg}(Esc to close){/} `,
+      border: {
+        type: "line",
+      },
+      style: {
+        bg: colors.darkBg,
+        border: {
+          fg: colors.pokemonYellow,
+        },
+        selected: {
+          bg: colors.pokemonYellow,
+          fg: "black",
+        },
+      },
+      items: this.versionGroups.map(
+        (group) =>
+          `{gray-fg}Gen ${VERSION_GROUP_TO_GENERATION[group]}{/}  ` +
+          getVersionGroupDisplayName(group),
+      ),
+      hidden: true, // Start hidden
+    });
+
+    this.list.on("select", (_item, index) => {
+      generationService.setSessionVersionGroup(this.versionGroups[index]);
+      this.hide();
+      this.onSelect();
+    });
+
+    // Close on Escape (Ctrl+G is handled by the screen's toggle)
+    this.list.key(["escape"], () => {
+      this.hide();
+    });
+  }
+
+  /**
+   * Show the picker
+   */
+  show(): void {
+    // Start at the selected game, or the first game of the generation
+    const current =
+      generationService.getSessionVersionGroup() ??
+      this.versionGroups.find(
+        (group) =>
+          VERSION_GROUP_TO_GENERATION[group] ===
+          generationService.getSessionGeneration(),
+      );
+    this.list.select(Math.max(0, this.versionGroups.indexOf(current ?? "")));
+
+    this.onVisibilityChange?.(true);
+    this.list.show();
+    this.list.setFront();
+    this.list.focus();
+    this.screen.render();
+  }
+
+  /**
+   * Hide the picker
+   */
+  hide(): void {
+    this.list.hide();
+    this.screen.render();
+    this.onVisibilityChange?.(false);
+  }
+
+  /**
+   * Toggle visibility
+   */
+  toggle(): void {
+    if (this.isVisible()) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  /**
+   * Check if the picker is visible
+   */
+  isVisible(): boolean {
+    return !this.list.hidden;
+  }
+}
@@ -8,9 +8,18 @@ import { colors } from "../theme.js";
 export class HelpPanel {
   private panel: blessed.Widgets.BoxElement;
   private screen: blessed.Widgets.Screen;
+  private onVisibilityChange?: (visible: boolean) => void;
 
-  constructor(screen: blessed.Widgets.Screen) {
+  /**
+   * @param onVisibilityChange - Called when the panel opens or closes, so
+   * images drawn outside blessed can be erased and redrawn
+   */
+  constructor(
+    screen: blessed.Widgets.Screen,
+    onVisibilityChange?: (visible: boolean) => void,
+  ) {
     this.screen = screen;
+    this.onVisibilityChange = onVisibilityChange;
 
     // Create centered overlay panel
     this.panel = blessed.box({
@@ -22,6 +31,14 @@ export class HelpPanel {
       tags: true,
       keys: true,
       vi: false,
+      scrollable: true,
+      alwaysScroll: true,
+      scrollbar: {
+        ch: " ",
+        style: {
+          bg: colors.pokemonYellow,
+        },
+      },
       clickable: true,
       border: {
         type: "line",
@@ -33,7 +50,7 @@ export class HelpPanel {
           fg: colors.pokemonYellow,
         },
       },
-      label: ` {bold}Keyboard Shortcuts{/bold} {gray-fg}(Press ? or Esc to close){/} `,
+      label: ` {bold}Keyboard Shortcuts{/bold} {gray-fg}(↑/↓ to scroll, ? or Esc to close){/} `,
       padding: {
         left: 2,
         right: 2,
@@ -47,6 +64,17 @@ export class HelpPanel {
     const content = this.buildHelpContent();
     this.panel.setContent(content);
 
+    // Scroll when the content is taller than the panel
+    this.panel.key(["up", "k"], () => {
+      this.panel.scroll(-1);
+      this.screen.render();
+    });
+
+    this.panel.key(["down", "j"], () => {
+      this.panel.scroll(1);
+      this.screen.render();
+    });
+
     // Close on Escape, ?, or Ctrl+H
     this.panel.key(["escape", "?", "C-h"], () => {
       this.hide();
@@ -69,23 +97,53 @@ export class HelpPanel {
     lines.push(cmd("?", "Toggle this help panel"));
     lines.push(cmd("Ctrl+C", "Quit application"));
     lines.push(cmd("F1 - F9", "Set generation filter (F1=Gen1, F9=Gen9)"));
+    lines.push(cmd("Ctrl+G", "Select a game (exact learnsets)"));
     lines.push("");
 
     lines.push("{bold}{cyan-fg}HOME SCREEN{/}{/}");
     lines.push(cmd("Arrow Keys", "Navigate Pokemon list"));
     lines.push(cmd("Enter", "Select Pokemon and view details"));
     lines.push(cmd("Ctrl+W", "Clear search input"));
+    lines.push(cmd("Ctrl+F", "Filter by type / Legendary / Mythical"));
+    lines.push("");
+
+    lines.push("{bold}{cyan-fg}SEARCH QUERIES{/}{/}");
+    lines.push(cmd("type:fire", "Has the type"));
+    lines.push(cmd("gen:1 / gen<=3", "Introduced in generation"));
+    lines.push(cmd("ability:levitate", "Can have the ability"));
+    lines.push(
+      cmd("bst>500 / spe>=100", "Base stat (hp atk def spa spd spe bst)"),
+    );
+    lines.push(cmd("legendary / mythical", "Legendary / Mythical only"));
+    lines.push(cmd("-legendary", "Negate any filter with a leading -"));
     lines.push("");
 
     lines.push("{bold}{cyan-fg}DETAIL SCREEN - NAVIGATION{/}{/}");
     lines.push(cmd("Tab / Shift+Tab", "Next / Previous tab"));
     lines.push(cmd("← / →", "Previous / Next tab"));
-    lines.push(cmd("1 / 2 / 3", "Jump to Overview / Stats / Moves"));
+    lines.push(
+      cmd(
+        "1 - 7",
+        "Jump to Overview / Stats / Moves / Types / Forms / Calc / Breed",
+      ),
+    );
     lines.push(cmd("E", "Navigate to evolution Pokemon"));
+    lines.push(cmd("F", "Cycle forms (regional, Mega, Gigantamax...)"));
     lines.push(cmd("Esc / B", "Back to Pokemon list"));
     lines.push("");
 
+    lines.push("{bold}{cyan-fg}DETAIL SCREEN - STAT CALCULATOR{/}{/}");
+    lines.push(cmd("↑ / ↓", "Select level, nature, IV or EV"));
+    lines.push(cmd("+ / -", "Adjust the selected value"));
+    lines.push(cmd("[ / ]", "Set to minimum / maximum"));
+    lines.push(cmd("R", "Reset the spread"));
+    lines.push("");
+
     lines.push("{bold}{cyan-fg}DETAIL SCREEN - IMAGE SETTINGS{/}{/}");
+    lines.push(cmd("A", "Cycle in-game / artwork / HOME / Showdown"));
+    lines.push(cmd("V", "Cycle variant (shiny / female / back)"));
+    lines.push(cmd("G", "Toggle sprite gallery (all variants)"));
+    lines.push(cmd("Space", "Pause / resume animated sprites"));
     lines.push(cmd("C", "Cycle color space (RGB / DIN99d)"));
     lines.push(cmd("P", "Cycle palette (Full / 256 / 16 / 8)"));
     lines.push(cmd("D", "Cycle dither mode (Ordered / Diffusion / None)"));
@@ -94,6 +152,7 @@ export class HelpPanel {
 
     lines.push("{bold}{cyan-fg}MOVES TAB{/}{/}");
     lines.push(cmd("↑ ↓ / j / k", "Navigate moves"));
+    lines.push(cmd("U", "Show / hide rare learn methods (events, forms)"));
 
     return lines.join("\n");
   }
@@ -102,6 +161,7 @@ export class HelpPanel {
    * Show the help panel
    */
   show(): void {
+    this.onVisibilityChange?.(true);
     this.panel.show();
     this.panel.focus();
     this.screen.render();
@@ -113,6 +173,7 @@ export class HelpPanel {
   hide(): void {
     this.panel.hide();
     this.screen.render();
+    this.onVisibilityChange?.(false);
   }
 
   /**
@@ -0,0 +1,138 @@
+import blessed from "blessed";
+import { colors } from "../theme.js";
+import { imageService } from "../../services/imageService.js";
+
+/**
+ * A sprite shown in the gallery
+ */
+export interface GalleryItem {
+  label: string;
+  url: string;
+}
+
+const MAX_COLUMNS = 4;
+
+/**
+ * Gallery overlay showing several sprite variants side by side
+ * Toggleable with G on the detail screen
+ */
+export class SpriteGallery {
+  private panel: blessed.Widgets.BoxElement;
+  private screen: blessed.Widgets.Screen;
+  private tiles: blessed.Widgets.BoxElement[] = [];
+  private renderId = 0;
+
+  constructor(screen: blessed.Widgets.Screen) {
+    this.screen = screen;
+
+    // Create centered overlay panel
+    this.panel = blessed.box({
+      parent: screen,
+      top: "center",
+      left: "center",
+      width: "90%",
+      height: "90%",
+      tags: true,
+      border: {
+        type: "line",
+      },
+      style: {
+        fg: "white",
+        bg: colors.darkBg,
+        border: {
+          fg: colors.pokemonYellow,
+        },
+      },
+      hidden: true, // Start hidden
+    });
+  }
+
+  /**
+   * Show the gallery with a tile per sprite
+   *
+   * Sprites are converted one at a time and each tile is filled in as soon
+   * as it is ready.
+   */
+  async show(title: string, items: GalleryItem[]): Promise<void> {
+    const renderId = ++this.renderId;
+    this.panel.setLabel(
+      ` {bold}${title}{/bold} {gray-fg}(G or Esc to close){/} `,
+    );
+    this.createTiles(items);
+    this.panel.show();
+    this.panel.setFront();
+    this.screen.render();
+
+    for (const [index, item] of items.entries()) {
+      const tile = this.tiles[index];
+      const width = Math.max(10, (tile.width as number) - 2);
+      const height = Math.max(5, (tile.height as number) - 2);
+      const ascii = await imageService.urlToAscii(
+        item.url,
+        width,
+        height,
+        colors.lightScreenBlue,
+      );
+
+      // Stop if the gallery was closed or reopened meanwhile
+      if (renderId !== this.renderId) {
+        return;
+      }
+      tile.setContent(ascii);
+      this.screen.render();
+    }
+  }
+
+  /**
+   * Hide the gallery
+   */
+  hide(): void {
+    this.renderId++;
+    this.panel.hide();
+    this.screen.render();
+  }
+
+  /**
+   * Check if gallery is visible
+   */
+  isVisible(): boolean {
+    return !this.panel.hidden;
+  }
+
+  /**
+   * Lay out the tiles in a grid of up to four columns
+   */
+  private createTiles(items: GalleryItem[]): void {
+    this.tiles.forEach((tile) => tile.destroy());
+
+    const columns = Math.min(MAX_COLUMNS, Math.max(1, items.length));
+    const rows = Math.max(1, Math.ceil(items.length / columns));
+    const innerWidth = (this.panel.width as number) - 2;
+    const innerHeight = (this.panel.height as number) - 2;
+    const tileWidth = Math.floor(innerWidth / columns);
+    const tileHeight = Math.floor(innerHeight / rows);
+
+    this.tiles = items.map((item, index) =>
+      blessed.box({
+        parent: this.panel,
+        top: Math.floor(index / columns) * tileHeight,
+        left: (index % columns) * tileWidth,
+        width: tileWidth,
+        height: tileHeight,
+        label: ` ${item.label} `,
+        content: "Loading sprite...",
+        align: "center",
+        valign: "middle",
+        border: {
+          type: "line",
+        },
+        style: {
+          bg: colors.lightScreenBlue,
+          border: {
+            fg: colors.navyBlue,
+          },
+        },
+      }),
+    );
+  }
+}
@@ -6,14 +6,14 @@ import type { PokemonDisplay } from "../../models/pokemon.js";
 export interface Tab {
   section: IDetailSection;
   label: string;
-  shortcut: string; // '1', '2', '3', '4'
+  shortcut: string; // '1' to '9'
 }
 
 /**
  * Tabbed panel component for organizing multiple sections
  *
  * Displays tabs at the top and shows one section at a time.
- * Keyboard navigation: Tab/Shift+Tab, arrow keys, number keys (1-4)
+ * Keyboard navigation: Tab/Shift+Tab, arrow keys, number keys (1-9)
  */
 export class TabbedPanel {
   private container: blessed.Widgets.BoxElement;
@@ -142,7 +142,7 @@ export class TabbedPanel {
   }
 
   /**
-   * Switch tab by shortcut key (1-4)
+   * Switch tab by shortcut key (1-9)
    */
   switchByShortcut(key: string): void {
     const tabIndex = this.tabs.findIndex((t) => t.shortcut === key);
@@ -219,8 +219,8 @@ export class TabbedPanel {
       }
     });
 
-    // Number keys 1-4
-    ["1", "2", "3", "4"].forEach((key) => {
+    // Number keys 1-9
+    ["1", "2", "3", "4", "5", "6", "7", "8", "9"].forEach((key) => {
       this.screen.key([key], () => {
         if (this.isVisible()) {
           this.switchByShortcut(key);
@@ -0,0 +1,244 @@
+import blessed from "blessed";
+import { colors, getTypeColor } from "../theme.js";
+import { POKEMON_TYPES } from "../../constants/pokemonTypes.js";
+import type { FilterOptions } from "../../repositories/IPokemonRepository.js";
+
+/**
+ * Filters selectable from the home screen filter bar
+ */
+export type HomeFilters = Pick<
+  FilterOptions,
+  "type" | "isLegendary" | "isMythical"
+>;
+
+export interface FilterBarOptions {
+  parent: blessed.Widgets.Node;
+  screen: blessed.Widgets.Screen;
+  top?: number | string;
+  left?: number | string;
+  width?: number | string;
+  onChange?: (filters: HomeFilters) => void;
+}
+
+type MenuRow = "type" | "isLegendary" | "isMythical" | "clear";
+
+const MENU_ROWS: MenuRow[] = ["type", "isLegendary", "isMythical", "clear"];
+
+/**
+ * Cycle a tri-state flag filter: Any → Only → Exclude → Any
+ */
+export function cycleFlag(value: boolean | undefined): boolean | undefined {
+  if (value === undefined) return true;
+  if (value) return false;
+  return undefined;
+}
+
+/**
+ * Cycle the type filter through All and the 18 types
+ */
+export function cycleType(
+  value: string | undefined,
+  direction: 1 | -1 = 1,
+): string | undefined {
+  const options = [undefined, ...POKEMON_TYPES];
+  const index = options.indexOf(value as (typeof options)[number]);
+  const next = (index + direction + options.length) % options.length;
+  return options[next];
+}
+
+function flagLabel(value: boolean | undefined): string {
+  if (value === undefined) return "Any";
+  return value ? "Only" : "Exclude";
+}
+
+/**
+ * Describe active filters in plain text (e.g. "Mythical Fairy")
+ */
+export function describeFilters(filters: HomeFilters): string {
+  const parts: string[] = [];
+  if (filters.isLegendary !== undefined) {
+    parts.push(filters.isLegendary ? "Legendary" : "non-Legendary");
+  }
+  if (filters.isMythical !== undefined) {
+    parts.push(filters.isMythical ? "Mythical" : "non-Mythical");
+  }
+  if (filters.type) {
+    parts.push(filters.type.charAt(0).toUpperCase() + filters.type.slice(1));
+  }
+  return parts.join(" ");
+}
+
+/**
+ * One-line bar showing the active type / Legendary / Mythical filters,
+ * with a Ctrl+F menu for changing them
+ */
+export class FilterBar {
+  private bar: blessed.Widgets.BoxElement;
+  private menu: blessed.Widgets.ListElement;
+  private screen: blessed.Widgets.Screen;
+  private filters: HomeFilters = {};
+  private pending: HomeFilters = {};
+  private previousFocus?: blessed.Widgets.BlessedElement;
+  private onChangeCallback?: (filters: HomeFilters) => void;
+
+  constructor(options: FilterBarOptions) {
+    this.screen = options.screen;
+    this.onChangeCallback = options.onChange;
+
+    this.bar = blessed.box({
+      parent: options.parent,
+      top: options.top ?? 0,
+      left: options.left ?? 0,
+      width: options.width ?? "100%",
+      height: 1,
+      tags: true,
+      style: {
+        fg: "white",
+        bg: colors.darkBg,
+      },
+    });
+
+    this.menu = blessed.list({
+      parent: this.screen,
+      top: "center",
+      left: "center",
+      width: 44,
+      height: MENU_ROWS.length + 2,
+      keys: true,
+      vi: false,
+      tags: true,
+      hidden: true,
+      border: {
+        type: "line",
+      },
+      label: ` {bold}Filters{/bold} {gray-fg}(←/→ change, Esc close){/} `,
+      style: {
+        fg: "white",
+        bg: colors.darkBg,
+        border: {
+          fg: colors.pokemonYellow,
+        },
+        selected: {
+          fg: "black",
+          bg: colors.pokemonYellow,
+        },
+      },
+    });
+
+    this.setupEventHandlers();
+    this.renderBar();
+  }
+
+  private setupEventHandlers(): void {
+    this.menu.key(["right", "l", "space"], () => this.changeSelected(1));
+    this.menu.key(["left", "h"], () => this.changeSelected(-1));
+
+    this.menu.on("select", (_item, index) => {
+      if (MENU_ROWS[index] === "clear") {
+        this.pending = {};
+        this.close();
+      } else {
+        this.changeSelected(1);
+      }
+    });
+
+    this.menu.key(["escape"], () => this.close());
+  }
+
+  private changeSelected(direction: 1 | -1): void {
+    const row = MENU_ROWS[(this.menu as any).selected];
+
+    if (row === "type") {
+      this.pending.type = cycleType(this.pending.type, direction);
+    } else if (row === "isLegendary" || row === "isMythical") {
+      this.pending[row] = cycleFlag(this.pending[row]);
+    }
+
+    this.renderMenu();
+  }
+
+  private renderMenu(): void {
+    const selected = (this.menu as any).selected ?? 0;
+    const type = this.pending.type;
+
+    this.menu.setItems([
+      ` Type       ${type ? `{${getTypeColor(type)}-fg}${type}{/}` : "All"}`,
+      ` Legendary  ${flagLabel(this.pending.isLegendary)}`,
+      ` Mythical   ${flagLabel(this.pending.isMythical)}`,
+      " Clear filters",
+    ]);
+    this.menu.select(selected);
+    this.screen.render();
+  }
+
+  private renderBar(): void {
+    const value = (text: string) => `{${colors.pokemonYellow}-fg}${text}{/}`;
+    const type = this.filters.type;
+
+    this.bar.setContent(
+      ` Type: ${type ? `{${getTypeColor(type)}-fg}${type}{/}` : value("All")}` +
+        `  Legendary: ${value(flagLabel(this.filters.isLegendary))}` +
+        `  Mythical: ${value(flagLabel(this.filters.isMythical))}` +
+        `  {gray-fg}(Ctrl+F to change){/}`,
+    );
+  }
+
+  /**
+   * Open the filter menu
+   */
+  open(): void {
+    this.pending = { ...this.filters };
+    this.previousFocus = this.screen.focused;
+    this.menu.select(0);
+    this.renderMenu();
+    this.menu.show();
+    this.menu.setFront();
+    this.menu.focus();
+    this.screen.render();
+  }
+
+  /**
+   * Close the filter menu, applying any changes
+   */
+  close(): void {
+    this.menu.hide();
+    this.previousFocus?.focus();
+
+    const changed =
+      this.pending.type !== this.filters.type ||
+      this.pending.isLegendary !== this.filters.isLegendary ||
+      this.pending.isMythical !== this.filters.isMythical;
+
+    if (changed) {
+      this.filters = { ...this.pending };
+      this.renderBar();
+      if (this.onChangeCallback) {
+        this.onChangeCallback(this.getFilters());
+      }
+    }
+
+    this.screen.render();
+  }
+
+  /**
+   * Toggle the filter menu
+   */
+  toggle(): void {
+    if (this.isOpen()) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  isOpen(): boolean {
+    return !this.menu.hidden;
+  }
+
+  /**
+   * Get the active filters
+   */
+  getFilters(): HomeFilters {
+    return { ...this.filters };
+  }
+}
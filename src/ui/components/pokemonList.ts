@@ -91,17 +91,32 @@ export class PokemonList {
   }
 
   /**
-   * Filter the list by search query
+   * Filter the list by search query (an empty list shows everything)
    */
   filter(pokemonNames: string[]): void {
     if (pokemonNames.length === 0) {
-      this.filteredData = this.pokemonData;
+      this.showAll();
     } else {
-      const nameSet = new Set(pokemonNames.map((n) => n.toLowerCase()));
-      this.filteredData = this.pokemonData.filter((p) =>
-        nameSet.has(p.name.toLowerCase()),
-      );
+      this.showOnly(pokemonNames);
     }
+  }
+
+  /**
+   * Show exactly the given Pokemon (an empty list shows nothing)
+   */
+  showOnly(pokemonNames: string[]): void {
+    const nameSet = new Set(pokemonNames.map((n) => n.toLowerCase()));
+    this.filteredData = this.pokemonData.filter((p) =>
+      nameSet.has(p.name.toLowerCase()),
+    );
+    this.renderList();
+  }
+
+  /**
+   * Remove the search filter and show every loaded Pokemon
+   */
+  showAll(): void {
+    this.filteredData = this.pokemonData;
     this.renderList();
   }
 
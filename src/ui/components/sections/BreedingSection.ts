@@ -0,0 +1,97 @@
+import blessed from 'blessed';
+import { theme } from '../../theme.js';
+import { InfoPresenter } from '../../presenters/InfoPresenter.js';
+import { getPokemonRepository } from '../../../repositories/repositoryProvider.js';
+import type { PokemonDisplay } from '../../../models/pokemon.js';
+import { BaseDetailSection } from './IDetailSection.js';
+
+/**
+ * Section for training and breeding data (species data)
+ *
+ * The compatible species need a request per egg group, so they are only
+ * loaded once the tab is opened, and filled in when they arrive.
+ */
+export class BreedingSection extends BaseDetailSection {
+  private presenter: InfoPresenter;
+  private currentPokemon?: PokemonDisplay;
+  private partnersRequested = false;
+
+  constructor(parent: blessed.Widgets.Node) {
+    const widget = blessed.box({
+      parent,
+      top: 0,
+      left: 0,
+      width: '100%',
+      height: '100%',
+      tags: true,
+      scrollable: true,
+      alwaysScroll: true,
+      label: ' Breeding ',
+      style: {
+        bg: theme.detailBox.bg,
+        border: theme.detailBox.border,
+      },
+      border: {
+        type: 'line',
+      },
+      padding: {
+        left: 2,
+        right: 2,
+        top: 1,
+        bottom: 0,
+      },
+    });
+
+    super('breeding', widget);
+    this.presenter = new InfoPresenter();
+  }
+
+  update(pokemon: PokemonDisplay): void {
+    this.currentPokemon = pokemon;
+    this.partnersRequested = false;
+    this.render(pokemon, undefined, true);
+
+    if (this.isVisible()) {
+      void this.loadPartners(pokemon);
+    }
+  }
+
+  show(): void {
+    super.show();
+    if (this.currentPokemon && !this.partnersRequested) {
+      void this.loadPartners(this.currentPokemon);
+    }
+  }
+
+  /**
+   * Fetch the compatible species and re-render with them
+   */
+  private async loadPartners(pokemon: PokemonDisplay): Promise<void> {
+    this.partnersRequested = true;
+
+    const compatibles = await getPokemonRepository()
+      .getEggGroupCompatibles(pokemon)
+      .catch(() => undefined);
+
+    // Another Pokemon was opened in the meantime
+    if (this.currentPokemon !== pokemon) {
+      return;
+    }
+    this.render(pokemon, compatibles, false);
+  }
+
+  private render(
+    pokemon: PokemonDisplay,
+    compatibles: string[] | undefined,
+    loading: boolean,
+  ): void {
+    const lines = [
+      ...this.presenter.renderTraining(pokemon),
+      '',
+      ...this.presenter.renderBreeding(pokemon, compatibles, loading),
+    ];
+
+    this.widget.setContent(lines.join('\n'));
+    this.widget.screen.render();
+  }
+}
@@ -0,0 +1,88 @@
+import blessed from 'blessed';
+import { theme, colors, getTypeColor } from '../../theme.js';
+import { getPokemonRepository } from '../../../repositories/repositoryProvider.js';
+import type { PokemonDisplay, FormCategory } from '../../../models/pokemon.js';
+import type { PokemonFormEntry } from '../../../repositories/IPokemonRepository.js';
+import { BaseDetailSection } from './IDetailSection.js';
+
+const CATEGORY_LABELS: Record<FormCategory, string> = {
+  default: 'Default',
+  mega: 'Mega',
+  gigantamax: 'Gigantamax',
+  regional: 'Regional',
+  alternate: 'Form',
+};
+
+/**
+ * Section listing every variety of the species (regional forms, Megas...)
+ */
+export class FormsSection extends BaseDetailSection {
+  constructor(parent: blessed.Widgets.Node) {
+    const widget = blessed.box({
+      parent,
+      top: 0,
+      left: 0,
+      width: '100%',
+      height: '100%',
+      tags: true,
+      scrollable: true,
+      alwaysScroll: true,
+      label: ' Forms ',
+      style: {
+        bg: theme.detailBox.bg,
+        border: theme.detailBox.border,
+      },
+      border: {
+        type: 'line',
+      },
+      padding: {
+        left: 2,
+        right: 2,
+        top: 1,
+        bottom: 0,
+      },
+    });
+
+    super('forms', widget);
+  }
+
+  async update(pokemon: PokemonDisplay): Promise<void> {
+    const lines: string[] = [];
+    lines.push(`{${colors.pokemonYellow}-fg}{bold}Varieties{/bold}{/}`);
+    lines.push('');
+
+    try {
+      const forms = await getPokemonRepository().getForms(pokemon);
+      lines.push(...forms.map((form) => this.renderForm(form, pokemon.name)));
+
+      if (forms.length > 1) {
+        lines.push('');
+        lines.push('{gray-fg}Press F to cycle forms{/}');
+      }
+    } catch {
+      lines.push('{gray-fg}No form data available{/}');
+    }
+
+    this.widget.setContent(lines.join('\n'));
+    this.widget.screen.render();
+  }
+
+  /**
+   * Render one variety: marker, name, category, generation and types
+   */
+  private renderForm(form: PokemonFormEntry, currentName: string): string {
+    const isCurrent = form.name === currentName;
+    const marker = isCurrent ? `{${colors.pokemonYellow}-fg}▶{/}` : ' ';
+    const name = isCurrent
+      ? `{bold}${form.displayName.padEnd(24)}{/bold}`
+      : form.displayName.padEnd(24);
+    const label = CATEGORY_LABELS[form.category].padEnd(11);
+    const category = `{gray-fg}${label}{/}`;
+    const gen = `{cyan-fg}Gen ${form.generation}{/}`;
+    const types = form.types
+      .map((t) => `{${getTypeColor(t)}-fg}${t.toUpperCase()}{/}`)
+      .join(' ');
+
+    return `${marker} ${name} ${category} ${gen}  ${types}`;
+  }
+}
@@ -2,8 +2,11 @@ import blessed from 'blessed';
 import { theme, colors } from '../../theme.js';
 import type { PokemonDisplay } from '../../../models/pokemon.js';
 import { BaseDetailSection } from './IDetailSection.js';
-import { pokemonRepository } from '../../../repositories/PokemonRepository.js';
+import { getPokemonRepository } from '../../../repositories/repositoryProvider.js';
 import { MovesPresenter } from '../../presenters/MovesPresenter.js';
+import { generationService } from '../../../services/generationService.js';
+import { getVersionGroupDisplayName } from '../../../constants/versionGroups.js';
+import { getMoveLearnRows, type MoveLearnRow } from '../../../models/moves.js';
 
 /**
  * Section for displaying Pokemon moves in a scrollable table
@@ -13,6 +16,8 @@ export class MovesSection extends BaseDetailSection {
   private descriptionBox: blessed.Widgets.BoxElement;
   private presenter: MovesPresenter;
   private moves: import('../../../repositories/IPokemonRepository.js').MoveData[] = [];
+  private rows: MoveLearnRow[] = [];
+  private showRareMethods = false;
 
   constructor(parent: blessed.Widgets.Node) {
     // Create container to hold table and description
@@ -107,6 +112,12 @@ export class MovesSection extends BaseDetailSection {
         this.table.screen.render();
       });
     });
+
+    // Toggle event- and form-specific learn methods
+    this.table.key(['u'], () => {
+      this.showRareMethods = !this.showRareMethods;
+      this.renderRows();
+    });
   }
 
   private updateDescription(): void {
@@ -115,12 +126,12 @@ export class MovesSection extends BaseDetailSection {
     const tableSelectedIndex = this.table.selected as number;
 
     // Account for header row (first row is index 0, which is the header)
-    // So the first actual move is at table index 1, which maps to moves[0]
-    const moveIndex = tableSelectedIndex - 1;
+    // So the first actual move is at table index 1, which maps to rows[0]
+    const rowIndex = tableSelectedIndex - 1;
 
     // Update description if we have a valid move
-    if (moveIndex >= 0 && moveIndex < this.moves.length) {
-      const move = this.moves[moveIndex];
+    if (rowIndex >= 0 && rowIndex < this.rows.length) {
+      const move = this.rows[rowIndex].move;
       const description = this.presenter.getDescription(move);
       this.descriptionBox.setContent(description);
     } else {
@@ -128,6 +139,25 @@ export class MovesSection extends BaseDetailSection {
     }
   }
 
+  /**
+   * Show the fetched moves as one row per method and level
+   */
+  private renderRows(): void {
+    this.rows = getMoveLearnRows(this.moves, this.showRareMethods);
+    this.table.setData(this.presenter.formatMovesTable(this.rows));
+    this.table.setLabel(
+      this.showRareMethods ? ' Moves (all methods, U to hide) ' : ' Moves ',
+    );
+
+    // Select the first move (index 1, since 0 is the header)
+    // @ts-ignore - blessed types don't fully expose select method
+    this.table.select(1);
+
+    // Update description for the first move
+    this.updateDescription();
+    this.table.screen.render();
+  }
+
   focus(): void {
     this.table.focus();
   }
@@ -141,20 +171,18 @@ export class MovesSection extends BaseDetailSection {
     // Use helper to automatically report loading status
     await this.reportPhaseStatus('moves', async () => {
       // Fetch moves
-      this.moves = await pokemonRepository.getMoves(pokemon.id);
-
-      // Format into table rows
-      const tableData = this.presenter.formatMovesTable(this.moves);
-
-      // Set table data
-      this.table.setData(tableData);
-
-      // Select the first move (index 1, since 0 is the header)
-      // @ts-ignore - blessed types don't fully expose select method
-      this.table.select(1);
-
-      // Update description for the first move
-      this.updateDescription();
+      this.moves = await getPokemonRepository().getMoves(pokemon.id);
+      this.renderRows();
+
+      // An empty learnset means the Pokemon is not in the selected game
+      const versionGroup = generationService.getEffectiveVersionGroup(
+        pokemon.generation,
+      );
+      if (this.moves.length === 0 && versionGroup) {
+        this.descriptionBox.setContent(
+          `Not available in ${getVersionGroupDisplayName(versionGroup)}`,
+        );
+      }
 
       this.table.screen.render();
     }).catch((error) => {
@@ -2,12 +2,13 @@ import blessed from 'blessed';
 import { theme, colors } from '../../theme.js';
 import { InfoPresenter } from '../../presenters/InfoPresenter.js';
 import { EvolutionPresenter } from '../../presenters/EvolutionPresenter.js';
-import { pokemonRepository } from '../../../repositories/PokemonRepository.js';
+import { getPokemonRepository } from '../../../repositories/repositoryProvider.js';
 import type { PokemonDisplay } from '../../../models/pokemon.js';
 import { BaseDetailSection } from './IDetailSection.js';
 
 /**
- * Section for displaying Pokemon overview (physical, types, pokedex entry, evolution)
+ * Section for displaying Pokemon overview (physical, types, pokedex entry,
+ * evolution)
  */
 export class OverviewSection extends BaseDetailSection {
   private presenter: InfoPresenter;
@@ -60,8 +61,12 @@ export class OverviewSection extends BaseDetailSection {
 
     // Render evolution chain with automatic status reporting
     await this.reportPhaseStatus('evolution', async () => {
-      const chain = await pokemonRepository.getEvolutionChain(pokemon);
-      const evolutionLines = await this.evolutionPresenter.renderEvolutionChain(pokemon, chain);
+      const chain = await getPokemonRepository().getEvolutionChain(pokemon);
+      const evolutionLines = await this.evolutionPresenter.renderEvolutionChain(
+        pokemon,
+        chain,
+        this.getContentWidth(),
+      );
 
       // Store evolution options for navigation
       this.evolutionOptions = this.evolutionPresenter.getEvolutionOptions(chain);
@@ -76,6 +81,14 @@ export class OverviewSection extends BaseDetailSection {
     this.widget.screen.render();
   }
 
+  /**
+   * Width available for content (minus borders and padding)
+   */
+  private getContentWidth(): number | undefined {
+    const width = this.widget.width;
+    return typeof width === 'number' ? Math.max(width - 6, 20) : undefined;
+  }
+
   /**
    * Get Pokemon names that can be navigated to via evolution
    */
@@ -1,13 +1,62 @@
 import blessed from 'blessed';
 import { theme, colors } from '../../theme.js';
-import { imageService } from '../../../services/imageService.js';
-import type { PokemonDisplay } from '../../../models/pokemon.js';
+import {
+  imageService,
+  type AsciiAnimation,
+  type GraphicsImage,
+} from '../../../services/imageService.js';
+import { generationService } from '../../../services/generationService.js';
+import {
+  capitalizeName,
+  type PokemonDisplay,
+} from '../../../models/pokemon.js';
+import {
+  getAnimatedSprites,
+  getGameSprites,
+  listSpriteVariants,
+  type SpriteSet,
+  type SpriteVariantKey,
+} from '../../../constants/sprites.js';
+import { deleteKittyImage } from '../../../utils/graphicsProtocols.js';
+import type { GalleryItem } from '../SpriteGallery.js';
 import { BaseDetailSection } from './IDetailSection.js';
 
+/**
+ * Where the displayed sprite comes from
+ */
+type SpriteSource = 'game' | 'artwork' | 'home' | 'showdown';
+
+const SPRITE_SOURCES: SpriteSource[] = ['game', 'artwork', 'home', 'showdown'];
+
+// Kitty image id of the sprite, so it can be deleted again
+const KITTY_SPRITE_ID = 1;
+
 /**
  * Section for displaying Pokemon sprite using Chafa
+ *
+ * Shows the in-game sprite of the session generation by default, falling
+ * back to the official artwork for generations without pixel sprites.
+ * The chosen variant (shiny, back, female) is kept when switching
+ * Pokemon, as long as the new one has it. Animated GIFs (Black/White and
+ * Showdown sprites) are played while the detail screen is visible.
+ *
+ * On terminals with Kitty, iTerm2 or Sixel graphics the sprite is drawn
+ * as an image over the (empty) box instead. blessed does not know about
+ * it, so the image is erased whenever the box is hidden or covered.
  */
 export class SpriteSection extends BaseDetailSection {
+  private source: SpriteSource = 'game';
+  private variant: SpriteVariantKey = 'front';
+  private graphics?: { url: string; image: GraphicsImage };
+  private graphicsDrawn = false;
+  private suspended = false;
+  private renderId = 0;
+  private animation?: AsciiAnimation;
+  private frameIndex = 0;
+  private frameTimer?: NodeJS.Timeout;
+  private animationEnabled = true;
+  private animationPaused = false;
+
   constructor(parent: blessed.Widgets.Node) {
     const widget = blessed.box({
       parent,
@@ -29,17 +78,42 @@ export class SpriteSection extends BaseDetailSection {
     });
 
     super('sprite', widget);
+
+    // Re-fit the image to the new box size
+    widget.on('resize', () => {
+      if (this.graphics) {
+        this.eraseGraphics();
+        void this.loadGraphics(this.graphics.url, this.renderId).then(() => {
+          this.widget.screen.render();
+          this.drawGraphics();
+        });
+      }
+    });
   }
 
   async update(pokemon: PokemonDisplay): Promise<void> {
+    const renderId = ++this.renderId;
+    this.clearGraphics();
+    this.stopAnimation();
+    this.animation = undefined;
+
     // Show loading message
     this.widget.setContent('Loading sprite...');
     this.widget.screen.render();
 
     // Use helper to automatically report loading status
     await this.reportPhaseStatus('sprite', async () => {
-      const spriteUrl = pokemon.artworkSprite || pokemon.sprite;
-      if (spriteUrl) {
+      const spriteUrl = this.selectSprite(pokemon);
+      const hasGraphics =
+        spriteUrl !== null && (await this.loadGraphics(spriteUrl, renderId));
+      // Leave the widget alone if another sprite was requested meanwhile
+      if (renderId !== this.renderId) {
+        return;
+      }
+
+      if (hasGraphics) {
+        this.widget.setContent('');
+      } else if (spriteUrl) {
         // Calculate responsive dimensions based on available space
         // Account for borders (2 chars width, 2 lines height)
         const availableWidth = (this.widget.width as number) - 2;
@@ -49,20 +123,313 @@ export class SpriteSection extends BaseDetailSection {
         const spriteWidth = Math.max(30, Math.min(70, availableWidth - 4));
         const spriteHeight = Math.max(20, Math.min(45, availableHeight - 2));
 
-        const ascii = await imageService.urlToAscii(
-          spriteUrl,
-          spriteWidth,
-          spriteHeight,
-          colors.lightScreenBlue
-        );
-        this.widget.setContent(ascii);
+        if (this.animationEnabled && spriteUrl.endsWith('.gif')) {
+          const animation = await imageService.urlToAnimation(
+            spriteUrl,
+            spriteWidth,
+            spriteHeight,
+            colors.lightScreenBlue
+          );
+          if (renderId !== this.renderId) {
+            return;
+          }
+          this.animation = animation;
+          this.frameIndex = 0;
+          this.widget.setContent(animation.frames[0]);
+        } else {
+          const ascii = await imageService.urlToAscii(
+            spriteUrl,
+            spriteWidth,
+            spriteHeight,
+            colors.lightScreenBlue
+          );
+          if (renderId !== this.renderId) {
+            return;
+          }
+          this.widget.setContent(ascii);
+        }
       } else {
         this.widget.setContent('No sprite available');
       }
     }).catch(() => {
-      this.widget.setContent('Failed to load sprite');
+      if (renderId === this.renderId) {
+        this.widget.setContent('Failed to load sprite');
+      }
     });
 
+    if (renderId !== this.renderId) {
+      return;
+    }
     this.widget.screen.render();
+    this.drawGraphics();
+    this.startAnimation();
+  }
+
+  /**
+   * Erase the graphics image and forget it
+   */
+  clearGraphics(): void {
+    this.eraseGraphics();
+    this.graphics = undefined;
+  }
+
+  /**
+   * Erase the graphics image and stop the animation while something
+   * covers or hides the box, and bring them back afterwards
+   */
+  setSuspended(suspended: boolean): void {
+    this.suspended = suspended;
+    if (suspended) {
+      this.eraseGraphics();
+      this.stopAnimation();
+    } else {
+      this.drawGraphics();
+      this.startAnimation();
+    }
+  }
+
+  /**
+   * Pause or resume the animation
+   *
+   * @returns Whether the animation is now paused
+   */
+  toggleAnimationPaused(): boolean {
+    this.animationPaused = !this.animationPaused;
+    if (this.animationPaused) {
+      this.stopAnimation();
+    } else {
+      this.startAnimation();
+    }
+    return this.animationPaused;
+  }
+
+  /**
+   * Turn animated sprites on or off (static sprites are shown when off)
+   */
+  setAnimationEnabled(enabled: boolean): void {
+    this.animationEnabled = enabled;
+  }
+
+  destroy(): void {
+    this.stopAnimation();
+    super.destroy();
+  }
+
+  /**
+   * Start playing the loaded animation, unless paused or hidden
+   */
+  private startAnimation(): void {
+    if (
+      !this.animation ||
+      this.animation.frames.length < 2 ||
+      this.animationPaused ||
+      this.suspended ||
+      this.frameTimer
+    ) {
+      return;
+    }
+
+    this.scheduleFrame(this.animation);
+  }
+
+  /**
+   * Show the next frame once the current one's delay has passed
+   */
+  private scheduleFrame(animation: AsciiAnimation): void {
+    this.frameTimer = setTimeout(() => {
+      this.frameTimer = undefined;
+      // Stop when the sprite changed or the screen was left
+      if (animation !== this.animation || !this.widget.visible) {
+        return;
+      }
+
+      this.frameIndex = (this.frameIndex + 1) % animation.frames.length;
+      this.widget.setContent(animation.frames[this.frameIndex]);
+      this.widget.screen.render();
+      this.scheduleFrame(animation);
+    }, animation.delays[this.frameIndex]);
+  }
+
+  private stopAnimation(): void {
+    clearTimeout(this.frameTimer);
+    this.frameTimer = undefined;
+  }
+
+  /**
+   * Encode the sprite for the terminal's graphics protocol
+   *
+   * Returns false when the terminal has none or the image cannot be
+   * encoded, so the caller falls back to symbols.
+   */
+  private async loadGraphics(url: string, renderId: number): Promise<boolean> {
+    // Animated GIFs are played with symbols
+    if (imageService.getGraphicsProtocol() === 'none' || url.endsWith('.gif')) {
+      return false;
+    }
+
+    try {
+      const image = await imageService.urlToGraphics(
+        url,
+        Math.max(1, (this.widget.width as number) - 4),
+        Math.max(1, (this.widget.height as number) - 3),
+        KITTY_SPRITE_ID,
+      );
+      // Ignore stale results if another sprite was requested meanwhile
+      if (renderId !== this.renderId) {
+        return false;
+      }
+      this.graphics = { url, image };
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Draw the graphics image centered in the box
+   *
+   * Needs the box to have been rendered, for its absolute position.
+   */
+  private drawGraphics(): void {
+    const position = this.widget.lpos;
+    if (
+      !this.graphics ||
+      this.suspended ||
+      !this.widget.visible ||
+      !position
+    ) {
+      return;
+    }
+
+    const { sequence, columns, rows } = this.graphics.image;
+    const left = position.xi + (this.widget.ileft as number);
+    const top = position.yi + (this.widget.itop as number);
+    const width = position.xl - position.xi - (this.widget.iwidth as number);
+    const height = position.yl - position.yi - (this.widget.iheight as number);
+    const column = left + Math.max(0, Math.floor((width - columns) / 2));
+    const row = top + Math.max(0, Math.floor((height - rows) / 2));
+
+    // Save the cursor, draw at the box position and restore it
+    this.widget.screen.program.write(
+      `\x1b7\x1b[${row + 1};${column + 1}H${sequence}\x1b8`,
+    );
+    this.graphicsDrawn = true;
+  }
+
+  /**
+   * Remove the graphics image from the terminal
+   *
+   * Kitty images are deleted by id. iTerm2 and Sixel images are cell
+   * content the terminal knows nothing more about, so the whole screen is
+   * repainted on the next render.
+   */
+  private eraseGraphics(): void {
+    if (!this.graphicsDrawn) {
+      return;
+    }
+
+    this.graphicsDrawn = false;
+    if (imageService.getGraphicsProtocol() === 'kitty') {
+      this.widget.screen.program.write(deleteKittyImage(KITTY_SPRITE_ID));
+    } else {
+      this.widget.screen.realloc();
+    }
+  }
+
+  /**
+   * Cycle the sprite source: in-game sprite, official artwork, HOME,
+   * Showdown
+   */
+  cycleSource(): void {
+    const index = SPRITE_SOURCES.indexOf(this.source);
+    this.source = SPRITE_SOURCES[(index + 1) % SPRITE_SOURCES.length];
+  }
+
+  /**
+   * Cycle to the next variant the current sprite source has
+   */
+  cycleVariant(pokemon: PokemonDisplay): void {
+    const variants = listSpriteVariants(this.getSpriteSet(pokemon).sprites);
+    const index = variants.findIndex((v) => v.key === this.variant);
+    this.variant = variants[(index + 1) % variants.length]?.key ?? 'front';
+  }
+
+  /**
+   * Every variant of the current sprite source, for the gallery
+   */
+  getGalleryItems(pokemon: PokemonDisplay): {
+    title: string;
+    items: GalleryItem[];
+  } {
+    const { title, sprites } = this.getSpriteSet(pokemon);
+    return {
+      title: `${pokemon.displayName} - ${title}`,
+      items: listSpriteVariants(sprites),
+    };
+  }
+
+  /**
+   * Resolve the sprite set of the current source
+   *
+   * In-game sprites fall back to the artwork for generations without
+   * them, and HOME and Showdown fall back to the artwork for Pokemon
+   * missing from them.
+   */
+  private getSpriteSet(pokemon: PokemonDisplay): {
+    title: string;
+    sprites: SpriteSet;
+  } {
+    const sets = pokemon.spriteSets;
+
+    if (this.source === 'game') {
+      const generation = generationService.getEffectiveGeneration(
+        pokemon.generation,
+      );
+      const game = getGameSprites(
+        sets,
+        generation,
+        generationService.getEffectiveVersionGroup(pokemon.generation) ??
+          undefined,
+      );
+      if (game) {
+        const animated =
+          this.animationEnabled &&
+          getAnimatedSprites(sets, game.versionGroup);
+        return {
+          title: capitalizeName(game.versionGroup),
+          sprites: animated || game.sprites,
+        };
+      }
+    }
+
+    if (this.source === 'showdown' && sets.showdown?.front) {
+      return { title: 'Showdown', sprites: sets.showdown };
+    }
+
+    if (this.source === 'home' && sets.home?.front) {
+      return { title: 'HOME', sprites: sets.home };
+    }
+
+    return sets.artwork?.front
+      ? { title: 'Artwork', sprites: sets.artwork }
+      : { title: 'Sprite', sprites: sets.default ?? {} };
+  }
+
+  /**
+   * Choose the sprite URL and update the label with its source
+   */
+  private selectSprite(pokemon: PokemonDisplay): string | null {
+    const { title, sprites } = this.getSpriteSet(pokemon);
+    const variant = listSpriteVariants(sprites).find(
+      (v) => v.key === this.variant,
+    );
+
+    if (variant && variant.key !== 'front') {
+      this.widget.setLabel(` ${title} - ${variant.label} `);
+      return variant.url;
+    }
+
+    this.widget.setLabel(` ${title} `);
+    return sprites.front || pokemon.sprite;
   }
 }
@@ -0,0 +1,239 @@
+import blessed from 'blessed';
+import { theme } from '../../theme.js';
+import type { PokemonDisplay } from '../../../models/pokemon.js';
+import { BaseDetailSection } from './IDetailSection.js';
+import { generationService } from '../../../services/generationService.js';
+import { NATURES } from '../../../constants/natures.js';
+import {
+  STAT_KEYS,
+  MIN_LEVEL,
+  MAX_LEVEL,
+  MAX_IV,
+  MAX_EV,
+  MAX_EV_TOTAL,
+  MAX_DV,
+  MAX_STAT_EXP,
+  usesLegacyFormula,
+  type StatTable,
+} from '../../../utils/statCalculator.js';
+import {
+  StatCalculatorPresenter,
+  type CalculatorField,
+  type StatCalculatorState,
+} from '../../presenters/StatCalculatorPresenter.js';
+
+/**
+ * Step sizes for +/- (EVs only count in multiples of 4)
+ */
+const EV_STEP = 4;
+const STAT_EXP_STEP = 4096;
+
+function fillStats(value: number): StatTable {
+  const entries = STAT_KEYS.map((stat) => [stat, value]);
+  return Object.fromEntries(entries) as StatTable;
+}
+
+/**
+ * Interactive stat calculator (level, nature, IVs and EVs)
+ *
+ * Inputs are kept per formula (Gen 3+ vs Gen 1-2) and carry over when
+ * switching Pokemon, so the same spread can be compared across species.
+ */
+export class StatCalculatorSection extends BaseDetailSection {
+  private presenter: StatCalculatorPresenter;
+  private pokemon?: PokemonDisplay;
+  private modernState: StatCalculatorState = this.createState(false);
+  private legacyState: StatCalculatorState = this.createState(true);
+  private selectedIndex = 0;
+
+  constructor(parent: blessed.Widgets.Node) {
+    const widget = blessed.box({
+      parent,
+      top: 0,
+      left: 0,
+      width: '100%',
+      height: '100%',
+      tags: true,
+      scrollable: true,
+      alwaysScroll: true,
+      label: ' Stat Calculator ',
+      style: {
+        bg: theme.detailBox.bg,
+        border: theme.detailBox.border,
+      },
+      border: {
+        type: 'line',
+      },
+      padding: {
+        left: 2,
+        right: 2,
+        top: 1,
+        bottom: 0,
+      },
+    });
+
+    super('calculator', widget);
+    this.presenter = new StatCalculatorPresenter();
+
+    this.widget.key(['up', 'k'], () => this.moveSelection(-1));
+    this.widget.key(['down', 'j'], () => this.moveSelection(1));
+    this.widget.key(['+', '='], () => this.adjust(1));
+    this.widget.key(['-', '_'], () => this.adjust(-1));
+    this.widget.key([']'], () => this.setToLimit('max'));
+    this.widget.key(['['], () => this.setToLimit('min'));
+    this.widget.key(['r'], () => this.reset());
+  }
+
+  update(pokemon: PokemonDisplay): void {
+    this.pokemon = pokemon;
+    this.render();
+  }
+
+  focus(): void {
+    this.widget.focus();
+  }
+
+  /**
+   * Generation whose formula applies (never before the Pokemon existed)
+   */
+  private getGeneration(): number {
+    const sessionGeneration = generationService.getSessionGeneration();
+    return Math.max(sessionGeneration, this.pokemon?.generation ?? 1);
+  }
+
+  private getState(): StatCalculatorState {
+    return usesLegacyFormula(this.getGeneration())
+      ? this.legacyState
+      : this.modernState;
+  }
+
+  private getFields(): CalculatorField[] {
+    return this.presenter.getFields(this.getGeneration());
+  }
+
+  private getSelectedField(): CalculatorField {
+    const fields = this.getFields();
+    return fields[Math.min(this.selectedIndex, fields.length - 1)];
+  }
+
+  private moveSelection(delta: number): void {
+    const count = this.getFields().length;
+    const current = Math.min(this.selectedIndex, count - 1);
+    this.selectedIndex = (current + delta + count) % count;
+    this.render();
+  }
+
+  /**
+   * Step the selected field up or down
+   */
+  private adjust(direction: number): void {
+    const state = this.getState();
+    const field = this.getSelectedField();
+    const legacy = usesLegacyFormula(this.getGeneration());
+
+    if (field.kind === 'level') {
+      state.level = this.clamp(state.level + direction, MIN_LEVEL, MAX_LEVEL);
+    } else if (field.kind === 'nature') {
+      const index = NATURES.indexOf(state.nature);
+      state.nature =
+        NATURES[(index + direction + NATURES.length) % NATURES.length];
+    } else if (field.kind === 'iv') {
+      const max = legacy ? MAX_DV : MAX_IV;
+      state.ivs[field.stat] = this.clamp(
+        state.ivs[field.stat] + direction,
+        0,
+        max,
+      );
+    } else {
+      const step = legacy ? STAT_EXP_STEP : EV_STEP;
+      state.evs[field.stat] = this.clamp(
+        state.evs[field.stat] + direction * step,
+        0,
+        this.getMaxEv(field.stat),
+      );
+    }
+
+    this.render();
+  }
+
+  /**
+   * Set the selected field to its minimum or maximum
+   */
+  private setToLimit(limit: 'min' | 'max'): void {
+    const field = this.getSelectedField();
+    if (field.kind === 'nature') {
+      this.adjust(limit === 'max' ? 1 : -1);
+      return;
+    }
+
+    const state = this.getState();
+    const legacy = usesLegacyFormula(this.getGeneration());
+    const isMax = limit === 'max';
+
+    if (field.kind === 'level') {
+      state.level = isMax ? MAX_LEVEL : MIN_LEVEL;
+    } else if (field.kind === 'iv') {
+      state.ivs[field.stat] = isMax ? (legacy ? MAX_DV : MAX_IV) : 0;
+    } else {
+      state.evs[field.stat] = isMax ? this.getMaxEv(field.stat) : 0;
+    }
+
+    this.render();
+  }
+
+  /**
+   * Highest EV value for a stat, respecting the 510 EV total in Gen 3+
+   */
+  private getMaxEv(stat: keyof StatTable): number {
+    if (usesLegacyFormula(this.getGeneration())) {
+      return MAX_STAT_EXP;
+    }
+
+    const evs = this.modernState.evs;
+    const others = STAT_KEYS.reduce(
+      (sum, s) => (s === stat ? sum : sum + evs[s]),
+      0,
+    );
+    const remaining = MAX_EV_TOTAL - others;
+    // Keep EVs on multiples of 4 so no points are wasted
+    return Math.min(MAX_EV, remaining - (remaining % EV_STEP));
+  }
+
+  private reset(): void {
+    if (usesLegacyFormula(this.getGeneration())) {
+      this.legacyState = this.createState(true);
+    } else {
+      this.modernState = this.createState(false);
+    }
+    this.render();
+  }
+
+  private createState(legacy: boolean): StatCalculatorState {
+    return {
+      level: 50,
+      nature: NATURES[0],
+      ivs: fillStats(legacy ? MAX_DV : MAX_IV),
+      evs: fillStats(0),
+    };
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+  }
+
+  private render(): void {
+    if (!this.pokemon) {
+      return;
+    }
+
+    const lines = this.presenter.render(
+      this.pokemon,
+      this.getState(),
+      this.getGeneration(),
+      this.getSelectedField(),
+    );
+
+    this.widget.setContent(lines.join('\n'));
+    this.widget.screen.render();
+  }
+}
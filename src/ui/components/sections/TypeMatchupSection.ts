@@ -0,0 +1,52 @@
+import blessed from 'blessed';
+import { theme } from '../../theme.js';
+import type { PokemonDisplay } from '../../../models/pokemon.js';
+import { BaseDetailSection } from './IDetailSection.js';
+import { TypeEffectivenessPresenter } from '../../presenters/TypeEffectivenessPresenter.js';
+
+/**
+ * Section for displaying defensive type matchups
+ */
+export class TypeMatchupSection extends BaseDetailSection {
+  private presenter: TypeEffectivenessPresenter;
+
+  constructor(parent: blessed.Widgets.Node) {
+    const widget = blessed.box({
+      parent,
+      top: 0,
+      left: 0,
+      width: '100%',
+      height: '100%',
+      tags: true,
+      scrollable: true,
+      alwaysScroll: true,
+      label: ' Type Matchups ',
+      style: {
+        bg: theme.detailBox.bg,
+        border: theme.detailBox.border,
+      },
+      border: {
+        type: 'line',
+      },
+      padding: {
+        left: 2,
+        right: 2,
+        top: 1,
+        bottom: 0,
+      },
+    });
+
+    super('types', widget);
+    this.presenter = new TypeEffectivenessPresenter();
+  }
+
+  update(pokemon: PokemonDisplay): void {
+    const lines = this.presenter.render(
+      pokemon.typeEffectiveness,
+      pokemon.abilityMatchups,
+    );
+
+    this.widget.setContent(lines.join('\n'));
+    this.widget.screen.render();
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import blessed from 'blessed';
+import { BreedingSection } from '../BreedingSection.js';
+import {
+  getPokemonRepository,
+  setPokemonRepository,
+} from '../../../../repositories/repositoryProvider.js';
+import type { IPokemonRepository } from '../../../../repositories/IPokemonRepository.js';
+import { transformPokemon } from '../../../../models/pokemon.js';
+import {
+  mockPikachuPokemon,
+  mockPikachuSpecies,
+} from '../../../../../tests/fixtures/pokemon-data.js';
+
+describe('BreedingSection', () => {
+  const original = getPokemonRepository();
+  const pikachu = transformPokemon(mockPikachuPokemon, mockPikachuSpecies);
+
+  let screen: blessed.Widgets.Screen;
+  let section: BreedingSection;
+  let getEggGroupCompatibles: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    screen = blessed.screen({ smartCSR: true, fullUnicode: true });
+    section = new BreedingSection(screen);
+    getEggGroupCompatibles = vi.fn().mockResolvedValue(['raichu']);
+    setPokemonRepository({
+      getEggGroupCompatibles,
+    } as unknown as IPokemonRepository);
+  });
+
+  afterEach(() => {
+    setPokemonRepository(original);
+    section.destroy();
+    screen.destroy();
+  });
+
+  it('should not load partners until the tab is shown', async () => {
+    section.hide();
+    section.update(pikachu);
+
+    expect(getEggGroupCompatibles).not.toHaveBeenCalled();
+    expect(section.getWidget().getContent()).toContain('Loading...');
+
+    section.show();
+    await vi.waitFor(() =>
+      expect(section.getWidget().getContent()).toContain('Raichu'),
+    );
+    expect(getEggGroupCompatibles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load partners right away when the tab is open', () => {
+    section.show();
+    section.update(pikachu);
+
+    expect(getEggGroupCompatibles).toHaveBeenCalledWith(pikachu);
+  });
+
+  it('should ignore partners of a Pokemon no longer shown', async () => {
+    let resolve: (names: string[]) => void = () => {};
+    getEggGroupCompatibles.mockReturnValueOnce(
+      new Promise<string[]>((r) => (resolve = r)),
+    );
+    section.update(pikachu);
+    section.update({ ...pikachu });
+
+    resolve(['bulbasaur']);
+    await vi.waitFor(() =>
+      expect(section.getWidget().getContent()).toContain('Raichu'),
+    );
+    expect(section.getWidget().getContent()).not.toContain('Bulbasaur');
+  });
+});
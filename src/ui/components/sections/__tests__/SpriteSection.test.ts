@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import blessed from 'blessed';
+import { SpriteSection } from '../SpriteSection.js';
+import { imageService } from '../../../../services/imageService.js';
+import { transformPokemon } from '../../../../models/pokemon.js';
+import {
+  mockPikachuPokemon,
+  mockPikachuSpecies,
+} from '../../../../../tests/fixtures/pokemon-data.js';
+
+vi.mock('../../../../services/imageService.js', () => ({
+  imageService: {
+    getGraphicsProtocol: vi.fn().mockReturnValue('none'),
+    urlToAscii: vi.fn(),
+    urlToAnimation: vi.fn(),
+  },
+}));
+
+describe('SpriteSection', () => {
+  const pikachu = transformPokemon(mockPikachuPokemon, mockPikachuSpecies);
+
+  let screen: blessed.Widgets.Screen;
+  let section: SpriteSection;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    screen = blessed.screen({ smartCSR: true, fullUnicode: true });
+    section = new SpriteSection(screen);
+  });
+
+  afterEach(() => {
+    section.destroy();
+    screen.destroy();
+  });
+
+  it('should show the rendered sprite', async () => {
+    vi.mocked(imageService.urlToAscii).mockResolvedValue('pikachu sprite');
+
+    await section.update(pikachu);
+
+    expect(section.getWidget().getContent()).toBe('pikachu sprite');
+  });
+
+  it('should ignore a sprite that finished after a newer one', async () => {
+    let resolve: (ascii: string) => void = () => {};
+    vi.mocked(imageService.urlToAscii)
+      .mockReturnValueOnce(new Promise<string>((r) => (resolve = r)))
+      .mockResolvedValueOnce('newer sprite');
+
+    const first = section.update(pikachu);
+    await vi.waitFor(() => expect(imageService.urlToAscii).toHaveBeenCalled());
+    await section.update({ ...pikachu });
+    resolve('older sprite');
+    await first;
+
+    expect(section.getWidget().getContent()).toBe('newer sprite');
+  });
+});
@@ -1,5 +1,6 @@
 import { colors } from "../theme.js";
 import type { PokemonDisplay } from "../../models/pokemon.js";
+import { capitalizeName } from "../../models/pokemon.js";
 import type { EvolutionChain } from "../../api/types.js";
 import {
   pokemonService,
@@ -13,11 +14,17 @@ import {
  */
 export class EvolutionPresenter {
   /**
-   * Render evolution chain with methods - centered vertical layout
+   * Render evolution chain with methods
+   *
+   * Linear chains use a centered vertical layout; chains that branch
+   * (Eevee, Wurmple, Tyrogue...) are drawn as an indented tree.
+   *
+   * @param width - Available content width, used to wrap long methods
    */
   async renderEvolutionChain(
     pokemon: PokemonDisplay,
     chain: EvolutionChain,
+    width: number = 46,
   ): Promise<string[]> {
     const root = pokemonService.parseEvolutionChainStructured(chain);
     const lines: string[] = [];
@@ -25,8 +32,12 @@ export class EvolutionPresenter {
     // Add spacing at top
     lines.push("");
 
-    // Build linear evolution chain (only follows first branch for simplicity)
-    this.renderStageVertical(root, pokemon.name, lines);
+    if (this.isLinear(root)) {
+      this.renderStageVertical(root, pokemon.name, lines);
+    } else {
+      lines.push(this.formatName(root.species, pokemon.name));
+      this.renderBranches(root.branches, pokemon.name, "", width, lines);
+    }
 
     // Add spacing at bottom
     lines.push("");
@@ -42,27 +53,23 @@ export class EvolutionPresenter {
     currentPokemon: string,
     lines: string[],
   ): void {
-    const isCurrent = stage.species === currentPokemon;
-    const displayName =
-      stage.species.charAt(0).toUpperCase() + stage.species.slice(1);
-
     // Format Pokemon name with highlighting if current
-    const formattedName = isCurrent
-      ? `{center}{${colors.pokemonYellow}-fg}{bold}${displayName}{/bold}{/}{/center}`
-      : `{center}${displayName}{/center}`;
-
-    lines.push(formattedName);
+    const name = this.formatName(stage.species, currentPokemon);
+    lines.push(`{center}${name}{/center}`);
 
     // If there are evolutions, show method and continue
     if (stage.branches.length > 0) {
-      const branch = stage.branches[0]; // Follow first branch for linear display
+      const branch = stage.branches[0]; // Linear chains have a single branch
 
       // Add down arrow
       lines.push("{center}↓{/center}");
 
-      // Add evolution method if exists
-      if (branch.method) {
-        lines.push(`{center}${branch.method}{/center}`);
+      // Add evolution methods if they exist, one per line
+      const methods = this.formatMethods(branch);
+      if (methods.length > 0) {
+        for (const method of methods) {
+          lines.push(`{center}${method}{/center}`);
+        }
         lines.push("{center}↓{/center}");
       }
 
@@ -71,6 +78,113 @@ export class EvolutionPresenter {
     }
   }
 
+  /**
+   * Render branches as an indented tree with box-drawing connectors
+   *
+   * Each branch is "├─ <method> → <name>"; when that doesn't fit the
+   * width, or there are several methods, they are wrapped onto their own
+   * lines under the name.
+   */
+  private renderBranches(
+    branches: EvolutionStage[],
+    currentPokemon: string,
+    prefix: string,
+    width: number,
+    lines: string[],
+  ): void {
+    branches.forEach((branch, index) => {
+      const isLast = index === branches.length - 1;
+      const connector = `${prefix}${isLast ? "└─ " : "├─ "}`;
+      const childPrefix = `${prefix}${isLast ? "   " : "│  "}`;
+      const name = this.formatName(branch.species, currentPokemon);
+      const methods = this.formatMethods(branch);
+      const inlineLength =
+        connector.length +
+        (methods[0]?.length ?? 0) +
+        3 +
+        capitalizeName(branch.species).length;
+
+      if (methods.length === 0) {
+        lines.push(`${connector}${name}`);
+      } else if (methods.length === 1 && inlineLength <= width) {
+        lines.push(`${connector}{gray-fg}${methods[0]}{/} → ${name}`);
+      } else {
+        lines.push(`${connector}${name}`);
+        const indent = `${childPrefix}  `;
+        for (const method of methods) {
+          for (const line of this.wrap(method, width - indent.length)) {
+            lines.push(`${indent}{gray-fg}${line}{/}`);
+          }
+        }
+      }
+
+      this.renderBranches(
+        branch.branches,
+        currentPokemon,
+        childPrefix,
+        width,
+        lines,
+      );
+    });
+  }
+
+  /**
+   * Format every way to evolve into a stage, e.g. "Lv.20 [Scarlet Violet]"
+   *
+   * Alternatives after the first are prefixed with "or".
+   */
+  private formatMethods(stage: EvolutionStage): string[] {
+    return stage.methods.map((method, index) => {
+      const games = method.versionGroups.map(capitalizeName).join(", ");
+      const text = games
+        ? `${method.description} [${games}]`
+        : method.description;
+      return index === 0 ? text : `or ${text}`;
+    });
+  }
+
+  /**
+   * Whether every stage evolves into at most one species
+   */
+  private isLinear(stage: EvolutionStage): boolean {
+    return (
+      stage.branches.length <= 1 &&
+      stage.branches.every((branch) => this.isLinear(branch))
+    );
+  }
+
+  /**
+   * Format a species name, highlighting the current Pokemon
+   */
+  private formatName(species: string, currentPokemon: string): string {
+    const displayName = capitalizeName(species);
+    return species === currentPokemon
+      ? `{${colors.pokemonYellow}-fg}{bold}${displayName}{/bold}{/}`
+      : displayName;
+  }
+
+  /**
+   * Word-wrap text to a maximum line width
+   */
+  private wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+    let current = "";
+
+    for (const word of text.split(" ")) {
+      if (current && current.length + 1 + word.length > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) {
+      lines.push(current);
+    }
+
+    return lines;
+  }
+
   /**
    * Get all Pokemon names in the evolution chain (for navigation)
    */
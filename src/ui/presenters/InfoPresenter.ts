@@ -1,6 +1,37 @@
 import { colors, getTypeColor } from "../theme.js";
 import type { PokemonDisplay } from "../../models/pokemon.js";
-import { formatHeight, formatWeight } from "../../models/pokemon.js";
+import {
+  formatHeight,
+  formatWeight,
+  capitalizeName,
+} from "../../models/pokemon.js";
+
+/**
+ * Steps per egg cycle (Gen 8+; earlier games used 255-257)
+ */
+const STEPS_PER_EGG_CYCLE = 257;
+
+/**
+ * Width of the gender ratio bar in characters
+ */
+const GENDER_BAR_WIDTH = 20;
+
+/**
+ * Compatible species listed before truncating
+ */
+const MAX_COMPATIBLE_SPECIES = 30;
+
+/**
+ * Total experience needed to reach level 100 per growth rate
+ */
+const GROWTH_RATE_EXPERIENCE: Record<string, number> = {
+  "slow-then-very-fast": 600000, // Erratic
+  fast: 800000,
+  medium: 1000000,
+  "medium-slow": 1059860,
+  slow: 1250000,
+  "fast-then-very-slow": 1640000, // Fluctuating
+};
 
 /**
  * Presenter for rendering Pokemon information
@@ -102,6 +133,140 @@ export class InfoPresenter {
     ];
   }
 
+  /**
+   * Render training data: capture rate, base friendship, growth rate
+   */
+  renderTraining(pokemon: PokemonDisplay): string[] {
+    const { captureRate, baseHappiness, growthRate, baseExperience } =
+      pokemon.training;
+    const lines = [`{${colors.pokemonYellow}-fg}{bold}Training{/bold}{/}`];
+
+    lines.push(`Capture rate: ${captureRate}`);
+    lines.push(`Base friendship: ${baseHappiness ?? "-"}`);
+    lines.push(`Base experience: ${baseExperience ?? "-"}`);
+
+    if (growthRate) {
+      const experience = GROWTH_RATE_EXPERIENCE[growthRate];
+      const total = experience
+        ? ` {gray-fg}(${experience.toLocaleString("en-US")} EXP to Lv 100){/}`
+        : "";
+      lines.push(`Growth rate: ${capitalizeName(growthRate)}${total}`);
+    }
+
+    if (pokemon.habitat) {
+      lines.push(`Habitat: ${capitalizeName(pokemon.habitat)}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Render breeding data: gender ratio, egg groups, hatch time and the
+   * species that share an egg group
+   *
+   * @param compatibles - Species sharing an egg group (omitted if unavailable)
+   * @param loading - The compatible species are still being fetched
+   */
+  renderBreeding(
+    pokemon: PokemonDisplay,
+    compatibles?: string[],
+    loading = false,
+  ): string[] {
+    const { eggGroups, genderRate, hatchCounter } = pokemon.breeding;
+    const lines = [`{${colors.pokemonYellow}-fg}{bold}Breeding{/bold}{/}`];
+
+    lines.push(`Gender: ${this.renderGenderBar(genderRate)}`);
+
+    const groups = eggGroups.map((group) => this.formatEggGroup(group));
+    lines.push(`Egg groups: ${groups.join(", ") || "-"}`);
+
+    if (hatchCounter > 0) {
+      const steps = (hatchCounter * STEPS_PER_EGG_CYCLE).toLocaleString(
+        "en-US",
+      );
+      lines.push(`Hatch time: ${hatchCounter} egg cycles (~${steps} steps)`);
+    }
+
+    lines.push("");
+    lines.push(...this.renderCompatibles(pokemon, compatibles, loading));
+
+    return lines;
+  }
+
+  /**
+   * Render a male/female ratio bar, e.g. "♂ 87.5% ██████░░ ♀ 12.5%"
+   */
+  renderGenderBar(genderRate: number): string {
+    if (genderRate < 0) {
+      return "{gray-fg}Genderless{/}";
+    }
+
+    const female = (genderRate / 8) * 100;
+    const male = 100 - female;
+    const maleCells = Math.round((male / 100) * GENDER_BAR_WIDTH);
+    const bar =
+      `{#6890F0-fg}${"█".repeat(maleCells)}{/}` +
+      `{#F85888-fg}${"█".repeat(GENDER_BAR_WIDTH - maleCells)}{/}`;
+
+    return (
+      `{#6890F0-fg}♂ ${this.formatPercent(male)}{/} ${bar} ` +
+      `{#F85888-fg}♀ ${this.formatPercent(female)}{/}`
+    );
+  }
+
+  private renderCompatibles(
+    pokemon: PokemonDisplay,
+    compatibles: string[] | undefined,
+    loading: boolean,
+  ): string[] {
+    const { eggGroups, genderRate } = pokemon.breeding;
+    const header = "{bold}Compatible species{/bold}";
+
+    if (eggGroups.includes("no-eggs")) {
+      return [header, "{gray-fg}Cannot breed{/}"];
+    }
+    if (eggGroups.includes("ditto")) {
+      return [header, "Any Pokemon that can breed (except Ditto)"];
+    }
+    if (genderRate < 0) {
+      return [header, "Ditto only"];
+    }
+    if (!compatibles) {
+      const status = loading ? "Loading..." : "Not available";
+      return [header, `{gray-fg}${status}{/}`];
+    }
+
+    const names = compatibles
+      .slice(0, MAX_COMPATIBLE_SPECIES)
+      .map((name) => capitalizeName(name));
+    const remaining = compatibles.length - names.length;
+    const more = remaining > 0 ? ` {gray-fg}and ${remaining} more{/}` : "";
+
+    return [
+      `${header} {gray-fg}(${compatibles.length} + Ditto){/}`,
+      `${names.join(", ")}${more}`,
+    ];
+  }
+
+  private formatEggGroup(group: string): string {
+    // PokeAPI names differ from the games for a few groups
+    const names: Record<string, string> = {
+      ground: "Field",
+      humanshape: "Human-Like",
+      indeterminate: "Amorphous",
+      plant: "Grass",
+      water1: "Water 1",
+      water2: "Water 2",
+      water3: "Water 3",
+      "no-eggs": "Undiscovered",
+    };
+    return names[group] ?? capitalizeName(group);
+  }
+
+  private formatPercent(value: number): string {
+    return `${Number(value.toFixed(1))}%`;
+  }
+
   /**
    * Get a summary line (for list views)
    */
@@ -1,33 +1,36 @@
 import { getTypeColor } from "../theme.js";
-import type { MoveData } from "../../repositories/IPokemonRepository.js";
+import type {
+  MoveCategory,
+  MoveData,
+} from "../../repositories/IPokemonRepository.js";
+import type { MoveLearnRow } from "../../models/moves.js";
 
 /**
  * Presenter for formatting move data for display
  */
 export class MovesPresenter {
   /**
-   * Format moves into table rows for listtable
+   * Format learn rows (one per move, method and level) into table rows
+   * for listtable
    * Returns: [header, ...dataRows]
    */
-  formatMovesTable(moves: MoveData[]): string[][] {
+  formatMovesTable(learnRows: MoveLearnRow[]): string[][] {
     const rows: string[][] = [];
 
     // Header row
-    rows.push(["Name", "Type", "Pwr", "Acc", "PP", "Method"]);
+    rows.push(["Name", "Type", "Cat", "Pwr", "Acc", "PP", "Method"]);
 
     // Data rows
-    for (const move of moves) {
+    for (const { move, method: learnMethod, level } of learnRows) {
       const name = this.formatMoveName(move.name);
       const type = this.formatType(move.type);
+      const category = this.formatCategory(move.category);
       const power = move.power !== null ? move.power.toString() : "--";
       const accuracy = move.accuracy !== null ? move.accuracy.toString() : "--";
       const pp = move.pp.toString();
-      const method = this.formatLearnMethod(
-        move.learnMethod,
-        move.levelLearned,
-      );
+      const method = this.formatLearnMethod(learnMethod, level);
 
-      rows.push([name, type, power, accuracy, pp, method]);
+      rows.push([name, type, category, power, accuracy, pp, method]);
     }
 
     return rows;
@@ -52,6 +55,20 @@ export class MovesPresenter {
     return `{${color}-fg}${displayType}{/}`;
   }
 
+  /**
+   * Format category as a short label
+   */
+  private formatCategory(category: MoveCategory): string {
+    switch (category) {
+      case "physical":
+        return "Phys";
+      case "special":
+        return "Spec";
+      case "status":
+        return "Stat";
+    }
+  }
+
   /**
    * Format learn method
    */
@@ -65,6 +82,14 @@ export class MovesPresenter {
         return "Egg";
       case "tutor":
         return "Tutor";
+      case "light-ball-egg":
+        return "Egg*";
+      case "form-change":
+        return "Form";
+      case "zygarde-cube":
+        return "Cube";
+      case "stadium-surfing-pikachu":
+        return "Stadium";
       default:
         return method;
     }
@@ -0,0 +1,271 @@
+import { colors } from "../theme.js";
+import type { PokemonDisplay } from "../../models/pokemon.js";
+import { GEN1_SPECIAL_STATS } from "../../constants/gen1Stats.js";
+import type { Nature } from "../../constants/natures.js";
+import {
+  STAT_KEYS,
+  MAX_EV_TOTAL,
+  calculateStats,
+  calculateStatRange,
+  getHpDV,
+  usesLegacyFormula,
+  type StatKey,
+  type StatTable,
+} from "../../utils/statCalculator.js";
+
+/**
+ * An editable calculator field
+ */
+export type CalculatorField =
+  | { kind: "level" }
+  | { kind: "nature" }
+  | { kind: "iv" | "ev"; stat: StatKey };
+
+/**
+ * Calculator inputs chosen by the user (DVs / Stat Exp in Gen 1-2)
+ */
+export interface StatCalculatorState {
+  level: number;
+  nature: Nature;
+  ivs: StatTable;
+  evs: StatTable;
+}
+
+const STAT_LABELS: Record<StatKey, string> = {
+  hp: "HP",
+  attack: "Attack",
+  defense: "Defense",
+  specialAttack: "Sp. Atk",
+  specialDefense: "Sp. Def",
+  speed: "Speed",
+};
+
+const SHORT_LABELS: Record<StatKey, string> = {
+  hp: "HP",
+  attack: "Atk",
+  defense: "Def",
+  specialAttack: "SpA",
+  specialDefense: "SpD",
+  speed: "Spe",
+};
+
+/**
+ * Presenter for the stat calculator table
+ */
+export class StatCalculatorPresenter {
+  /**
+   * Stats shown as rows (Gen 1 has a single Special stat)
+   */
+  getStatRows(generation: number): StatKey[] {
+    return generation === 1
+      ? STAT_KEYS.filter((stat) => stat !== "specialDefense")
+      : STAT_KEYS;
+  }
+
+  /**
+   * Editable fields in navigation order
+   *
+   * Gen 1-2 have no natures, derive the HP DV and share the Special
+   * DV / Stat Exp between Sp. Atk and Sp. Def.
+   */
+  getFields(generation: number): CalculatorField[] {
+    const legacy = usesLegacyFormula(generation);
+    const fields: CalculatorField[] = [{ kind: "level" }];
+    if (!legacy) {
+      fields.push({ kind: "nature" });
+    }
+
+    for (const stat of this.getStatRows(generation)) {
+      if (legacy && stat === "specialDefense") continue;
+      if (!legacy || stat !== "hp") {
+        fields.push({ kind: "iv", stat });
+      }
+      fields.push({ kind: "ev", stat });
+    }
+    return fields;
+  }
+
+  /**
+   * Base stats used by the calculator (Gen 1 uses the old Special stat)
+   */
+  getBaseStats(pokemon: PokemonDisplay, generation: number): StatTable {
+    if (generation !== 1) {
+      return pokemon.stats;
+    }
+
+    const special =
+      GEN1_SPECIAL_STATS[pokemon.id] ?? pokemon.stats.specialAttack;
+    return {
+      ...pokemon.stats,
+      specialAttack: special,
+      specialDefense: special,
+    };
+  }
+
+  /**
+   * Render the calculator: inputs, final stats and Lv 50 / Lv 100 ranges
+   */
+  render(
+    pokemon: PokemonDisplay,
+    state: StatCalculatorState,
+    generation: number,
+    selected?: CalculatorField,
+  ): string[] {
+    const legacy = usesLegacyFormula(generation);
+    const baseStats = this.getBaseStats(pokemon, generation);
+    const input = {
+      level: state.level,
+      nature: legacy ? undefined : state.nature,
+      ivs: state.ivs,
+      evs: state.evs,
+    };
+    const finalStats = calculateStats(baseStats, input, generation);
+    const highlight = (field: CalculatorField, text: string) =>
+      this.isSelected(field, selected) ? `{inverse}${text}{/inverse}` : text;
+
+    const lines: string[] = [];
+    const formula = legacy ? "Gen 1-2 DV / Stat Exp" : "Gen 3+";
+    lines.push(`{${colors.pokemonYellow}-fg}{bold}Stat Calculator{/bold}{/}`);
+    lines.push(`{gray-fg}${formula} formula (Gen ${generation}){/}`);
+    lines.push("");
+
+    const level = highlight({ kind: "level" }, String(state.level));
+    let settings = `{bold}Level:{/bold} ${level}`;
+    if (!legacy) {
+      const nature = highlight({ kind: "nature" }, this.formatNature(state));
+      settings += `   {bold}Nature:{/bold} ${nature}`;
+    }
+    lines.push(settings);
+    lines.push("");
+
+    const ivHeader = legacy ? "DV" : "IV";
+    const evHeader = legacy ? "StatExp" : "EV";
+    lines.push(
+      `{bold}${"Stat".padEnd(8)}${"Base".padStart(5)}` +
+        `${ivHeader.padStart(4)}${evHeader.padStart(8)}` +
+        `${"Value".padStart(7)}${"Lv 50".padStart(10)}` +
+        `${"Lv 100".padStart(10)}{/bold}`,
+    );
+
+    for (const stat of this.getStatRows(generation)) {
+      const label =
+        generation === 1 && stat === "specialAttack"
+          ? "Special"
+          : STAT_LABELS[stat];
+      // Gen 1-2: HP DV is derived, Sp. Def shares the Special inputs
+      const editable = !(legacy && stat === "specialDefense");
+      const source = editable ? stat : "specialAttack";
+
+      const ivCell =
+        legacy && stat === "hp"
+          ? `{gray-fg}${String(getHpDV(state.ivs)).padStart(4)}{/}`
+          : this.cell(
+              { kind: "iv", stat },
+              state.ivs[source],
+              4,
+              editable,
+              selected,
+            );
+      const evCell = this.cell(
+        { kind: "ev", stat },
+        state.evs[source],
+        8,
+        editable,
+        selected,
+      );
+
+      const value = String(finalStats[stat]).padStart(7);
+      const range50 = this.formatRange(stat, baseStats[stat], 50, generation);
+      const range100 = this.formatRange(
+        stat,
+        baseStats[stat],
+        100,
+        generation,
+      );
+
+      lines.push(
+        `${label.padEnd(8)}${String(baseStats[stat]).padStart(5)}` +
+          `${ivCell}${evCell}` +
+          `${this.colorValue(stat, state, legacy, value)}` +
+          `${range50}${range100}`,
+      );
+    }
+
+    if (!legacy) {
+      const total = STAT_KEYS.reduce((sum, stat) => sum + state.evs[stat], 0);
+      lines.push("");
+      lines.push(`{bold}EVs:{/bold} ${total} / ${MAX_EV_TOTAL}`);
+    }
+
+    lines.push("");
+    lines.push("{gray-fg}↑/↓ select  +/- adjust  [/] min/max  r reset{/}");
+
+    return lines;
+  }
+
+  /**
+   * Format a nature with the stats it changes, e.g. "Adamant (+Atk -SpA)"
+   */
+  formatNature(state: StatCalculatorState): string {
+    const { name, increased, decreased } = state.nature;
+    const label = name.charAt(0).toUpperCase() + name.slice(1);
+    if (!increased || !decreased) {
+      return label;
+    }
+    return `${label} (+${SHORT_LABELS[increased]} -${SHORT_LABELS[decreased]})`;
+  }
+
+  /**
+   * Render an IV / EV cell, greyed out when it mirrors another stat
+   */
+  private cell(
+    field: CalculatorField,
+    value: number,
+    width: number,
+    editable: boolean,
+    selected?: CalculatorField,
+  ): string {
+    const text = String(value).padStart(width);
+    if (!editable) {
+      return `{gray-fg}${text}{/}`;
+    }
+    // Highlight only the value, keeping the column padding
+    return this.isSelected(field, selected)
+      ? text.replace(/\S+$/, (v) => `{inverse}${v}{/inverse}`)
+      : text;
+  }
+
+  private formatRange(
+    stat: StatKey,
+    base: number,
+    level: number,
+    generation: number,
+  ): string {
+    const { min, max } = calculateStatRange(stat, base, level, generation);
+    return `${min}-${max}`.padStart(10);
+  }
+
+  /**
+   * Colour the final value: red for the raised stat, blue for the lowered one
+   */
+  private colorValue(
+    stat: StatKey,
+    state: StatCalculatorState,
+    legacy: boolean,
+    text: string,
+  ): string {
+    if (legacy) return `{bold}${text}{/bold}`;
+    if (state.nature.increased === stat) return `{#FF6060-fg}${text}{/}`;
+    if (state.nature.decreased === stat) return `{#6090FF-fg}${text}{/}`;
+    return `{bold}${text}{/bold}`;
+  }
+
+  private isSelected(
+    field: CalculatorField,
+    selected?: CalculatorField,
+  ): boolean {
+    if (!selected || selected.kind !== field.kind) return false;
+    if (!("stat" in field) || !("stat" in selected)) return true;
+    return field.stat === selected.stat;
+  }
+}
@@ -1,9 +1,18 @@
 import type blessed from "blessed";
 import { theme, colors } from "../theme.js";
 import type { PokemonDisplay } from "../../models/pokemon.js";
-import { pokemonRepository } from "../../repositories/PokemonRepository.js";
+import { getPokemonRepository } from "../../repositories/repositoryProvider.js";
 import { generationService } from "../../services/generationService.js";
 import { GEN1_SPECIAL_STATS } from "../../constants/gen1Stats.js";
+import {
+  applyHistoricalStatChanges,
+  getStatChangeGenerations,
+} from "../../constants/statChanges.js";
+
+/**
+ * Width of the "changed in Gen N" marker after a bar, e.g. " Gen 6*"
+ */
+const CHANGE_MARKER_WIDTH = 7;
 
 /**
  * Presenter for rendering Pokemon stats
@@ -44,7 +53,6 @@ export class StatPresenter {
     pokemon: PokemonDisplay,
     widget?: blessed.Widgets.BoxElement,
   ): string[] {
-    const stats = pokemon.stats;
     const evYield = pokemon.evYield;
 
     const lines: string[] = [];
@@ -53,16 +61,38 @@ export class StatPresenter {
     lines.push(`{${colors.pokemonYellow}-fg}{bold}Base Stats{/bold}{/}`);
     lines.push("");
 
-    // Calculate available width for dynamic bar sizing
-    const availableWidth = this.calculateAvailableWidth(widget);
-
     // Get effective generation for stat display
     const sessionGeneration = generationService.getSessionGeneration();
     const effectiveGeneration = Math.max(sessionGeneration, pokemon.generation);
 
+    // Base stats as of that generation, and the stats changed in another
+    const stats = applyHistoricalStatChanges(
+      pokemon.id,
+      pokemon.name,
+      pokemon.stats,
+      effectiveGeneration,
+    );
+    const changes = getStatChangeGenerations(
+      pokemon.id,
+      pokemon.name,
+      effectiveGeneration,
+    );
+
+    // Calculate available width for dynamic bar sizing, keeping room for
+    // the change markers so all bars still end at the same point
+    const availableWidth =
+      this.calculateAvailableWidth(widget) -
+      (Object.keys(changes).length > 0 ? CHANGE_MARKER_WIDTH : 0);
+
     // Stats with bars
     lines.push(
-      ...this.createStatBar("HP", stats.hp, evYield.hp, availableWidth),
+      ...this.createStatBar(
+        "HP",
+        stats.hp,
+        evYield.hp,
+        availableWidth,
+        changes.hp,
+      ),
     );
     lines.push(
       ...this.createStatBar(
@@ -70,6 +100,7 @@ export class StatPresenter {
         stats.attack,
         evYield.attack,
         availableWidth,
+        changes.attack,
       ),
     );
     lines.push(
@@ -78,6 +109,7 @@ export class StatPresenter {
         stats.defense,
         evYield.defense,
         availableWidth,
+        changes.defense,
       ),
     );
 
@@ -100,6 +132,7 @@ export class StatPresenter {
           stats.specialAttack,
           evYield.specialAttack,
           availableWidth,
+          changes.specialAttack,
         ),
       );
       lines.push(
@@ -108,6 +141,7 @@ export class StatPresenter {
           stats.specialDefense,
           evYield.specialDefense,
           availableWidth,
+          changes.specialDefense,
         ),
       );
     }
@@ -118,6 +152,7 @@ export class StatPresenter {
         stats.speed,
         evYield.speed,
         availableWidth,
+        changes.speed,
       ),
     );
 
@@ -125,6 +160,9 @@ export class StatPresenter {
     const total = Object.values(stats).reduce((sum, val) => sum + val, 0);
     lines.push("");
     lines.push(`{bold}Total:{/bold} ${total}`);
+    if (Object.keys(changes).length > 0) {
+      lines.push("{gray-fg}Gen N*: base stat changed in Gen N{/}");
+    }
 
     return lines;
   }
@@ -150,7 +188,7 @@ export class StatPresenter {
 
     // Fetch ability details for all abilities
     for (const ability of pokemon.abilities) {
-      const details = await pokemonRepository.getAbilityDetails(ability.name);
+      const details = await getPokemonRepository().getAbilityDetails(ability.name);
       details.isHidden = ability.isHidden;
 
       // Filter out abilities introduced after the effective generation
@@ -200,12 +238,16 @@ export class StatPresenter {
 
   /**
    * Create a single stat bar with EV yield
+   *
+   * @param changeGeneration - Generation the stat changed in, shown after
+   * the bar
    */
   private createStatBar(
     name: string,
     value: number,
     ev: number,
     availableWidth: number,
+    changeGeneration?: number,
   ): string[] {
     // Calculate dynamic bar width based on available space
     // Format: "{bold}NAME      {/} +EV VALUE █████░░░░░"
@@ -248,8 +290,12 @@ export class StatPresenter {
       evSection = " ".repeat(evReservedSpace);
     }
 
+    const marker = changeGeneration
+      ? ` {gray-fg}Gen ${changeGeneration}*{/}`
+      : "";
+
     return [
-      `{bold}${name.padEnd(10)}{/bold}${evSection}${value.toString().padStart(3)} ${bar}`,
+      `{bold}${name.padEnd(10)}{/bold}${evSection}${value.toString().padStart(3)} ${bar}${marker}`,
     ];
   }
 
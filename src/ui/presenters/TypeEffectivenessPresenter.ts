@@ -0,0 +1,154 @@
+import { colors, getTypeColor } from "../theme.js";
+import type {
+  TypeEffectiveness,
+  AbilityMatchup,
+} from "../../constants/typeChart.js";
+
+/**
+ * Multipliers shown as matrix rows, strongest first
+ */
+const MULTIPLIER_ROWS = [4, 2, 0.5, 0.25, 0];
+
+/**
+ * Presenter for rendering defensive type matchups
+ */
+export class TypeEffectivenessPresenter {
+  /**
+   * Format a multiplier as 4x / 2x / 1x / ½x / ¼x / 0x
+   */
+  formatMultiplier(multiplier: number): string {
+    if (multiplier === 0.5) return "½x";
+    if (multiplier === 0.25) return "¼x";
+    return `${Number(multiplier.toFixed(2))}x`;
+  }
+
+  /**
+   * Render the matchup matrix: one row per multiplier with the attacking
+   * types that deal it, one row per matchup-changing ability, and the
+   * full attacking type chart
+   */
+  render(
+    effectiveness: TypeEffectiveness,
+    abilityMatchups: AbilityMatchup[] = [],
+  ): string[] {
+    const lines: string[] = [];
+    const defending = effectiveness.defendingTypes
+      .map((type) => this.formatType(type))
+      .join(" / ");
+
+    lines.push(`{${colors.pokemonYellow}-fg}{bold}Damage Taken{/bold}{/}`);
+    lines.push(
+      `${defending} {gray-fg}(Gen ${effectiveness.generation} type chart){/}`,
+    );
+    lines.push("");
+
+    for (const multiplier of MULTIPLIER_ROWS) {
+      const types = Object.keys(effectiveness.multipliers).filter(
+        (type) => effectiveness.multipliers[type] === multiplier,
+      );
+      const label = this.colorMultiplier(
+        multiplier,
+        this.formatMultiplier(multiplier).padEnd(3),
+      );
+      const value = types.length
+        ? types.map((type) => this.formatType(type)).join(" ")
+        : "{gray-fg}-{/}";
+      lines.push(`{bold}${label}{/bold}  ${value}`);
+    }
+
+    if (abilityMatchups.length > 0) {
+      lines.push("");
+      lines.push(`{${colors.pokemonYellow}-fg}{bold}With Abilities{/bold}{/}`);
+      lines.push(...this.renderAbilityMatchups(effectiveness, abilityMatchups));
+    }
+
+    lines.push("");
+    lines.push(
+      `{${colors.pokemonYellow}-fg}{bold}Attacking Type Chart{/bold}{/}`,
+    );
+    lines.push("");
+    lines.push(...this.renderChart(effectiveness));
+
+    return lines;
+  }
+
+  /**
+   * Render one row per ability listing the matchups it changes
+   * (e.g. "Levitate      0x GROUND")
+   */
+  private renderAbilityMatchups(
+    base: TypeEffectiveness,
+    abilityMatchups: AbilityMatchup[],
+  ): string[] {
+    return abilityMatchups.map(({ ability, isHidden, effectiveness }) => {
+      const name = ability
+        .split("-")
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(" ");
+      const label = `${name}${isHidden ? " (H)" : ""}`.padEnd(16);
+
+      // Group changed attacking types by their new multiplier
+      const changed = new Map<number, string[]>();
+      for (const [type, multiplier] of Object.entries(
+        effectiveness.multipliers,
+      )) {
+        if (multiplier !== base.multipliers[type]) {
+          changed.set(multiplier, [...(changed.get(multiplier) ?? []), type]);
+        }
+      }
+
+      const groups = [...changed.entries()]
+        .sort(([a], [b]) => b - a)
+        .map(([multiplier, types]) => {
+          const value = this.colorMultiplier(
+            multiplier,
+            this.formatMultiplier(multiplier),
+          );
+          return `${value} ${types.map((t) => this.formatType(t)).join(" ")}`;
+        });
+
+      const changes = groups.join("  ") || "{gray-fg}no change{/}";
+      return `{bold}${label}{/bold}${changes}`;
+    });
+  }
+
+  /**
+   * Render every attacking type with its multiplier, three per line
+   */
+  private renderChart(effectiveness: TypeEffectiveness): string[] {
+    const cells = Object.entries(effectiveness.multipliers).map(
+      ([type, multiplier]) => {
+        const name = type.charAt(0).toUpperCase() + type.slice(1);
+        const padding = " ".repeat(Math.max(1, 9 - name.length));
+        const value = this.colorMultiplier(
+          multiplier,
+          this.formatMultiplier(multiplier).padEnd(3),
+        );
+        return `{${getTypeColor(type)}-fg}${name}{/}${padding}${value}`;
+      },
+    );
+
+    const lines: string[] = [];
+    for (let i = 0; i < cells.length; i += 3) {
+      lines.push(cells.slice(i, i + 3).join("   "));
+    }
+    return lines;
+  }
+
+  private formatType(type: string): string {
+    return `{${getTypeColor(type)}-fg}${type.toUpperCase()}{/}`;
+  }
+
+  /**
+   * Colour a multiplier: red/orange = weak, green = resists, grey = immune
+   */
+  private colorMultiplier(multiplier: number, text: string): string {
+    let color = "white";
+    if (multiplier >= 4) color = "#FF3030";
+    else if (multiplier > 1) color = "#F08030";
+    else if (multiplier === 0) color = "gray";
+    else if (multiplier <= 0.25) color = "#3FA34D";
+    else if (multiplier < 1) color = "#78C850";
+    return `{${color}-fg}${text}{/}`;
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { EvolutionPresenter } from '../EvolutionPresenter.js';
+import { transformPokemon } from '../../../models/pokemon.js';
+import {
+  mockPikachuPokemon,
+  mockEvolutionChain,
+} from '../../../../tests/fixtures/pokemon-data.js';
+import type {
+  ChainLink,
+  EvolutionChain,
+  EvolutionDetail,
+} from '../../../api/types.js';
+
+function detail(overrides: Partial<EvolutionDetail>): EvolutionDetail {
+  return {
+    ...mockEvolutionChain.chain.evolves_to[0].evolution_details[0],
+    min_happiness: null,
+    ...overrides,
+  };
+}
+
+function link(
+  species: string,
+  details: EvolutionDetail[],
+  evolvesTo: ChainLink[] = [],
+): ChainLink {
+  return {
+    is_baby: false,
+    species: { name: species, url: '' },
+    evolution_details: details,
+    evolves_to: evolvesTo,
+  };
+}
+
+function chainOf(root: ChainLink): EvolutionChain {
+  return { id: 1, baby_trigger_item: null, chain: root };
+}
+
+const stone = (name: string) =>
+  detail({
+    item: { name, url: '' },
+    trigger: { name: 'use-item', url: '' },
+  });
+const level = (minLevel: number) => detail({ min_level: minLevel });
+const tyrogue = (relativeStats: number) =>
+  detail({ min_level: 20, relative_physical_stats: relativeStats });
+
+/**
+ * Strip blessed tags so assertions can match plain text
+ */
+function plain(lines: string[]): string[] {
+  return lines.map((line) => line.replace(/\{[^}]*\}/g, ''));
+}
+
+describe('EvolutionPresenter', () => {
+  const presenter = new EvolutionPresenter();
+
+  it('should keep the vertical layout for linear chains', async () => {
+    const pikachu = transformPokemon(mockPikachuPokemon);
+    const lines = await presenter.renderEvolutionChain(
+      pikachu,
+      mockEvolutionChain,
+    );
+
+    expect(plain(lines).filter(Boolean)).toEqual([
+      'Pichu',
+      '↓',
+      'Happiness 220+',
+      '↓',
+      'Pikachu',
+      '↓',
+      'Thunder Stone',
+      '↓',
+      'Raichu',
+    ]);
+  });
+
+  it('should draw every branch of a branching chain', async () => {
+    const eevee = chainOf(
+      link(
+        'eevee',
+        [],
+        [
+          link('vaporeon', [stone('water-stone')]),
+          link('jolteon', [stone('thunder-stone')]),
+          link('flareon', [stone('fire-stone')]),
+        ],
+      ),
+    );
+    const pokemon = {
+      ...transformPokemon(mockPikachuPokemon),
+      name: 'jolteon',
+    };
+
+    const lines = await presenter.renderEvolutionChain(pokemon, eevee);
+
+    expect(plain(lines).filter(Boolean)).toEqual([
+      'Eevee',
+      '├─ Water Stone → Vaporeon',
+      '├─ Thunder Stone → Jolteon',
+      '└─ Fire Stone → Flareon',
+    ]);
+    expect(lines.find((line) => line.includes('Jolteon'))).toContain('{bold}');
+  });
+
+  it('should indent nested branches under their parent', async () => {
+    const wurmple = chainOf(
+      link(
+        'wurmple',
+        [],
+        [
+          link('silcoon', [level(7)], [link('beautifly', [level(10)])]),
+          link('cascoon', [level(7)], [link('dustox', [level(10)])]),
+        ],
+      ),
+    );
+
+    const lines = await presenter.renderEvolutionChain(
+      transformPokemon(mockPikachuPokemon),
+      wurmple,
+    );
+
+    expect(plain(lines).filter(Boolean)).toEqual([
+      'Wurmple',
+      '├─ Lv.7 → Silcoon',
+      '│  └─ Lv.10 → Beautifly',
+      '└─ Lv.7 → Cascoon',
+      '   └─ Lv.10 → Dustox',
+    ]);
+  });
+
+  it('should wrap methods that do not fit the width', async () => {
+    const chain = chainOf(
+      link(
+        'tyrogue',
+        [],
+        [
+          link('hitmonlee', [tyrogue(1)]),
+          link('hitmontop', [tyrogue(0)]),
+        ],
+      ),
+    );
+
+    const lines = await presenter.renderEvolutionChain(
+      transformPokemon(mockPikachuPokemon),
+      chain,
+      20,
+    );
+
+    expect(plain(lines).filter(Boolean)).toEqual([
+      'Tyrogue',
+      '├─ Hitmonlee',
+      '│    Lv.20 (ATK >',
+      '│    DEF)',
+      '└─ Hitmontop',
+      '     Lv.20 (ATK =',
+      '     DEF)',
+    ]);
+  });
+
+  it('should list alternative methods with their games', async () => {
+    const chain = chainOf(
+      link(
+        'eevee',
+        [],
+        [
+          link('leafeon', [
+            detail({
+              location: { name: 'eterna-forest', url: '' },
+              version_group: { name: 'platinum', url: '' },
+            }),
+            stone('leaf-stone'),
+          ]),
+          link('glaceon', [stone('ice-stone')]),
+        ],
+      ),
+    );
+
+    const lines = await presenter.renderEvolutionChain(
+      transformPokemon(mockPikachuPokemon),
+      chain,
+    );
+
+    expect(plain(lines).filter(Boolean)).toEqual([
+      'Eevee',
+      '├─ Leafeon',
+      '│    at Eterna Forest [Platinum]',
+      '│    or Leaf Stone',
+      '└─ Ice Stone → Glaceon',
+    ]);
+  });
+});
@@ -1,16 +1,23 @@
 import blessed from "blessed";
 import { getTypeColor, colors } from "../theme.js";
-import { pokemonRepository } from "../../repositories/PokemonRepository.js";
+import { getPokemonRepository } from "../../repositories/repositoryProvider.js";
 import { imageService } from "../../services/imageService.js";
 import { generationService } from "../../services/generationService.js";
+import { getVersionGroupDisplayName } from "../../constants/versionGroups.js";
+import { NotCachedError } from "../../api/pokeapi.js";
 import type { PokemonDisplay } from "../../models/pokemon.js";
 import type { IDetailSection } from "../components/sections/IDetailSection.js";
 import { SpriteSection } from "../components/sections/SpriteSection.js";
 import { StatsSection } from "../components/sections/StatsSection.js";
 import { OverviewSection } from "../components/sections/OverviewSection.js";
 import { MovesSection } from "../components/sections/MovesSection.js";
+import { TypeMatchupSection } from "../components/sections/TypeMatchupSection.js";
+import { FormsSection } from "../components/sections/FormsSection.js";
+import { BreedingSection } from "../components/sections/BreedingSection.js";
+import { StatCalculatorSection } from "../components/sections/StatCalculatorSection.js";
 import { TabbedPanel } from "../components/TabbedPanel.js";
 import { LoadingModal } from "../components/LoadingModal.js";
+import { SpriteGallery } from "../components/SpriteGallery.js";
 import type {
   LoadingPhase,
   LoadingStatus,
@@ -41,6 +48,7 @@ export class DetailScreen {
   private tabbedPanel!: TabbedPanel;
   private overviewSection!: OverviewSection;
   private spriteSection!: SpriteSection;
+  private spriteGallery: SpriteGallery;
   private onBackCallback?: () => void;
   private onEvolutionSelectCallback?: (pokemonName: string) => Promise<void>;
   private onFooterUpdateCallback?: () => void;
@@ -71,6 +79,9 @@ export class DetailScreen {
     // Initialize all sections
     this.initializeSections();
 
+    // Sprite gallery overlay (G)
+    this.spriteGallery = new SpriteGallery(this.screen);
+
     // Setup keyboard shortcuts
     this.setupHotkeys();
   }
@@ -78,7 +89,8 @@ export class DetailScreen {
   /**
    * Initialize all detail sections with 2-column layout
    * Left: Pokemon sprite (50%)
-   * Right: Tabbed panel with Overview/Stats/Moves (50%)
+   * Right: Tabbed panel with Overview/Stats/Moves/Types/Forms/Calc/Breeding
+   * (50%)
    */
   private initializeSections(): void {
     // Header for Pokemon name and types (spans full width)
@@ -153,6 +165,10 @@ export class DetailScreen {
     this.overviewSection = new OverviewSection(rightColumn);
     const statsSection = new StatsSection(rightColumn);
     const movesSection = new MovesSection(rightColumn);
+    const typeMatchupSection = new TypeMatchupSection(rightColumn);
+    const formsSection = new FormsSection(rightColumn);
+    const calculatorSection = new StatCalculatorSection(rightColumn);
+    const breedingSection = new BreedingSection(rightColumn);
 
     // Set status callback for all sections
     const statusCallback = this.updateLoadingStatus.bind(this);
@@ -160,11 +176,19 @@ export class DetailScreen {
     this.overviewSection.setStatusCallback(statusCallback);
     statsSection.setStatusCallback(statusCallback);
     movesSection.setStatusCallback(statusCallback);
+    typeMatchupSection.setStatusCallback(statusCallback);
+    formsSection.setStatusCallback(statusCallback);
+    calculatorSection.setStatusCallback(statusCallback);
+    breedingSection.setStatusCallback(statusCallback);
 
-    // Add tabs (1-3 shortcuts) - Evolution is now part of Overview
+    // Add tabs (1-7 shortcuts) - Evolution is now part of Overview
     this.tabbedPanel.addTab(this.overviewSection, "Overview", "1");
     this.tabbedPanel.addTab(statsSection, "Stats", "2");
     this.tabbedPanel.addTab(movesSection, "Moves", "3");
+    this.tabbedPanel.addTab(typeMatchupSection, "Types", "4");
+    this.tabbedPanel.addTab(formsSection, "Forms", "5");
+    this.tabbedPanel.addTab(calculatorSection, "Calc", "6");
+    this.tabbedPanel.addTab(breedingSection, "Breed", "7");
 
     // Only track sprite section (tabs are managed by TabbedPanel)
     this.sections = [this.spriteSection];
@@ -175,6 +199,12 @@ export class DetailScreen {
    */
   private setupHotkeys(): void {
     this.screen.key(["escape", "b"], () => {
+      // Close the gallery first, if it is open
+      if (this.spriteGallery.isVisible()) {
+        this.hideGallery();
+        return;
+      }
+
       if (this.isVisible() && this.onBackCallback) {
         this.onBackCallback();
       }
@@ -186,6 +216,52 @@ export class DetailScreen {
       }
     });
 
+    this.screen.key(["f"], () => {
+      if (this.isVisible()) {
+        this.cycleForm();
+      }
+    });
+
+    this.screen.key(["a"], async () => {
+      if (this.isVisible() && this.currentPokemon) {
+        // Cycle in-game sprite / official artwork / HOME
+        this.spriteSection.cycleSource();
+        await this.spriteSection.update(this.currentPokemon);
+        this.screen.render();
+      }
+    });
+
+    this.screen.key(["v"], async () => {
+      if (this.isVisible() && this.currentPokemon) {
+        // Cycle shiny / female / back variants
+        this.spriteSection.cycleVariant(this.currentPokemon);
+        await this.spriteSection.update(this.currentPokemon);
+        this.screen.render();
+      }
+    });
+
+    this.screen.key(["g"], async () => {
+      if (!this.isVisible() || !this.currentPokemon) {
+        return;
+      }
+
+      if (this.spriteGallery.isVisible()) {
+        this.hideGallery();
+      } else {
+        const { title, items } = this.spriteSection.getGalleryItems(
+          this.currentPokemon,
+        );
+        this.spriteSection.setSuspended(true);
+        await this.spriteGallery.show(title, items);
+      }
+    });
+
+    this.screen.key(["space"], () => {
+      if (this.isVisible()) {
+        this.spriteSection.toggleAnimationPaused();
+      }
+    });
+
     this.screen.key(["c"], async () => {
       if (this.isVisible() && this.currentPokemon) {
         // Cycle to next color space
@@ -274,7 +350,7 @@ export class DetailScreen {
     try {
       // Phase 1: Load Pokemon data
       this.updateLoadingStatus("pokemon", "loading");
-      const pokemon = await pokemonRepository.getPokemonDetails(name);
+      const pokemon = await getPokemonRepository().getPokemonDetails(name);
       this.updateLoadingStatus("pokemon", "complete");
 
       // Ignore stale results if a newer operation has started
@@ -339,9 +415,17 @@ export class DetailScreen {
     const sessionGeneration = generationService.getSessionGeneration();
     const effectiveGeneration = Math.max(sessionGeneration, pokemon.generation);
 
+    // Name the selected game when it applies to this Pokemon
+    const versionGroup = generationService.getEffectiveVersionGroup(
+      pokemon.generation,
+    );
+    const game = versionGroup
+      ? ` · ${getVersionGroupDisplayName(versionGroup)}`
+      : "";
+
     const name = `{${colors.pokemonYellow}-fg}{bold}${pokemon.displayName}{/bold}{/}`;
     const id = `{gray-fg}#${pokemon.id.toString().padStart(4, "0")}{/}`;
-    const gen = `{cyan-fg}(gen ${effectiveGeneration}){/}`;
+    const gen = `{cyan-fg}(gen ${effectiveGeneration}${game}){/}`;
     const content = `{center}${name} ${id} ${gen} ${types}{/center}`;
 
     const header = (this as any).header as blessed.Widgets.BoxElement;
@@ -377,6 +461,22 @@ export class DetailScreen {
     this.showEvolutionMenu(options);
   }
 
+  /**
+   * Switch to the species' next variety (default → Alolan → ... → default)
+   */
+  private async cycleForm(): Promise<void> {
+    const varieties = this.currentPokemon?.varieties ?? [];
+    if (varieties.length < 2) {
+      return;
+    }
+
+    const index = varieties.findIndex(
+      (v) => v.name === this.currentPokemon?.name,
+    );
+    const next = varieties[(index + 1) % varieties.length];
+    await this.showPokemon(next.name);
+  }
+
   /**
    * Show evolution selection menu
    */
@@ -410,10 +510,14 @@ export class DetailScreen {
       options.map((name) => name.charAt(0).toUpperCase() + name.slice(1)),
     );
 
+    // The menu may cover the sprite
+    this.spriteSection.setSuspended(true);
+
     menu.on("select", async (item) => {
       const selectedName = item.getText().toLowerCase();
       menu.detach();
       this.screen.render();
+      this.spriteSection.setSuspended(false);
 
       if (this.onEvolutionSelectCallback) {
         await this.onEvolutionSelectCallback(selectedName);
@@ -423,6 +527,7 @@ export class DetailScreen {
     menu.key(["escape"], () => {
       menu.detach();
       this.screen.render();
+      this.spriteSection.setSuspended(false);
     });
 
     menu.focus();
@@ -434,7 +539,11 @@ export class DetailScreen {
    */
   private displayError(error: Error): void {
     // Show error in first section (sprite area)
-    const errorContent = `{red-fg}Error loading Pokemon: ${error.message}{/}`;
+    const errorContent =
+      error instanceof NotCachedError
+        ? `{yellow-fg}Not cached: ${error.message}.{/}\n\nRun poclidex without --offline to download it.`
+        : `{red-fg}Error loading Pokemon: ${error.message}{/}`;
+    this.spriteSection.clearGraphics();
     this.sections[0].getWidget().setContent(errorContent);
     this.show();
   }
@@ -481,16 +590,46 @@ export class DetailScreen {
   show(): void {
     this.container.show();
     this.screen.render();
+    this.spriteSection.setSuspended(false);
   }
 
   /**
    * Hide the detail screen
    */
   hide(): void {
+    if (this.spriteGallery.isVisible()) {
+      this.spriteGallery.hide();
+    }
+    this.spriteSection.setSuspended(true);
     this.container.hide();
     this.screen.render();
   }
 
+  /**
+   * Pause the sprite image and animation while an overlay such as the
+   * help panel covers the screen
+   */
+  setOverlayVisible(visible: boolean): void {
+    if (this.isVisible()) {
+      this.spriteSection.setSuspended(visible);
+    }
+  }
+
+  /**
+   * Turn animated sprites on or off
+   */
+  setAnimationEnabled(enabled: boolean): void {
+    this.spriteSection.setAnimationEnabled(enabled);
+  }
+
+  /**
+   * Close the sprite gallery and bring back the sprite image
+   */
+  private hideGallery(): void {
+    this.spriteGallery.hide();
+    this.spriteSection.setSuspended(false);
+  }
+
   /**
    * Check if detail screen is visible
    */
@@ -2,8 +2,23 @@ import blessed from "blessed";
 import { colors } from "../theme.js";
 import { SearchBox } from "../components/searchBox.js";
 import { PokemonList } from "../components/pokemonList.js";
+import {
+  FilterBar,
+  describeFilters,
+  type HomeFilters,
+} from "../components/filterBar.js";
 import { searchService } from "../../services/searchService.js";
-import { pokemonService } from "../../services/pokemonService.js";
+import { getPokemonRepository } from "../../repositories/repositoryProvider.js";
+import {
+  parseSearchQuery,
+  type ParsedSearchQuery,
+} from "../../utils/searchQuery.js";
+import type { PokemonListItem } from "../../api/types.js";
+
+/**
+ * Delay before running structured queries, which may fetch Pokemon data
+ */
+const QUERY_DEBOUNCE_MS = 250;
 
 export interface HomeScreenOptions {
   parent: blessed.Widgets.Node;
@@ -15,6 +30,11 @@ export class HomeScreen {
   private container: blessed.Widgets.BoxElement;
   private searchBox: SearchBox;
   private pokemonList: PokemonList;
+  private filterBar: FilterBar;
+  private loadedPokemon: PokemonListItem[] = [];
+  private searchSequence = 0;
+  private filterSequence = 0;
+  private queryTimer?: NodeJS.Timeout;
   private statusBar: blessed.Widgets.BoxElement;
   private screen: blessed.Widgets.Screen;
   private onPokemonSelectCallback?: (pokemonName: string) => Promise<void>;
@@ -47,12 +67,21 @@ export class HomeScreen {
       onSubmit: () => this.pokemonList.selectCurrent(),
     });
 
+    // Create filter bar
+    this.filterBar = new FilterBar({
+      parent: this.container,
+      screen: this.screen,
+      top: 3, // Right below search box
+      width: "100%",
+      onChange: (filters) => this.handleFilterChange(filters),
+    });
+
     // Create Pokemon list
     this.pokemonList = new PokemonList({
       parent: this.container,
-      top: 3, // Right below search box (no extra spacing)
+      top: 4, // Right below filter bar (no extra spacing)
       width: "100%",
-      height: "100%-4", // Full height minus search box and status bar
+      height: "100%-5", // Full height minus search box, filter bar and status bar
       onSelect: (pokemon) => this.handlePokemonSelect(pokemon.name),
     });
 
@@ -82,12 +111,13 @@ export class HomeScreen {
   private async initialize(): Promise<void> {
     try {
       // Load Pokemon list
-      const pokemonList = await pokemonService.loadPokemonList();
+      const pokemonList = await getPokemonRepository().getPokemonList();
 
       // Index for search
       searchService.indexPokemon(pokemonList);
 
       // Populate list
+      this.loadedPokemon = pokemonList;
       this.pokemonList.setData(pokemonList);
 
       // Update status
@@ -104,22 +134,110 @@ export class HomeScreen {
     }
   }
 
+  private async handleFilterChange(filters: HomeFilters): Promise<void> {
+    // Only the latest filter change may update the list
+    const sequence = ++this.filterSequence;
+    const description = describeFilters(filters);
+    this.updateStatus(
+      description ? `Filtering ${description} Pokemon...` : "Loading Pokemon...",
+    );
+    this.screen.render();
+
+    try {
+      const pokemonList = await getPokemonRepository().getPokemonList(filters);
+      if (sequence !== this.filterSequence) {
+        return;
+      }
+
+      searchService.indexPokemon(pokemonList);
+      this.loadedPokemon = pokemonList;
+      this.pokemonList.setData(pokemonList);
+
+      // Re-apply the current search on top of the new list
+      const query = this.searchBox.getValue();
+      if (query.trim() !== "") {
+        this.handleSearch(query);
+      } else {
+        this.updateStatus(
+          description
+            ? `Showing ${pokemonList.length} ${description} Pokemon.`
+            : `Showing all ${pokemonList.length} Pokemon.`,
+        );
+      }
+    } catch (error) {
+      if (sequence !== this.filterSequence) {
+        return;
+      }
+      this.updateStatus(`Error applying filters: ${error}`);
+    }
+    this.screen.render();
+  }
+
   private handleSearch(query: string): void {
-    if (!query || query.trim() === "") {
+    // Invalidate any structured query still in flight
+    const sequence = ++this.searchSequence;
+    clearTimeout(this.queryTimer);
+
+    const parsed = parseSearchQuery(query);
+    const problems = parsed.errors.length
+      ? ` {yellow-fg}(ignored: ${parsed.errors.join("; ")}){/}`
+      : "";
+
+    if (parsed.predicates.length > 0) {
+      this.updateStatus(`Searching "${query}"...${problems}`);
+      this.queryTimer = setTimeout(
+        () => this.runStructuredSearch(parsed, query, problems, sequence),
+        QUERY_DEBOUNCE_MS,
+      );
+    } else if (parsed.text === "") {
       // Show all Pokemon
-      this.pokemonList.filter([]);
+      this.pokemonList.showAll();
       this.updateStatus(
-        `Showing all ${this.pokemonList.total} Pokemon. Press Ctrl+S to search.`,
+        `Showing all ${this.pokemonList.total} Pokemon. Press Ctrl+S to search.${problems}`,
       );
     } else {
       // Filter by search results
-      const results = searchService.search(query, 50);
+      const results = searchService.search(parsed.text, 50);
       const names = results.map((r) => r.name);
       this.pokemonList.filter(names);
       this.updateStatus(
-        `Found ${this.pokemonList.count} Pokemon matching "${query}"`,
+        `Found ${this.pokemonList.count} Pokemon matching "${query}"${problems}`,
+      );
+    }
+  }
+
+  /**
+   * Run a query with structured predicates (type:, gen:, bst>, ...),
+   * fuzzy-matching any remaining text within the matches
+   */
+  private async runStructuredSearch(
+    parsed: ParsedSearchQuery,
+    query: string,
+    problems: string,
+    sequence: number,
+  ): Promise<void> {
+    try {
+      const matches = await getPokemonRepository().queryPokemon(
+        parsed.predicates,
+        this.loadedPokemon,
+      );
+      if (sequence !== this.searchSequence) {
+        return;
+      }
+
+      const limit = parsed.text ? 50 : matches.length;
+      const results = searchService.searchWithin(parsed.text, matches, limit);
+      this.pokemonList.showOnly(results.map((r) => r.name));
+      this.updateStatus(
+        `Found ${this.pokemonList.count} Pokemon matching "${query}"${problems}`,
       );
+    } catch (error) {
+      if (sequence !== this.searchSequence) {
+        return;
+      }
+      this.updateStatus(`Search failed: ${error}`);
     }
+    this.screen.render();
   }
 
   private async handlePokemonSelect(name: string): Promise<void> {
@@ -149,6 +267,13 @@ export class HomeScreen {
     return !this.container.hidden;
   }
 
+  /**
+   * Open or close the filter menu
+   */
+  toggleFilters(): void {
+    this.filterBar.toggle();
+  }
+
   focusSearch(): void {
     this.searchBox.clear();
     this.searchBox.focus();
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { renderImage, fitToCells, getPalette } from "./ansiRenderer.js";
+import type { RenderOptions } from "./ansiRenderer.js";
+import type { DecodedImage } from "./pngDecoder.js";
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const CLEAR = [0, 0, 0, 0];
+
+function createImage(width: number, pixels: number[][]): DecodedImage {
+  return {
+    width,
+    height: pixels.length / width,
+    data: Uint8Array.from(pixels.flat()),
+  };
+}
+
+const OPTIONS: RenderOptions = {
+  width: 10,
+  height: 10,
+  colorMode: "full",
+  ditherMode: "none",
+  symbolSet: "half",
+};
+
+/**
+ * Remove SGR sequences, keeping only the symbols
+ */
+function symbols(output: string): string {
+  return output.replace(/\x1b\[[0-9;]*m/g, "");
+}
+
+describe("ansiRenderer", () => {
+  describe("fitToCells", () => {
+    it("should keep the aspect ratio with cells twice as tall", () => {
+      expect(fitToCells({ width: 96, height: 96 }, 40, 40)).toEqual({
+        columns: 40,
+        rows: 20,
+      });
+      expect(fitToCells({ width: 96, height: 96 }, 70, 20)).toEqual({
+        columns: 40,
+        rows: 20,
+      });
+    });
+  });
+
+  describe("getPalette", () => {
+    it("should size palettes by color mode", () => {
+      expect(getPalette("full")).toBeUndefined();
+      expect(getPalette("8")).toHaveLength(8);
+      expect(getPalette("16")).toHaveLength(16);
+      expect(getPalette("256")).toHaveLength(256);
+    });
+  });
+
+  describe("renderImage", () => {
+    it("should draw half blocks with truecolor", () => {
+      // 1x2 image: red on top of blue fits one cell
+      const output = renderImage(createImage(1, [RED, BLUE]), {
+        ...OPTIONS,
+        width: 1,
+        height: 1,
+      });
+
+      expect(output).toBe("\x1b[38;2;255;0;0;48;2;0;0;255m▀\x1b[0m");
+    });
+
+    it("should leave transparent pixels on the terminal background", () => {
+      const output = renderImage(createImage(1, [CLEAR, RED]), {
+        ...OPTIONS,
+        width: 1,
+        height: 1,
+      });
+
+      expect(output).toBe("\x1b[38;2;255;0;0;49m▄\x1b[0m");
+    });
+
+    it("should blend transparency onto the background color", () => {
+      const output = renderImage(createImage(1, [CLEAR, CLEAR]), {
+        ...OPTIONS,
+        width: 1,
+        height: 1,
+        bgColor: "#B0D4FF",
+      });
+
+      expect(output).toContain("38;2;176;212;255");
+    });
+
+    it("should pick quadrant symbols for 2x2 cells", () => {
+      const output = renderImage(
+        createImage(2, [RED, BLUE, BLUE, RED]),
+        { ...OPTIONS, symbolSet: "quad", width: 1, height: 1 },
+      );
+
+      expect(["▚", "▞"]).toContain(symbols(output));
+    });
+
+    it("should use braille dots for the opaque pixels", () => {
+      const pixels = [RED, CLEAR, CLEAR, CLEAR, CLEAR, CLEAR, CLEAR, RED];
+      const output = renderImage(createImage(2, pixels), {
+        ...OPTIONS,
+        symbolSet: "braille",
+        width: 1,
+        height: 1,
+      });
+
+      // Dots 1 (top-left) and 8 (bottom-right)
+      expect(symbols(output)).toBe(String.fromCharCode(0x2800 + 0x81));
+    });
+
+    it("should use indexed colors in 16 color mode", () => {
+      const output = renderImage(createImage(1, [RED, BLUE]), {
+        ...OPTIONS,
+        colorMode: "16",
+        width: 1,
+        height: 1,
+      });
+
+      // Bright red foreground, blue background
+      expect(output).toBe("\x1b[91;44m▀\x1b[0m");
+    });
+
+    it("should only emit color codes when colors change", () => {
+      const output = renderImage(createImage(2, [RED, RED, RED, RED]), {
+        ...OPTIONS,
+        width: 2,
+        height: 1,
+      });
+
+      expect(output.match(/\x1b\[/g)).toHaveLength(2);
+      expect(symbols(output)).toBe("██");
+    });
+
+    it("should dither colors that fall between palette entries", () => {
+      const gray = (value: number) => [value, value, value, 255];
+      const pixels = Array.from({ length: 64 }, () => gray(128));
+      const render = (ditherMode: RenderOptions["ditherMode"]) =>
+        renderImage(createImage(8, pixels), {
+          ...OPTIONS,
+          colorMode: "8",
+          symbolSet: "ascii",
+          ditherMode,
+          width: 8,
+          height: 8,
+        });
+
+      // Mid-gray sits between palette colors: dithering mixes several
+      const colors = (output: string) =>
+        new Set(output.match(/\x1b\[[0-9;]*m/g)).size;
+      expect(colors(render("none"))).toBe(2);
+      expect(colors(render("ordered"))).toBeGreaterThan(2);
+      expect(colors(render("diffusion"))).toBeGreaterThan(2);
+    });
+  });
+});
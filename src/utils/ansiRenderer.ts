@@ -0,0 +1,517 @@
+import type { DecodedImage } from "./pngDecoder.js";
+import type {
+  ColorMode,
+  ColorSpace,
+  DitherMode,
+  SymbolSet,
+} from "../services/imageService.js";
+
+/**
+ * Built-in image to ANSI renderer, used when chafa is not installed
+ *
+ * The image is scaled to fit the requested size (terminal cells are about
+ * twice as tall as wide), reduced to the color mode's palette with the
+ * chosen dithering, then drawn with the symbol set: half blocks (1x2
+ * pixels per cell), quadrants (2x2, also used for "block"), braille dots
+ * (2x4) or an ASCII ramp (1x1).
+ */
+
+export interface RenderOptions {
+  width: number; // Maximum width in cells
+  height: number; // Maximum height in cells
+  colorMode: ColorMode;
+  colorSpace?: ColorSpace;
+  ditherMode: DitherMode;
+  symbolSet: SymbolSet;
+  bgColor?: string; // "#RRGGBB"; transparent pixels use the terminal's
+}
+
+type Rgb = [number, number, number];
+
+/**
+ * A pixel after scaling; `index` is its palette entry (palette modes only)
+ */
+interface Pixel {
+  rgb: Rgb;
+  opaque: boolean;
+  index?: number;
+}
+
+/**
+ * A terminal cell: a symbol with foreground and background colors
+ */
+interface Cell {
+  char: string;
+  fg?: Pixel;
+  bg?: Pixel;
+}
+
+const CELL_SIZES: Record<SymbolSet, [number, number]> = {
+  half: [1, 2],
+  quad: [2, 2],
+  block: [2, 2],
+  braille: [2, 4],
+  ascii: [1, 1],
+};
+
+/**
+ * Quadrant characters indexed by mask (1 top-left, 2 top-right,
+ * 4 bottom-left, 8 bottom-right)
+ */
+const QUADRANTS = " ▘▝▀▖▌▞▛▗▚▐▜▄▙▟█";
+
+/**
+ * Braille dot bits for a 2x4 cell, indexed by [y][x]
+ */
+const BRAILLE_BITS = [
+  [0x01, 0x08],
+  [0x02, 0x10],
+  [0x04, 0x20],
+  [0x40, 0x80],
+];
+
+const ASCII_RAMP = " .:-=+*#%@";
+
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+/**
+ * Standard xterm colors 0-15
+ */
+const ANSI_16: Rgb[] = [
+  [0, 0, 0],
+  [205, 0, 0],
+  [0, 205, 0],
+  [205, 205, 0],
+  [0, 0, 238],
+  [205, 0, 205],
+  [0, 205, 205],
+  [229, 229, 229],
+  [127, 127, 127],
+  [255, 0, 0],
+  [0, 255, 0],
+  [255, 255, 0],
+  [92, 92, 255],
+  [255, 0, 255],
+  [0, 255, 255],
+  [255, 255, 255],
+];
+
+/**
+ * Palette for a color mode (undefined for truecolor)
+ */
+export function getPalette(colorMode: ColorMode): Rgb[] | undefined {
+  if (colorMode === "8") return ANSI_16.slice(0, 8);
+  if (colorMode === "16") return ANSI_16;
+  if (colorMode === "full") return undefined;
+
+  const levels = [0, 95, 135, 175, 215, 255];
+  const palette = [...ANSI_16];
+  for (const r of levels) {
+    for (const g of levels) {
+      for (const b of levels) {
+        palette.push([r, g, b]);
+      }
+    }
+  }
+  for (let i = 0; i < 24; i++) {
+    const gray = 8 + i * 10;
+    palette.push([gray, gray, gray]);
+  }
+  return palette;
+}
+
+/**
+ * Render a decoded image as ANSI-colored text
+ */
+export function renderImage(
+  image: DecodedImage,
+  options: RenderOptions,
+): string {
+  const [cellWidth, cellHeight] = CELL_SIZES[options.symbolSet];
+  const { columns, rows } = fitToCells(image, options.width, options.height);
+  const palette = getPalette(options.colorMode);
+  const distance =
+    options.colorSpace === "din99d" ? perceptualDistance : rgbDistance;
+
+  const pixels = samplePixels(
+    image,
+    columns * cellWidth,
+    rows * cellHeight,
+    options.bgColor ? parseHex(options.bgColor) : undefined,
+  );
+  if (palette) {
+    quantize(pixels, palette, options.ditherMode, distance);
+  }
+
+  const lines: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    const cells: Cell[] = [];
+    for (let column = 0; column < columns; column++) {
+      const block: Pixel[] = [];
+      for (let y = 0; y < cellHeight; y++) {
+        for (let x = 0; x < cellWidth; x++) {
+          block.push(pixels[row * cellHeight + y][column * cellWidth + x]);
+        }
+      }
+      cells.push(
+        renderCell(block, options.symbolSet, (rgb) =>
+          toPixel(rgb, palette, distance),
+        ),
+      );
+    }
+    lines.push(encodeLine(cells, palette !== undefined));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Largest cell grid that fits the image, keeping its aspect ratio
+ */
+export function fitToCells(
+  image: { width: number; height: number },
+  maxColumns: number,
+  maxRows: number,
+): { columns: number; rows: number } {
+  // A cell is roughly one unit wide and two units tall
+  const scale = Math.min(
+    maxColumns / image.width,
+    (maxRows * 2) / image.height,
+  );
+  return {
+    columns: clamp(Math.round(image.width * scale), 1, maxColumns),
+    rows: clamp(Math.round((image.height * scale) / 2), 1, maxRows),
+  };
+}
+
+/**
+ * Resample the image to a pixel grid, averaging the covered source pixels
+ */
+function samplePixels(
+  image: DecodedImage,
+  width: number,
+  height: number,
+  background?: Rgb,
+): Pixel[][] {
+  const grid: Pixel[][] = [];
+
+  for (let gy = 0; gy < height; gy++) {
+    const y0 = Math.floor((gy * image.height) / height);
+    const y1 = Math.max(
+      y0 + 1,
+      Math.floor(((gy + 1) * image.height) / height),
+    );
+    const line: Pixel[] = [];
+
+    for (let gx = 0; gx < width; gx++) {
+      const x0 = Math.floor((gx * image.width) / width);
+      const x1 = Math.max(
+        x0 + 1,
+        Math.floor(((gx + 1) * image.width) / width),
+      );
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let alpha = 0;
+      let count = 0;
+
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * image.width + x) * 4;
+          const a = image.data[i + 3] / 255;
+          r += image.data[i] * a;
+          g += image.data[i + 1] * a;
+          b += image.data[i + 2] * a;
+          alpha += a;
+          count++;
+        }
+      }
+
+      const coverage = alpha / count;
+      const color: Rgb =
+        alpha > 0 ? [r / alpha, g / alpha, b / alpha] : [0, 0, 0];
+
+      if (background) {
+        // Blend onto the background so edges stay smooth
+        line.push({
+          rgb: color.map((c, i) =>
+            Math.round(c * coverage + background[i] * (1 - coverage)),
+          ) as Rgb,
+          opaque: true,
+        });
+      } else {
+        line.push({
+          rgb: color.map(Math.round) as Rgb,
+          opaque: coverage >= 0.5,
+        });
+      }
+    }
+
+    grid.push(line);
+  }
+
+  return grid;
+}
+
+/**
+ * Reduce opaque pixels to palette colors, in place
+ */
+function quantize(
+  pixels: Pixel[][],
+  palette: Rgb[],
+  ditherMode: DitherMode,
+  distance: (a: Rgb, b: Rgb) => number,
+): void {
+  // Spread of the ordered dither, roughly the gap between palette colors
+  const spread = palette.length > 16 ? 40 : 128;
+
+  pixels.forEach((line, y) => {
+    line.forEach((pixel, x) => {
+      if (!pixel.opaque) return;
+
+      let target = pixel.rgb;
+      if (ditherMode === "ordered") {
+        const offset = (BAYER_4X4[y % 4][x % 4] / 16 - 0.5) * spread;
+        target = target.map((c) => clamp(c + offset, 0, 255)) as Rgb;
+      }
+
+      const index = nearest(target, palette, distance);
+      const error = pixel.rgb.map((c, i) => c - palette[index][i]);
+      pixel.rgb = palette[index];
+      pixel.index = index;
+
+      if (ditherMode === "diffusion") {
+        // Floyd-Steinberg: push the error to unvisited neighbours
+        diffuse(pixels, x + 1, y, error, 7 / 16);
+        diffuse(pixels, x - 1, y + 1, error, 3 / 16);
+        diffuse(pixels, x, y + 1, error, 5 / 16);
+        diffuse(pixels, x + 1, y + 1, error, 1 / 16);
+      }
+    });
+  });
+}
+
+function diffuse(
+  pixels: Pixel[][],
+  x: number,
+  y: number,
+  error: number[],
+  weight: number,
+): void {
+  const pixel = pixels[y]?.[x];
+  if (pixel?.opaque) {
+    pixel.rgb = pixel.rgb.map((c, i) =>
+      clamp(c + error[i] * weight, 0, 255),
+    ) as Rgb;
+  }
+}
+
+/**
+ * Pick the symbol and colors that best reproduce a cell's pixels
+ */
+function renderCell(
+  block: Pixel[],
+  symbolSet: SymbolSet,
+  toPixel: (rgb: Rgb) => Pixel,
+): Cell {
+  const opaque = block.filter((p) => p.opaque);
+  if (opaque.length === 0) {
+    return { char: " " };
+  }
+
+  if (symbolSet === "ascii") {
+    const [r, g, b] = block[0].rgb;
+    const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+    const index = Math.round(luminance * (ASCII_RAMP.length - 2)) + 1;
+    return { char: ASCII_RAMP[index], fg: block[0] };
+  }
+
+  // Split into foreground (set bits) and background pixels
+  const mask = splitCell(block);
+  const foreground = block.filter((_, i) => mask[i]);
+  const background = block.filter((_, i) => !mask[i]);
+  const fg = foreground.length ? toPixel(average(foreground)) : undefined;
+  const bg =
+    background.length && background.every((p) => p.opaque)
+      ? toPixel(average(background))
+      : undefined;
+
+  let bits = 0;
+  mask.forEach((set, i) => {
+    if (!set) return;
+    if (symbolSet === "braille") {
+      bits |= BRAILLE_BITS[Math.floor(i / 2)][i % 2];
+    } else if (symbolSet === "half") {
+      bits |= i === 0 ? 0b0011 : 0b1100;
+    } else {
+      bits |= 1 << i;
+    }
+  });
+
+  if (symbolSet === "braille") {
+    // A uniform cell reads better as a solid background than full dots
+    return bits === 0xff
+      ? { char: " ", bg: fg }
+      : { char: String.fromCharCode(0x2800 + bits), fg, bg };
+  }
+
+  return { char: QUADRANTS[bits], fg, bg };
+}
+
+/**
+ * Choose which pixels of a cell are drawn in the foreground color
+ *
+ * With transparent pixels the opaque ones are the foreground. Otherwise
+ * the pixels are split into the two groups with the lowest total color
+ * error (by luminance for braille, exhaustively for smaller cells).
+ */
+function splitCell(block: Pixel[]): boolean[] {
+  if (block.some((p) => !p.opaque)) {
+    return block.map((p) => p.opaque);
+  }
+
+  if (block.length > 4) {
+    const luminance = block.map(({ rgb: [r, g, b] }) => r * 3 + g * 6 + b);
+    const mean = luminance.reduce((sum, l) => sum + l, 0) / block.length;
+    const mask = luminance.map((l) => l > mean);
+    return mask.some(Boolean) ? mask : block.map(() => true);
+  }
+
+  // Start from a solid cell so uniform cells stay full blocks
+  let best = block.map(() => true);
+  let bestError = splitError(block, best);
+  const combinations = 1 << block.length;
+
+  for (let bits = 1; bits < combinations - 1; bits++) {
+    const mask = block.map((_, i) => (bits & (1 << i)) !== 0);
+    const error = splitError(block, mask);
+    if (error < bestError) {
+      best = mask;
+      bestError = error;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Total distance of each pixel to the mean color of its group
+ */
+function splitError(block: Pixel[], mask: boolean[]): number {
+  const groups = [
+    block.filter((_, i) => mask[i]),
+    block.filter((_, i) => !mask[i]),
+  ];
+  return groups.reduce((sum, group) => {
+    if (group.length === 0) return sum;
+    const mean = average(group);
+    return sum + group.reduce((s, p) => s + rgbDistance(p.rgb, mean), 0);
+  }, 0);
+}
+
+/**
+ * Encode cells as text with SGR color codes, only emitting changes
+ */
+function encodeLine(cells: Cell[], indexed: boolean): string {
+  let output = "";
+  let currentFg = "";
+  let currentBg = "";
+
+  for (const cell of cells) {
+    const fg = cell.fg ? sgrColor(cell.fg, indexed, false) : "39";
+    const bg = cell.bg ? sgrColor(cell.bg, indexed, true) : "49";
+    if (fg !== currentFg || bg !== currentBg) {
+      output += `\x1b[${fg};${bg}m`;
+      currentFg = fg;
+      currentBg = bg;
+    }
+    output += cell.char;
+  }
+
+  return `${output}\x1b[0m`;
+}
+
+function sgrColor(pixel: Pixel, indexed: boolean, background: boolean): string {
+  const index = pixel.index;
+  if (!indexed || index === undefined) {
+    return `${background ? 48 : 38};2;${pixel.rgb.join(";")}`;
+  }
+  if (index < 8) {
+    return String((background ? 40 : 30) + index);
+  }
+  if (index < 16) {
+    return String((background ? 100 : 90) + index - 8);
+  }
+  return `${background ? 48 : 38};5;${index}`;
+}
+
+function toPixel(
+  rgb: Rgb,
+  palette: Rgb[] | undefined,
+  distance: (a: Rgb, b: Rgb) => number,
+): Pixel {
+  if (!palette) {
+    return { rgb: rgb.map(Math.round) as Rgb, opaque: true };
+  }
+  const index = nearest(rgb, palette, distance);
+  return { rgb: palette[index], opaque: true, index };
+}
+
+function nearest(
+  rgb: Rgb,
+  palette: Rgb[],
+  distance: (a: Rgb, b: Rgb) => number,
+): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((color, index) => {
+    const d = distance(rgb, color);
+    if (d < bestDistance) {
+      best = index;
+      bestDistance = d;
+    }
+  });
+  return best;
+}
+
+function average(pixels: Pixel[]): Rgb {
+  const sum = [0, 0, 0];
+  for (const { rgb } of pixels) {
+    sum[0] += rgb[0];
+    sum[1] += rgb[1];
+    sum[2] += rgb[2];
+  }
+  return sum.map((c) => c / pixels.length) as Rgb;
+}
+
+function rgbDistance(a: Rgb, b: Rgb): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+/**
+ * Weighted "redmean" distance, a cheap stand-in for chafa's DIN99d
+ */
+function perceptualDistance(a: Rgb, b: Rgb): number {
+  const redMean = (a[0] + b[0]) / 2;
+  return (
+    (2 + redMean / 256) * (a[0] - b[0]) ** 2 +
+    4 * (a[1] - b[1]) ** 2 +
+    (2 + (255 - redMean) / 256) * (a[2] - b[2]) ** 2
+  );
+}
+
+function parseHex(color: string): Rgb | undefined {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  return match
+    ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)]
+    : undefined;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
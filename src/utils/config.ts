@@ -0,0 +1,45 @@
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+/**
+ * User configuration read from the poclidex config file
+ */
+export interface PoclidexConfig {
+  /**
+   * Directory containing a PokeAPI api-data JSON dump to read instead of the API
+   */
+  dataDir?: string;
+
+  /**
+   * Play animated sprites (default true)
+   */
+  animateSprites?: boolean;
+}
+
+/**
+ * Resolve the poclidex config directory, following the XDG Base Directory spec
+ */
+export function getConfigDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(base, "poclidex");
+}
+
+/**
+ * Get the path of the config file
+ */
+export function getConfigPath(): string {
+  return join(getConfigDir(), "config.json");
+}
+
+/**
+ * Load the user config, returning an empty config if missing or invalid
+ */
+export function loadConfig(path: string = getConfigPath()): PoclidexConfig {
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8"));
+    return typeof parsed === "object" && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
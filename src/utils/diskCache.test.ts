@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, readFile, writeFile, mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DiskCache, DISK_CACHE_VERSION, getCacheDir } from "./diskCache.js";
+
+describe("DiskCache", () => {
+  let dir: string;
+  let cache: DiskCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "poclidex-disk-cache-"));
+    cache = new DiskCache(dir, 1000);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("basic operations", () => {
+    it("should store and retrieve values", async () => {
+      await cache.set("pokemon", "pikachu", { id: 25, name: "pikachu" });
+
+      expect(await cache.get("pokemon", "pikachu")).toEqual({
+        id: 25,
+        name: "pikachu",
+      });
+    });
+
+    it("should return undefined for missing entries", async () => {
+      expect(await cache.get("pokemon", "missingno")).toBeUndefined();
+    });
+
+    it("should keep namespaces separate", async () => {
+      await cache.set("pokemon", "25", "pokemon data");
+      await cache.set("pokemon-species", "25", "species data");
+
+      expect(await cache.get("pokemon", "25")).toBe("pokemon data");
+      expect(await cache.get("pokemon-species", "25")).toBe("species data");
+    });
+
+    it("should treat keys case-insensitively", async () => {
+      await cache.set("pokemon", "Pikachu", 25);
+
+      expect(await cache.get("pokemon", "pikachu")).toBe(25);
+    });
+
+    it("should not allow keys to escape the cache directory", async () => {
+      await cache.set("pokemon", "../../escape", 1);
+
+      const raw = await readFile(
+        join(dir, "pokemon", "______escape.json"),
+        "utf-8",
+      );
+      expect(JSON.parse(raw).data).toBe(1);
+    });
+
+    it("should clear all entries", async () => {
+      await cache.set("pokemon", "pikachu", 25);
+      await cache.clear();
+
+      expect(await cache.get("pokemon", "pikachu")).toBeUndefined();
+    });
+  });
+
+  describe("TTL", () => {
+    it("should expire entries older than the TTL", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+      await cache.set("pokemon", "pikachu", 25);
+
+      vi.setSystemTime(new Date("2025-01-01T00:00:02Z"));
+
+      expect(await cache.get("pokemon", "pikachu")).toBeUndefined();
+    });
+
+    it("should return expired entries when ignoring the TTL", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+      await cache.set("pokemon", "pikachu", 25);
+
+      vi.setSystemTime(new Date("2025-01-01T00:00:02Z"));
+
+      expect(
+        await cache.get("pokemon", "pikachu", { ignoreTtl: true }),
+      ).toBe(25);
+    });
+  });
+
+  describe("versioning", () => {
+    it("should ignore entries written by another cache version", async () => {
+      await mkdir(join(dir, "pokemon"), { recursive: true });
+      await writeFile(
+        join(dir, "pokemon", "pikachu.json"),
+        JSON.stringify({
+          version: DISK_CACHE_VERSION + 1,
+          storedAt: Date.now(),
+          data: 25,
+        }),
+      );
+
+      expect(
+        await cache.get("pokemon", "pikachu", { ignoreTtl: true }),
+      ).toBeUndefined();
+    });
+
+    it("should ignore corrupted entries", async () => {
+      await mkdir(join(dir, "pokemon"), { recursive: true });
+      await writeFile(join(dir, "pokemon", "pikachu.json"), "{not json");
+
+      expect(await cache.get("pokemon", "pikachu")).toBeUndefined();
+    });
+  });
+
+  describe("getCacheDir", () => {
+    const originalXdg = process.env.XDG_CACHE_HOME;
+
+    afterEach(() => {
+      if (originalXdg === undefined) {
+        delete process.env.XDG_CACHE_HOME;
+      } else {
+        process.env.XDG_CACHE_HOME = originalXdg;
+      }
+    });
+
+    it("should use XDG_CACHE_HOME when set", () => {
+      process.env.XDG_CACHE_HOME = "/tmp/xdg-cache";
+
+      expect(getCacheDir()).toBe(join("/tmp/xdg-cache", "poclidex"));
+    });
+
+    it("should fall back to ~/.cache when XDG_CACHE_HOME is unset", () => {
+      delete process.env.XDG_CACHE_HOME;
+
+      expect(getCacheDir()).toMatch(/\.cache[\\/]poclidex$/);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { readFile, writeFile, mkdir, rm, utimes } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+
+/**
+ * Bump whenever the shape of stored entries changes.
+ * Entries written with a different version are treated as cache misses.
+ */
+export const DISK_CACHE_VERSION = 1;
+
+/**
+ * Default time-to-live for cached API responses (7 days)
+ */
+export const DEFAULT_DISK_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Envelope stored on disk around each cached value
+ */
+interface DiskCacheEntry<T> {
+  version: number;
+  storedAt: number;
+  data: T;
+}
+
+export interface DiskCacheGetOptions {
+  /**
+   * Return entries even if they are older than the TTL (used in offline mode)
+   */
+  ignoreTtl?: boolean;
+}
+
+/**
+ * Resolve the poclidex cache directory, following the XDG Base Directory spec
+ */
+export function getCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "poclidex");
+}
+
+/**
+ * Resolve the poclidex data directory, following the XDG Base Directory spec
+ */
+export function getDataDir(): string {
+  const base = process.env.XDG_DATA_HOME || join(homedir(), ".local", "share");
+  return join(base, "poclidex");
+}
+
+/**
+ * Persistent JSON cache stored as one file per entry
+ *
+ * Layout: <dir>/<namespace>/<key>.json
+ * Write failures are swallowed so a read-only disk never breaks the app.
+ */
+export class DiskCache {
+  private dir: string;
+  private ttl: number;
+
+  constructor(
+    dir: string = join(getCacheDir(), "api"),
+    ttl: number = DEFAULT_DISK_CACHE_TTL,
+  ) {
+    this.dir = dir;
+    this.ttl = ttl;
+  }
+
+  /**
+   * Read a cached value, or undefined if missing, expired or from another version
+   */
+  async get<T>(
+    namespace: string,
+    key: string,
+    options: DiskCacheGetOptions = {},
+  ): Promise<T | undefined> {
+    let entry: DiskCacheEntry<T>;
+    try {
+      const raw = await readFile(this.entryPath(namespace, key), "utf-8");
+      entry = JSON.parse(raw) as DiskCacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+
+    if (entry.version !== DISK_CACHE_VERSION) {
+      return undefined;
+    }
+
+    if (!options.ignoreTtl && Date.now() - entry.storedAt > this.ttl) {
+      return undefined;
+    }
+
+    return entry.data;
+  }
+
+  /**
+   * Store a value on disk
+   */
+  async set<T>(namespace: string, key: string, data: T): Promise<void> {
+    const entry: DiskCacheEntry<T> = {
+      version: DISK_CACHE_VERSION,
+      storedAt: Date.now(),
+      data,
+    };
+
+    try {
+      await mkdir(join(this.dir, this.sanitize(namespace)), {
+        recursive: true,
+      });
+      await writeFile(this.entryPath(namespace, key), JSON.stringify(entry));
+    } catch {
+      // Ignore write errors (read-only filesystem, disk full, etc.)
+    }
+  }
+
+  /**
+   * Mark an entry as just used, so size-based pruning keeps it longer
+   */
+  async touch(namespace: string, key: string): Promise<void> {
+    const now = new Date();
+    await utimes(this.entryPath(namespace, key), now, now).catch(
+      () => undefined,
+    );
+  }
+
+  /**
+   * Remove every cached entry
+   */
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  /**
+   * Get the directory this cache writes to
+   */
+  getDirectory(): string {
+    return this.dir;
+  }
+
+  private entryPath(namespace: string, key: string): string {
+    return join(
+      this.dir,
+      this.sanitize(namespace),
+      `${this.sanitize(key.toLowerCase())}.json`,
+    );
+  }
+
+  /**
+   * Make a string safe to use as a single path segment
+   */
+  private sanitize(segment: string): string {
+    return segment.replace(/[^a-z0-9_-]/gi, "_");
+  }
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { decodeGif, isGif } from "./gifDecoder.js";
+import type { DecodedImage } from "./pngDecoder.js";
+
+// Four colors: black, red, green, blue
+const PALETTE = [0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255];
+
+interface TestFrame {
+  pixels: number[];
+  left?: number;
+  top?: number;
+  width?: number;
+  height?: number;
+  delay?: number; // Hundredths of a second
+  disposal?: number;
+  transparent?: number;
+  interlace?: boolean;
+  codes?: Array<[number, number]>; // Pre-encoded [code, bit size] pairs
+}
+
+/**
+ * Pack variable-size codes, least significant bit first
+ */
+function packCodes(codes: Array<[number, number]>): number[] {
+  const bytes: number[] = [];
+  let bits = 0;
+  let count = 0;
+  for (const [code, size] of codes) {
+    bits |= code << count;
+    count += size;
+    while (count >= 8) {
+      bytes.push(bits & 0xff);
+      bits >>= 8;
+      count -= 8;
+    }
+  }
+  if (count > 0) {
+    bytes.push(bits);
+  }
+  return bytes;
+}
+
+/**
+ * Encode indices without compression: a clear code before every pixel
+ * keeps all codes 3 bits wide
+ */
+function uncompressed(pixels: number[]): Array<[number, number]> {
+  const codes: Array<[number, number]> = [];
+  for (const pixel of pixels) {
+    codes.push([4, 3], [pixel, 3]);
+  }
+  return [...codes, [5, 3]];
+}
+
+function createGif(width: number, height: number, frames: TestFrame[]) {
+  const bytes = [
+    ...Buffer.from("GIF89a"),
+    width & 0xff,
+    width >> 8,
+    height & 0xff,
+    height >> 8,
+    0x81, // Global color table of 4 entries
+    0,
+    0,
+    ...PALETTE,
+  ];
+
+  for (const frame of frames) {
+    const transparent = frame.transparent ?? -1;
+    bytes.push(0x21, 0xf9, 4);
+    bytes.push(((frame.disposal ?? 0) << 2) | (transparent >= 0 ? 1 : 0));
+    bytes.push((frame.delay ?? 10) & 0xff, 0, Math.max(0, transparent), 0);
+
+    const frameWidth = frame.width ?? width;
+    const frameHeight = frame.height ?? height;
+    bytes.push(0x2c, frame.left ?? 0, 0, frame.top ?? 0, 0);
+    bytes.push(frameWidth, 0, frameHeight, 0, frame.interlace ? 0x40 : 0);
+
+    const data = packCodes(frame.codes ?? uncompressed(frame.pixels));
+    bytes.push(2, data.length, ...data, 0);
+  }
+
+  bytes.push(0x3b);
+  return Buffer.from(bytes);
+}
+
+function pixelAt(image: DecodedImage, x: number, y: number) {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+describe("decodeGif", () => {
+  it("should decode frames with their delays", () => {
+    const animation = decodeGif(
+      createGif(2, 1, [
+        { pixels: [1, 2], delay: 5 },
+        { pixels: [3, 0], delay: 0 },
+      ]),
+    );
+
+    expect(animation.width).toBe(2);
+    expect(animation.frames).toHaveLength(2);
+    expect(pixelAt(animation.frames[0].image, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(animation.frames[1].image, 0, 0)).toEqual([0, 0, 255, 255]);
+    expect(animation.frames[0].delay).toBe(50);
+    // Tiny delays are shown for 100ms, like browsers do
+    expect(animation.frames[1].delay).toBe(100);
+  });
+
+  it("should stop after the requested number of frames", () => {
+    const animation = decodeGif(
+      createGif(2, 1, [
+        { pixels: [1, 2], delay: 5 },
+        { pixels: [3, 0], delay: 0 },
+      ]),
+      1,
+    );
+
+    expect(animation.frames).toHaveLength(1);
+    expect(pixelAt(animation.frames[0].image, 0, 0)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("should leave transparent pixels clear", () => {
+    const [frame] = decodeGif(
+      createGif(2, 1, [{ pixels: [0, 1], transparent: 0 }]),
+    ).frames;
+
+    expect(pixelAt(frame.image, 0, 0)).toEqual([0, 0, 0, 0]);
+    expect(pixelAt(frame.image, 1, 0)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("should composite partial frames onto the previous one", () => {
+    const { frames } = decodeGif(
+      createGif(2, 1, [
+        { pixels: [1, 1] },
+        { pixels: [2], left: 1, width: 1 },
+      ]),
+    );
+
+    expect(pixelAt(frames[1].image, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(frames[1].image, 1, 0)).toEqual([0, 255, 0, 255]);
+  });
+
+  it("should honor the restore to background disposal", () => {
+    const { frames } = decodeGif(
+      createGif(2, 1, [
+        { pixels: [1, 1], disposal: 2 },
+        { pixels: [2], left: 1, width: 1 },
+      ]),
+    );
+
+    expect(pixelAt(frames[1].image, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("should decompress LZW codes from the string table", () => {
+    // "000000" compresses to 0, "00", "000"; the code size grows at 8
+    const [frame] = decodeGif(
+      createGif(6, 1, [
+        {
+          pixels: [],
+          codes: [
+            [4, 3],
+            [2, 3],
+            [6, 3],
+            [7, 3],
+            [5, 4],
+          ],
+        },
+      ]),
+    ).frames;
+
+    for (let x = 0; x < 6; x++) {
+      expect(pixelAt(frame.image, x, 0)).toEqual([0, 255, 0, 255]);
+    }
+  });
+
+  it("should reorder interlaced rows", () => {
+    // Stored as rows 0, 2, 1, 3
+    const [frame] = decodeGif(
+      createGif(1, 4, [{ pixels: [0, 2, 1, 3], interlace: true }]),
+    ).frames;
+
+    expect([0, 1, 2, 3].map((y) => pixelAt(frame.image, 0, y)[0])).toEqual([
+      0, 255, 0, 0,
+    ]);
+    expect(pixelAt(frame.image, 0, 2)).toEqual([0, 255, 0, 255]);
+  });
+
+  it("should reject other formats", () => {
+    expect(isGif(Buffer.from("\x89PNG"))).toBe(false);
+    expect(() => decodeGif(Buffer.from("not a gif"))).toThrow(
+      "Not a GIF image",
+    );
+  });
+});
@@ -0,0 +1,307 @@
+import type { DecodedImage } from "./pngDecoder.js";
+
+/**
+ * A fully composited frame and how long to show it
+ */
+export interface AnimationFrame {
+  image: DecodedImage;
+  delay: number; // Milliseconds
+}
+
+/**
+ * A decoded (possibly single-frame) animation
+ */
+export interface DecodedAnimation {
+  width: number;
+  height: number;
+  frames: AnimationFrame[];
+}
+
+// Browsers show frames with tiny delays for 100ms; animated sprites rely
+// on it
+const MIN_DELAY = 20;
+const DEFAULT_DELAY = 100;
+
+/**
+ * Row order of the four interlacing passes: start row and step
+ */
+const INTERLACE_PASSES = [
+  [0, 8],
+  [4, 8],
+  [2, 4],
+  [1, 2],
+];
+
+/**
+ * Graphic Control Extension of the next frame
+ */
+interface FrameControl {
+  disposal: number;
+  delay: number;
+  transparentIndex: number;
+}
+
+/**
+ * Check whether a buffer holds a GIF image
+ */
+export function isGif(buffer: Uint8Array): boolean {
+  return String.fromCharCode(...buffer.subarray(0, 4)) === "GIF8";
+}
+
+/**
+ * Decode a GIF into RGBA frames
+ *
+ * Each frame is composited onto the previous ones according to its
+ * disposal method, so frames can be shown on their own.
+ *
+ * @param maxFrames - Stop after this many frames, e.g. 1 for a still image
+ * @throws Error if the data is not a valid GIF
+ */
+export function decodeGif(
+  buffer: Uint8Array,
+  maxFrames: number = Infinity,
+): DecodedAnimation {
+  if (!isGif(buffer) || buffer.length < 13) {
+    throw new Error("Not a GIF image");
+  }
+
+  const width = readUint16(buffer, 6);
+  const height = readUint16(buffer, 8);
+  const packed = buffer[10];
+  let offset = 13;
+
+  let globalPalette: Uint8Array | undefined;
+  if (packed & 0x80) {
+    const size = 3 * (1 << ((packed & 7) + 1));
+    globalPalette = buffer.subarray(offset, offset + size);
+    offset += size;
+  }
+
+  const canvas = new Uint8Array(width * height * 4);
+  const frames: AnimationFrame[] = [];
+  let control: FrameControl = { disposal: 0, delay: 0, transparentIndex: -1 };
+
+  while (offset < buffer.length && frames.length < maxFrames) {
+    const block = buffer[offset++];
+
+    if (block === 0x21) {
+      // Extension: only the Graphic Control Extension matters
+      const label = buffer[offset++];
+      if (label === 0xf9) {
+        const flags = buffer[offset + 1];
+        control = {
+          disposal: (flags >> 2) & 7,
+          delay: readUint16(buffer, offset + 2) * 10,
+          transparentIndex: flags & 1 ? buffer[offset + 4] : -1,
+        };
+      }
+      offset = skipSubBlocks(buffer, offset);
+    } else if (block === 0x2c) {
+      const left = readUint16(buffer, offset);
+      const top = readUint16(buffer, offset + 2);
+      const frameWidth = readUint16(buffer, offset + 4);
+      const frameHeight = readUint16(buffer, offset + 6);
+      const flags = buffer[offset + 8];
+      offset += 9;
+
+      let palette = globalPalette;
+      if (flags & 0x80) {
+        const size = 3 * (1 << ((flags & 7) + 1));
+        palette = buffer.subarray(offset, offset + size);
+        offset += size;
+      }
+
+      const minCodeSize = buffer[offset++];
+      const end = skipSubBlocks(buffer, offset);
+      const indices = decodeLzw(
+        readSubBlocks(buffer, offset, end),
+        minCodeSize,
+        frameWidth * frameHeight,
+      );
+      offset = end;
+
+      const rows = flags & 0x40 ? interlacedRows(frameHeight) : undefined;
+      const previous = control.disposal === 3 ? canvas.slice() : undefined;
+
+      for (let y = 0; y < frameHeight; y++) {
+        const canvasY = top + (rows ? rows[y] : y);
+        for (let x = 0; x < frameWidth; x++) {
+          const index = indices[y * frameWidth + x];
+          const canvasX = left + x;
+          if (
+            index === control.transparentIndex ||
+            canvasX >= width ||
+            canvasY >= height
+          ) {
+            continue;
+          }
+
+          const target = (canvasY * width + canvasX) * 4;
+          canvas[target] = palette?.[index * 3] ?? 0;
+          canvas[target + 1] = palette?.[index * 3 + 1] ?? 0;
+          canvas[target + 2] = palette?.[index * 3 + 2] ?? 0;
+          canvas[target + 3] = 255;
+        }
+      }
+
+      frames.push({
+        image: { width, height, data: canvas.slice() },
+        delay: control.delay < MIN_DELAY ? DEFAULT_DELAY : control.delay,
+      });
+
+      // Prepare the canvas for the next frame
+      if (control.disposal === 2) {
+        for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+          const start = (y * width + left) * 4;
+          const length = Math.min(frameWidth, width - left) * 4;
+          canvas.fill(0, start, start + length);
+        }
+      } else if (previous) {
+        canvas.set(previous);
+      }
+      control = { disposal: 0, delay: 0, transparentIndex: -1 };
+    } else {
+      // Trailer (0x3b) or garbage
+      break;
+    }
+  }
+
+  if (frames.length === 0) {
+    throw new Error("Invalid GIF: no image data");
+  }
+
+  return { width, height, frames };
+}
+
+/**
+ * Decompress GIF LZW data into color indices
+ */
+function decodeLzw(
+  data: Uint8Array,
+  minCodeSize: number,
+  pixelCount: number,
+): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+
+  for (let code = 0; code < clearCode; code++) {
+    suffix[code] = code;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let first = 0;
+  let bits = 0;
+  let bitCount = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < pixelCount) {
+    while (bitCount < codeSize) {
+      if (position >= data.length) {
+        return output;
+      }
+      bits |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+
+    const code = bits & ((1 << codeSize) - 1);
+    bits >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+    if (previous === -1) {
+      output[written++] = suffix[code];
+      previous = first = code;
+      continue;
+    }
+
+    // Walk the string back to its first index; a code not yet in the
+    // table is the previous string plus its own first index
+    let top = 0;
+    let current = code;
+    if (code >= nextCode) {
+      stack[top++] = first;
+      current = previous;
+    }
+    while (current > endCode) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    stack[top++] = current;
+    first = current;
+
+    while (top > 0 && written < pixelCount) {
+      output[written++] = stack[--top];
+    }
+
+    if (nextCode < 4096) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first;
+      nextCode++;
+      if (nextCode === 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+    previous = code;
+  }
+
+  return output;
+}
+
+/**
+ * Map each stored row of an interlaced image to its display row
+ */
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of INTERLACE_PASSES) {
+    for (let y = start; y < height; y += step) {
+      rows.push(y);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Skip a sequence of data sub-blocks, returning the offset after it
+ */
+function skipSubBlocks(buffer: Uint8Array, offset: number): number {
+  while (offset < buffer.length && buffer[offset] !== 0) {
+    offset += buffer[offset] + 1;
+  }
+  return offset + 1;
+}
+
+/**
+ * Concatenate the data of the sub-blocks between two offsets
+ */
+function readSubBlocks(
+  buffer: Uint8Array,
+  start: number,
+  end: number,
+): Uint8Array {
+  const parts: Uint8Array[] = [];
+  for (let offset = start; offset < end - 1; ) {
+    const size = buffer[offset];
+    parts.push(buffer.subarray(offset + 1, offset + 1 + size));
+    offset += size + 1;
+  }
+  return Buffer.concat(parts);
+}
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodeKittyImage,
+  deleteKittyImage,
+  encodeITerm2Image,
+  encodeSixelImage,
+  getPixelScale,
+} from "./graphicsProtocols.js";
+import type { DecodedImage } from "./pngDecoder.js";
+
+const RED = [255, 0, 0, 255];
+const CLEAR = [0, 0, 0, 0];
+
+function createImage(width: number, pixels: number[][]): DecodedImage {
+  return {
+    width,
+    height: pixels.length / width,
+    data: Uint8Array.from(pixels.flat()),
+  };
+}
+
+describe("encodeKittyImage", () => {
+  it("should transmit a PNG in a single chunk with placement size", () => {
+    const output = encodeKittyImage(Uint8Array.from([1, 2, 3]), 7, 20, 10);
+
+    expect(output).toBe(
+      "\x1b_Ga=T,f=100,i=7,c=20,r=10,C=1,q=2,m=0;AQID\x1b\\",
+    );
+  });
+
+  it("should split large images into 4096 byte chunks", () => {
+    const output = encodeKittyImage(new Uint8Array(4000), 1, 10, 5);
+    const chunks = output.split("\x1b\\").filter(Boolean);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toContain("m=1;");
+    expect(chunks[1]).toMatch(/^\x1b_Gm=0;/);
+  });
+
+  it("should delete an image by id", () => {
+    expect(deleteKittyImage(7)).toBe("\x1b_Ga=d,d=I,i=7,q=2\x1b\\");
+  });
+});
+
+describe("encodeITerm2Image", () => {
+  it("should send the file inline with its cell size", () => {
+    expect(encodeITerm2Image(Uint8Array.from([1, 2, 3]), 20, 10)).toBe(
+      "\x1b]1337;File=inline=1;size=3;width=20;height=10;" +
+        "preserveAspectRatio=1:AQID\x07",
+    );
+  });
+});
+
+describe("getPixelScale", () => {
+  it("should use whole-number scales for small images", () => {
+    expect(getPixelScale({ width: 96, height: 96 }, 400, 300)).toBe(3);
+  });
+
+  it("should shrink images larger than the area", () => {
+    expect(getPixelScale({ width: 200, height: 100 }, 100, 100)).toBe(0.5);
+  });
+});
+
+describe("encodeSixelImage", () => {
+  it("should encode pixels and leave transparent ones unset", () => {
+    const output = encodeSixelImage(createImage(2, [RED, CLEAR]), 2, 1);
+
+    expect(output).toBe(
+      '\x1bP0;1;0q"1;1;2;1#180;2;100;0;0#180@?-\x1b\\',
+    );
+  });
+
+  it("should run-length encode repeated columns", () => {
+    const output = encodeSixelImage(createImage(1, [RED]), 8, 1);
+
+    expect(output).toContain("#180!8@-");
+  });
+
+  it("should pack six pixel rows into each band", () => {
+    const output = encodeSixelImage(createImage(1, [RED]), 1, 7);
+
+    // Six set bits, then a second band with one
+    expect(output).toContain("#180~-#180@-");
+  });
+});
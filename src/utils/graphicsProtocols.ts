@@ -0,0 +1,193 @@
+import type { DecodedImage } from "./pngDecoder.js";
+
+/**
+ * Assumed size of a terminal cell in pixels, for Sixel output
+ *
+ * Terminals do not report it reliably through the environment; 10x20 is
+ * the common default and matches the 1:2 cell ratio used elsewhere.
+ */
+export const SIXEL_CELL_SIZE = { width: 10, height: 20 };
+
+const KITTY_CHUNK_SIZE = 4096;
+
+/**
+ * Transmit and display a PNG with the Kitty graphics protocol
+ *
+ * The image is scaled by the terminal to `columns` x `rows` cells at the
+ * cursor position. The cursor is not moved (C=1) and responses are
+ * suppressed (q=2) so they do not end up in blessed's input stream.
+ */
+export function encodeKittyImage(
+  png: Uint8Array,
+  id: number,
+  columns: number,
+  rows: number,
+): string {
+  const data = Buffer.from(png).toString("base64");
+  const chunks: string[] = [];
+
+  for (let offset = 0; offset < data.length; offset += KITTY_CHUNK_SIZE) {
+    const chunk = data.slice(offset, offset + KITTY_CHUNK_SIZE);
+    const more = offset + KITTY_CHUNK_SIZE < data.length ? 1 : 0;
+    const control =
+      offset === 0
+        ? `a=T,f=100,i=${id},c=${columns},r=${rows},C=1,q=2,m=${more}`
+        : `m=${more}`;
+    chunks.push(`\x1b_G${control};${chunk}\x1b\\`);
+  }
+
+  return chunks.join("");
+}
+
+/**
+ * Delete a Kitty image and free its data
+ */
+export function deleteKittyImage(id: number): string {
+  return `\x1b_Ga=d,d=I,i=${id},q=2\x1b\\`;
+}
+
+/**
+ * Display an image inline with the iTerm2 protocol (also used by WezTerm)
+ */
+export function encodeITerm2Image(
+  png: Uint8Array,
+  columns: number,
+  rows: number,
+): string {
+  const data = Buffer.from(png).toString("base64");
+  return (
+    `\x1b]1337;File=inline=1;size=${png.length};width=${columns};` +
+    `height=${rows};preserveAspectRatio=1:${data}\x07`
+  );
+}
+
+/**
+ * Largest whole-number scale of an image that fits the given pixel size
+ *
+ * Pixel art stays crisp when every source pixel becomes a square block.
+ * Images larger than the area are shrunk instead.
+ */
+export function getPixelScale(
+  image: { width: number; height: number },
+  maxWidth: number,
+  maxHeight: number,
+): number {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return scale >= 1 ? Math.floor(scale) : scale;
+}
+
+/**
+ * Encode an image as Sixel graphics
+ *
+ * Pixels are scaled with nearest neighbour and matched to a 6x6x6 color
+ * cube. Pixels with less than half opacity are left transparent.
+ */
+export function encodeSixelImage(
+  image: DecodedImage,
+  width: number,
+  height: number,
+): string {
+  const indices = new Int16Array(width * height).fill(-1);
+  const used = new Set<number>();
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(
+      image.height - 1,
+      Math.floor((y * image.height) / height),
+    );
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(
+        image.width - 1,
+        Math.floor((x * image.width) / width),
+      );
+      const offset = (sourceY * image.width + sourceX) * 4;
+      if (image.data[offset + 3] < 128) {
+        continue;
+      }
+
+      const index =
+        toCubeLevel(image.data[offset]) * 36 +
+        toCubeLevel(image.data[offset + 1]) * 6 +
+        toCubeLevel(image.data[offset + 2]);
+      indices[y * width + x] = index;
+      used.add(index);
+    }
+  }
+
+  // P2=1 keeps unset pixels transparent; the raster is 1:1 pixel aspect
+  const parts = [`\x1bP0;1;0q"1;1;${width};${height}`];
+
+  for (const index of used) {
+    const r = toPercent(Math.floor(index / 36));
+    const g = toPercent(Math.floor(index / 6) % 6);
+    const b = toPercent(index % 6);
+    parts.push(`#${index};2;${r};${g};${b}`);
+  }
+
+  // Each sixel row covers six pixel rows
+  for (let band = 0; band < height; band += 6) {
+    const colors: string[] = [];
+    for (const index of used) {
+      const row = encodeSixelRow(indices, index, band, width, height);
+      if (row) {
+        colors.push(`#${index}${row}`);
+      }
+    }
+    parts.push(colors.join("$") + "-");
+  }
+
+  parts.push("\x1b\\");
+  return parts.join("");
+}
+
+/**
+ * Encode one color of a six-pixel band, run-length compressed
+ *
+ * Returns an empty string when the color does not appear in the band.
+ */
+function encodeSixelRow(
+  indices: Int16Array,
+  color: number,
+  band: number,
+  width: number,
+  height: number,
+): string {
+  const symbols: number[] = [];
+  let found = false;
+
+  for (let x = 0; x < width; x++) {
+    let bits = 0;
+    for (let bit = 0; bit < 6 && band + bit < height; bit++) {
+      if (indices[(band + bit) * width + x] === color) {
+        bits |= 1 << bit;
+      }
+    }
+    found ||= bits !== 0;
+    symbols.push(bits);
+  }
+
+  if (!found) {
+    return "";
+  }
+
+  let output = "";
+  for (let x = 0; x < symbols.length; ) {
+    let run = 1;
+    while (x + run < symbols.length && symbols[x + run] === symbols[x]) {
+      run++;
+    }
+    const char = String.fromCharCode(63 + symbols[x]);
+    output += run > 3 ? `!${run}${char}` : char.repeat(run);
+    x += run;
+  }
+
+  return output;
+}
+
+function toCubeLevel(value: number): number {
+  return Math.round((value / 255) * 5);
+}
+
+function toPercent(level: number): number {
+  return Math.round((level / 5) * 100);
+}
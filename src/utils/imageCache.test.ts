@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, readdir, unlink, utimes } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ImageCache } from "./imageCache.js";
+
+const URL_A = "https://example.com/sprites/pokemon/25.png";
+const URL_B = "https://example.com/sprites/pokemon/other/25.png";
+
+describe("ImageCache", () => {
+  let dir: string;
+  let cache: ImageCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "poclidex-image-cache-"));
+    cache = new ImageCache(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("images", () => {
+    it("should store and retrieve image bytes", async () => {
+      const path = await cache.setImage(URL_A, Buffer.from("png data"));
+
+      expect(path).toMatch(/blobs[\\/][0-9a-f]{64}\.png$/);
+      expect(await cache.getImagePath(URL_A)).toBe(path);
+      expect((await cache.getImage(URL_A))?.toString()).toBe("png data");
+    });
+
+    it("should return undefined for unknown URLs", async () => {
+      expect(await cache.getImage(URL_A)).toBeUndefined();
+    });
+
+    it("should store identical content once", async () => {
+      await cache.setImage(URL_A, Buffer.from("same"));
+      await cache.setImage(URL_B, Buffer.from("same"));
+
+      expect(await readdir(join(dir, "blobs"))).toHaveLength(1);
+      expect((await cache.getImage(URL_B))?.toString()).toBe("same");
+    });
+
+    it("should treat a missing blob as a miss", async () => {
+      const path = await cache.setImage(URL_A, Buffer.from("png data"));
+      await unlink(path!);
+
+      expect(await cache.getImagePath(URL_A)).toBeUndefined();
+    });
+  });
+
+  describe("renders", () => {
+    it("should store rendered output by key", async () => {
+      await cache.setRender(`${URL_A}-40-20-rgb`, "\x1b[31mred\x1b[0m");
+
+      expect(await cache.getRender(`${URL_A}-40-20-rgb`)).toBe(
+        "\x1b[31mred\x1b[0m",
+      );
+      expect(await cache.getRender(`${URL_A}-40-20-din99d`)).toBeUndefined();
+    });
+
+    it("should store other values", async () => {
+      await cache.setRender("delays", [100, 50]);
+
+      expect(await cache.getRender<number[]>("delays")).toEqual([100, 50]);
+    });
+  });
+
+  describe("size limit", () => {
+    /**
+     * Write renders of about 100 bytes each, one day apart
+     */
+    async function writeRenders(keys: string[]): Promise<void> {
+      const written: string[] = [];
+      for (const [index, key] of keys.entries()) {
+        await cache.setRender(key, "x".repeat(50));
+        const file = (await readdir(join(dir, "renders"))).find(
+          (name) => !written.includes(name),
+        )!;
+        written.push(file);
+        const time = new Date(2020, 0, index + 1);
+        await utimes(join(dir, "renders", file), time, time);
+      }
+    }
+
+    it("should delete the oldest renders beyond the limit", async () => {
+      // Two entries fit
+      cache = new ImageCache(dir, 250);
+      await writeRenders(["old", "middle", "new"]);
+
+      await cache.pruneRenders();
+
+      expect(await cache.getRender("old")).toBeUndefined();
+      expect(await cache.getRender("middle")).toBe("x".repeat(50));
+      expect(await cache.getRender("new")).toBe("x".repeat(50));
+    });
+
+    it("should keep recently read renders", async () => {
+      cache = new ImageCache(dir, 250);
+      await writeRenders(["old", "middle", "new"]);
+
+      await cache.getRender("old");
+      await cache.pruneRenders();
+
+      expect(await cache.getRender("old")).toBe("x".repeat(50));
+      expect(await cache.getRender("middle")).toBeUndefined();
+      expect(await cache.getRender("new")).toBe("x".repeat(50));
+    });
+
+    it("should ignore a missing renders directory", async () => {
+      await expect(cache.pruneRenders()).resolves.toBeUndefined();
+    });
+  });
+
+  it("should clear everything", async () => {
+    await cache.setImage(URL_A, Buffer.from("png data"));
+    await cache.setRender("key", "output");
+    await cache.clear();
+
+    expect(await cache.getImage(URL_A)).toBeUndefined();
+    expect(await cache.getRender("key")).toBeUndefined();
+  });
+});
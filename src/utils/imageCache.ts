@@ -0,0 +1,188 @@
+import { createHash } from "crypto";
+import {
+  access,
+  readFile,
+  readdir,
+  stat,
+  writeFile,
+  mkdir,
+  rm,
+} from "fs/promises";
+import { extname, join } from "path";
+import { DiskCache, getCacheDir } from "./diskCache.js";
+
+/**
+ * Default size limit of the rendered output on disk (100 MB)
+ */
+export const DEFAULT_MAX_RENDER_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Check the size of the renders after this many writes
+ */
+const PRUNE_INTERVAL = 100;
+
+/**
+ * Persistent cache for downloaded images and their rendered output
+ *
+ * Layout:
+ * - <dir>/blobs/<sha256>.<ext>: image files, named after their content so
+ *   identical sprites (shared by several games or forms) are stored once
+ * - <dir>/urls/: URL to content hash index
+ * - <dir>/renders/: rendered ANSI output, keyed by every render parameter
+ *
+ * Sprites never change once published, so entries do not expire. Renders
+ * (one per frame, size and render mode) are capped in size instead, and the
+ * least recently used are deleted first. Like DiskCache, write failures
+ * are swallowed.
+ */
+export class ImageCache {
+  private dir: string;
+  private index: DiskCache;
+  private maxRenderBytes: number;
+  private rendersSincePrune = 0;
+
+  constructor(
+    dir: string = join(getCacheDir(), "images"),
+    maxRenderBytes: number = DEFAULT_MAX_RENDER_BYTES,
+  ) {
+    this.dir = dir;
+    this.index = new DiskCache(dir, Infinity);
+    this.maxRenderBytes = maxRenderBytes;
+  }
+
+  /**
+   * Path of the cached file of an image URL, if it was downloaded before
+   */
+  async getImagePath(url: string): Promise<string | undefined> {
+    const hash = await this.index.get<string>("urls", hashKey(url));
+    if (!hash) {
+      return undefined;
+    }
+
+    const path = this.blobPath(hash, url);
+    try {
+      await access(path);
+      return path;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the cached bytes of an image URL
+   */
+  async getImage(url: string): Promise<Buffer | undefined> {
+    const path = await this.getImagePath(url);
+    return path ? readFile(path).catch(() => undefined) : undefined;
+  }
+
+  /**
+   * Store a downloaded image
+   *
+   * @returns The path of the stored file, or undefined if it could not
+   * be written
+   */
+  async setImage(url: string, data: Buffer): Promise<string | undefined> {
+    const hash = createHash("sha256").update(data).digest("hex");
+    const path = this.blobPath(hash, url);
+
+    try {
+      await mkdir(join(this.dir, "blobs"), { recursive: true });
+      await writeFile(path, data);
+    } catch {
+      return undefined;
+    }
+
+    await this.index.set("urls", hashKey(url), hash);
+    return path;
+  }
+
+  /**
+   * Read a rendered output
+   *
+   * A hit refreshes the entry's modification time, so pruning deletes the
+   * least recently used renders first.
+   */
+  async getRender<T = string>(key: string): Promise<T | undefined> {
+    const output = await this.index.get<T>("renders", hashKey(key));
+    if (output !== undefined) {
+      await this.index.touch("renders", hashKey(key));
+    }
+    return output;
+  }
+
+  /**
+   * Store a rendered output
+   */
+  async setRender<T = string>(key: string, output: T): Promise<void> {
+    await this.index.set("renders", hashKey(key), output);
+
+    if (++this.rendersSincePrune >= PRUNE_INTERVAL) {
+      this.rendersSincePrune = 0;
+      await this.pruneRenders();
+    }
+  }
+
+  /**
+   * Delete the least recently used renders until they fit in the size
+   * limit
+   */
+  async pruneRenders(): Promise<void> {
+    const dir = join(this.dir, "renders");
+    let files: Array<{ path: string; size: number; modified: number }>;
+    try {
+      files = await Promise.all(
+        (await readdir(dir)).map(async (name) => {
+          const info = await stat(join(dir, name));
+          return {
+            path: join(dir, name),
+            size: info.size,
+            modified: info.mtimeMs,
+          };
+        }),
+      );
+    } catch {
+      return; // Nothing rendered yet, or a file vanished while listing
+    }
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    files.sort((a, b) => a.modified - b.modified);
+    for (const file of files) {
+      if (total <= this.maxRenderBytes) {
+        break;
+      }
+      await rm(file.path, { force: true }).catch(() => undefined);
+      total -= file.size;
+    }
+  }
+
+  /**
+   * Remove every cached image and render
+   */
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  /**
+   * Get the directory this cache writes to
+   */
+  getDirectory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Blob path of a content hash, keeping the URL's extension so tools
+   * like chafa can recognize the format
+   */
+  private blobPath(hash: string, url: string): string {
+    const extension = extname(url.split("?")[0]) || ".img";
+    return join(this.dir, "blobs", `${hash}${extension}`);
+  }
+}
+
+/**
+ * Turn an arbitrary string into a fixed-length file name
+ */
+function hashKey(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
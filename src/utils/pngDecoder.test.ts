@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "zlib";
+import { decodePng } from "./pngDecoder.js";
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/**
+ * Build a PNG chunk (the decoder does not check CRCs)
+ */
+function chunk(type: string, data: number[] | Uint8Array): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "ascii");
+  return Buffer.concat([header, Buffer.from(data), Buffer.alloc(4)]);
+}
+
+function createPng(options: {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  rows: number[][]; // Filter byte followed by the row data
+  interlace?: number;
+  extra?: Buffer[];
+}): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(options.width, 0);
+  ihdr.writeUInt32BE(options.height, 4);
+  ihdr[8] = options.bitDepth;
+  ihdr[9] = options.colorType;
+  ihdr[12] = options.interlace ?? 0;
+
+  return Buffer.concat([
+    Buffer.from(SIGNATURE),
+    chunk("IHDR", ihdr),
+    ...(options.extra ?? []),
+    chunk("IDAT", deflateSync(Buffer.from(options.rows.flat()))),
+    chunk("IEND", []),
+  ]);
+}
+
+function pixelAt(image: ReturnType<typeof decodePng>, x: number, y: number) {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+describe("decodePng", () => {
+  it("should decode RGBA pixels", () => {
+    const image = decodePng(
+      createPng({
+        width: 2,
+        height: 1,
+        bitDepth: 8,
+        colorType: 6,
+        rows: [[0, 255, 0, 0, 255, 0, 0, 255, 128]],
+      }),
+    );
+
+    expect(image.width).toBe(2);
+    expect(pixelAt(image, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(image, 1, 0)).toEqual([0, 0, 255, 128]);
+  });
+
+  it("should reverse every row filter", () => {
+    // RGB, 2x4: Sub, Up, Average and Paeth rows all decode to the same row
+    const image = decodePng(
+      createPng({
+        width: 2,
+        height: 4,
+        bitDepth: 8,
+        colorType: 2,
+        rows: [
+          [1, 10, 20, 30, 5, 5, 5],
+          [2, 0, 0, 0, 0, 0, 0],
+          [3, 5, 10, 15, 3, 3, 3],
+          [4, 0, 0, 0, 0, 0, 0],
+        ],
+      }),
+    );
+
+    for (let y = 0; y < 4; y++) {
+      expect(pixelAt(image, 0, y)).toEqual([10, 20, 30, 255]);
+      expect(pixelAt(image, 1, y)).toEqual([15, 25, 35, 255]);
+    }
+  });
+
+  it("should decode 4-bit palettes with tRNS transparency", () => {
+    const image = decodePng(
+      createPng({
+        width: 3,
+        height: 1,
+        bitDepth: 4,
+        colorType: 3,
+        rows: [[0, 0x01, 0x20]],
+        extra: [
+          chunk("PLTE", [0, 0, 0, 255, 255, 255, 200, 100, 50]),
+          chunk("tRNS", [0]),
+        ],
+      }),
+    );
+
+    expect(pixelAt(image, 0, 0)).toEqual([0, 0, 0, 0]);
+    expect(pixelAt(image, 1, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(image, 2, 0)).toEqual([200, 100, 50, 255]);
+  });
+
+  it("should scale low bit depth grayscale", () => {
+    const image = decodePng(
+      createPng({
+        width: 4,
+        height: 1,
+        bitDepth: 2,
+        colorType: 0,
+        rows: [[0, 0b00011011]],
+      }),
+    );
+
+    expect([0, 1, 2, 3].map((x) => pixelAt(image, x, 0)[0])).toEqual([
+      0, 85, 170, 255,
+    ]);
+  });
+
+  it("should place Adam7 interlaced pixels", () => {
+    // 2x2 grayscale: pass 1 has (0,0), pass 6 has (1,0), pass 7 row 1
+    const image = decodePng(
+      createPng({
+        width: 2,
+        height: 2,
+        bitDepth: 8,
+        colorType: 0,
+        interlace: 1,
+        rows: [[0, 10], [0, 20], [0, 30, 40]],
+      }),
+    );
+
+    expect([
+      pixelAt(image, 0, 0)[0],
+      pixelAt(image, 1, 0)[0],
+      pixelAt(image, 0, 1)[0],
+      pixelAt(image, 1, 1)[0],
+    ]).toEqual([10, 20, 30, 40]);
+  });
+
+  it("should reject data that is not a PNG", () => {
+    expect(() => decodePng(Buffer.from("GIF89a"))).toThrow("Not a PNG");
+  });
+});
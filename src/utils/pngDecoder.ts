@@ -0,0 +1,257 @@
+import { inflateSync } from "zlib";
+
+/**
+ * A decoded image with 8-bit RGBA pixels, row by row
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/**
+ * Samples per pixel for each PNG color type
+ */
+const CHANNELS: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  3: 1, // Palette index
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+};
+
+/**
+ * Adam7 interlacing passes: start x/y and step x/y
+ */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+/**
+ * Decode a PNG file into RGBA pixels
+ *
+ * Supports every color type and bit depth of the PNG spec, palette and
+ * tRNS transparency, and Adam7 interlacing. 16-bit samples are reduced
+ * to 8 bits.
+ *
+ * @throws Error if the data is not a valid PNG
+ */
+export function decodePng(buffer: Uint8Array): DecodedImage {
+  if (!PNG_SIGNATURE.every((byte, i) => buffer[i] === byte)) {
+    throw new Error("Not a PNG image");
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset);
+  let header: PngHeader | undefined;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const imageData: Uint8Array[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(
+      ...buffer.subarray(offset + 4, offset + 8),
+    );
+    const dataStart = offset + 8;
+    const data = buffer.subarray(dataStart, dataStart + length);
+    offset += length + 12; // Length, type and CRC
+
+    if (type === "IHDR") {
+      header = {
+        width: view.getUint32(dataStart),
+        height: view.getUint32(dataStart + 4),
+        bitDepth: data[8],
+        colorType: data[9],
+        interlace: data[12],
+      };
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      imageData.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!header || imageData.length === 0) {
+    throw new Error("Invalid PNG: missing header or image data");
+  }
+  if (CHANNELS[header.colorType] === undefined) {
+    throw new Error(`Unsupported PNG color type: ${header.colorType}`);
+  }
+
+  const raw = inflateSync(Buffer.concat(imageData));
+  const pixels = new Uint8Array(header.width * header.height * 4);
+  const passes = header.interlace === 1 ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let position = 0;
+
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const passWidth = Math.ceil((header.width - startX) / stepX);
+    const passHeight = Math.ceil((header.height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+
+    const rows = unfilter(raw, position, passWidth, passHeight, header);
+    position += rows.consumed;
+
+    rows.lines.forEach((line, y) => {
+      for (let x = 0; x < passWidth; x++) {
+        const target =
+          ((startY + y * stepY) * header.width + startX + x * stepX) * 4;
+        writePixel(line, x, header, palette, transparency, pixels, target);
+      }
+    });
+  }
+
+  return { width: header.width, height: header.height, data: pixels };
+}
+
+/**
+ * Reverse the per-row filters of one (sub)image
+ */
+function unfilter(
+  raw: Uint8Array,
+  start: number,
+  width: number,
+  height: number,
+  header: PngHeader,
+): { lines: Uint8Array[]; consumed: number } {
+  const bitsPerPixel = CHANNELS[header.colorType] * header.bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const lines: Uint8Array[] = [];
+  let previous = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = start + y * (stride + 1);
+    const filter = raw[rowStart];
+    const line = raw.slice(rowStart + 1, rowStart + 1 + stride);
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bytesPerPixel ? line[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+      if (filter === 1) {
+        line[i] += left;
+      } else if (filter === 2) {
+        line[i] += up;
+      } else if (filter === 3) {
+        line[i] += (left + up) >> 1;
+      } else if (filter === 4) {
+        line[i] += paeth(left, up, upLeft);
+      }
+    }
+
+    lines.push(line);
+    previous = line;
+  }
+
+  return { lines, consumed: height * (stride + 1) };
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distLeft = Math.abs(estimate - left);
+  const distUp = Math.abs(estimate - up);
+  const distUpLeft = Math.abs(estimate - upLeft);
+
+  if (distLeft <= distUp && distLeft <= distUpLeft) return left;
+  if (distUp <= distUpLeft) return up;
+  return upLeft;
+}
+
+/**
+ * Read the raw value of a sample (0 to 2^bitDepth - 1)
+ */
+function readSample(
+  line: Uint8Array,
+  index: number,
+  bitDepth: number,
+): number {
+  if (bitDepth === 8) {
+    return line[index];
+  }
+  if (bitDepth === 16) {
+    return (line[index * 2] << 8) | line[index * 2 + 1];
+  }
+
+  const bit = index * bitDepth;
+  const shift = 8 - bitDepth - (bit & 7);
+  return (line[bit >> 3] >> shift) & ((1 << bitDepth) - 1);
+}
+
+/**
+ * Convert the pixel at `x` of a line to RGBA
+ */
+function writePixel(
+  line: Uint8Array,
+  x: number,
+  header: PngHeader,
+  palette: Uint8Array | undefined,
+  transparency: Uint8Array | undefined,
+  pixels: Uint8Array,
+  target: number,
+): void {
+  const { bitDepth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const samples: number[] = [];
+  for (let c = 0; c < channels; c++) {
+    samples.push(readSample(line, x * channels + c, bitDepth));
+  }
+
+  const max = (1 << bitDepth) - 1;
+  const scale = (value: number) => Math.round((value * 255) / max);
+  let rgba: number[];
+
+  if (colorType === 3) {
+    const index = samples[0];
+    rgba = [
+      palette?.[index * 3] ?? 0,
+      palette?.[index * 3 + 1] ?? 0,
+      palette?.[index * 3 + 2] ?? 0,
+      transparency?.[index] ?? 255,
+    ];
+  } else if (colorType === 0 || colorType === 4) {
+    const gray = scale(samples[0]);
+    const transparent =
+      colorType === 0 &&
+      transparency !== undefined &&
+      samples[0] === readUint16(transparency, 0);
+    const alpha = colorType === 4 ? scale(samples[1]) : transparent ? 0 : 255;
+    rgba = [gray, gray, gray, alpha];
+  } else {
+    const transparent =
+      colorType === 2 &&
+      transparency !== undefined &&
+      samples.every((value, c) => value === readUint16(transparency, c * 2));
+    const alpha = colorType === 6 ? scale(samples[3]) : transparent ? 0 : 255;
+    rgba = [scale(samples[0]), scale(samples[1]), scale(samples[2]), alpha];
+  }
+
+  pixels.set(rgba, target);
+}
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
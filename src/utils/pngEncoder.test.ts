@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { encodePng } from "./pngEncoder.js";
+import { decodePng } from "./pngDecoder.js";
+
+describe("encodePng", () => {
+  it("should round-trip RGBA pixels through the decoder", () => {
+    const image = {
+      width: 2,
+      height: 2,
+      data: Uint8Array.from([
+        255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 255,
+      ]),
+    };
+
+    expect(decodePng(encodePng(image))).toEqual(image);
+  });
+
+  it("should write valid chunk checksums", () => {
+    const png = encodePng({ width: 1, height: 1, data: new Uint8Array(4) });
+
+    // CRC-32 of "IEND" with no data
+    expect(png.subarray(-4).toString("hex")).toBe("ae426082");
+  });
+});
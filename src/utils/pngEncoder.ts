@@ -0,0 +1,63 @@
+import { deflateSync } from "zlib";
+import type { DecodedImage } from "./pngDecoder.js";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Encode RGBA pixels as a PNG file (8-bit RGBA, no filtering)
+ */
+export function encodePng(image: DecodedImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // RGBA
+
+  // Each row starts with filter type 0 (none)
+  const stride = image.width * 4;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    raw.set(
+      image.data.subarray(y * stride, (y + 1) * stride),
+      y * (stride + 1) + 1,
+    );
+  }
+
+  return Buffer.concat([
+    Buffer.from(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const output = Buffer.alloc(data.length + 12);
+  output.writeUInt32BE(data.length, 0);
+  output.write(type, 4, "ascii");
+  data.copy(output, 8);
+  const crc = crc32(output.subarray(4, 8 + data.length));
+  output.writeUInt32BE(crc, 8 + data.length);
+  return output;
+}
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { parseSearchQuery, compare } from "./searchQuery.js";
+
+describe("parseSearchQuery", () => {
+  it("should treat plain words as fuzzy text", () => {
+    expect(parseSearchQuery("pika")).toEqual({
+      text: "pika",
+      predicates: [],
+      errors: [],
+    });
+  });
+
+  it("should parse the full example query", () => {
+    const parsed = parseSearchQuery(
+      "type:fire gen:1 bst>500 ability:levitate speed>=100 -legendary",
+    );
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.text).toBe("");
+    expect(parsed.predicates).toEqual([
+      { kind: "type", value: "fire", negate: false },
+      { kind: "generation", operator: "=", value: 1, negate: false },
+      { kind: "stat", stat: "bst", operator: ">", value: 500, negate: false },
+      { kind: "ability", value: "levitate", negate: false },
+      {
+        kind: "stat",
+        stat: "speed",
+        operator: ">=",
+        value: 100,
+        negate: false,
+      },
+      { kind: "legendary", negate: true },
+    ]);
+  });
+
+  it("should combine predicates with leftover text", () => {
+    const parsed = parseSearchQuery("type:ghost gen");
+
+    expect(parsed.text).toBe("gen");
+    expect(parsed.predicates).toHaveLength(1);
+  });
+
+  it("should resolve stat aliases", () => {
+    const { predicates } = parseSearchQuery(
+      "hp=50 atk>1 def>1 spa>1 spd>1 spe>1 total<600",
+    );
+    const stats = predicates.map((p) => (p.kind === "stat" ? p.stat : p.kind));
+
+    expect(stats).toEqual([
+      "hp",
+      "attack",
+      "defense",
+      "special-attack",
+      "special-defense",
+      "speed",
+      "bst",
+    ]);
+  });
+
+  it("should parse hyphenated stat names", () => {
+    expect(parseSearchQuery("sp-atk<=60").predicates[0]).toEqual({
+      kind: "stat",
+      stat: "special-attack",
+      operator: "<=",
+      value: 60,
+      negate: false,
+    });
+  });
+
+  it("should normalize quoted ability names", () => {
+    expect(parseSearchQuery('ability:"Flash Fire"').predicates[0]).toEqual({
+      kind: "ability",
+      value: "flash-fire",
+      negate: false,
+    });
+  });
+
+  it("should accept is:legendary and is:mythical", () => {
+    expect(parseSearchQuery("is:legendary -is:mythical").predicates).toEqual([
+      { kind: "legendary", negate: false },
+      { kind: "mythical", negate: true },
+    ]);
+  });
+
+  it("should be case-insensitive", () => {
+    expect(parseSearchQuery("TYPE:Fire Legendary").predicates).toEqual([
+      { kind: "type", value: "fire", negate: false },
+      { kind: "legendary", negate: false },
+    ]);
+  });
+
+  it("should keep hyphenated Pokemon names as text", () => {
+    expect(parseSearchQuery("ho-oh").text).toBe("ho-oh");
+  });
+
+  it("should report unknown types", () => {
+    const parsed = parseSearchQuery("type:plasma");
+
+    expect(parsed.predicates).toEqual([]);
+    expect(parsed.errors).toEqual(['Unknown type "plasma"']);
+  });
+
+  it("should report unknown filters", () => {
+    expect(parseSearchQuery("color:red").errors).toEqual([
+      'Unknown filter "color"',
+    ]);
+  });
+
+  it("should report invalid numbers and generations", () => {
+    expect(parseSearchQuery("bst>lots").errors).toHaveLength(1);
+    expect(parseSearchQuery("gen:10").errors).toHaveLength(1);
+  });
+
+  it("should report negated text", () => {
+    expect(parseSearchQuery("-pikachu").errors).toHaveLength(1);
+  });
+
+  it("should treat a lone dash as text", () => {
+    expect(parseSearchQuery("-").text).toBe("-");
+  });
+});
+
+describe("compare", () => {
+  it("should apply every operator", () => {
+    expect(compare(100, "=", 100)).toBe(true);
+    expect(compare(101, ">", 100)).toBe(true);
+    expect(compare(100, ">", 100)).toBe(false);
+    expect(compare(100, ">=", 100)).toBe(true);
+    expect(compare(99, "<", 100)).toBe(true);
+    expect(compare(101, "<=", 100)).toBe(false);
+  });
+});
@@ -0,0 +1,225 @@
+import { POKEMON_TYPES } from "../constants/pokemonTypes.js";
+
+/**
+ * Comparison operators accepted in numeric predicates (`:` is parsed as `=`)
+ */
+export type ComparisonOperator = "=" | ">" | ">=" | "<" | "<=";
+
+/**
+ * Stats that can be queried, using PokeAPI stat names ("bst" = base stat total)
+ */
+export type QueryStat =
+  | "hp"
+  | "attack"
+  | "defense"
+  | "special-attack"
+  | "special-defense"
+  | "speed"
+  | "bst";
+
+/**
+ * A single structured predicate from a search query
+ */
+export type QueryPredicate =
+  | { kind: "type"; value: string; negate: boolean }
+  | { kind: "ability"; value: string; negate: boolean }
+  | {
+      kind: "generation";
+      operator: ComparisonOperator;
+      value: number;
+      negate: boolean;
+    }
+  | {
+      kind: "stat";
+      stat: QueryStat;
+      operator: ComparisonOperator;
+      value: number;
+      negate: boolean;
+    }
+  | { kind: "legendary" | "mythical"; negate: boolean };
+
+/**
+ * Result of parsing a search query
+ */
+export interface ParsedSearchQuery {
+  /** Free text left over for fuzzy name matching */
+  text: string;
+  predicates: QueryPredicate[];
+  /** Human-readable problems with tokens that were ignored */
+  errors: string[];
+}
+
+/**
+ * Stat keywords and their aliases
+ */
+const STAT_ALIASES: Record<string, QueryStat> = {
+  hp: "hp",
+  atk: "attack",
+  attack: "attack",
+  def: "defense",
+  defense: "defense",
+  spa: "special-attack",
+  spatk: "special-attack",
+  "sp-atk": "special-attack",
+  "special-attack": "special-attack",
+  spd: "special-defense",
+  spdef: "special-defense",
+  "sp-def": "special-defense",
+  "special-defense": "special-defense",
+  spe: "speed",
+  speed: "speed",
+  bst: "bst",
+  total: "bst",
+};
+
+const FLAG_KEYWORDS = ["legendary", "mythical"] as const;
+
+/**
+ * Tokens: bare words and `key<op>value` pairs, with optional quoted values
+ */
+const TOKEN_PATTERN = /(?:[^\s"]+|"[^"]*")+/g;
+const PREDICATE_PATTERN = /^([a-z][a-z-]*?)(>=|<=|>|<|=|:)(.+)$/i;
+
+/**
+ * Normalize a name value to PokeAPI form ("Flash Fire" → "flash-fire")
+ */
+function normalizeName(value: string): string {
+  return value
+    .replace(/"/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-");
+}
+
+function parseNumber(value: string): number | undefined {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : undefined;
+}
+
+/**
+ * Parse a search query such as `type:fire gen:1 bst>500 -legendary char`
+ *
+ * Supported predicates (any can be negated with a leading `-`):
+ * - `type:<type>` - has the type
+ * - `ability:<ability>` - can have the ability
+ * - `gen<op><n>` - introduced in generation n
+ * - `<stat><op><n>` - base stat comparison (hp, atk, def, spa, spd, spe, bst)
+ * - `legendary`, `mythical` (or `is:legendary`, `is:mythical`)
+ *
+ * Remaining words are used as fuzzy name text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const words: string[] = [];
+  const predicates: QueryPredicate[] = [];
+  const errors: string[] = [];
+
+  for (const token of query.match(TOKEN_PATTERN) ?? []) {
+    const negate = token.length > 1 && token.startsWith("-");
+    const body = negate ? token.slice(1) : token;
+    const keyword = body.toLowerCase();
+
+    // Bare flags: "legendary", "-mythical"
+    if ((FLAG_KEYWORDS as readonly string[]).includes(keyword)) {
+      predicates.push({
+        kind: keyword as (typeof FLAG_KEYWORDS)[number],
+        negate,
+      });
+      continue;
+    }
+
+    const match = body.match(PREDICATE_PATTERN);
+    if (!match) {
+      if (negate) {
+        errors.push(`"${token}": only filters can be negated`);
+      } else {
+        words.push(body);
+      }
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    const operator: ComparisonOperator =
+      match[2] === ":" ? "=" : (match[2] as ComparisonOperator);
+    const rawValue = match[3];
+    const equalityOnly = operator === "=";
+
+    if (key === "type" || key === "t") {
+      const value = normalizeName(rawValue);
+      if (!equalityOnly) {
+        errors.push(`"${token}": use type:<type>`);
+      } else if (!(POKEMON_TYPES as readonly string[]).includes(value)) {
+        errors.push(`Unknown type "${rawValue}"`);
+      } else {
+        predicates.push({ kind: "type", value, negate });
+      }
+    } else if (key === "ability" || key === "a") {
+      if (!equalityOnly) {
+        errors.push(`"${token}": use ability:<ability>`);
+      } else {
+        predicates.push({
+          kind: "ability",
+          value: normalizeName(rawValue),
+          negate,
+        });
+      }
+    } else if (key === "is") {
+      const value = rawValue.toLowerCase();
+      if (
+        equalityOnly &&
+        (FLAG_KEYWORDS as readonly string[]).includes(value)
+      ) {
+        predicates.push({
+          kind: value as (typeof FLAG_KEYWORDS)[number],
+          negate,
+        });
+      } else {
+        errors.push(`"${token}": use is:legendary or is:mythical`);
+      }
+    } else if (key === "gen" || key === "generation" || key === "g") {
+      const value = parseNumber(rawValue);
+      if (value === undefined || value < 1 || value > 9) {
+        errors.push(`"${token}": generation must be 1-9`);
+      } else {
+        predicates.push({ kind: "generation", operator, value, negate });
+      }
+    } else if (Object.hasOwn(STAT_ALIASES, key)) {
+      const value = parseNumber(rawValue);
+      if (value === undefined) {
+        errors.push(`"${token}": expected a number`);
+      } else {
+        predicates.push({
+          kind: "stat",
+          stat: STAT_ALIASES[key],
+          operator,
+          value,
+          negate,
+        });
+      }
+    } else {
+      errors.push(`Unknown filter "${match[1]}"`);
+    }
+  }
+
+  return { text: words.join(" "), predicates, errors };
+}
+
+/**
+ * Compare a value using a query operator
+ */
+export function compare(
+  actual: number,
+  operator: ComparisonOperator,
+  expected: number,
+): boolean {
+  switch (operator) {
+    case "=":
+      return actual === expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+  }
+}
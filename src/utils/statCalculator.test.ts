@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateStat,
+  calculateLegacyStat,
+  calculateStats,
+  calculateStatRange,
+  getHpDV,
+  type StatTable,
+} from "./statCalculator.js";
+import { NATURES, getNature, getNatureModifier } from "../constants/natures.js";
+
+const GARCHOMP: StatTable = {
+  hp: 108,
+  attack: 130,
+  defense: 95,
+  specialAttack: 80,
+  specialDefense: 85,
+  speed: 102,
+};
+
+function fill(value: number): StatTable {
+  return {
+    hp: value,
+    attack: value,
+    defense: value,
+    specialAttack: value,
+    specialDefense: value,
+    speed: value,
+  };
+}
+
+describe("natures", () => {
+  it("should list all 25 natures with 5 neutral ones", () => {
+    expect(NATURES).toHaveLength(25);
+    expect(NATURES.filter((n) => !n.increased)).toHaveLength(5);
+  });
+
+  it("should raise and lower stats by 10%", () => {
+    const adamant = getNature("Adamant")!;
+
+    expect(getNatureModifier(adamant, "attack")).toBe(1.1);
+    expect(getNatureModifier(adamant, "specialAttack")).toBe(0.9);
+    expect(getNatureModifier(adamant, "speed")).toBe(1);
+    expect(getNature("unknown")).toBeUndefined();
+  });
+});
+
+describe("statCalculator", () => {
+  describe("calculateStat (Gen 3+)", () => {
+    it("should calculate HP", () => {
+      expect(calculateStat("hp", 108, 31, 0, 100)).toBe(357);
+      expect(calculateStat("hp", 108, 31, 252, 50)).toBe(215);
+    });
+
+    it("should apply natures after the base calculation", () => {
+      // Jolly Garchomp: 252 Speed EVs
+      expect(calculateStat("speed", 102, 31, 252, 100, 1.1)).toBe(333);
+      expect(calculateStat("attack", 130, 31, 252, 100)).toBe(359);
+      expect(calculateStat("specialAttack", 80, 0, 0, 100, 0.9)).toBe(148);
+    });
+
+    it("should always give Shedinja 1 HP", () => {
+      expect(calculateStat("hp", 1, 31, 252, 100)).toBe(1);
+    });
+  });
+
+  describe("calculateLegacyStat (Gen 1-2)", () => {
+    it("should match maxed stats from the original games", () => {
+      // Mewtwo Special (base 154) and Chansey HP (base 250) at level 100
+      expect(calculateLegacyStat("specialAttack", 154, 15, 65535, 100)).toBe(
+        406,
+      );
+      expect(calculateLegacyStat("hp", 250, 15, 65535, 100)).toBe(703);
+    });
+
+    it("should ignore Stat Exp below the first threshold", () => {
+      expect(calculateLegacyStat("attack", 100, 0, 0, 100)).toBe(205);
+      expect(calculateLegacyStat("attack", 100, 0, 1, 100)).toBe(205);
+    });
+  });
+
+  describe("getHpDV", () => {
+    it("should combine the lowest bit of each DV", () => {
+      expect(getHpDV(fill(15))).toBe(15);
+      expect(getHpDV({ ...fill(0), attack: 1, speed: 3 })).toBe(10);
+    });
+  });
+
+  describe("calculateStats", () => {
+    it("should calculate a full Gen 3+ spread", () => {
+      const result = calculateStats(
+        GARCHOMP,
+        {
+          level: 100,
+          nature: getNature("jolly"),
+          ivs: fill(31),
+          evs: { ...fill(0), attack: 252, speed: 252, hp: 4 },
+        },
+        9,
+      );
+
+      expect(result).toEqual({
+        hp: 358,
+        attack: 359,
+        defense: 226,
+        specialAttack: 176,
+        specialDefense: 206,
+        speed: 333,
+      });
+    });
+
+    it("should derive the HP DV and share Special inputs in Gen 2", () => {
+      const result = calculateStats(
+        GARCHOMP,
+        {
+          level: 100,
+          ivs: { ...fill(15), attack: 14, specialDefense: 0 },
+          evs: { ...fill(0), specialDefense: 65535 },
+        },
+        2,
+      );
+
+      // HP DV is 7 (Attack DV is even); Sp. Def uses the Special DV 15
+      expect(result.hp).toBe(calculateLegacyStat("hp", 108, 7, 0, 100));
+      expect(result.specialDefense).toBe(
+        calculateLegacyStat("specialDefense", 85, 15, 0, 100),
+      );
+    });
+  });
+
+  describe("calculateStatRange", () => {
+    it("should span a hindered 0 IV stat to a boosted max stat", () => {
+      expect(calculateStatRange("speed", 102, 100, 9)).toEqual({
+        min: 188,
+        max: 333,
+      });
+      expect(calculateStatRange("hp", 108, 50, 9)).toEqual({
+        min: 168,
+        max: 215,
+      });
+    });
+
+    it("should use DVs and Stat Exp in Gen 1-2", () => {
+      expect(calculateStatRange("hp", 250, 100, 1)).toEqual({
+        min: 610,
+        max: 703,
+      });
+    });
+  });
+});
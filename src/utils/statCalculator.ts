@@ -0,0 +1,185 @@
+import type { PokemonDisplay } from "../models/pokemon.js";
+import { getNatureModifier, type Nature } from "../constants/natures.js";
+
+/**
+ * Final stat calculation for the stat calculator
+ *
+ * Gen 3+ uses IVs (0-31), EVs (0-252, 510 total) and natures.
+ * Gen 1-2 use DVs (0-15, with the HP DV derived from the others) and
+ * Stat Experience (0-65535), and have no natures. Gen 1 has a single
+ * Special stat; Gen 2 splits it but Sp. Atk and Sp. Def share one DV and
+ * one Stat Exp value.
+ */
+
+/**
+ * A value per stat, keyed like `PokemonDisplay.stats`
+ */
+export type StatTable = PokemonDisplay["stats"];
+export type StatKey = keyof StatTable;
+
+export const STAT_KEYS: StatKey[] = [
+  "hp",
+  "attack",
+  "defense",
+  "specialAttack",
+  "specialDefense",
+  "speed",
+];
+
+export const MIN_LEVEL = 1;
+export const MAX_LEVEL = 100;
+export const MAX_IV = 31;
+export const MAX_EV = 252;
+export const MAX_EV_TOTAL = 510;
+export const MAX_DV = 15;
+export const MAX_STAT_EXP = 65535;
+
+/**
+ * Calculator inputs. In Gen 1-2, `ivs` hold DVs and `evs` Stat Exp.
+ */
+export interface StatCalculatorInput {
+  level: number;
+  nature?: Nature; // Ignored in Gen 1-2
+  ivs: StatTable;
+  evs: StatTable;
+}
+
+/**
+ * Lowest and highest value a stat can reach at a level
+ */
+export interface StatRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Whether a generation uses the DV / Stat Exp formula
+ */
+export function usesLegacyFormula(generation: number): boolean {
+  return generation <= 2;
+}
+
+/**
+ * Calculate a stat with the Gen 3+ formula
+ *
+ * Shedinja (base HP 1) always has 1 HP.
+ */
+export function calculateStat(
+  stat: StatKey,
+  base: number,
+  iv: number,
+  ev: number,
+  level: number,
+  natureModifier: number = 1,
+): number {
+  const core = Math.floor(
+    ((2 * base + iv + Math.floor(ev / 4)) * level) / 100,
+  );
+
+  if (stat === "hp") {
+    return base === 1 ? 1 : core + level + 10;
+  }
+
+  // Integer percentages avoid float rounding (e.g. 90 * 1.1)
+  return Math.floor(((core + 5) * Math.round(natureModifier * 100)) / 100);
+}
+
+/**
+ * Calculate a stat with the Gen 1-2 formula
+ */
+export function calculateLegacyStat(
+  stat: StatKey,
+  base: number,
+  dv: number,
+  statExp: number,
+  level: number,
+): number {
+  // The games cap the Stat Exp bonus at sqrt 255, i.e. +63 before scaling
+  const statExpBonus = Math.floor(
+    Math.min(255, Math.ceil(Math.sqrt(statExp))) / 4,
+  );
+  const core = Math.floor((((base + dv) * 2 + statExpBonus) * level) / 100);
+
+  return stat === "hp" ? core + level + 10 : core + 5;
+}
+
+/**
+ * Derive the HP DV from the lowest bit of the other DVs
+ */
+export function getHpDV(dvs: StatTable): number {
+  return (
+    ((dvs.attack & 1) << 3) |
+    ((dvs.defense & 1) << 2) |
+    ((dvs.speed & 1) << 1) |
+    (dvs.specialAttack & 1)
+  );
+}
+
+/**
+ * Calculate every final stat for a generation
+ *
+ * In Gen 1-2 the HP DV is derived from the other DVs and Sp. Def reuses
+ * the Sp. Atk (Special) DV and Stat Exp. In Gen 1 pass the Special base
+ * stat as both `specialAttack` and `specialDefense`.
+ */
+export function calculateStats(
+  baseStats: StatTable,
+  input: StatCalculatorInput,
+  generation: number,
+): StatTable {
+  const result = {} as StatTable;
+
+  for (const stat of STAT_KEYS) {
+    if (usesLegacyFormula(generation)) {
+      const source = stat === "specialDefense" ? "specialAttack" : stat;
+      const dv = stat === "hp" ? getHpDV(input.ivs) : input.ivs[source];
+      result[stat] = calculateLegacyStat(
+        stat,
+        baseStats[stat],
+        dv,
+        input.evs[source],
+        input.level,
+      );
+    } else {
+      const modifier = input.nature
+        ? getNatureModifier(input.nature, stat)
+        : 1;
+      result[stat] = calculateStat(
+        stat,
+        baseStats[stat],
+        input.ivs[stat],
+        input.evs[stat],
+        input.level,
+        modifier,
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Calculate the lowest and highest possible value of a stat at a level
+ *
+ * Gen 3+: 0 IVs/EVs with a hindering nature up to 31 IVs, 252 EVs and a
+ * beneficial nature. Gen 1-2: 0 DVs/Stat Exp up to 15 DVs and max Stat Exp.
+ */
+export function calculateStatRange(
+  stat: StatKey,
+  base: number,
+  level: number,
+  generation: number,
+): StatRange {
+  if (usesLegacyFormula(generation)) {
+    return {
+      min: calculateLegacyStat(stat, base, 0, 0, level),
+      max: calculateLegacyStat(stat, base, MAX_DV, MAX_STAT_EXP, level),
+    };
+  }
+
+  const isHp = stat === "hp";
+  return {
+    min: calculateStat(stat, base, 0, 0, level, isHp ? 1 : 0.9),
+    max: calculateStat(stat, base, MAX_IV, MAX_EV, level, isHp ? 1 : 1.1),
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  detectGraphicsProtocol,
+  isGraphicsProtocol,
+} from "./terminalDetection.js";
+
+describe("detectGraphicsProtocol", () => {
+  beforeEach(() => {
+    // Start from a plain terminal
+    vi.stubEnv("POKEDEX_GRAPHICS", undefined);
+    vi.stubEnv("TERM", "xterm-256color");
+    vi.stubEnv("TERM_PROGRAM", undefined);
+    vi.stubEnv("KITTY_WINDOW_ID", undefined);
+    vi.stubEnv("TMUX", undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should fall back to none on unknown terminals", () => {
+    expect(detectGraphicsProtocol()).toBe("none");
+  });
+
+  it("should detect Kitty", () => {
+    vi.stubEnv("KITTY_WINDOW_ID", "1");
+    expect(detectGraphicsProtocol()).toBe("kitty");
+  });
+
+  it("should detect iTerm2 and WezTerm", () => {
+    vi.stubEnv("TERM_PROGRAM", "iTerm.app");
+    expect(detectGraphicsProtocol()).toBe("iterm2");
+
+    vi.stubEnv("TERM_PROGRAM", "WezTerm");
+    expect(detectGraphicsProtocol()).toBe("iterm2");
+  });
+
+  it("should detect Sixel terminals", () => {
+    vi.stubEnv("TERM", "foot");
+    expect(detectGraphicsProtocol()).toBe("sixel");
+  });
+
+  it("should use symbols inside tmux", () => {
+    vi.stubEnv("KITTY_WINDOW_ID", "1");
+    vi.stubEnv("TMUX", "/tmp/tmux-1000/default,1,0");
+    expect(detectGraphicsProtocol()).toBe("none");
+  });
+
+  it("should honor the POKEDEX_GRAPHICS override", () => {
+    vi.stubEnv("KITTY_WINDOW_ID", "1");
+    vi.stubEnv("POKEDEX_GRAPHICS", "Sixel");
+    expect(detectGraphicsProtocol()).toBe("sixel");
+  });
+
+  it("should ignore unknown overrides", () => {
+    vi.stubEnv("POKEDEX_GRAPHICS", "vt340");
+    expect(detectGraphicsProtocol()).toBe("none");
+  });
+});
+
+describe("isGraphicsProtocol", () => {
+  it("should accept known protocols only", () => {
+    expect(isGraphicsProtocol("iterm2")).toBe(true);
+    expect(isGraphicsProtocol("none")).toBe(true);
+    expect(isGraphicsProtocol("ascii")).toBe(false);
+  });
+});
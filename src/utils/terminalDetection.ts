@@ -85,6 +85,60 @@ export function getChafaColorMode(): "full" | "256" | "16" | "8" {
   return "8";
 }
 
+/**
+ * Inline image protocols, or "none" for symbol (text) rendering
+ */
+export const GRAPHICS_PROTOCOLS = ["kitty", "iterm2", "sixel", "none"] as const;
+export type GraphicsProtocol = (typeof GRAPHICS_PROTOCOLS)[number];
+
+/**
+ * Check whether a string names a graphics protocol
+ */
+export function isGraphicsProtocol(value: string): value is GraphicsProtocol {
+  return (GRAPHICS_PROTOCOLS as readonly string[]).includes(value);
+}
+
+/**
+ * Determine which inline image protocol the terminal supports
+ *
+ * Honors the POKEDEX_GRAPHICS override, then recognizes terminals from
+ * their environment. Terminal multiplexers do not pass the escape
+ * sequences through by default, so tmux and screen get "none".
+ */
+export function detectGraphicsProtocol(): GraphicsProtocol {
+  const override = process.env.POKEDEX_GRAPHICS?.toLowerCase();
+  if (override && isGraphicsProtocol(override)) {
+    return override;
+  }
+
+  const term = process.env.TERM || "";
+  const termProgram = process.env.TERM_PROGRAM || "";
+
+  if (process.env.TMUX || term.startsWith("screen")) {
+    return "none";
+  }
+  if (
+    process.env.KITTY_WINDOW_ID ||
+    term === "xterm-kitty" ||
+    termProgram === "ghostty"
+  ) {
+    return "kitty";
+  }
+  if (termProgram === "iTerm.app" || termProgram === "WezTerm") {
+    return "iterm2";
+  }
+  if (
+    term.startsWith("foot") ||
+    term.startsWith("mlterm") ||
+    termProgram === "mlterm" ||
+    termProgram === "contour"
+  ) {
+    return "sixel";
+  }
+
+  return "none";
+}
+
 /**
  * Log terminal capabilities for debugging
  */
@@ -109,6 +163,14 @@ export function logTerminalInfo(): void {
     `  tput colors:  ${caps.tputColors > 0 ? caps.tputColors : "(unavailable)"}`,
   );
   console.log("");
+  console.log("Graphics Protocol:");
+  console.log(`  Selected:     ${detectGraphicsProtocol()}`);
+  if (process.env.POKEDEX_GRAPHICS) {
+    console.log(
+      `  Override:     ${process.env.POKEDEX_GRAPHICS} (via POKEDEX_GRAPHICS env var)`,
+    );
+  }
+  console.log("");
   console.log("Chafa Color Mode:");
   console.log(`  Selected:     ${detectedMode}`);
 
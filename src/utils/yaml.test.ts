@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { toYaml } from "./yaml.js";
+
+describe("toYaml", () => {
+  it("writes nested objects and arrays in block style", () => {
+    const yaml = toYaml({
+      name: "pikachu",
+      id: 25,
+      types: ["electric"],
+      stats: { hp: 35, speed: 90 },
+    });
+
+    expect(yaml).toBe(
+      [
+        "name: pikachu",
+        "id: 25",
+        "types:",
+        "  - electric",
+        "stats:",
+        "  hp: 35",
+        "  speed: 90",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("starts objects inside arrays on the dash line", () => {
+    const yaml = toYaml({ abilities: [{ name: "static", isHidden: false }] });
+
+    expect(yaml).toBe(
+      ["abilities:", "  - name: static", "    isHidden: false", ""].join(
+        "\n",
+      ),
+    );
+  });
+
+  it("writes empty collections and null inline", () => {
+    expect(toYaml({ list: [], map: {}, value: null })).toBe(
+      "list: []\nmap: {}\nvalue: null\n",
+    );
+  });
+
+  it("skips undefined values", () => {
+    expect(toYaml({ a: 1, b: undefined })).toBe("a: 1\n");
+  });
+
+  it("quotes strings that would be read as another type", () => {
+    const yaml = toYaml({
+      bool: "yes",
+      number: "25",
+      colon: "Lv. 16: Ivysaur",
+      empty: "",
+    });
+
+    expect(yaml).toBe(
+      [
+        'bool: "yes"',
+        'number: "25"',
+        'colon: "Lv. 16: Ivysaur"',
+        'empty: ""',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("serializes a top-level scalar", () => {
+    expect(toYaml("mr. mime")).toBe("mr. mime\n");
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Serialize JSON-compatible data as a YAML document
+ *
+ * Covers what poclidex outputs (objects, arrays, strings, numbers,
+ * booleans and null) in block style. Strings that could be read back as
+ * another type are double-quoted, which YAML parses like JSON strings.
+ * Undefined object values are skipped, as in JSON.stringify.
+ */
+export function toYaml(value: unknown): string {
+  if (isInline(value)) {
+    return `${formatScalar(value)}\n`;
+  }
+  return block(value, 0).join("\n") + "\n";
+}
+
+/**
+ * Empty collections and scalars are written on the same line as their key
+ */
+function isInline(value: unknown): boolean {
+  if (value === null || typeof value !== "object") {
+    return true;
+  }
+  return Array.isArray(value)
+    ? value.length === 0
+    : Object.keys(value).length === 0;
+}
+
+function block(value: unknown, depth: number): string[] {
+  const indent = "  ".repeat(depth);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isInline(item)) {
+        lines.push(`${indent}- ${formatScalar(item)}`);
+        continue;
+      }
+
+      // Nested collections start on the dash line
+      const nested = block(item, depth + 1);
+      nested[0] = `${indent}- ${nested[0].trimStart()}`;
+      lines.push(...nested);
+    }
+    return lines;
+  }
+
+  for (const [key, item] of Object.entries(value as object)) {
+    if (item === undefined) {
+      continue;
+    }
+    if (isInline(item)) {
+      lines.push(`${indent}${formatString(key)}: ${formatScalar(item)}`);
+    } else {
+      lines.push(`${indent}${formatString(key)}:`, ...block(item, depth + 1));
+    }
+  }
+  return lines;
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "[]";
+  }
+  if (typeof value === "object") {
+    return "{}";
+  }
+  if (typeof value === "string") {
+    return formatString(value);
+  }
+  return String(value);
+}
+
+/**
+ * Leave plain words unquoted; quote anything YAML could misread
+ */
+function formatString(value: string): string {
+  const plain =
+    /^[A-Za-z][\w .'/()-]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    !/^(true|false|null|yes|no|on|off|y|n)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}